@@ -0,0 +1,293 @@
+/**
+ * DuoCode Code Runner
+ *
+ * Self-hostable execution service for the languages that compile or run on a
+ * server: C, C++ and Go (in place of Compiler Explorer and the Go Playground,
+ * on networks that can't reach them) and Java, Kotlin, Rust, C#, Swift, Scala
+ * and PHP, which have no in-browser runtime. The app uses it when the
+ * deployment sets window.CODE_RUNNER_URL or registers a runner backend (see
+ * src/services/runtime-backends.ts). Languages whose toolchain isn't
+ * installed are left out of /health and refused.
+ *
+ * It compiles and runs whatever code it is sent. Run it in a container or VM
+ * of its own (see runner.Dockerfile), never next to anything you care about.
+ */
+
+const http = require('http');
+const fs = require('fs/promises');
+const os = require('os');
+const path = require('path');
+const { spawn, spawnSync } = require('child_process');
+
+const PORT = process.env.RUNNER_PORT || 3002;
+const ALLOWED_ORIGINS = process.env.ALLOWED_ORIGINS
+    ? process.env.ALLOWED_ORIGINS.split(',')
+    : ['http://localhost:3000', 'http://127.0.0.1:3000'];
+
+const MAX_BODY_SIZE = 1024 * 1024; // 1MB of source and stdin
+const MAX_OUTPUT_SIZE = 100000; // 100KB per stream
+const MAX_TIMEOUT = 30000; // ms, for running; compiling has its own
+const COMPILE_TIMEOUT = 60000; // JVM compilers are slow to start
+const MAX_CONCURRENT_RUNS = Number(process.env.RUNNER_MAX_CONCURRENT) || 4;
+const MAX_MEMORY_MB = Number(process.env.RUNNER_MEMORY_LIMIT_MB) || 512;
+
+// Native programs get a data-segment limit (a virtual memory one breaks Go
+// and Rust binaries, which reserve far more address space than they use)
+function native(command) {
+    return (memoryMb) => ['sh', '-c', `ulimit -d ${memoryMb * 1024} && exec "$@"`, 'sh', ...command];
+}
+
+// Source file, the tool that must be installed, and the compile and run
+// commands (run takes the memory limit in MB), all inside a fresh temp dir
+const LANGUAGES = {
+    c: {
+        file: 'main.c',
+        tool: 'gcc',
+        compile: ['gcc', '-O2', '-o', 'main', 'main.c', '-lm'],
+        run: native(['./main']),
+    },
+    cpp: {
+        file: 'main.cpp',
+        tool: 'g++',
+        compile: ['g++', '-O2', '-std=c++17', '-o', 'main', 'main.cpp'],
+        run: native(['./main']),
+    },
+    go: {
+        file: 'main.go',
+        tool: 'go',
+        compile: ['go', 'build', '-o', 'main', 'main.go'],
+        run: native(['./main']),
+    },
+    java: {
+        file: 'Main.java',
+        tool: 'javac',
+        compile: ['javac', 'Main.java'],
+        run: (memoryMb) => ['java', `-Xmx${memoryMb}m`, '-cp', '.', 'Main'],
+    },
+    kotlin: {
+        file: 'main.kt',
+        tool: 'kotlinc',
+        compile: ['kotlinc', 'main.kt', '-include-runtime', '-d', 'main.jar'],
+        run: (memoryMb) => ['java', `-Xmx${memoryMb}m`, '-jar', 'main.jar'],
+    },
+    rust: {
+        file: 'main.rs',
+        tool: 'rustc',
+        compile: ['rustc', '-O', '-o', 'main', 'main.rs'],
+        run: native(['./main']),
+    },
+    csharp: {
+        file: 'main.cs',
+        tool: 'mcs',
+        compile: ['mcs', '-out:main.exe', 'main.cs'],
+        run: native(['mono', 'main.exe']),
+    },
+    swift: {
+        file: 'main.swift',
+        tool: 'swiftc',
+        compile: ['swiftc', '-O', '-o', 'main', 'main.swift'],
+        run: native(['./main']),
+    },
+    scala: {
+        file: 'main.scala',
+        tool: 'scalac',
+        compile: ['scalac', 'main.scala'],
+        run: (memoryMb) => ['scala', `-J-Xmx${memoryMb}m`, '-cp', '.', 'Main'],
+    },
+    php: {
+        file: 'main.php',
+        tool: 'php',
+        compile: null,
+        run: (memoryMb) => ['php', '-d', `memory_limit=${memoryMb}M`, 'main.php'],
+    },
+};
+
+function isInstalled(tool) {
+    return spawnSync('sh', ['-c', `command -v ${tool}`], { stdio: 'ignore' }).status === 0;
+}
+
+const AVAILABLE = Object.keys(LANGUAGES).filter((language) => isInstalled(LANGUAGES[language].tool));
+
+let activeRuns = 0;
+
+/**
+ * Run a process to completion, feeding it stdin and killing it, and whatever
+ * it started, after `timeout` ms. Output beyond MAX_OUTPUT_SIZE is dropped.
+ */
+function runProcess([command, ...args], { cwd, stdin = '', timeout }) {
+    return new Promise((resolve) => {
+        // In a process group of its own, so a timeout kills its children too;
+        // one left holding stdout open would keep 'close' from firing
+        const child = spawn(command, args, { cwd, detached: true });
+        const output = { stdout: '', stderr: '' };
+        let truncated = false;
+        let timedOut = false;
+
+        const collect = (stream) => (chunk) => {
+            if (output[stream].length >= MAX_OUTPUT_SIZE) {
+                truncated = true;
+                return;
+            }
+            output[stream] += chunk.toString();
+        };
+        child.stdout.on('data', collect('stdout'));
+        child.stderr.on('data', collect('stderr'));
+
+        const timer = setTimeout(() => {
+            timedOut = true;
+            try {
+                process.kill(-child.pid, 'SIGKILL');
+            } catch {
+                child.kill('SIGKILL');
+            }
+        }, timeout);
+
+        child.on('error', (error) => {
+            clearTimeout(timer);
+            resolve({ stdout: '', stderr: error.message, exitCode: 1, timedOut });
+        });
+
+        child.on('close', (code) => {
+            clearTimeout(timer);
+            if (truncated) output.stderr += '\n[Output truncated — exceeded 100KB limit]';
+            resolve({ ...output, exitCode: code ?? 1, timedOut });
+        });
+
+        // The program may exit without reading its input
+        child.stdin.on('error', () => {});
+        child.stdin.end(stdin);
+    });
+}
+
+/**
+ * Compile and run `code` in a temp dir that is removed afterwards.
+ */
+async function execute({ language, code, stdin, timeout, memoryLimit }) {
+    const spec = LANGUAGES[language];
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'duocode-run-'));
+
+    try {
+        await fs.writeFile(path.join(dir, spec.file), code);
+
+        const build = spec.compile
+            ? await runProcess(spec.compile, { cwd: dir, timeout: COMPILE_TIMEOUT })
+            : { exitCode: 0 };
+        if (build.exitCode !== 0) {
+            return {
+                stdout: '',
+                stderr: build.timedOut ? '[Compilation timed out]' : build.stderr || 'Compilation failed',
+                exitCode: 1,
+                duration: 0,
+            };
+        }
+
+        const start = Date.now();
+        const result = await runProcess(spec.run(memoryLimit), { cwd: dir, stdin, timeout });
+        const duration = Date.now() - start;
+
+        return {
+            stdout: result.stdout,
+            stderr: result.timedOut
+                ? `${result.stderr}${result.stderr ? '\n' : ''}[Execution timed out after ${timeout / 1000}s]`
+                : result.stderr,
+            exitCode: result.timedOut ? 1 : result.exitCode,
+            duration,
+        };
+    } finally {
+        await fs.rm(dir, { recursive: true, force: true });
+    }
+}
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        let body = '';
+        req.on('data', (chunk) => {
+            body += chunk;
+            if (body.length > MAX_BODY_SIZE) {
+                reject(new Error('Request too large'));
+                req.destroy();
+            }
+        });
+        req.on('end', () => resolve(body));
+        req.on('error', reject);
+    });
+}
+
+function sendJson(res, status, data) {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(data));
+}
+
+const server = http.createServer(async (req, res) => {
+    const origin = req.headers.origin;
+    if (origin && ALLOWED_ORIGINS.includes(origin)) {
+        res.setHeader('Access-Control-Allow-Origin', origin);
+        res.setHeader('Access-Control-Allow-Methods', 'GET, POST');
+        res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
+    }
+
+    if (req.method === 'OPTIONS') {
+        res.writeHead(204);
+        res.end();
+        return;
+    }
+
+    // Health check endpoint
+    if (req.url === '/health') {
+        sendJson(res, 200, {
+            status: 'ok',
+            languages: AVAILABLE,
+            memoryLimit: MAX_MEMORY_MB,
+            compileTimeout: COMPILE_TIMEOUT,
+            activeRuns,
+        });
+        return;
+    }
+
+    if (req.url === '/run' && req.method === 'POST') {
+        let request;
+        try {
+            request = JSON.parse(await readBody(req));
+        } catch (error) {
+            sendJson(res, 400, { error: error.message });
+            return;
+        }
+
+        const { language, code, stdin = '', timeout = 10000, memoryLimit } = request || {};
+        if (!AVAILABLE.includes(language) || typeof code !== 'string' || typeof stdin !== 'string') {
+            sendJson(res, 400, { error: `Unsupported request for language: ${language}` });
+            return;
+        }
+        if (activeRuns >= MAX_CONCURRENT_RUNS) {
+            sendJson(res, 503, { error: 'Runner busy, try again' });
+            return;
+        }
+
+        activeRuns++;
+        try {
+            const limit = Math.min(Math.max(Number(timeout) || 10000, 1000), MAX_TIMEOUT);
+            const memory = Math.min(Math.max(Number(memoryLimit) || MAX_MEMORY_MB, 16), MAX_MEMORY_MB);
+            sendJson(res, 200, await execute({ language, code, stdin, timeout: limit, memoryLimit: memory }));
+        } catch (error) {
+            console.error('Run failed:', error);
+            sendJson(res, 500, { error: 'Run failed' });
+        } finally {
+            activeRuns--;
+        }
+        return;
+    }
+
+    res.writeHead(404);
+    res.end('Not Found');
+});
+
+server.listen(PORT, () => {
+    console.log(`DuoCode Code Runner running on port ${PORT} (${AVAILABLE.join(', ') || 'no toolchains found'})`);
+});
+
+function gracefulShutdown() {
+    server.close(() => process.exit(0));
+}
+
+process.on('SIGTERM', gracefulShutdown);
+process.on('SIGINT', gracefulShutdown);
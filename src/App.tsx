@@ -7,6 +7,7 @@ import MessagesFAB from './components/Messages/MessagesFAB';
 import MessagesOverlay from './components/Messages/MessagesOverlay';
 import NameEntryModal from './components/Modals/NameEntryModal';
 import NewSessionModal from './components/Modals/NewSessionModal';
+import ReplayView from './components/Replay/ReplayView';
 import ToastContainer from './components/Notifications/ToastContainer';
 import RetryBanner from './components/Notifications/RetryBanner';
 import { useWebRTC } from './hooks/useWebRTC';
@@ -14,7 +15,13 @@ import { useCodeSync } from './hooks/useCodeSync';
 import { useCanvasSync } from './hooks/useCanvasSync';
 import { useMessageSync } from './hooks/useMessageSync';
 import { useExecutionSync } from './hooks/useExecutionSync';
+import { useFollowMode } from './hooks/useFollowMode';
+import { useRoleSync } from './hooks/useRoleSync';
+import { useNotesSync } from './hooks/useNotesSync';
+import { useScorecardSync } from './hooks/useScorecardSync';
+import { useQuestionSync } from './hooks/useQuestionSync';
 import { usePersistence } from './hooks/usePersistence';
+import { useSessionRecorder } from './hooks/useSessionRecorder';
 import { useSessionInit } from './hooks/useSessionInit';
 import { installDuoCodeDebug } from './services/debug-utility';
 import type { DataChannelMessage } from './services/connection-manager';
@@ -31,14 +38,17 @@ function App() {
   // Persistence: restore state on mount, auto-save on changes
   usePersistence();
 
+  // Session replay: append code, canvas, chat and execution events to the log
+  useSessionRecorder();
+
   // Shared send function reference — updated by useWebRTC when
   // the data channel is ready. All sync hooks read from this ref
   // so they always have the latest send capability.
-  const sendRef = useRef<((data: DataChannelMessage | string) => boolean) | null>(null);
+  const sendRef = useRef<((data: DataChannelMessage | string, toPeerId?: string) => boolean) | null>(null);
 
-  const stableSend = useCallback((data: DataChannelMessage) => {
+  const stableSend = useCallback((data: DataChannelMessage, toPeerId?: string) => {
     if (sendRef.current) {
-      return sendRef.current(data);
+      return sendRef.current(data, toPeerId);
     }
     return false;
   }, []);
@@ -48,51 +58,94 @@ function App() {
   const { handleMessage: handleCanvasMessage } = useCanvasSync({ sendMessage: stableSend });
   const { handleMessage: handleChatMessage } = useMessageSync({ sendMessage: stableSend });
   const { handleMessage: handleExecutionMessage } = useExecutionSync({ sendMessage: stableSend });
-
-  // Route incoming data-channel messages to the appropriate sync hook
+  const { handleMessage: handleFollowMessage } = useFollowMode({ sendMessage: stableSend });
+  const { handleMessage: handleRoleMessage } = useRoleSync({ sendMessage: stableSend });
+  const { handleMessage: handleNotesMessage } = useNotesSync({ sendMessage: stableSend });
+  const { handleMessage: handleScorecardMessage } = useScorecardSync({ sendMessage: stableSend });
+  const { handleMessage: handleQuestionMessage } = useQuestionSync({ sendMessage: stableSend });
+
+  // Route incoming data-channel messages to the appropriate sync hook.
+  // The sender's id lets the hooks check its role (see roles.ts).
   const onMessage = useCallback(
-    (message: DataChannelMessage) => {
+    (message: DataChannelMessage, fromPeerId: string) => {
       if (!message || !message.type) return;
 
       switch (message.type) {
         case 'code-operation':
+        case 'code-checksum':
         case 'code':
         case 'cursor':
         case 'language':
-          handleCodeMessage(message);
+        case 'file-create':
+        case 'file-rename':
+        case 'file-delete':
+          handleCodeMessage(message, fromPeerId);
           break;
 
         case 'canvas':
-        case 'canvas-view':
-        case 'canvas-clear':
+        case 'canvas-ops':
         case 'canvas-sync':
-          handleCanvasMessage(message);
+          handleCanvasMessage(message, fromPeerId);
+          break;
+
+        case 'canvas-view':
+          handleCanvasMessage(message, fromPeerId);
+          handleFollowMessage(message);
+          break;
+
+        case 'view-tab':
+        case 'view-scroll':
+        case 'view-request':
+          handleFollowMessage(message);
           break;
 
         case 'message':
         case 'message-ack':
-          handleChatMessage(message);
+          handleChatMessage(message, fromPeerId);
           break;
 
         case 'execution-start':
+        case 'execution-output':
         case 'execution-result':
-          handleExecutionMessage(message);
+          handleExecutionMessage(message, fromPeerId);
+          break;
+
+        case 'roles':
+          handleRoleMessage(message);
+          break;
+
+        case 'notes':
+        case 'notes-request':
+          handleNotesMessage(message, fromPeerId);
+          break;
+
+        case 'scorecard':
+        case 'scorecard-request':
+          handleScorecardMessage(message, fromPeerId);
+          break;
+
+        case 'question-tests':
+        case 'question-tests-request':
+          handleQuestionMessage(message, fromPeerId);
           break;
 
         case 'state-request':
-          handleCodeMessage(message);
-          handleCanvasMessage(message);
+          handleCodeMessage(message, fromPeerId);
+          handleCanvasMessage(message, fromPeerId);
+          handleRoleMessage(message);
+          // After the code's state-sync, which carries the question
+          handleQuestionMessage(message, fromPeerId);
           break;
 
         case 'state-sync':
-          handleCodeMessage(message);
+          handleCodeMessage(message, fromPeerId);
           break;
 
         default:
           break;
       }
     },
-    [handleCodeMessage, handleCanvasMessage, handleChatMessage, handleExecutionMessage]
+    [handleCodeMessage, handleCanvasMessage, handleChatMessage, handleExecutionMessage, handleFollowMessage, handleRoleMessage, handleNotesMessage, handleScorecardMessage, handleQuestionMessage]
   );
 
   // WebRTC connection lifecycle — populates sendRef when the data channel opens
@@ -110,6 +163,7 @@ function App() {
         <MessagesOverlay />
         <NameEntryModal />
         <NewSessionModal />
+        <ReplayView />
         <ToastContainer />
         <RetryBanner />
       </AppShell>
@@ -1,10 +1,35 @@
-import { render } from '@testing-library/react';
-import { describe, it, expect } from 'vitest';
+import { act, render } from '@testing-library/react';
+import { beforeEach, describe, it, expect, vi } from 'vitest';
 import App from '../App';
+import { useExecutionStore } from '../stores/executionStore';
+import type { DataChannelMessage } from '../services/connection-manager';
+
+type OnMessage = (message: DataChannelMessage, fromPeerId: string) => void;
+const webrtc = vi.hoisted(() => ({ onMessage: null as OnMessage | null }));
+
+vi.mock('../hooks/useWebRTC', () => ({
+  useWebRTC: ({ onMessage }: { onMessage?: OnMessage } = {}) => {
+    webrtc.onMessage = onMessage ?? null;
+    return { sendMessage: vi.fn(), dataChannelRef: { current: null } };
+  },
+}));
 
 describe('App', () => {
+  beforeEach(() => {
+    useExecutionStore.getState().reset();
+  });
+
   it('renders without crashing', () => {
     const { container } = render(<App />);
     expect(container).toBeInTheDocument();
   });
+
+  it('routes a peer\'s streamed run output to the execution panel', () => {
+    render(<App />);
+    act(() => {
+      webrtc.onMessage!({ type: 'execution-start', language: 'python', runBy: 'Ann', timestamp: 1 }, 'peer-1');
+      webrtc.onMessage!({ type: 'execution-output', stream: 'stdout', text: 'hello\n' }, 'peer-1');
+    });
+    expect(useExecutionStore.getState().output?.stdout).toBe('hello\n');
+  });
 });
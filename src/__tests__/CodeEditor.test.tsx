@@ -2,10 +2,12 @@ import { render, fireEvent, act } from '@testing-library/react';
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import CodeEditor from '../components/CodeEditor/CodeEditor';
 import { useEditorStore } from '../stores/editorStore';
+import { useSessionStore } from '../stores/sessionStore';
 
 describe('CodeEditor', () => {
   beforeEach(() => {
     useEditorStore.getState().reset();
+    useSessionStore.getState().reset();
   });
 
   it('renders textarea and highlight overlay', () => {
@@ -88,4 +90,47 @@ describe('CodeEditor', () => {
     expect(highlight.scrollTop).toBe(100);
     expect(highlight.scrollLeft).toBe(50);
   });
+
+  it('renders only the lines in view for large files', () => {
+    const code = Array.from({ length: 5000 }, (_, i) => `const v${i} = ${i};`).join('\n');
+    act(() => {
+      useEditorStore.getState().setCode(code);
+    });
+    const { container } = render(<CodeEditor />);
+
+    const rendered = container.querySelectorAll('#codeOutput .code-line');
+    expect(rendered.length).toBeGreaterThan(0);
+    expect(rendered.length).toBeLessThan(100);
+    expect(rendered[0].textContent).toBe('const v0 = 0;');
+  });
+
+  it('renders the lines scrolled into view', () => {
+    const code = Array.from({ length: 5000 }, (_, i) => `const v${i} = ${i};`).join('\n');
+    act(() => {
+      useEditorStore.getState().setCode(code);
+    });
+    const { container } = render(<CodeEditor />);
+    const textarea = container.querySelector('#codeInput') as HTMLTextAreaElement;
+
+    // 21px lines below 12px padding: line 2000 starts at 42012px
+    Object.defineProperty(textarea, 'scrollTop', { value: 42012, writable: true });
+    fireEvent.scroll(textarea);
+
+    const texts = [...container.querySelectorAll('#codeOutput .code-line')].map((el) => el.textContent);
+    expect(texts).toContain('const v2000 = 2000;');
+    expect(texts).not.toContain('const v0 = 0;');
+  });
+
+  it('is read-only when our role cannot edit', () => {
+    act(() => {
+      useEditorStore.getState().setCode('x');
+      useSessionStore.getState().setRole('observer');
+    });
+    const { container } = render(<CodeEditor />);
+    const textarea = container.querySelector('#codeInput') as HTMLTextAreaElement;
+    expect(textarea.readOnly).toBe(true);
+
+    fireEvent.keyDown(textarea, { key: 'Tab' });
+    expect(useEditorStore.getState().code).toBe('x');
+  });
 });
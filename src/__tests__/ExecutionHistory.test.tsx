@@ -0,0 +1,74 @@
+import { render, fireEvent } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import ExecutionHistory from '../components/CodeEditor/ExecutionHistory';
+import { useExecutionHistoryStore } from '../stores/executionHistoryStore';
+
+const run = (timestamp: number, exitCode = 0) => ({
+  timestamp,
+  runBy: 'Alice',
+  language: 'python',
+  stdout: `out ${timestamp}`,
+  stderr: '',
+  exitCode,
+  duration: 5,
+});
+
+describe('ExecutionHistory', () => {
+  beforeEach(() => {
+    useExecutionHistoryStore.getState().reset();
+  });
+
+  it('lists runs newest first', () => {
+    const store = useExecutionHistoryStore.getState();
+    store.addRun(run(1000), 'print(1)');
+    store.addRun(run(2000, 1), 'print(2)');
+
+    const { container } = render(<ExecutionHistory />);
+
+    const rows = container.querySelectorAll('tbody tr');
+    expect(rows).toHaveLength(2);
+    expect(rows[0].children[1].textContent).toBe('2');
+    expect(rows[0]).toHaveClass('failed');
+    expect(rows[0].querySelector('.history-outcome')!.textContent).toBe('✗ Exit 1');
+    expect(rows[1].children[3].textContent).toBe('Alice');
+  });
+
+  it("shows a picked run's output", () => {
+    useExecutionHistoryStore.getState().addRun(run(1000), 'print(1)');
+
+    const { container, getByLabelText } = render(<ExecutionHistory />);
+    fireEvent.click(getByLabelText('Select run 1'));
+
+    expect(container.querySelector('.history-output')!.textContent).toBe('out 1000');
+  });
+
+  it('diffs the code of two picked runs, older to newer', () => {
+    const store = useExecutionHistoryStore.getState();
+    store.addRun(run(1000), 'a = 1\nprint(a)');
+    store.addRun(run(2000), 'a = 2\nprint(a)');
+
+    const { container, getByLabelText, getByText } = render(<ExecutionHistory />);
+    fireEvent.click(getByLabelText('Select run 2'));
+    fireEvent.click(getByLabelText('Select run 1'));
+
+    expect(getByText('Changes from run 1 to run 2')).toBeInTheDocument();
+    const lines = [...container.querySelectorAll('.diff-line')].map((l) => [l.className, l.textContent]);
+    expect(lines).toEqual([
+      ['diff-line removed', '- a = 1'],
+      ['diff-line added', '+ a = 2'],
+      ['diff-line same', '  print(a)'],
+    ]);
+  });
+
+  it('says when two runs ran the same code', () => {
+    const store = useExecutionHistoryStore.getState();
+    store.addRun(run(1000), 'same');
+    store.addRun(run(2000), 'same');
+
+    const { getByLabelText, getByText } = render(<ExecutionHistory />);
+    fireEvent.click(getByLabelText('Select run 1'));
+    fireEvent.click(getByLabelText('Select run 2'));
+
+    expect(getByText('Same code')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,90 @@
+import { render, fireEvent } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import FileTabs from '../components/CodeEditor/FileTabs';
+import { useEditorStore } from '../stores/editorStore';
+import { useToastStore } from '../stores/toastStore';
+import { useSessionStore } from '../stores/sessionStore';
+
+describe('FileTabs', () => {
+  beforeEach(() => {
+    useEditorStore.getState().reset();
+    useToastStore.getState().reset();
+    useSessionStore.getState().reset();
+  });
+
+  it('renders a tab for each file with the active one highlighted', () => {
+    useEditorStore.getState().addFile({ id: 'f2', name: 'util.py', language: 'python', code: '' });
+    const { getByText } = render(<FileTabs />);
+
+    expect(getByText('main.js').parentElement).toHaveClass('active');
+    expect(getByText('util.py').parentElement).not.toHaveClass('active');
+  });
+
+  it('switches files on click', () => {
+    useEditorStore.getState().addFile({ id: 'f2', name: 'util.py', language: 'python', code: 'print(1)' });
+    const { getByText } = render(<FileTabs />);
+
+    fireEvent.click(getByText('util.py'));
+
+    expect(useEditorStore.getState().activeFileId).toBe('f2');
+    expect(useEditorStore.getState().code).toBe('print(1)');
+  });
+
+  it('creates a file with a language inferred from its extension', () => {
+    const { getByLabelText } = render(<FileTabs />);
+
+    fireEvent.click(getByLabelText('New file'));
+    const input = getByLabelText('File name');
+    fireEvent.change(input, { target: { value: 'Solution.java' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    const { files, language } = useEditorStore.getState();
+    expect(files.map((f) => f.name)).toEqual(['main.js', 'Solution.java']);
+    expect(language).toBe('java');
+  });
+
+  it('renames a file on double-click', () => {
+    const { getByText, getByLabelText } = render(<FileTabs />);
+
+    fireEvent.doubleClick(getByText('main.js'));
+    const input = getByLabelText('File name');
+    fireEvent.change(input, { target: { value: 'index.js' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(useEditorStore.getState().files[0].name).toBe('index.js');
+  });
+
+  it('rejects a duplicate file name', () => {
+    useEditorStore.getState().addFile({ id: 'f2', name: 'util.py', language: 'python', code: '' });
+    const { getByText, getByLabelText } = render(<FileTabs />);
+
+    fireEvent.doubleClick(getByText('main.js'));
+    const input = getByLabelText('File name');
+    fireEvent.change(input, { target: { value: 'util.py' } });
+    fireEvent.keyDown(input, { key: 'Enter' });
+
+    expect(useEditorStore.getState().files[0].name).toBe('main.js');
+    expect(useToastStore.getState().toasts).toHaveLength(1);
+  });
+
+  it('deletes a file but never the last one', () => {
+    useEditorStore.getState().addFile({ id: 'f2', name: 'util.py', language: 'python', code: '' });
+    const { getByLabelText, queryByLabelText } = render(<FileTabs />);
+
+    fireEvent.click(getByLabelText('Delete util.py'));
+
+    expect(useEditorStore.getState().files).toHaveLength(1);
+    expect(queryByLabelText('Delete main.js')).not.toBeInTheDocument();
+  });
+
+  it('only switches files when our role cannot edit', () => {
+    useEditorStore.getState().addFile({ id: 'f2', name: 'util.py', language: 'python', code: '' });
+    useSessionStore.getState().setRole('observer');
+    const { queryByLabelText, getByText } = render(<FileTabs />);
+
+    expect(queryByLabelText('New file')).not.toBeInTheDocument();
+    expect(queryByLabelText('Delete util.py')).not.toBeInTheDocument();
+    fireEvent.doubleClick(getByText('util.py'));
+    expect(queryByLabelText('File name')).not.toBeInTheDocument();
+  });
+});
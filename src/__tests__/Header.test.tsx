@@ -73,7 +73,13 @@ describe('Header', () => {
   it('renders all action buttons', () => {
     const { container } = render(<Header />);
     const buttons = container.querySelectorAll('.icon-btn');
-    expect(buttons).toHaveLength(4);
+    expect(buttons).toHaveLength(5);
+  });
+
+  it('opens the session replay', () => {
+    const { container } = render(<Header />);
+    fireEvent.click(container.querySelector('[title="Session replay"]')!);
+    expect(useUIStore.getState().isReplayOpen).toBe(true);
   });
 
   it('toggles theme when theme button is clicked', () => {
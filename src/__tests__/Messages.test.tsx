@@ -5,8 +5,13 @@ import MessagesList from '../components/Messages/MessagesList';
 import MessagesFAB from '../components/Messages/MessagesFAB';
 import MessagesPanel from '../components/Messages/MessagesPanel';
 import ParticipantsList from '../components/Messages/ParticipantsList';
+import NotesPanel from '../components/Messages/NotesPanel';
+import ScorecardPanel from '../components/Messages/ScorecardPanel';
 import { useMessagesStore } from '../stores/messagesStore';
+import { useNotesStore } from '../stores/notesStore';
+import { useScorecardStore } from '../stores/scorecardStore';
 import { useSessionStore } from '../stores/sessionStore';
+import { useUIStore } from '../stores/uiStore';
 
 describe('MessageInput', () => {
   beforeEach(() => {
@@ -88,6 +93,15 @@ describe('MessageInput', () => {
 
     expect(useMessagesStore.getState().messages[0].sender).toBe('Alice');
   });
+
+  it('is disabled when our role cannot chat', () => {
+    act(() => {
+      useSessionStore.getState().setRole('observer');
+    });
+    const { container } = render(<MessageInput />);
+    expect(container.querySelector('#messageText')).toBeDisabled();
+    expect(container.querySelector('#sendMessageBtn')).toBeDisabled();
+  });
 });
 
 describe('MessagesList', () => {
@@ -355,4 +369,109 @@ describe('ParticipantsList', () => {
 
     expect(useSessionStore.getState().peerName).toBe('Alice B');
   });
+
+  it('follows and unfollows a remote participant', () => {
+    useUIStore.getState().reset();
+    act(() => {
+      useSessionStore.getState().setLocalPeerId('me');
+      useSessionStore.getState().updateParticipant('peer-1', { name: 'Bob' });
+    });
+
+    const { getByLabelText } = render(<ParticipantsList />);
+
+    fireEvent.click(getByLabelText('Follow Bob'));
+    expect(useUIStore.getState().followingPeerId).toBe('peer-1');
+
+    fireEvent.click(getByLabelText('Stop following Bob'));
+    expect(useUIStore.getState().followingPeerId).toBeNull();
+  });
+
+  it('offers follow only once connected to the signaling server', () => {
+    act(() => {
+      useSessionStore.getState().updateParticipant('peer-1', { name: 'Bob' });
+    });
+
+    const { container } = render(<ParticipantsList />);
+    expect(container.querySelector('.follow-btn')).not.toBeInTheDocument();
+  });
+
+  it('shows roles as badges to peers', () => {
+    act(() => {
+      useSessionStore.getState().updateParticipant('peer-1', { name: 'Bob', isHost: true });
+      useSessionStore.getState().updateParticipant('peer-2', { name: 'Olive', role: 'observer' });
+    });
+
+    const { container } = render(<ParticipantsList />);
+    const badges = Array.from(container.querySelectorAll('.role-badge')).map((b) => b.textContent);
+    expect(badges).toEqual(['Candidate', 'Interviewer', 'Observer']);
+    expect(container.querySelector('.role-select')).not.toBeInTheDocument();
+  });
+
+  it('lets the host assign roles', () => {
+    act(() => {
+      useSessionStore.getState().createSession('s1');
+      useSessionStore.getState().updateParticipant('peer-1', { name: 'Bob' });
+    });
+
+    const { getByLabelText } = render(<ParticipantsList />);
+    expect(getByLabelText('Role of yourself')).toHaveValue('interviewer');
+
+    fireEvent.change(getByLabelText('Role of Bob'), { target: { value: 'observer' } });
+    expect(useSessionStore.getState().participants['peer-1'].role).toBe('observer');
+  });
+});
+
+describe('NotesPanel', () => {
+  beforeEach(() => {
+    useSessionStore.getState().reset();
+    useNotesStore.getState().reset();
+  });
+
+  it('is hidden from candidates', () => {
+    const { container } = render(<NotesPanel />);
+    expect(container.querySelector('.notes-section')).toBeNull();
+  });
+
+  it('lets interviewers edit the notes', () => {
+    act(() => {
+      useSessionStore.getState().createSession('s1');
+      useSessionStore.getState().setPeerName('Alice');
+    });
+
+    const { getByLabelText, container } = render(<NotesPanel />);
+    fireEvent.change(getByLabelText('Interviewer notes'), { target: { value: 'Clear reasoning' } });
+
+    expect(useNotesStore.getState().text).toBe('Clear reasoning');
+    expect(container.querySelector('.notes-meta')?.textContent).toBe('Last edited by Alice');
+  });
+});
+
+describe('ScorecardPanel', () => {
+  beforeEach(() => {
+    useSessionStore.getState().reset();
+    useScorecardStore.getState().reset();
+  });
+
+  it('is hidden from candidates', () => {
+    const { container } = render(<ScorecardPanel />);
+    expect(container.querySelector('.scorecard-section')).toBeNull();
+  });
+
+  it('lets interviewers rate, comment and add competencies', () => {
+    act(() => {
+      useSessionStore.getState().createSession('s1');
+      useSessionStore.getState().setPeerName('Alice');
+    });
+
+    const { getByLabelText, getByText, container } = render(<ScorecardPanel />);
+    fireEvent.click(getByLabelText('Rating for Communication').querySelectorAll('.rating-btn')[2]);
+    fireEvent.change(getByLabelText('Comments on Communication'), { target: { value: 'Thinks aloud' } });
+    fireEvent.change(getByLabelText('New competency'), { target: { value: 'Testing' } });
+    fireEvent.click(getByText('Add'));
+
+    const competencies = useScorecardStore.getState().competencies;
+    expect(competencies.find((c) => c.id === 'communication')).toMatchObject({ rating: 3, comment: 'Thinks aloud', updatedBy: 'Alice' });
+    expect(competencies[competencies.length - 1].name).toBe('Testing');
+    expect(container.querySelector('.scorecard-average')?.textContent).toContain('3.0 / 4');
+  });
 });
@@ -8,6 +8,7 @@ import { useEditorStore } from '../stores/editorStore';
 import { useMessagesStore } from '../stores/messagesStore';
 import { useCanvasStore } from '../stores/canvasStore';
 import { useConnectionStore } from '../stores/connectionStore';
+import { useQuestionStore } from '../stores/questionStore';
 
 describe('NameEntryModal', () => {
   beforeEach(() => {
@@ -137,6 +138,7 @@ describe('NewSessionModal', () => {
     useMessagesStore.getState().reset();
     useCanvasStore.getState().reset();
     useConnectionStore.getState().reset();
+    useQuestionStore.getState().reset();
   });
 
   it('does not render when closed', () => {
@@ -198,6 +200,36 @@ describe('NewSessionModal', () => {
     expect(useUIStore.getState().isNewSessionModalOpen).toBe(false);
   });
 
+  it('loads the picked question into the new session', () => {
+    act(() => {
+      useUIStore.getState().showNewSessionModal();
+    });
+
+    const { getByLabelText, container } = render(<NewSessionModal />);
+    fireEvent.change(getByLabelText('Question'), { target: { value: 'two-sum' } });
+    fireEvent.change(getByLabelText('Starter language'), { target: { value: 'python' } });
+    fireEvent.click(container.querySelector('.btn-danger')!);
+
+    const editor = useEditorStore.getState();
+    expect(editor.language).toBe('python');
+    expect(editor.files).toHaveLength(1);
+    expect(editor.code).toContain('def two_sum');
+    expect(useQuestionStore.getState().question?.title).toBe('Two Sum');
+    expect(useQuestionStore.getState().getTests().length).toBeGreaterThan(0);
+  });
+
+  it('loads a question\'s starter diagram', () => {
+    act(() => {
+      useUIStore.getState().showNewSessionModal();
+    });
+
+    const { getByLabelText, container } = render(<NewSessionModal />);
+    fireEvent.change(getByLabelText('Question'), { target: { value: 'url-shortener' } });
+    fireEvent.click(container.querySelector('.btn-danger')!);
+
+    expect(useCanvasStore.getState().drawingStrokes.length).toBeGreaterThan(0);
+  });
+
   it('shows warning about data loss', () => {
     act(() => {
       useUIStore.getState().showNewSessionModal();
@@ -92,6 +92,30 @@ describe('exportToPDF', () => {
     expect(textCalls.length).toBeGreaterThan(0);
   });
 
+  it('renders a code section for each workspace file', () => {
+    exportToPDF({
+      sessionId: 'files-test',
+      peerName: 'Dev',
+      participants: {},
+      sessionStartTime: null,
+      code: 'print(1)',
+      language: 'python',
+      files: [
+        { name: 'main.py', language: 'python', code: 'print(1)' },
+        { name: 'query.sql', language: 'sql', code: 'SELECT 1;' },
+      ],
+      messages: [],
+      canvasElement: null,
+    });
+
+    const textCalls = mockDoc.text.mock.calls.map((call) => call[0]);
+    const allText = textCalls.flat().join(' ');
+    expect(allText).toContain('Code Editor: main.py');
+    expect(allText).toContain('Code Editor: query.sql');
+    expect(allText).toContain('Python, Sql');
+    expect(allText).toContain('Files (2): main.py, query.sql');
+  });
+
   it('shows no code content placeholder when code is empty', () => {
     exportToPDF({
       sessionId: 'empty-code',
@@ -199,6 +223,37 @@ describe('exportToPDF', () => {
     expect(mockDoc.addImage).toHaveBeenCalled();
   });
 
+  it('draws the whole diagram from its strokes instead of the on-screen canvas', () => {
+    const drawn: string[] = [];
+    // Any drawing call on the off-screen canvas is recorded by name
+    const ctx = new Proxy({}, {
+      get: (_, name) => (...args: unknown[]) => { drawn.push(String(name)); return args; },
+      set: () => true,
+    });
+    const getContext = vi.spyOn(HTMLCanvasElement.prototype, 'getContext').mockReturnValue(ctx as never);
+    const toDataURL = vi.spyOn(HTMLCanvasElement.prototype, 'toDataURL').mockReturnValue('data:image/png;base64,diagram');
+    const mockCanvas = { toDataURL: vi.fn(), width: 800, height: 600 };
+
+    exportToPDF({
+      sessionId: 'strokes-test',
+      peerName: 'Dev',
+      participants: {},
+      sessionStartTime: null,
+      code: '',
+      language: 'javascript',
+      messages: [],
+      canvasElement: mockCanvas as unknown as HTMLCanvasElement,
+      strokes: [{ tool: 'database', text: 'Users', start: { x: 0, y: 0 }, end: { x: 80, y: 100 } }],
+    });
+
+    expect(mockCanvas.toDataURL).not.toHaveBeenCalled();
+    expect(drawn).toContain('bezierCurveTo');
+    expect(drawn).toContain('fillText');
+    expect(mockDoc.addImage).toHaveBeenCalledWith('data:image/png;base64,diagram', 'PNG', expect.any(Number), expect.any(Number), expect.any(Number), expect.any(Number));
+    getContext.mockRestore();
+    toDataURL.mockRestore();
+  });
+
   it('calculates session duration correctly', () => {
     const twoHoursAgo = Date.now() - 2 * 60 * 60 * 1000 - 30 * 60 * 1000;
 
@@ -239,4 +294,70 @@ describe('exportToPDF', () => {
     expect(allText).toContain('Bob');
     expect(allText).toContain('Charlie');
   });
+
+  it('includes private notes when provided', () => {
+    exportToPDF({
+      sessionId: 'notes',
+      peerName: 'Alice',
+      participants: {},
+      sessionStartTime: null,
+      code: '',
+      language: 'javascript',
+      messages: [],
+      canvasElement: null,
+      notes: { text: 'Strong on recursion\nAsk about testing', updatedBy: 'Alice' },
+    });
+
+    const textCalls = mockDoc.text.mock.calls.map((call) => call[0]);
+    const allText = textCalls.flat().join(' ');
+    expect(allText).toContain('Interviewer Notes (private)');
+    expect(allText).toContain('Strong on recursion');
+    expect(allText).toContain('Ask about testing');
+    expect(allText).toContain('Last edited by Alice');
+  });
+
+  it('omits the notes section without notes', () => {
+    exportToPDF({
+      sessionId: 'no-notes',
+      peerName: 'Alice',
+      participants: {},
+      sessionStartTime: null,
+      code: '',
+      language: 'javascript',
+      messages: [],
+      canvasElement: null,
+      notes: { text: '   ' },
+    });
+
+    const textCalls = mockDoc.text.mock.calls.map((call) => call[0]);
+    const allText = textCalls.flat().join(' ');
+    expect(allText).not.toContain('Interviewer Notes');
+  });
+
+  it('renders the scorecard with ratings, comments and the average', () => {
+    exportToPDF({
+      sessionId: 'score',
+      peerName: 'Alice',
+      participants: {},
+      sessionStartTime: null,
+      code: '',
+      language: 'javascript',
+      messages: [],
+      canvasElement: null,
+      scorecard: [
+        { name: 'Problem solving', rating: 4, comment: 'Found the optimal approach' },
+        { name: 'Communication', rating: 3, comment: '' },
+        { name: 'Testing', rating: null, comment: '' },
+      ],
+    });
+
+    const textCalls = mockDoc.text.mock.calls.map((call) => call[0]);
+    const allText = textCalls.flat().join(' ');
+    expect(allText).toContain('Scorecard');
+    expect(allText).toContain('Average rating: 3.5 / 4');
+    expect(allText).toContain('Problem solving');
+    expect(allText).toContain('4 / 4');
+    expect(allText).toContain('Found the optimal approach');
+    expect(allText).toContain('Not rated');
+  });
 });
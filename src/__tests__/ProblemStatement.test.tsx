@@ -0,0 +1,57 @@
+import { render, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import ProblemStatement from '../components/CodeEditor/ProblemStatement';
+import { useQuestionStore } from '../stores/questionStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { getQuestion, toSharedQuestion } from '../services/question-bank';
+
+const question = getQuestion('fizzbuzz')!;
+
+describe('ProblemStatement', () => {
+  beforeEach(() => {
+    useQuestionStore.getState().reset();
+    useSessionStore.getState().reset();
+  });
+
+  it('renders nothing without a question', () => {
+    const { container } = render(<ProblemStatement />);
+    expect(container.querySelector('.problem-statement')).toBeNull();
+  });
+
+  it('renders the title, difficulty and Markdown statement', () => {
+    act(() => {
+      useQuestionStore.getState().setQuestion(toSharedQuestion(question));
+    });
+
+    const { container } = render(<ProblemStatement />);
+    expect(container.querySelector('h3')!.textContent).toBe('FizzBuzz');
+    expect(container.querySelector('.difficulty-badge')!.textContent).toBe('easy');
+    expect(container.querySelectorAll('.problem-body li')).toHaveLength(3);
+    expect(container.querySelector('.problem-body strong')!.textContent).toBe('Fizz');
+    expect(container.querySelector('.problem-body pre')!.textContent).toContain('Input:  5');
+  });
+
+  it('shows the hidden test count to interviewers only', () => {
+    act(() => {
+      useQuestionStore.getState().setQuestion(toSharedQuestion(question), question.tests);
+    });
+
+    const { container } = render(<ProblemStatement />);
+    expect(container.querySelector('.hidden-tests-count')).toBeNull();
+
+    act(() => {
+      useSessionStore.getState().setRole('interviewer');
+    });
+    expect(container.querySelector('.hidden-tests-count')!.textContent).toBe('3 hidden tests');
+  });
+
+  it('collapses on header click', () => {
+    act(() => {
+      useQuestionStore.getState().setQuestion(toSharedQuestion(question));
+    });
+
+    const { container } = render(<ProblemStatement />);
+    fireEvent.click(container.querySelector('.problem-header')!);
+    expect(container.querySelector('.problem-statement')).toHaveClass('collapsed');
+  });
+});
@@ -143,4 +143,49 @@ describe('RemoteCursors', () => {
     const { getByText } = render(<RemoteCursors textareaRef={ref} />);
     expect(getByText('abcdef')).toBeInTheDocument();
   });
+
+  it('tints a remote selection range', () => {
+    act(() => {
+      // "hello\nworld" — selecting "lo\nwor" spans two lines
+      useEditorStore.getState().setCode('hello\nworld');
+      useEditorStore.getState().updateRemoteCursor('peer1', {
+        position: 9,
+        selectionStart: 3,
+        selectionEnd: 9,
+        line: 1,
+        column: 3,
+        color: '#ff4444',
+        name: 'Alice',
+      });
+    });
+
+    const ref = createMockTextareaRef();
+    const { container } = render(<RemoteCursors textareaRef={ref} />);
+    const rects = container.querySelectorAll('.remote-selection') as NodeListOf<HTMLElement>;
+
+    expect(rects).toHaveLength(2);
+    expect(rects[0].style.top).toBe('12px');
+    expect(parseFloat(rects[0].style.left)).toBeCloseTo(37.2);
+    expect(rects[1].style.top).toBe('33px');
+    expect(parseFloat(rects[1].style.width)).toBeCloseTo(25.2);
+    expect(rects[0].style.backgroundColor).toBe('rgb(255, 68, 68)');
+  });
+
+  it('draws no selection for a collapsed range', () => {
+    act(() => {
+      useEditorStore.getState().setCode('hello');
+      useEditorStore.getState().updateRemoteCursor('peer1', {
+        position: 2,
+        selectionStart: 2,
+        selectionEnd: 2,
+        line: 0,
+        column: 2,
+      });
+    });
+
+    const ref = createMockTextareaRef();
+    const { container } = render(<RemoteCursors textareaRef={ref} />);
+    expect(container.querySelector('.remote-selection')).not.toBeInTheDocument();
+    expect(container.querySelector('.remote-cursor')).toBeInTheDocument();
+  });
 });
@@ -0,0 +1,99 @@
+import { render, fireEvent, act, screen } from '@testing-library/react';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import ReplayView from '../components/Replay/ReplayView';
+import { useUIStore } from '../stores/uiStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { StorageManager } from '../services/persistence';
+import type { ReplayEvent } from '../services/session-replay';
+
+const events: ReplayEvent[] = [
+  {
+    type: 'snapshot',
+    t: 10_000,
+    files: [{ id: 'main', name: 'main.js', language: 'javascript', code: '' }],
+    strokes: [],
+    messages: [],
+    participants: {},
+  },
+  { type: 'code-operation', t: 20_000, fileId: 'main', operation: ['let answer = 42;'] },
+  { type: 'message', t: 30_000, message: { id: 'm1', text: 'Looks good', sender: 'Bob', timestamp: 30_000 } },
+  { type: 'canvas', t: 40_000, action: 'stroke', stroke: { tool: 'rectangle', start: { x: 0, y: 0 }, end: { x: 50, y: 30 }, text: 'API' } },
+];
+
+async function openReplay(log: ReplayEvent[] = events) {
+  vi.spyOn(StorageManager, 'loadReplayEvents').mockResolvedValue(log);
+  const utils = render(<ReplayView />);
+  await act(async () => {
+    useUIStore.getState().showReplay();
+  });
+  return utils;
+}
+
+describe('ReplayView', () => {
+  beforeEach(() => {
+    useUIStore.getState().reset();
+    useSessionStore.getState().reset();
+    useSessionStore.getState().createSession('s1');
+  });
+
+  it('renders nothing while closed', () => {
+    const { container } = render(<ReplayView />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('loads the session log and starts at the beginning', async () => {
+    const { container } = await openReplay();
+
+    expect(StorageManager.loadReplayEvents).toHaveBeenCalledWith('s1');
+    expect(screen.getByText('0:00 / 0:30')).toBeInTheDocument();
+    expect(container.querySelector('.replay-code-view')!.textContent).toBe('');
+    expect(screen.getByText('No diagram yet')).toBeInTheDocument();
+  });
+
+  it('rebuilds code, chat and diagram as the scrubber moves', async () => {
+    const { container } = await openReplay();
+    const scrubber = screen.getByLabelText('Replay position');
+
+    fireEvent.change(scrubber, { target: { value: '15000' } });
+    expect(container.querySelector('.replay-code-view')!.textContent).toBe('let answer = 42;');
+    expect(container.querySelector('.replay-chat')!.textContent).toBe('');
+
+    fireEvent.change(scrubber, { target: { value: '30000' } });
+    expect(container.querySelector('.replay-chat')!.textContent).toContain('Looks good');
+    expect(container.querySelector('svg.replay-diagram rect')).toBeInTheDocument();
+    expect(screen.getByText('0:30 / 0:30')).toBeInTheDocument();
+  });
+
+  it('plays the session back', async () => {
+    vi.useFakeTimers();
+    try {
+      const { container } = await openReplay();
+
+      fireEvent.click(screen.getByLabelText('Play'));
+      fireEvent.change(screen.getByLabelText('Playback speed'), { target: { value: '16' } });
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+
+      expect(container.querySelector('.replay-code-view')!.textContent).toBe('let answer = 42;');
+
+      act(() => {
+        vi.advanceTimersByTime(1000);
+      });
+      expect(screen.getByLabelText('Play')).toBeInTheDocument();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('says so when nothing was recorded', async () => {
+    await openReplay([]);
+    expect(screen.getByText('Nothing has been recorded for this session yet.')).toBeInTheDocument();
+  });
+
+  it('closes', async () => {
+    await openReplay();
+    fireEvent.click(screen.getByLabelText('Close replay'));
+    expect(useUIStore.getState().isReplayOpen).toBe(false);
+  });
+});
@@ -1,13 +1,20 @@
-import { render, fireEvent } from '@testing-library/react';
-import { describe, it, expect, beforeEach } from 'vitest';
+import { render, fireEvent, act } from '@testing-library/react';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import TabBar from '../components/TabBar';
 import { useUIStore } from '../stores/uiStore';
 import { useEditorStore } from '../stores/editorStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { useExecutionStore } from '../stores/executionStore';
+import { useQuestionStore } from '../stores/questionStore';
+import { getQuestion, toSharedQuestion } from '../services/question-bank';
 
 describe('TabBar', () => {
   beforeEach(() => {
     useUIStore.getState().reset();
     useEditorStore.getState().reset();
+    useSessionStore.getState().reset();
+    useExecutionStore.getState().reset();
+    useQuestionStore.getState().reset();
   });
 
   it('renders Code and Diagram tab buttons', () => {
@@ -45,4 +52,32 @@ describe('TabBar', () => {
     const { container } = render(<TabBar />);
     expect(container.querySelector('#languageSelector')).not.toBeInTheDocument();
   });
+
+  it('shows who is being followed and stops on click', () => {
+    useSessionStore.getState().updateParticipant('peer-1', { name: 'Bob' });
+    useUIStore.getState().followPeer('peer-1');
+    const { getByText } = render(<TabBar />);
+
+    fireEvent.click(getByText('Following Bob'));
+
+    expect(useUIStore.getState().followingPeerId).toBeNull();
+  });
+
+  it('offers interviewers to run the hidden tests', () => {
+    const question = getQuestion('fizzbuzz')!;
+    useQuestionStore.getState().setQuestion(toSharedQuestion(question), question.tests);
+    const runTests = vi.fn();
+    useExecutionStore.getState().setCallbacks(vi.fn(), vi.fn(), runTests);
+
+    const { queryByText, getByText, rerender } = render(<TabBar />);
+    expect(queryByText('Run tests')).toBeNull();
+
+    act(() => {
+      useSessionStore.getState().setRole('interviewer');
+    });
+    rerender(<TabBar />);
+    fireEvent.click(getByText('Run tests'));
+
+    expect(runTests).toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,45 @@
+import { render } from '@testing-library/react';
+import { describe, it, expect, beforeEach } from 'vitest';
+import TestResultsTable from '../components/CodeEditor/TestResultsTable';
+import { useQuestionStore } from '../stores/questionStore';
+import { getQuestion, toSharedQuestion } from '../services/question-bank';
+
+const question = getQuestion('fizzbuzz')!;
+const [first, second] = question.tests;
+
+describe('TestResultsTable', () => {
+  beforeEach(() => {
+    useQuestionStore.getState().reset();
+  });
+
+  it('lists each case with a pass/fail summary', () => {
+    const { container, getByText } = render(
+      <TestResultsTable
+        results={[
+          { id: first.id, passed: true, exitCode: 0, duration: 3 },
+          { id: second.id, passed: false, exitCode: 0, duration: 5 },
+        ]}
+      />,
+    );
+
+    expect(getByText('1/2 passed')).toHaveClass('failed');
+    const rows = container.querySelectorAll('tbody tr');
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toHaveClass('passed');
+    expect(rows[1].querySelector('.test-status')!.textContent).toBe('✗ Failed');
+    // Without the tests, nothing about them is shown
+    expect(container.querySelector('.test-details')).toBeNull();
+  });
+
+  it('shows failing cases in detail to those who have the tests', () => {
+    useQuestionStore.getState().setQuestion(toSharedQuestion(question), question.tests);
+
+    const { container } = render(
+      <TestResultsTable results={[{ id: second.id, passed: false, exitCode: 0, duration: 5, stdout: 'oops', stderr: '' }]} />,
+    );
+
+    const details = container.querySelector('.test-details')!.textContent;
+    expect(details).toContain(second.expectedOutput);
+    expect(details).toContain('oops');
+  });
+});
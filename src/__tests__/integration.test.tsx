@@ -489,22 +489,22 @@ describe('Integration: Theme toggling', () => {
 });
 
 describe('Integration: State persistence', () => {
-  it('persistence layer saves code via StorageManager', async () => {
+  it('persistence layer saves files via StorageManager', async () => {
     const { container } = render(<App />);
     const sessionId = useSessionStore.getState().sessionId!;
     const textarea = container.querySelector('#codeInput') as HTMLTextAreaElement;
 
     fireEvent.change(textarea!, { target: { value: 'persisted code' } });
 
-    // StorageManager.saveCode wraps in JSON and debounces at 500ms
-    // Check that a localStorage.setItem call was made with the code key
+    // StorageManager.saveFiles wraps in JSON and debounces at 500ms
+    // Check that a localStorage.setItem call was made with the files key
     await waitFor(
       () => {
         const callArgs = vi.mocked(localStorage.setItem).mock.calls;
-        const codeSave = callArgs.find(([key]) => key === `duocode_code_${sessionId}`);
-        expect(codeSave).toBeTruthy();
-        const parsed = JSON.parse(codeSave![1]);
-        expect(parsed.code).toBe('persisted code');
+        const filesSave = callArgs.find(([key]) => key === `duocode_files_${sessionId}`);
+        expect(filesSave).toBeTruthy();
+        const parsed = JSON.parse(filesSave![1]);
+        expect(parsed.files[0].code).toBe('persisted code');
       },
       { timeout: 2000 }
     );
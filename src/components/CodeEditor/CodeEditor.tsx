@@ -1,39 +1,84 @@
-import { useRef, useCallback, useEffect, useLayoutEffect, ChangeEvent, KeyboardEvent } from 'react';
-import Prism from 'prismjs';
-import 'prismjs/components/prism-typescript';
-import 'prismjs/components/prism-python';
-import 'prismjs/components/prism-java';
-import 'prismjs/components/prism-kotlin';
-import 'prismjs/components/prism-c';
-import 'prismjs/components/prism-cpp';
-import 'prismjs/components/prism-csharp';
-import 'prismjs/components/prism-go';
-import 'prismjs/components/prism-rust';
-import 'prismjs/components/prism-ruby';
-import 'prismjs/components/prism-lua';
-import 'prismjs/components/prism-swift';
-import 'prismjs/components/prism-scala';
-import 'prismjs/components/prism-markup';
-import 'prismjs/components/prism-markup-templating';
-import 'prismjs/components/prism-php';
-import 'prismjs/components/prism-sql';
+import { useRef, useCallback, useEffect, useLayoutEffect, useMemo, useState, ChangeEvent, KeyboardEvent } from 'react';
 import { useEditorStore } from '../../stores/editorStore';
 import { useExecutionStore } from '../../stores/executionStore';
-import { getPrismLanguage, dedentLines, getLeadingWhitespace } from '../../services/code-editor-logic';
+import { useUIStore } from '../../stores/uiStore';
+import { useSessionStore } from '../../stores/sessionStore';
+import { getPrismLanguage, dedentLines, getLeadingWhitespace, getVisibleLineRange } from '../../services/code-editor-logic';
+import { LineHighlighter } from '../../services/line-highlighter';
 import { isExecutable } from '../../services/code-executor';
 import { calculateTextOperation } from '../../services/ot-engine';
+import { getCursorAfterOperation } from '../../services/undo-manager';
+import { hasPermission } from '../../services/roles';
 import RemoteCursors from './RemoteCursors';
 
+/** Line height relative to the font size — matches `line-height: 1.5` in styles.css. */
+const LINE_HEIGHT_EM = 1.5;
+
+/** Lines rendered above and below the viewport. */
+const OVERSCAN = 20;
+
+interface Viewport {
+  scrollTop: number;
+  height: number;
+  lineHeight: number;
+  paddingTop: number;
+}
+
+/** Read the textarea's scroll position and line metrics. */
+function measureViewport(textarea: HTMLTextAreaElement): Viewport {
+  const style = getComputedStyle(textarea);
+  const fontSize = parseFloat(style.fontSize) || 14;
+  return {
+    scrollTop: textarea.scrollTop,
+    // jsdom and hidden tabs report no height — assume a typical editor
+    height: textarea.clientHeight || 600,
+    lineHeight: fontSize * LINE_HEIGHT_EM,
+    paddingTop: parseFloat(style.paddingTop) || 12,
+  };
+}
+
+/**
+ * Code editor: a transparent textarea for input over a highlighted copy of
+ * the code. The copy is highlighted line by line (only edited lines are
+ * re-tokenized) and only the lines in view are rendered, so large files stay
+ * responsive.
+ */
 export default function CodeEditor() {
   const code = useEditorStore((s) => s.code);
   const language = useEditorStore((s) => s.language);
   const setCode = useEditorStore((s) => s.setCode);
   const applyLocalOperation = useEditorStore((s) => s.applyLocalOperation);
+  const editorScroll = useUIStore((s) => s.editorScroll);
+  const setEditorScroll = useUIStore((s) => s.setEditorScroll);
+  const canEdit = useSessionStore((s) => hasPermission(s.role, 'edit'));
 
   const inputRef = useRef<HTMLTextAreaElement>(null);
   const highlightRef = useRef<HTMLPreElement>(null);
   const prevCodeRef = useRef(code);
   const pendingCursorRef = useRef<{ start: number; end: number } | null>(null);
+  const highlighterRef = useRef<LineHighlighter | null>(null);
+  const [viewport, setViewport] = useState<Viewport>({
+    scrollTop: 0,
+    height: 600,
+    lineHeight: 21,
+    paddingTop: 12,
+  });
+
+  const updateViewport = useCallback(() => {
+    if (inputRef.current) {
+      setViewport(measureViewport(inputRef.current));
+    }
+  }, []);
+
+  // Measure on mount and whenever the editor is resized
+  useLayoutEffect(() => {
+    updateViewport();
+    const textarea = inputRef.current;
+    if (!textarea || typeof ResizeObserver === 'undefined') return;
+    const observer = new ResizeObserver(updateViewport);
+    observer.observe(textarea);
+    return () => observer.disconnect();
+  }, [updateViewport]);
 
   // Set cursor position after React re-renders (runs before browser paint)
   useLayoutEffect(() => {
@@ -83,8 +128,23 @@ export default function CodeEditor() {
         return;
       }
 
+      // Ctrl/Cmd + Z: undo own edits, Ctrl/Cmd + Shift + Z or Ctrl + Y: redo.
+      // Native textarea undo would also revert peers' edits.
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && (key === 'z' || key === 'y')) {
+        e.preventDefault();
+        const { undo, redo } = useEditorStore.getState();
+        const isRedo = key === 'y' || e.shiftKey;
+        const operation = isRedo ? redo?.() : undo?.();
+        if (operation) {
+          const cursor = getCursorAfterOperation(operation);
+          pendingCursorRef.current = { start: cursor, end: cursor };
+        }
+        return;
+      }
+
       const textarea = inputRef.current;
-      if (!textarea) return;
+      if (!textarea || textarea.readOnly) return;
 
       const start = textarea.selectionStart;
       const end = textarea.selectionEnd;
@@ -123,20 +183,43 @@ export default function CodeEditor() {
     prevCodeRef.current = code;
   }, [code]);
 
-  // Sync scroll between textarea and highlight overlay
+  // Sync scroll between textarea and highlight overlay, and render the lines now in view
   const handleScroll = useCallback(() => {
     if (inputRef.current && highlightRef.current) {
       highlightRef.current.scrollTop = inputRef.current.scrollTop;
       highlightRef.current.scrollLeft = inputRef.current.scrollLeft;
     }
-  }, []);
+    if (inputRef.current) {
+      setEditorScroll(inputRef.current.scrollTop, inputRef.current.scrollLeft);
+    }
+    updateViewport();
+  }, [setEditorScroll, updateViewport]);
 
-  // Produce highlighted HTML
+  // Scroll set from outside the editor (follow mode)
+  useLayoutEffect(() => {
+    const textarea = inputRef.current;
+    if (!textarea) return;
+    if (textarea.scrollTop === editorScroll.top && textarea.scrollLeft === editorScroll.left) return;
+    textarea.scrollTop = editorScroll.top;
+    textarea.scrollLeft = editorScroll.left;
+    handleScroll();
+  }, [editorScroll, handleScroll]);
+
+  // Produce highlighted HTML per line, re-tokenizing only what changed
   const prismLang = getPrismLanguage(language);
-  const grammar = Prism.languages[prismLang];
-  const highlighted = grammar
-    ? Prism.highlight(code, grammar, prismLang)
-    : escapeHtml(code);
+  const lines = useMemo(() => {
+    if (!highlighterRef.current) highlighterRef.current = new LineHighlighter();
+    return highlighterRef.current.update(code, prismLang);
+  }, [code, prismLang]);
+
+  const { start, end } = getVisibleLineRange(
+    viewport.scrollTop,
+    viewport.height,
+    viewport.lineHeight,
+    viewport.paddingTop,
+    lines.length,
+    OVERSCAN,
+  );
 
   return (
     <div id="codeEditorWrapper">
@@ -147,6 +230,7 @@ export default function CodeEditor() {
         onChange={handleInput}
         onKeyDown={handleKeyDown}
         onScroll={handleScroll}
+        readOnly={!canEdit}
         spellCheck={false}
         autoCapitalize="off"
         autoComplete="off"
@@ -156,17 +240,19 @@ export default function CodeEditor() {
         <code
           id="codeOutput"
           className={`language-${prismLang}`}
-          dangerouslySetInnerHTML={{ __html: highlighted + '\n' }}
-        />
+          style={{ height: `${lines.length * LINE_HEIGHT_EM}em` }}
+        >
+          {lines.slice(start, end).map((html, i) => (
+            <div
+              key={start + i}
+              className="code-line"
+              style={{ top: `${(start + i) * LINE_HEIGHT_EM}em` }}
+              dangerouslySetInnerHTML={{ __html: html }}
+            />
+          ))}
+        </code>
       </pre>
       <RemoteCursors textareaRef={inputRef} />
     </div>
   );
 }
-
-function escapeHtml(text: string): string {
-  return text
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;');
-}
@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { useExecutionHistoryStore } from '../../stores/executionHistoryStore';
+import { diffLines } from '../../services/execution-history';
+import type { ExecutionRun } from '../../services/execution-history';
+
+const DIFF_MARKERS = { same: ' ', added: '+', removed: '-' } as const;
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+}
+
+function formatOutcome(run: ExecutionRun): string {
+  if (run.tests) return `${run.tests.passed}/${run.tests.total} passed`;
+  return run.exitCode === 0 ? '✓ Exit 0' : `✗ Exit ${run.exitCode}`;
+}
+
+/**
+ * Every run of the session, newest first. Picking one shows its output;
+ * picking two shows how the code changed between them.
+ */
+export default function ExecutionHistory() {
+  const runs = useExecutionHistoryStore((s) => s.runs);
+  const snapshots = useExecutionHistoryStore((s) => s.snapshots);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  if (runs.length === 0) {
+    return <div className="output-placeholder">No runs yet</div>;
+  }
+
+  // Keep the two most recently picked
+  const toggle = (id: string) =>
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((x) => x !== id) : [...ids, id].slice(-2)));
+
+  const numbered = runs.map((run, index) => ({ run, number: index + 1 }));
+  const selected = numbered.filter(({ run }) => selectedIds.includes(run.id));
+
+  return (
+    <div className="execution-history">
+      <table className="history-table">
+        <thead>
+          <tr>
+            <th aria-label="Compare" />
+            <th>#</th>
+            <th>Time</th>
+            <th>By</th>
+            <th>Language</th>
+            <th>Result</th>
+            <th>Duration</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[...numbered].reverse().map(({ run, number }) => (
+            <tr
+              key={run.id}
+              className={`${run.exitCode === 0 ? 'passed' : 'failed'}${selectedIds.includes(run.id) ? ' selected' : ''}`}
+              onClick={() => toggle(run.id)}
+            >
+              <td>
+                <input
+                  type="checkbox"
+                  aria-label={`Select run ${number}`}
+                  checked={selectedIds.includes(run.id)}
+                  onChange={() => toggle(run.id)}
+                  onClick={(e) => e.stopPropagation()}
+                />
+              </td>
+              <td>{number}</td>
+              <td>{formatTime(run.timestamp)}</td>
+              <td>{run.runBy}</td>
+              <td>{run.language}</td>
+              <td className="history-outcome">{formatOutcome(run)}</td>
+              <td>{run.duration}ms</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {selected.length === 0 && (
+        <div className="output-placeholder">Select a run to see its output, or two to compare their code</div>
+      )}
+
+      {selected.length === 1 && (
+        <pre className="history-output">
+          {selected[0].run.tests && <span className="output-placeholder">(Output of test runs isn't kept)</span>}
+          {selected[0].run.stdout && <span className="output-stdout">{selected[0].run.stdout}</span>}
+          {selected[0].run.stdout && selected[0].run.stderr && '\n'}
+          {selected[0].run.stderr && <span className="output-stderr">{selected[0].run.stderr}</span>}
+          {!selected[0].run.tests && !selected[0].run.stdout && !selected[0].run.stderr && (
+            <span className="output-placeholder">(No output)</span>
+          )}
+        </pre>
+      )}
+
+      {selected.length === 2 && (
+        <CodeDiff
+          before={selected[0]}
+          after={selected[1]}
+          snapshots={snapshots}
+        />
+      )}
+    </div>
+  );
+}
+
+interface NumberedRun {
+  run: ExecutionRun;
+  number: number;
+}
+
+interface CodeDiffProps {
+  before: NumberedRun;
+  after: NumberedRun;
+  snapshots: Record<string, string>;
+}
+
+function CodeDiff({ before, after, snapshots }: CodeDiffProps) {
+  const title = `Changes from run ${before.number} to run ${after.number}`;
+
+  if (before.run.codeHash === after.run.codeHash) {
+    return (
+      <div className="history-diff">
+        <div className="history-diff-title">{title}</div>
+        <div className="output-placeholder">Same code</div>
+      </div>
+    );
+  }
+
+  const lines = diffLines(snapshots[before.run.codeHash] ?? '', snapshots[after.run.codeHash] ?? '');
+  return (
+    <div className="history-diff">
+      <div className="history-diff-title">{title}</div>
+      <pre className="history-diff-body">
+        {lines.map((line, index) => (
+          <div key={index} className={`diff-line ${line.type}`}>
+            {DIFF_MARKERS[line.type]} {line.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+}
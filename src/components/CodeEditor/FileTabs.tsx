@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { useEditorStore } from '../../stores/editorStore';
+import { useToastStore } from '../../stores/toastStore';
+import { useSessionStore } from '../../stores/sessionStore';
+import { hasPermission } from '../../services/roles';
+
+/**
+ * File tabs above the editor. Click to switch, double-click to rename,
+ * × to delete (the last file can't be deleted), + to add a file.
+ * The file's language is inferred from its extension when it's created.
+ * Participants without edit permission can only switch files.
+ */
+export default function FileTabs() {
+  const files = useEditorStore((s) => s.files);
+  const activeFileId = useEditorStore((s) => s.activeFileId);
+  const setActiveFile = useEditorStore((s) => s.setActiveFile);
+  const createFile = useEditorStore((s) => s.createFile);
+  const renameFile = useEditorStore((s) => s.renameFile);
+  const deleteFile = useEditorStore((s) => s.deleteFile);
+  const canEdit = useSessionStore((s) => hasPermission(s.role, 'edit'));
+
+  // Id of the file being renamed, or 'new' while naming a new file
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startEditing = (id: string, name: string) => {
+    setEditingId(id);
+    setDraftName(name);
+  };
+
+  const commitName = () => {
+    const name = draftName.trim();
+    const id = editingId;
+    setEditingId(null);
+    if (!id || !name) return;
+
+    const current = files.find((f) => f.id === id);
+    if (current?.name === name) return;
+    if (files.some((f) => f.name === name)) {
+      useToastStore.getState().showWarning(`A file named ${name} already exists`);
+      return;
+    }
+
+    if (id === 'new') {
+      createFile(name);
+    } else {
+      renameFile(id, name);
+    }
+  };
+
+  const nameInput = (
+    <input
+      className="file-tab-input"
+      value={draftName}
+      autoFocus
+      aria-label="File name"
+      onChange={(e) => setDraftName(e.target.value)}
+      onBlur={commitName}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') commitName();
+        if (e.key === 'Escape') setEditingId(null);
+      }}
+    />
+  );
+
+  return (
+    <div id="fileTabs" role="tablist" aria-label="Files">
+      {files.map((file) => (
+        editingId === file.id ? (
+          <div key={file.id} className="file-tab active">{nameInput}</div>
+        ) : (
+          <div
+            key={file.id}
+            className={`file-tab${file.id === activeFileId ? ' active' : ''}`}
+            role="tab"
+            aria-selected={file.id === activeFileId}
+            title={canEdit ? 'Double-click to rename' : undefined}
+            onClick={() => setActiveFile(file.id)}
+            onDoubleClick={() => canEdit && startEditing(file.id, file.name)}
+          >
+            <span className="file-tab-name">{file.name}</span>
+            {canEdit && files.length > 1 && (
+              <button
+                className="file-tab-close"
+                aria-label={`Delete ${file.name}`}
+                title="Delete file"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  deleteFile(file.id);
+                }}
+              >
+                ×
+              </button>
+            )}
+          </div>
+        )
+      ))}
+      {editingId === 'new' ? (
+        <div className="file-tab active">{nameInput}</div>
+      ) : canEdit && (
+        <button
+          className="file-tab-add"
+          aria-label="New file"
+          title="New file"
+          onClick={() => startEditing('new', '')}
+        >
+          +
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { useEditorStore } from '../../stores/editorStore';
+import { useSessionStore } from '../../stores/sessionStore';
+import { hasPermission } from '../../services/roles';
 import { codeTemplates } from '../../services/code-editor-logic';
 import { isExecutable, isWasmLanguage, preloadRuntime } from '../../services/code-executor';
 
@@ -26,6 +28,7 @@ const LANGUAGE_LABELS: Record<string, string> = {
 export default function LanguageSelector() {
   const language = useEditorStore((s) => s.language);
   const setLanguage = useEditorStore((s) => s.setLanguage);
+  const canEdit = useSessionStore((s) => hasPermission(s.role, 'edit'));
 
   const handleChange = (newLang: string) => {
     setLanguage(newLang);
@@ -40,6 +43,7 @@ export default function LanguageSelector() {
       <select
         value={language}
         onChange={(e) => handleChange(e.target.value)}
+        disabled={!canEdit}
         aria-label="Select language"
       >
         {LANGUAGES.map((lang) => (
@@ -1,8 +1,13 @@
-import { useRef, useEffect } from 'react';
+import { useRef, useEffect, useState } from 'react';
 import { useExecutionStore } from '../../stores/executionStore';
 import { useEditorStore } from '../../stores/editorStore';
 import { useRuntimeStore } from '../../stores/runtimeStore';
-import { isExecutable, isWasmLanguage } from '../../services/code-executor';
+import { useSessionStore } from '../../stores/sessionStore';
+import { useExecutionHistoryStore } from '../../stores/executionHistoryStore';
+import { hasPermission } from '../../services/roles';
+import { isExecutable, isWasmLanguage, getCapabilities } from '../../services/code-executor';
+import TestResultsTable from './TestResultsTable';
+import ExecutionHistory from './ExecutionHistory';
 
 const LANGUAGE_NAMES: Record<string, string> = {
   python: 'Python',
@@ -11,16 +16,32 @@ const LANGUAGE_NAMES: Record<string, string> = {
   go: 'Go',
   ruby: 'Ruby',
   lua: 'Lua',
+  java: 'Java',
+  kotlin: 'Kotlin',
+  rust: 'Rust',
+  csharp: 'C#',
+  swift: 'Swift',
+  scala: 'Scala',
+  php: 'PHP',
 };
 
+function formatLimits(timeLimit: number, memoryLimit: number | null): string {
+  return memoryLimit === null ? `${timeLimit / 1000}s limit` : `${timeLimit / 1000}s / ${memoryLimit}MB limit`;
+}
+
 export default function OutputPanel() {
   const isRunning = useExecutionStore((s) => s.isRunning);
   const output = useExecutionStore((s) => s.output);
   const panelExpanded = useExecutionStore((s) => s.panelExpanded);
   const togglePanel = useExecutionStore((s) => s.togglePanel);
+  const stdin = useExecutionStore((s) => s.stdin);
+  const setStdin = useExecutionStore((s) => s.setStdin);
+  const runCount = useExecutionHistoryStore((s) => s.runs.length);
+  const canRun = useSessionStore((s) => hasPermission(s.role, 'run'));
   const language = useEditorStore((s) => s.language);
   const runtimeInfo = useRuntimeStore((s) => s.getRuntime(language === 'c' ? 'cpp' : language));
   const outputRef = useRef<HTMLPreElement>(null);
+  const [showHistory, setShowHistory] = useState(false);
 
   const isWasm = isWasmLanguage(language);
   const isLoading = isWasm && runtimeInfo.status === 'loading';
@@ -32,12 +53,17 @@ export default function OutputPanel() {
     }
   }, [output, panelExpanded]);
 
-  // Hide when language doesn't support execution, or no output/loading/running
-  if (!isExecutable(language) || (!output && !isRunning && !isLoading)) return null;
+  // Hide when language doesn't support execution, or there is nothing to show
+  // and no input to give (see stdin below)
+  if (!isExecutable(language) || (!output && !isRunning && !isLoading && !canRun && !stdin && runCount === 0)) {
+    return null;
+  }
 
   const hasError = output && output.exitCode !== 0;
   const hasOutput = output && (output.stdout || output.stderr);
   const langName = LANGUAGE_NAMES[language] || language;
+  const capabilities = getCapabilities(language);
+  const acceptsStdin = capabilities?.stdin ?? false;
 
   return (
     <div className={`output-panel${panelExpanded ? ' expanded' : ' collapsed'}`}>
@@ -52,8 +78,8 @@ export default function OutputPanel() {
               {hasError ? '\u2717' : '\u2713'}
             </span>
           ) : null}
-          <span className="output-title">Output</span>
-          {output && (
+          <span className="output-title">{output?.testResults ? 'Tests' : 'Output'}</span>
+          {output && !isRunning && (
             <span className="output-duration">{output.duration}ms</span>
           )}
           {isLoading && (
@@ -64,7 +90,23 @@ export default function OutputPanel() {
           {isRunning && !isLoading && (
             <span className="output-running-label">Running...</span>
           )}
+          {capabilities && !output && !isRunning && !isLoading && (
+            <span className="output-limits">{formatLimits(capabilities.timeLimit, capabilities.memoryLimit)}</span>
+          )}
         </div>
+        {runCount > 0 && (
+          <button
+            className={`output-history-btn${showHistory ? ' active' : ''}`}
+            aria-pressed={showHistory}
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowHistory(!showHistory);
+              if (!panelExpanded) togglePanel();
+            }}
+          >
+            History ({runCount})
+          </button>
+        )}
         <button
           className="output-toggle"
           aria-label={panelExpanded ? 'Collapse output' : 'Expand output'}
@@ -80,7 +122,32 @@ export default function OutputPanel() {
           </svg>
         </button>
       </div>
-      {panelExpanded && (
+      {panelExpanded && showHistory && (
+        <div className="output-body">
+          <ExecutionHistory />
+        </div>
+      )}
+      {panelExpanded && !showHistory && (
+        <div className="stdin-section">
+          <label className="stdin-label" htmlFor="stdinInput">Input (stdin)</label>
+          <textarea
+            id="stdinInput"
+            className="stdin-input"
+            value={stdin}
+            onChange={(e) => setStdin(e.target.value)}
+            placeholder={acceptsStdin ? 'Read by input(), gets, io.read or readline()' : `${langName} runs here without stdin`}
+            readOnly={!canRun || !acceptsStdin}
+            rows={2}
+            spellCheck={false}
+          />
+        </div>
+      )}
+      {panelExpanded && !showHistory && output?.testResults && (
+        <div className="output-body">
+          <TestResultsTable results={output.testResults} />
+        </div>
+      )}
+      {panelExpanded && !showHistory && !output?.testResults && (
         <pre className="output-body" ref={outputRef}>
           {isLoading && !hasOutput && (
             <span className="output-placeholder">
@@ -100,6 +167,9 @@ export default function OutputPanel() {
           {output && !output.stdout && !output.stderr && (
             <span className="output-placeholder">(No output)</span>
           )}
+          {!output && !isRunning && !isLoading && (
+            <span className="output-placeholder">Run the code to see its output</span>
+          )}
         </pre>
       )}
     </div>
@@ -0,0 +1,90 @@
+import { useMemo, useState, type ReactNode } from 'react';
+import { useQuestionStore } from '../../stores/questionStore';
+import { useSessionStore } from '../../stores/sessionStore';
+import { hasPermission } from '../../services/roles';
+import { parseMarkdown } from '../../services/markdown';
+import type { InlineNode } from '../../services/markdown';
+
+function renderInline(nodes: InlineNode[]): ReactNode[] {
+  return nodes.map((node, i) => {
+    switch (node.type) {
+      case 'code':
+        return <code key={i}>{node.text}</code>;
+      case 'strong':
+        return <strong key={i}>{node.text}</strong>;
+      case 'em':
+        return <em key={i}>{node.text}</em>;
+      default:
+        return node.text;
+    }
+  });
+}
+
+function Markdown({ source }: { source: string }) {
+  const blocks = useMemo(() => parseMarkdown(source), [source]);
+
+  return (
+    <>
+      {blocks.map((block, i) => {
+        switch (block.type) {
+          case 'heading': {
+            // The question title is the panel's h3, so statement headings start below it
+            const Heading = `h${Math.min(block.level + 3, 6)}` as 'h4' | 'h5' | 'h6';
+            return <Heading key={i}>{renderInline(block.content)}</Heading>;
+          }
+          case 'list': {
+            const List = block.ordered ? 'ol' : 'ul';
+            return (
+              <List key={i}>
+                {block.items.map((item, j) => (
+                  <li key={j}>{renderInline(item)}</li>
+                ))}
+              </List>
+            );
+          }
+          case 'code':
+            return (
+              <pre key={i}>
+                <code>{block.text}</code>
+              </pre>
+            );
+          default:
+            return <p key={i}>{renderInline(block.content)}</p>;
+        }
+      })}
+    </>
+  );
+}
+
+/**
+ * The session question's statement, above the editor. Interviewers also see
+ * how many hidden tests it has.
+ */
+export default function ProblemStatement() {
+  const [collapsed, setCollapsed] = useState(false);
+  const question = useQuestionStore((s) => s.question);
+  const testCount = useQuestionStore((s) => s.getTests().length);
+  const canViewTests = useSessionStore((s) => hasPermission(s.role, 'viewNotes'));
+
+  if (!question) return null;
+
+  return (
+    <div className={`problem-statement ${collapsed ? 'collapsed' : ''}`}>
+      <div className="problem-header" onClick={() => setCollapsed((c) => !c)}>
+        <h3>{question.title}</h3>
+        <span className={`difficulty-badge ${question.difficulty}`}>{question.difficulty}</span>
+        {canViewTests && testCount > 0 && (
+          <span className="hidden-tests-count">{testCount} hidden tests</span>
+        )}
+        <span className="toggle-icon">
+          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <polyline points="6 9 12 15 18 9" />
+          </svg>
+        </span>
+      </div>
+      <div className="problem-body">
+        <Markdown source={question.statement} />
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { RefObject } from 'react';
 import { useEditorStore } from '../../stores/editorStore';
-import { calculateCursorPosition, isCursorVisible } from '../../services/code-editor-logic';
+import { calculateCursorPosition, calculateSelectionRects, isCursorVisible } from '../../services/code-editor-logic';
 
 const CURSOR_COLORS = [
   '#ff4444',
@@ -22,6 +22,7 @@ interface RemoteCursorsProps {
 export default function RemoteCursors({ textareaRef }: RemoteCursorsProps) {
   const remoteCursors = useEditorStore((s) => s.remoteCursors);
   const code = useEditorStore((s) => s.code);
+  const activeFileId = useEditorStore((s) => s.activeFileId);
 
   const peerIds = Object.keys(remoteCursors);
   if (peerIds.length === 0) return null;
@@ -37,6 +38,11 @@ export default function RemoteCursors({ textareaRef }: RemoteCursorsProps) {
         const cursor = remoteCursors[peerId];
         const color = cursor.color || CURSOR_COLORS[index % CURSOR_COLORS.length];
 
+        // Peers editing another file have no position in this one
+        if (cursor.fileId && cursor.fileId !== activeFileId) {
+          return null;
+        }
+
         const { top, left } = calculateCursorPosition(
           code,
           cursor.position ?? 0,
@@ -48,11 +54,47 @@ export default function RemoteCursors({ textareaRef }: RemoteCursorsProps) {
           scrollLeft,
         );
 
+        const selectionStart = Math.min(cursor.selectionStart ?? 0, cursor.selectionEnd ?? 0);
+        const selectionEnd = Math.max(cursor.selectionStart ?? 0, cursor.selectionEnd ?? 0);
+        const selectionRects = selectionEnd > selectionStart
+          ? calculateSelectionRects(
+            code,
+            selectionStart,
+            selectionEnd,
+            LINE_HEIGHT,
+            PADDING,
+            PADDING,
+            CHAR_WIDTH,
+            scrollTop,
+            scrollLeft,
+            visibleWidth,
+          ).filter((rect) => rect.top + rect.height >= 0 && rect.top <= visibleHeight)
+          : [];
+
+        const selection = selectionRects.map((rect, i) => (
+          <div
+            key={`${peerId}-selection-${i}`}
+            className="remote-selection"
+            style={{
+              position: 'absolute',
+              top: `${rect.top}px`,
+              left: `${rect.left}px`,
+              width: `${rect.width}px`,
+              height: `${rect.height}px`,
+              backgroundColor: color,
+              opacity: 0.25,
+              pointerEvents: 'none',
+              zIndex: 999,
+            }}
+          />
+        ));
+
         if (!isCursorVisible(top, left, visibleHeight, visibleWidth)) {
-          return null;
+          return selection;
         }
 
-        return (
+        return [
+          ...selection,
           <div
             key={peerId}
             className="remote-cursor"
@@ -83,8 +125,8 @@ export default function RemoteCursors({ textareaRef }: RemoteCursorsProps) {
             >
               {cursor.name || peerId.slice(0, 6)}
             </span>
-          </div>
-        );
+          </div>,
+        ];
       })}
     </>
   );
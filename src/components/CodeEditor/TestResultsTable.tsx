@@ -0,0 +1,64 @@
+import { useQuestionStore } from '../../stores/questionStore';
+import type { TestCaseResult } from '../../stores/executionStore';
+
+interface TestResultsTableProps {
+  results: TestCaseResult[];
+}
+
+/**
+ * Pass/fail of each hidden test case. Inputs and expected outputs are only
+ * shown to those who have the tests, and a case's actual output only to
+ * whoever ran them (see test-runner.ts).
+ */
+export default function TestResultsTable({ results }: TestResultsTableProps) {
+  const tests = useQuestionStore((s) => s.getTests());
+  const passed = results.filter((r) => r.passed).length;
+
+  return (
+    <div className="test-results">
+      <div className={`test-results-summary ${passed === results.length ? 'passed' : 'failed'}`}>
+        {passed}/{results.length} passed
+      </div>
+      <table className="test-results-table">
+        <thead>
+          <tr>
+            <th>#</th>
+            <th>Test</th>
+            <th>Result</th>
+            <th>Time</th>
+          </tr>
+        </thead>
+        <tbody>
+          {results.map((result, index) => {
+            const test = tests.find((t) => t.id === result.id);
+            const output = [result.stdout, result.stderr].filter(Boolean).join('\n');
+            return (
+              <tr key={result.id} className={result.passed ? 'passed' : 'failed'}>
+                <td>{index + 1}</td>
+                <td>
+                  <span className="test-id">{result.id}</span>
+                  {test && !result.passed && (
+                    <dl className="test-details">
+                      <dt>Input</dt>
+                      <dd>{test.input}</dd>
+                      <dt>Expected</dt>
+                      <dd>{test.expectedOutput}</dd>
+                      {result.stdout !== undefined && (
+                        <>
+                          <dt>Actual</dt>
+                          <dd>{output || '(No output)'}</dd>
+                        </>
+                      )}
+                    </dl>
+                  )}
+                </td>
+                <td className="test-status">{result.passed ? '✓ Passed' : '✗ Failed'}</td>
+                <td>{result.duration}ms</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useCallback, type ReactNode } from 'react';
 import { useCanvasStore } from '../../stores/canvasStore';
+import type { CanvasStore } from '../../stores/canvasStore';
 import type { CanvasTool } from '../../services/canvas-logic';
 
 interface ToolDefinition {
@@ -37,6 +38,16 @@ const TOOLS: ToolDefinition[] = [
       </svg>
     ),
   },
+  {
+    id: 'arrow',
+    title: 'Arrow',
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <line x1="5" y1="19" x2="19" y2="5" />
+        <polyline points="10 5 19 5 19 14" />
+      </svg>
+    ),
+  },
   {
     id: 'rectangle',
     title: 'Rectangle',
@@ -82,6 +93,245 @@ const TOOLS: ToolDefinition[] = [
   },
 ];
 
+/** System-design shapes, drawn corner to corner like rectangles. */
+const SHAPES: ToolDefinition[] = [
+  {
+    id: 'service',
+    title: 'Service',
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="2" y="6" width="20" height="12" rx="4" />
+      </svg>
+    ),
+  },
+  {
+    id: 'database',
+    title: 'Database',
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <ellipse cx="12" cy="5" rx="8" ry="3" />
+        <path d="M4 5v14c0 1.7 3.6 3 8 3s8-1.3 8-3V5" />
+      </svg>
+    ),
+  },
+  {
+    id: 'queue',
+    title: 'Queue',
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="2" y="7" width="20" height="10" />
+        <line x1="12" y1="7" x2="12" y2="17" />
+        <line x1="15.5" y1="7" x2="15.5" y2="17" />
+        <line x1="19" y1="7" x2="19" y2="17" />
+      </svg>
+    ),
+  },
+  {
+    id: 'cache',
+    title: 'Cache',
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="2" y="4" width="20" height="16" />
+        <path d="M13 7l-4 6h4l-2 4" />
+      </svg>
+    ),
+  },
+  {
+    id: 'load-balancer',
+    title: 'Load Balancer',
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M12 2l10 10-10 10L2 12z" />
+      </svg>
+    ),
+  },
+  {
+    id: 'client',
+    title: 'Client',
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="6" y="2" width="12" height="20" rx="2" />
+        <line x1="10" y1="18" x2="14" y2="18" />
+      </svg>
+    ),
+  },
+  {
+    id: 'cloud',
+    title: 'Cloud',
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <path d="M17.5 19H9a7 7 0 1 1 6.7-9h1.8a4.5 4.5 0 1 1 0 9Z" />
+      </svg>
+    ),
+  },
+  {
+    id: 'group',
+    title: 'Group / Swimlane',
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" strokeDasharray="3 2">
+        <rect x="2" y="3" width="20" height="18" />
+        <line x1="2" y1="8" x2="22" y2="8" />
+      </svg>
+    ),
+  },
+];
+
+/** Commands on the selection, shown while something is selected. */
+interface ArrangeCommand {
+  title: string;
+  run: (store: CanvasStore) => void;
+  /** Fewest selected strokes the command does anything with. */
+  minSelected: number;
+  /** Only does anything if a selected stroke is grouped. */
+  grouped?: boolean;
+  icon: ReactNode;
+}
+
+const ARRANGE: ArrangeCommand[] = [
+  {
+    title: 'Group',
+    run: (s) => s.groupSelection(),
+    minSelected: 2,
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="3" y="3" width="8" height="8" />
+        <rect x="13" y="13" width="8" height="8" />
+        <path d="M1 1h4M1 1v4M23 23h-4M23 23v-4" />
+      </svg>
+    ),
+  },
+  {
+    title: 'Ungroup',
+    run: (s) => s.ungroupSelection(),
+    minSelected: 1,
+    grouped: true,
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="3" y="3" width="8" height="8" />
+        <rect x="13" y="13" width="8" height="8" strokeDasharray="2 2" />
+      </svg>
+    ),
+  },
+  {
+    title: 'Bring to Front',
+    run: (s) => s.bringToFront(),
+    minSelected: 1,
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="8" y="8" width="13" height="13" fill="currentColor" />
+        <rect x="3" y="3" width="13" height="13" strokeDasharray="2 2" />
+      </svg>
+    ),
+  },
+  {
+    title: 'Send to Back',
+    run: (s) => s.sendToBack(),
+    minSelected: 1,
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <rect x="3" y="3" width="13" height="13" fill="currentColor" />
+        <rect x="8" y="8" width="13" height="13" />
+      </svg>
+    ),
+  },
+  {
+    title: 'Align Left',
+    run: (s) => s.alignSelection('left'),
+    minSelected: 2,
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <line x1="3" y1="2" x2="3" y2="22" />
+        <rect x="7" y="5" width="14" height="5" />
+        <rect x="7" y="14" width="8" height="5" />
+      </svg>
+    ),
+  },
+  {
+    title: 'Align Center',
+    run: (s) => s.alignSelection('center'),
+    minSelected: 2,
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <line x1="12" y1="2" x2="12" y2="22" />
+        <rect x="5" y="5" width="14" height="5" />
+        <rect x="8" y="14" width="8" height="5" />
+      </svg>
+    ),
+  },
+  {
+    title: 'Align Right',
+    run: (s) => s.alignSelection('right'),
+    minSelected: 2,
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <line x1="21" y1="2" x2="21" y2="22" />
+        <rect x="3" y="5" width="14" height="5" />
+        <rect x="9" y="14" width="8" height="5" />
+      </svg>
+    ),
+  },
+  {
+    title: 'Align Top',
+    run: (s) => s.alignSelection('top'),
+    minSelected: 2,
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <line x1="2" y1="3" x2="22" y2="3" />
+        <rect x="5" y="7" width="5" height="14" />
+        <rect x="14" y="7" width="5" height="8" />
+      </svg>
+    ),
+  },
+  {
+    title: 'Align Middle',
+    run: (s) => s.alignSelection('middle'),
+    minSelected: 2,
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <line x1="2" y1="12" x2="22" y2="12" />
+        <rect x="5" y="5" width="5" height="14" />
+        <rect x="14" y="8" width="5" height="8" />
+      </svg>
+    ),
+  },
+  {
+    title: 'Align Bottom',
+    run: (s) => s.alignSelection('bottom'),
+    minSelected: 2,
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <line x1="2" y1="21" x2="22" y2="21" />
+        <rect x="5" y="3" width="5" height="14" />
+        <rect x="14" y="9" width="5" height="8" />
+      </svg>
+    ),
+  },
+  {
+    title: 'Distribute Horizontally',
+    run: (s) => s.distributeSelection('horizontal'),
+    minSelected: 3,
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <line x1="2" y1="3" x2="2" y2="21" />
+        <line x1="22" y1="3" x2="22" y2="21" />
+        <rect x="9" y="7" width="6" height="10" />
+      </svg>
+    ),
+  },
+  {
+    title: 'Distribute Vertically',
+    run: (s) => s.distributeSelection('vertical'),
+    minSelected: 3,
+    icon: (
+      <svg width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+        <line x1="3" y1="2" x2="21" y2="2" />
+        <line x1="3" y1="22" x2="21" y2="22" />
+        <rect x="7" y="9" width="10" height="6" />
+      </svg>
+    ),
+  },
+];
+
 const ERASER: ToolDefinition = {
   id: 'eraser',
   title: 'Eraser',
@@ -108,6 +358,9 @@ export default function CanvasToolbar() {
   const clear = useCanvasStore((s) => s.clear);
   const setZoom = useCanvasStore((s) => s.setZoom);
   const setPan = useCanvasStore((s) => s.setPan);
+  const drawingStrokes = useCanvasStore((s) => s.drawingStrokes);
+  const selectedIds = useCanvasStore((s) => s.selectedIds);
+  const selected = drawingStrokes.filter((s) => selectedIds.includes(s.id!));
 
   const handleResetZoom = useCallback(() => {
     setZoom(1);
@@ -130,6 +383,37 @@ export default function CanvasToolbar() {
 
       <span className="tool-divider" />
 
+      {SHAPES.map((tool) => (
+        <button
+          key={tool.id}
+          className={`tool-btn-icon${currentTool === tool.id ? ' active' : ''}`}
+          data-tool={tool.id}
+          title={tool.title}
+          onClick={() => setTool(tool.id)}
+        >
+          {tool.icon}
+        </button>
+      ))}
+
+      {currentTool === 'select' && selected.length > 0 && (
+        <>
+          <span className="tool-divider" />
+          {ARRANGE.map((command) => (
+            <button
+              key={command.title}
+              className="tool-btn-icon"
+              title={command.title}
+              disabled={selected.length < command.minSelected || (command.grouped && !selected.some((s) => s.groupId))}
+              onClick={() => command.run(useCanvasStore.getState())}
+            >
+              {command.icon}
+            </button>
+          ))}
+        </>
+      )}
+
+      <span className="tool-divider" />
+
       <button
         className="tool-btn-icon"
         title="Undo (Ctrl+Z)"
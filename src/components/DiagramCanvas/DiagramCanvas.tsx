@@ -1,7 +1,9 @@
 import { useRef, useEffect, useCallback, useState } from 'react';
 import { useCanvasStore } from '../../stores/canvasStore';
 import { useUIStore } from '../../stores/uiStore';
-import type { Point, Stroke } from '../../services/canvas-logic';
+import { useSessionStore } from '../../stores/sessionStore';
+import { hasPermission } from '../../services/roles';
+import { strokeChanges } from '../../services/canvas-document';
 import {
   getCSSScale,
   clientToLogical,
@@ -13,12 +15,31 @@ import {
   filterStrokesAfterErase,
   findTextAtPosition,
   findStrokeAtPosition,
-  getStrokeBounds,
+  findShapeAtPosition,
+  getDiagramBounds,
+  getLabelBounds,
+  getOuterBounds,
+  isSystemShape,
+  rotateStroke,
   translateStroke,
   DEFAULT_FONT_SIZE,
   MIN_SCALE,
   MAX_SCALE,
 } from '../../services/canvas-logic';
+import { drawArrow, drawSystemShape, renderStrokes } from '../../services/canvas-render';
+import {
+  detachArrows,
+  expandToGroups,
+  findHandleAtPosition,
+  findStrokesInRect,
+  getHandlePoints,
+  getSelectionBounds,
+  resizeBounds,
+  scaleStroke,
+  HANDLE_SIZE,
+} from '../../services/canvas-selection';
+import type { SelectionHandle } from '../../services/canvas-selection';
+import type { Point, Stroke, StrokeBounds } from '../../services/canvas-logic';
 import CanvasToolbar from './CanvasToolbar';
 import TextInputOverlay from './TextInputOverlay';
 import DrawerLabels from './DrawerLabels';
@@ -27,8 +48,10 @@ interface TextOverlayState {
   visible: boolean;
   x: number;
   y: number;
-  shapeIndex: number | null;
-  editIndex: number | null;
+  /** Id of the shape whose label is being edited. */
+  shapeId: string | null;
+  /** Id of the text stroke being edited. */
+  editId: string | null;
   initialText: string;
   shapeWidth?: number;
   shapeHeight?: number;
@@ -37,6 +60,30 @@ interface TextOverlayState {
 interface MouseLikeEvent {
   clientX: number;
   clientY: number;
+  shiftKey?: boolean;
+}
+
+/** A resize or rotation under way, from the selection as it was when it began. */
+interface SelectionTransform {
+  handle: SelectionHandle;
+  bounds: StrokeBounds;
+  strokes: Stroke[];
+  /** Angle from the selection's centre to where the rotation began. */
+  startAngle: number;
+}
+
+interface Marquee {
+  start: Point;
+  end: Point;
+  /** Shift-dragged: adds to the selection instead of replacing it. */
+  additive: boolean;
+}
+
+// Shift-rotating turns in steps of this
+const ROTATION_SNAP = Math.PI / 12;
+
+function boundsCenter({ minX, minY, maxX, maxY }: StrokeBounds): Point {
+  return { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
 }
 
 export default function DiagramCanvas() {
@@ -56,22 +103,27 @@ export default function DiagramCanvas() {
   const pinchScaleRef = useRef(1);
   const lastPanPointRef = useRef<Point>({ x: 0, y: 0 });
 
-  // Selection state refs
-  const selectedIndexRef = useRef<number | null>(null);
+  // Selection state refs (the selected ids live in the store)
   const dragStartRef = useRef<Point>({ x: 0, y: 0 });
   const isDraggingRef = useRef(false);
+  const transformRef = useRef<SelectionTransform | null>(null);
+  const marqueeRef = useRef<Marquee | null>(null);
+  // Whether the current drag or erase already made an undo step to add to
+  const inGestureStepRef = useRef(false);
 
   // Eraser trail refs
   const eraserTrailRef = useRef<Point[]>([]);
   const eraserRadiusRef = useRef(0);
 
   // Text overlay state
-  const textOverlayRef = useRef<TextOverlayState>({ visible: false, x: 0, y: 0, shapeIndex: null, editIndex: null, initialText: '' });
+  const textOverlayRef = useRef<TextOverlayState>({ visible: false, x: 0, y: 0, shapeId: null, editId: null, initialText: '' });
 
   // Store selectors — only subscribe to values that trigger re-renders
   const currentTool = useCanvasStore((s) => s.currentTool);
   const drawingStrokes = useCanvasStore((s) => s.drawingStrokes);
+  const selectedIds = useCanvasStore((s) => s.selectedIds);
   const theme = useUIStore((s) => s.theme);
+  const canDraw = useSessionStore((s) => hasPermission(s.role, 'draw'));
 
   // Non-reactive store access
   const getState = useCanvasStore.getState;
@@ -135,106 +187,78 @@ export default function DiagramCanvas() {
 
   // ── Rendering ──────────────────────────────────────────────────────
 
-  const renderStrokes = useCallback(
-    (ctx: CanvasRenderingContext2D, strokes: Stroke[], editingShapeIndex?: number | null) => {
-      strokes.forEach((stroke, idx) => {
-        if (stroke.tool === 'text' && stroke.text && stroke.position) {
-          const fontSize = stroke.fontSize || DEFAULT_FONT_SIZE;
-          ctx.font = `${fontSize}px sans-serif`;
-          ctx.fillStyle = stroke.color || '#000';
-          ctx.textBaseline = 'top';
-          const lines = stroke.text.split('\n');
-          const lineHeight = fontSize * 1.3;
-          lines.forEach((line, i) => {
-            ctx.fillText(line, stroke.position!.x, stroke.position!.y + i * lineHeight);
-          });
-        } else {
-          ctx.beginPath();
-          ctx.strokeStyle = stroke.color || '#000';
-          ctx.lineWidth = stroke.brushSize || 2;
-          ctx.lineCap = 'round';
-          ctx.lineJoin = 'round';
-
-          if (stroke.tool === 'pen' && stroke.points && stroke.points.length > 0) {
-            ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
-            for (let i = 1; i < stroke.points.length; i++) {
-              ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
-            }
-            ctx.stroke();
-          } else if (stroke.tool === 'line' && stroke.start && stroke.end) {
-            ctx.moveTo(stroke.start.x, stroke.start.y);
-            ctx.lineTo(stroke.end.x, stroke.end.y);
-            ctx.stroke();
-          } else if (stroke.tool === 'rectangle' && stroke.start && stroke.end) {
-            const w = stroke.end.x - stroke.start.x;
-            const h = stroke.end.y - stroke.start.y;
-            ctx.strokeRect(stroke.start.x, stroke.start.y, w, h);
-            if (stroke.text && idx !== editingShapeIndex) {
-              const fontSize = DEFAULT_FONT_SIZE;
-              ctx.font = `${fontSize}px sans-serif`;
-              ctx.fillStyle = stroke.textColor || stroke.color || '#000';
-              ctx.textAlign = 'center';
-              ctx.textBaseline = 'middle';
-              const lines = stroke.text.split('\n');
-              const lineHeight = fontSize * 1.3;
-              const totalHeight = lines.length * lineHeight;
-              const centerX = stroke.start.x + w / 2;
-              const startY = stroke.start.y + h / 2 - totalHeight / 2 + lineHeight / 2;
-              lines.forEach((line, li) => {
-                ctx.fillText(line, centerX, startY + li * lineHeight);
-              });
-              ctx.textAlign = 'left';
-            }
-          } else if (stroke.tool === 'circle' && stroke.start && stroke.end) {
-            const radius = Math.sqrt(
-              (stroke.end.x - stroke.start.x) ** 2 + (stroke.end.y - stroke.start.y) ** 2,
-            );
-            ctx.arc(stroke.start.x, stroke.start.y, radius, 0, 2 * Math.PI);
-            ctx.stroke();
-            if (stroke.text && idx !== editingShapeIndex) {
-              const fontSize = DEFAULT_FONT_SIZE;
-              ctx.font = `${fontSize}px sans-serif`;
-              ctx.fillStyle = stroke.textColor || stroke.color || '#000';
-              ctx.textAlign = 'center';
-              ctx.textBaseline = 'middle';
-              const lines = stroke.text.split('\n');
-              const lineHeight = fontSize * 1.3;
-              const totalHeight = lines.length * lineHeight;
-              const cx = stroke.start.x;
-              const startY = stroke.start.y - totalHeight / 2 + lineHeight / 2;
-              lines.forEach((line, li) => {
-                ctx.fillText(line, cx, startY + li * lineHeight);
-              });
-              ctx.textAlign = 'left';
-            }
-          }
-        }
-      });
-    },
-    [],
-  );
-
   const renderSelection = useCallback(
     (ctx: CanvasRenderingContext2D, strokes: Stroke[]) => {
-      const idx = selectedIndexRef.current;
-      if (idx === null || idx < 0 || idx >= strokes.length) return;
+      const { selectedIds: ids, zoom: z, currentTool: tool } = getState();
+      const selected = strokes.filter((s) => ids.includes(s.id!));
+      const marquee = marqueeRef.current;
+      if (selected.length === 0 && !marquee) return;
 
-      const bounds = getStrokeBounds(strokes[idx]);
       const pad = 6;
       ctx.save();
       ctx.setLineDash([6, 4]);
       ctx.strokeStyle = '#007bff';
       ctx.lineWidth = 1.5;
-      ctx.strokeRect(
-        bounds.minX - pad,
-        bounds.minY - pad,
-        bounds.maxX - bounds.minX + pad * 2,
-        bounds.maxY - bounds.minY + pad * 2,
-      );
+      for (const stroke of selected) {
+        const bounds = getOuterBounds(stroke);
+        ctx.strokeRect(
+          bounds.minX - pad,
+          bounds.minY - pad,
+          bounds.maxX - bounds.minX + pad * 2,
+          bounds.maxY - bounds.minY + pad * 2,
+        );
+      }
+
+      if (marquee) {
+        ctx.fillStyle = 'rgba(0, 123, 255, 0.08)';
+        const width = marquee.end.x - marquee.start.x;
+        const height = marquee.end.y - marquee.start.y;
+        ctx.fillRect(marquee.start.x, marquee.start.y, width, height);
+        ctx.strokeRect(marquee.start.x, marquee.start.y, width, height);
+      }
       ctx.setLineDash([]);
+
+      // Resize handles on the corners and sides, and a rotation handle above
+      if (tool === 'select' && selected.length > 0) {
+        const handles = getHandlePoints(getDiagramBounds(selected), z);
+        const size = HANDLE_SIZE / z;
+        ctx.lineWidth = 1.5 / z;
+        ctx.fillStyle = '#ffffff';
+        ctx.beginPath();
+        ctx.moveTo(handles.n.x, handles.n.y);
+        ctx.lineTo(handles.rotate.x, handles.rotate.y);
+        ctx.stroke();
+        for (const [handle, p] of Object.entries(handles)) {
+          ctx.beginPath();
+          if (handle === 'rotate') ctx.arc(p.x, p.y, size / 2, 0, Math.PI * 2);
+          else ctx.rect(p.x - size / 2, p.y - size / 2, size, size);
+          ctx.fill();
+          ctx.stroke();
+        }
+      }
       ctx.restore();
     },
-    [],
+    [getState],
+  );
+
+  /**
+   * Applies new versions of selected strokes as one change, joined to the
+   * current gesture's undo step after the first.
+   */
+  const updateSelected = useCallback(
+    (next: Stroke[]) => {
+      const current = new Map(getState().drawingStrokes.map((s) => [s.id!, s]));
+      const changes = Object.fromEntries(
+        detachArrows(next)
+          .filter((s) => current.has(s.id!))
+          .map((s) => [s.id!, strokeChanges(current.get(s.id!)!, s)] as const)
+          .filter(([, fields]) => Object.keys(fields).length > 0),
+      );
+      if (Object.keys(changes).length === 0) return;
+      getState().updateStrokes(changes, inGestureStepRef.current);
+      inGestureStepRef.current = true;
+    },
+    [getState],
   );
 
   const saveToBuffer = useCallback(() => {
@@ -323,10 +347,10 @@ export default function DiagramCanvas() {
     ctx.fillStyle = getCanvasBackground();
     ctx.fillRect(0, 0, canvas.width, canvas.height);
 
-    renderStrokes(ctx, strokes, textOverlayRef.current.visible ? textOverlayRef.current.shapeIndex : null);
+    renderStrokes(ctx, strokes, textOverlayRef.current.visible ? textOverlayRef.current.shapeId : null);
     saveToBuffer();
     redrawViewport();
-  }, [getState, getCanvasBackground, renderStrokes, saveToBuffer, redrawViewport]);
+  }, [getState, getCanvasBackground, saveToBuffer, redrawViewport]);
 
   // Redraw when strokes or theme change
   useEffect(() => {
@@ -335,13 +359,20 @@ export default function DiagramCanvas() {
     return () => cancelAnimationFrame(id);
   }, [drawingStrokes, theme, redrawAll]);
 
+  // Selection changes don't touch the strokes, only the highlight on top
+  useEffect(() => {
+    redrawViewport();
+  }, [selectedIds, redrawViewport]);
+
   // Clear selection when switching away from select tool
   useEffect(() => {
     if (currentTool !== 'select') {
-      selectedIndexRef.current = null;
+      getState().setSelection([]);
       isDraggingRef.current = false;
+      transformRef.current = null;
+      marqueeRef.current = null;
     }
-  }, [currentTool]);
+  }, [currentTool, getState]);
 
   // ── Text overlay state (must be before mouse handlers that reference it) ──
 
@@ -353,19 +384,19 @@ export default function DiagramCanvas() {
   const handleTextCommit = useCallback(
     (text: string) => {
       if (!text.trim()) {
-        textOverlayRef.current = { visible: false, x: 0, y: 0, shapeIndex: null, editIndex: null, initialText: '' };
-        selectedIndexRef.current = null;
+        textOverlayRef.current = { visible: false, x: 0, y: 0, shapeId: null, editId: null, initialText: '' };
+        getState().setSelection([]);
         forceOverlayUpdate();
         return;
       }
 
-      const { shapeIndex, editIndex } = textOverlayRef.current;
-      if (shapeIndex !== null) {
+      const { shapeId, editId } = textOverlayRef.current;
+      if (shapeId !== null) {
         // Add/update text on existing shape
-        getState().updateStrokeAt(shapeIndex, { text });
-      } else if (editIndex !== null) {
+        getState().updateStroke(shapeId, { text });
+      } else if (editId !== null) {
         // Edit existing text stroke in-place
-        getState().updateStrokeAt(editIndex, { text });
+        getState().updateStroke(editId, { text });
       } else {
         // Create standalone text stroke
         const { strokeColor: color } = getState();
@@ -378,25 +409,25 @@ export default function DiagramCanvas() {
         };
         getState().addStroke(stroke);
       }
-      textOverlayRef.current = { visible: false, x: 0, y: 0, shapeIndex: null, editIndex: null, initialText: '' };
-      selectedIndexRef.current = null;
+      textOverlayRef.current = { visible: false, x: 0, y: 0, shapeId: null, editId: null, initialText: '' };
+      getState().setSelection([]);
       forceOverlayUpdate();
     },
     [getState, forceOverlayUpdate],
   );
 
   const handleTextDismiss = useCallback(() => {
-    textOverlayRef.current = { visible: false, x: 0, y: 0, shapeIndex: null, editIndex: null, initialText: '' };
-    selectedIndexRef.current = null;
+    textOverlayRef.current = { visible: false, x: 0, y: 0, shapeId: null, editId: null, initialText: '' };
+    getState().setSelection([]);
     forceOverlayUpdate();
-  }, [forceOverlayUpdate]);
+  }, [getState, forceOverlayUpdate]);
 
   // ── Mouse event handlers ───────────────────────────────────────────
 
   const handleMouseDown = useCallback(
     (e: MouseLikeEvent) => {
       const ctx = ctxRef.current;
-      if (!ctx) return;
+      if (!ctx || !hasPermission(useSessionStore.getState().role, 'draw')) return;
 
       const { currentTool: tool, strokeColor: color, strokeWidth: width } = getState();
 
@@ -406,15 +437,40 @@ export default function DiagramCanvas() {
 
       if (tool === 'select') {
         isDrawingRef.current = false;
-        const strokes = getState().drawingStrokes;
+        const { drawingStrokes: strokes, selectedIds: ids, zoom: z, setSelection } = getState();
+        inGestureStepRef.current = false;
+
+        // A handle of the selection box: resize or rotate the whole selection
+        const bounds = getSelectionBounds(strokes, ids);
+        const handle = bounds && findHandleAtPosition(bounds, pos.x, pos.y, z);
+        if (bounds && handle) {
+          const center = boundsCenter(bounds);
+          transformRef.current = {
+            handle,
+            bounds,
+            strokes: strokes.filter((s) => ids.includes(s.id!)),
+            startAngle: Math.atan2(pos.y - center.y, pos.x - center.x),
+          };
+          return;
+        }
+
         const hitIdx = findStrokeAtPosition(strokes, pos.x, pos.y);
         if (hitIdx !== null) {
-          selectedIndexRef.current = hitIdx;
-          dragStartRef.current = pos;
-          isDraggingRef.current = true;
+          // Strokes are picked with everything grouped with them
+          const hitId = strokes[hitIdx].id!;
+          const picked = expandToGroups(strokes, [hitId]);
+          if (e.shiftKey) {
+            setSelection(ids.includes(hitId)
+              ? ids.filter((id) => !picked.includes(id))
+              : [...ids, ...picked.filter((id) => !ids.includes(id))]);
+          } else {
+            if (!ids.includes(hitId)) setSelection(picked);
+            dragStartRef.current = pos;
+            isDraggingRef.current = true;
+          }
         } else {
-          selectedIndexRef.current = null;
-          isDraggingRef.current = false;
+          if (!e.shiftKey) setSelection([]);
+          marqueeRef.current = { start: pos, end: pos, additive: !!e.shiftKey };
         }
         redrawViewport();
         return;
@@ -448,12 +504,12 @@ export default function DiagramCanvas() {
             visible: true,
             x: stroke.position!.x,
             y: stroke.position!.y,
-            shapeIndex: null,
-            editIndex: textIndex,
+            shapeId: null,
+            editId: stroke.id ?? null,
             initialText: stroke.text || '',
           };
         } else {
-          textOverlayRef.current = { visible: true, x: pos.x, y: pos.y, shapeIndex: null, editIndex: null, initialText: '' };
+          textOverlayRef.current = { visible: true, x: pos.x, y: pos.y, shapeId: null, editId: null, initialText: '' };
         }
         forceOverlayUpdate();
         return;
@@ -462,6 +518,7 @@ export default function DiagramCanvas() {
       if (tool === 'eraser') {
         const eraseRadius = width * 3;
         eraserTrailRef.current = [{ x: pos.x, y: pos.y }];
+        inGestureStepRef.current = false;
         eraserRadiusRef.current = eraseRadius;
         return;
       }
@@ -487,6 +544,12 @@ export default function DiagramCanvas() {
           start: { x: pos.x, y: pos.y },
           end: { x: pos.x, y: pos.y },
         };
+        if (tool === 'arrow') {
+          // Started on a shape: the arrow stays attached to it
+          const strokes = getState().drawingStrokes;
+          const source = findShapeAtPosition(strokes, pos.x, pos.y);
+          if (source !== null) currentStrokeRef.current.from = strokes[source].id;
+        }
       }
     },
     [getState, getMousePos, getBufferPos, getCanvasBackground, forceOverlayUpdate, handleTextCommit, redrawViewport],
@@ -494,20 +557,38 @@ export default function DiagramCanvas() {
 
   const handleMouseMove = useCallback(
     (e: MouseLikeEvent) => {
-      // Handle select tool drag (isDragging is separate from isDrawing)
-      if (isDraggingRef.current && selectedIndexRef.current !== null) {
+      // Handle select tool gestures (separate from isDrawing)
+      if (transformRef.current) {
+        const pos = getMousePos(e);
+        const { handle, bounds, strokes: original, startAngle } = transformRef.current;
+        if (handle === 'rotate') {
+          const center = boundsCenter(bounds);
+          let angle = Math.atan2(pos.y - center.y, pos.x - center.x) - startAngle;
+          if (e.shiftKey) angle = Math.round(angle / ROTATION_SNAP) * ROTATION_SNAP;
+          updateSelected(original.map((s) => rotateStroke(s, center, angle)));
+        } else {
+          const to = resizeBounds(bounds, handle, pos);
+          updateSelected(original.map((s) => scaleStroke(s, bounds, to)));
+        }
+        return;
+      }
+
+      if (marqueeRef.current) {
+        marqueeRef.current.end = getMousePos(e);
+        redrawViewport();
+        return;
+      }
+
+      if (isDraggingRef.current) {
         const pos = getMousePos(e);
         const dx = pos.x - dragStartRef.current.x;
         const dy = pos.y - dragStartRef.current.y;
         if (dx === 0 && dy === 0) return;
 
-        const strokes = getState().drawingStrokes;
-        const idx = selectedIndexRef.current;
-        if (idx >= 0 && idx < strokes.length) {
-          const moved = translateStroke(strokes[idx], dx, dy);
-          getState().updateStrokeAt(idx, moved);
-          dragStartRef.current = pos;
-        }
+        // Dragged arrows let go of the shapes that stay behind
+        const { drawingStrokes: strokes, selectedIds: ids } = getState();
+        updateSelected(strokes.filter((s) => ids.includes(s.id!)).map((s) => translateStroke(s, dx, dy)));
+        dragStartRef.current = pos;
         return;
       }
 
@@ -541,7 +622,9 @@ export default function DiagramCanvas() {
         const { drawingStrokes: strokes } = getState();
         const remaining = filterStrokesAfterErase(strokes, pos.x, pos.y, eraseRadius);
         if (remaining.length !== strokes.length) {
-          getState().setStrokes(remaining);
+          const kept = new Set(remaining);
+          getState().deleteStrokes(strokes.filter((s) => !kept.has(s)).map((s) => s.id!), inGestureStepRef.current);
+          inGestureStepRef.current = true;
           // Rebuild buffer without erased strokes so viewport shows them removed
           const canvas = canvasRef.current;
           if (canvas) {
@@ -582,12 +665,16 @@ export default function DiagramCanvas() {
           ctx.moveTo(start.x, start.y);
           ctx.lineTo(pos.x, pos.y);
           ctx.stroke();
+        } else if (tool === 'arrow') {
+          drawArrow(ctx, start, pos);
         } else if (tool === 'rectangle') {
           ctx.strokeRect(start.x, start.y, pos.x - start.x, pos.y - start.y);
         } else if (tool === 'circle') {
           const radius = Math.sqrt((pos.x - start.x) ** 2 + (pos.y - start.y) ** 2);
           ctx.arc(start.x, start.y, radius, 0, 2 * Math.PI);
           ctx.stroke();
+        } else if (isSystemShape(tool)) {
+          drawSystemShape(ctx, { tool, start, end: pos });
         }
 
         if (currentStrokeRef.current) {
@@ -595,14 +682,24 @@ export default function DiagramCanvas() {
         }
       }
     },
-    [getState, getMousePos, getBufferPos, getCanvasBackground, redrawAll, redrawViewport, renderStrokes, saveToBuffer],
+    [getState, getMousePos, getBufferPos, getCanvasBackground, redrawAll, redrawViewport, saveToBuffer, updateSelected],
   );
 
   const handleMouseUp = useCallback(() => {
-    // Handle select tool drag end
-    if (isDraggingRef.current) {
+    // Handle select tool gesture end; the selection stays so the user sees what changed
+    if (isDraggingRef.current || transformRef.current) {
       isDraggingRef.current = false;
-      // Selection stays active so user can see what they moved
+      transformRef.current = null;
+      return;
+    }
+
+    if (marqueeRef.current) {
+      const { start, end, additive } = marqueeRef.current;
+      const { drawingStrokes: strokes, selectedIds: ids, setSelection } = getState();
+      const inside = expandToGroups(strokes, findStrokesInRect(strokes, start, end));
+      setSelection(additive ? [...ids, ...inside.filter((id) => !ids.includes(id))] : inside);
+      marqueeRef.current = null;
+      redrawViewport();
       return;
     }
 
@@ -648,13 +745,18 @@ export default function DiagramCanvas() {
           return;
         }
       }
+      if (s.tool === 'arrow' && s.end) {
+        const strokes = getState().drawingStrokes;
+        const target = findShapeAtPosition(strokes, s.end.x, s.end.y);
+        if (target !== null && strokes[target].id !== s.from) s.to = strokes[target].id;
+      }
       getState().addStroke(currentStrokeRef.current);
       currentStrokeRef.current = null;
     }
 
     isDrawingRef.current = false;
     saveToBuffer();
-  }, [getState, saveToBuffer, redrawAll]);
+  }, [getState, saveToBuffer, redrawAll, redrawViewport]);
 
   // ── Wheel zoom ─────────────────────────────────────────────────────
 
@@ -779,7 +881,7 @@ export default function DiagramCanvas() {
     const cssScaleX = rect.width / canvas.width;
     const cssScaleY = rect.height / canvas.height;
 
-    const isShapeEditing = textOverlayRef.current.shapeIndex !== null;
+    const isShapeEditing = textOverlayRef.current.shapeId !== null;
 
     if (isShapeEditing && textOverlayRef.current.shapeWidth != null && textOverlayRef.current.shapeHeight != null) {
       return {
@@ -817,60 +919,52 @@ export default function DiagramCanvas() {
 
   const handleDoubleClick = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (!canDraw) return;
       const pos = getMousePos(e);
       // Check if double-click is inside an existing shape
       const strokes = getState().drawingStrokes;
-      let shapeIndex = null;
-      for (let i = strokes.length - 1; i >= 0; i--) {
-        const s = strokes[i];
-        if (s.tool === 'rectangle' && s.start && s.end) {
-          const minX = Math.min(s.start.x, s.end.x);
-          const maxX = Math.max(s.start.x, s.end.x);
-          const minY = Math.min(s.start.y, s.end.y);
-          const maxY = Math.max(s.start.y, s.end.y);
-          if (pos.x >= minX && pos.x <= maxX && pos.y >= minY && pos.y <= maxY) {
-            shapeIndex = i;
-            break;
-          }
-        } else if (s.tool === 'circle' && s.start && s.end) {
-          const radius = Math.sqrt(
-            (s.end.x - s.start.x) ** 2 + (s.end.y - s.start.y) ** 2,
-          );
-          const dx = pos.x - s.start.x;
-          const dy = pos.y - s.start.y;
-          if (Math.sqrt(dx * dx + dy * dy) <= radius) {
-            shapeIndex = i;
-            break;
-          }
-        }
-      }
-      if (shapeIndex !== null) {
+      const shapeIndex = findShapeAtPosition(strokes, pos.x, pos.y);
+      const hitIndex = findStrokeAtPosition(strokes, pos.x, pos.y);
+      const arrow = hitIndex !== null && strokes[hitIndex].tool === 'arrow' ? strokes[hitIndex] : null;
+      if (arrow?.start && arrow.end) {
+        // Label the arrow at its middle
+        textOverlayRef.current = {
+          visible: true,
+          x: (arrow.start.x + arrow.end.x) / 2,
+          y: (arrow.start.y + arrow.end.y) / 2,
+          shapeId: arrow.id ?? null,
+          editId: null,
+          initialText: arrow.text || '',
+        };
+        getState().setSelection(arrow.id ? [arrow.id] : []);
+        redrawAll();
+      } else if (shapeIndex !== null) {
         const shape = strokes[shapeIndex];
-        const bounds = getStrokeBounds(shape);
+        const bounds = getLabelBounds(shape);
         textOverlayRef.current = {
           visible: true,
           x: bounds.minX,
           y: bounds.minY,
-          shapeIndex,
-          editIndex: null,
+          shapeId: shape.id ?? null,
+          editId: null,
           initialText: shape.text || '',
           shapeWidth: bounds.maxX - bounds.minX,
           shapeHeight: bounds.maxY - bounds.minY,
         };
         // Show selection highlight on the shape being edited
-        selectedIndexRef.current = shapeIndex;
+        getState().setSelection(shape.id ? [shape.id] : []);
         redrawAll();
       } else {
-        textOverlayRef.current = { visible: true, x: pos.x, y: pos.y, shapeIndex: null, editIndex: null, initialText: '' };
+        textOverlayRef.current = { visible: true, x: pos.x, y: pos.y, shapeId: null, editId: null, initialText: '' };
       }
       forceOverlayUpdate();
     },
-    [getMousePos, getState, forceOverlayUpdate, redrawAll],
+    [canDraw, getMousePos, getState, forceOverlayUpdate, redrawAll],
   );
 
   return (
     <div style={{ display: 'flex', flexDirection: 'column', flex: 1, minHeight: 0 }}>
-      <CanvasToolbar />
+      {canDraw && <CanvasToolbar />}
       <div id="diagramArea-wrapper" style={{ flex: 1, position: 'relative', minHeight: 0 }}>
         <canvas
           ref={canvasRef}
@@ -892,7 +986,7 @@ export default function DiagramCanvas() {
             onCommit={handleTextCommit}
             onDismiss={handleTextDismiss}
             initialText={textOverlayRef.current.initialText}
-            shapeEditing={textOverlayRef.current.shapeIndex !== null}
+            shapeEditing={textOverlayRef.current.shapeId !== null}
           />
         )}
         <DrawerLabels canvasRef={canvasRef} />
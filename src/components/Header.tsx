@@ -4,8 +4,13 @@ import { useConnectionStore } from '../stores/connectionStore';
 import { useSessionStore } from '../stores/sessionStore';
 import { useEditorStore } from '../stores/editorStore';
 import { useMessagesStore } from '../stores/messagesStore';
+import { useNotesStore } from '../stores/notesStore';
+import { useScorecardStore } from '../stores/scorecardStore';
+import { useCanvasStore } from '../stores/canvasStore';
 import { useToastStore } from '../stores/toastStore';
 import { getShareableURL } from '../services/session-logic';
+import { hasPermission } from '../services/roles';
+import { getActiveCompetencies } from '../services/scorecard';
 import { exportToPDF } from '../services/pdf-export';
 import type { ChatMessage } from '../services/pdf-export';
 import { APP_VERSION } from '../version';
@@ -128,6 +133,7 @@ export default function Header() {
   const theme = useUIStore((s) => s.theme);
   const toggleTheme = useUIStore((s) => s.toggleTheme);
   const showNewSessionModal = useUIStore((s) => s.showNewSessionModal);
+  const showReplay = useUIStore((s) => s.showReplay);
 
   const handleShare = useCallback(async () => {
     const url = getShareableURL();
@@ -143,7 +149,11 @@ export default function Header() {
     const session = useSessionStore.getState();
     const editor = useEditorStore.getState();
     const msgs = useMessagesStore.getState();
-    const canvasElement = document.querySelector('#diagramCanvas') as HTMLCanvasElement | null;
+    const notes = useNotesStore.getState();
+    const scorecard = useScorecardStore.getState();
+    const isInterviewer = hasPermission(session.role, 'viewNotes');
+    const canvasElement = document.querySelector('#diagramArea') as HTMLCanvasElement | null;
+    const canvasBackground = getComputedStyle(document.documentElement).getPropertyValue('--bg-canvas').trim() || '#fff';
 
     try {
       const filename = exportToPDF({
@@ -153,8 +163,14 @@ export default function Header() {
         sessionStartTime: session.sessionStartTime,
         code: editor.code,
         language: editor.language,
+        files: editor.files,
         messages: msgs.messages as unknown as ChatMessage[],
         canvasElement,
+        strokes: useCanvasStore.getState().drawingStrokes,
+        canvasBackground,
+        // Private notes and the scorecard only go into interviewers' exports
+        notes: isInterviewer ? { text: notes.text, updatedBy: notes.updatedBy } : null,
+        scorecard: isInterviewer ? getActiveCompetencies(scorecard.competencies) : null,
       });
       useToastStore.getState().showSuccess(`PDF saved: ${filename}`);
     } catch (err) {
@@ -192,6 +208,13 @@ export default function Header() {
         <button className="icon-btn" title="Toggle theme" onClick={toggleTheme}>
           <ThemeToggleIcon theme={theme} />
         </button>
+        <button className="icon-btn" title="Session replay" onClick={showReplay}>
+          <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <polyline points="1 4 1 10 7 10" />
+            <path d="M3.51 15a9 9 0 1 0 2.13-9.36L1 10" />
+            <polyline points="12 7 12 12 15 14" />
+          </svg>
+        </button>
         <button className="icon-btn" title="Save as PDF" onClick={handleExportPDF}>
           <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
             <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
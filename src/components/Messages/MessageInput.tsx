@@ -1,10 +1,12 @@
 import { useState, useCallback, useRef, type KeyboardEvent } from 'react';
 import { useMessagesStore } from '../../stores/messagesStore';
 import { useSessionStore } from '../../stores/sessionStore';
+import { hasPermission } from '../../services/roles';
 
 export default function MessageInput() {
   const [text, setText] = useState('');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const canChat = useSessionStore((s) => hasPermission(s.role, 'chat'));
 
   const handleSend = useCallback(() => {
     const trimmed = text.trim();
@@ -49,14 +51,15 @@ export default function MessageInput() {
         value={text}
         onChange={(e) => setText(e.target.value)}
         onKeyDown={handleKeyDown}
-        placeholder="Type a message..."
+        placeholder={canChat ? 'Type a message...' : 'Chat is read-only for your role'}
+        disabled={!canChat}
         rows={1}
       />
       <button
         id="sendMessageBtn"
         className="primary-btn"
         onClick={handleSend}
-        disabled={!text.trim()}
+        disabled={!canChat || !text.trim()}
         title="Send message"
       >
         Send
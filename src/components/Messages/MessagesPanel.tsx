@@ -1,5 +1,7 @@
 import { useMessagesStore } from '../../stores/messagesStore';
 import ParticipantsList from './ParticipantsList';
+import NotesPanel from './NotesPanel';
+import ScorecardPanel from './ScorecardPanel';
 import MessagesList from './MessagesList';
 import MessageInput from './MessageInput';
 
@@ -26,6 +28,8 @@ export default function MessagesPanel() {
       </div>
       <div id="messagesBlock">
         <ParticipantsList />
+        <NotesPanel />
+        <ScorecardPanel />
         <MessagesList />
         <MessageInput />
       </div>
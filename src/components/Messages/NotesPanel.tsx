@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import { useNotesStore } from '../../stores/notesStore';
+import { useSessionStore } from '../../stores/sessionStore';
+import { hasPermission } from '../../services/roles';
+
+/**
+ * Private notes shared among interviewers only (see useNotesSync). Hidden
+ * from anyone whose role lacks the `viewNotes` permission.
+ */
+export default function NotesPanel() {
+  const [collapsed, setCollapsed] = useState(false);
+  const canViewNotes = useSessionStore((s) => hasPermission(s.role, 'viewNotes'));
+  const peerName = useSessionStore((s) => s.peerName);
+  const text = useNotesStore((s) => s.text);
+  const updatedBy = useNotesStore((s) => s.updatedBy);
+  const setText = useNotesStore((s) => s.setText);
+
+  if (!canViewNotes) return null;
+
+  return (
+    <div className={`notes-section ${collapsed ? 'collapsed' : ''}`}>
+      <div className="notes-header" onClick={() => setCollapsed((c) => !c)}>
+        <span>Private notes</span>
+        <span className="toggle-icon">
+          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <polyline points="6 9 12 15 18 9" />
+          </svg>
+        </span>
+      </div>
+      <div className="notes-body">
+        <textarea
+          className="notes-input"
+          value={text}
+          onChange={(e) => setText(e.target.value, peerName || 'Anonymous')}
+          placeholder="Only interviewers can see these notes"
+          aria-label="Interviewer notes"
+          rows={4}
+        />
+        {updatedBy && <div className="notes-meta">Last edited by {updatedBy}</div>}
+      </div>
+    </div>
+  );
+}
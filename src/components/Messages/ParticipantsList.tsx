@@ -1,6 +1,9 @@
 import { useState, useCallback, useRef, useEffect, type KeyboardEvent } from 'react';
 import { useSessionStore, type Participant } from '../../stores/sessionStore';
 import { useConnectionStore } from '../../stores/connectionStore';
+import { useUIStore } from '../../stores/uiStore';
+import { ROLES, ROLE_LABELS, getDefaultRole } from '../../services/roles';
+import type { Role } from '../../services/roles';
 
 interface ConnectionQualityDotProps {
   peerId: string;
@@ -25,9 +28,23 @@ interface ParticipantItemProps {
   participant: Participant;
   isSelf: boolean;
   onNameChange: (name: string) => void;
+  role: Role;
+  /** Given to the host, who assigns everyone's role. */
+  onRoleChange?: (role: Role) => void;
+  isFollowed?: boolean;
+  onToggleFollow?: () => void;
 }
 
-function ParticipantItem({ peerId, participant, isSelf, onNameChange }: ParticipantItemProps) {
+function ParticipantItem({
+  peerId,
+  participant,
+  isSelf,
+  onNameChange,
+  role,
+  onRoleChange,
+  isFollowed = false,
+  onToggleFollow,
+}: ParticipantItemProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editValue, setEditValue] = useState('');
   const inputRef = useRef<HTMLInputElement>(null);
@@ -99,6 +116,34 @@ function ParticipantItem({ peerId, participant, isSelf, onNameChange }: Particip
           </svg>
         </button>
       )}
+      {onRoleChange ? (
+        <select
+          className="role-select"
+          value={role}
+          onChange={(e) => onRoleChange(e.target.value as Role)}
+          aria-label={`Role of ${isSelf ? 'yourself' : participant.name || 'Anonymous'}`}
+        >
+          {ROLES.map((r) => (
+            <option key={r} value={r}>{ROLE_LABELS[r]}</option>
+          ))}
+        </select>
+      ) : (
+        <span className={`role-badge ${role}`}>{ROLE_LABELS[role]}</span>
+      )}
+      {onToggleFollow && (
+        <button
+          className={`follow-btn${isFollowed ? ' active' : ''}`}
+          onClick={onToggleFollow}
+          title={isFollowed ? 'Stop following' : 'Follow — mirror their editor and canvas view'}
+          aria-label={`${isFollowed ? 'Stop following' : 'Follow'} ${participant.name || 'Anonymous'}`}
+          aria-pressed={isFollowed}
+        >
+          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z" />
+            <circle cx="12" cy="12" r="3" />
+          </svg>
+        </button>
+      )}
       {participant.isHost && (
         <span className="host-badge" title="Host">
           <svg width="14" height="14" viewBox="0 0 24 24" fill="currentColor">
@@ -116,6 +161,13 @@ export default function ParticipantsList() {
   const peerName = useSessionStore((s) => s.peerName);
   const isHost = useSessionStore((s) => s.isHost);
   const setPeerName = useSessionStore((s) => s.setPeerName);
+  const localPeerId = useSessionStore((s) => s.localPeerId);
+  const role = useSessionStore((s) => s.role);
+  const setRole = useSessionStore((s) => s.setRole);
+  const assignRole = useSessionStore((s) => s.assignRole);
+  const followingPeerId = useUIStore((s) => s.followingPeerId);
+  const followPeer = useUIStore((s) => s.followPeer);
+  const stopFollowing = useUIStore((s) => s.stopFollowing);
 
   const localParticipant: Participant = {
     name: peerName || 'You',
@@ -144,6 +196,8 @@ export default function ParticipantsList() {
           participant={localParticipant}
           isSelf={true}
           onNameChange={setPeerName}
+          role={role}
+          onRoleChange={isHost ? setRole : undefined}
         />
         {remoteEntries.map(([peerId, participant]) => (
           <ParticipantItem
@@ -152,6 +206,15 @@ export default function ParticipantsList() {
             participant={participant}
             isSelf={false}
             onNameChange={() => {}}
+            role={participant.role ?? getDefaultRole(Boolean(participant.isHost))}
+            onRoleChange={isHost ? (r) => assignRole(peerId, r) : undefined}
+            isFollowed={followingPeerId === peerId}
+            onToggleFollow={
+              // Views are tagged with the sender's id, unknown until we reach the signaling server
+              localPeerId
+                ? () => (followingPeerId === peerId ? stopFollowing() : followPeer(peerId))
+                : undefined
+            }
           />
         ))}
       </ul>
@@ -0,0 +1,164 @@
+import { useState, useCallback, useRef, useEffect, type KeyboardEvent, type FormEvent } from 'react';
+import { useScorecardStore } from '../../stores/scorecardStore';
+import { useSessionStore } from '../../stores/sessionStore';
+import { hasPermission } from '../../services/roles';
+import { RATINGS, RATING_LABELS, getActiveCompetencies, getAverageRating } from '../../services/scorecard';
+import type { Competency } from '../../services/scorecard';
+
+interface CompetencyItemProps {
+  competency: Competency;
+  author: string;
+}
+
+function CompetencyItem({ competency, author }: CompetencyItemProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editValue, setEditValue] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { setRating, setComment, renameCompetency, removeCompetency } = useScorecardStore.getState();
+
+  useEffect(() => {
+    if (isEditing && inputRef.current) {
+      inputRef.current.focus();
+      inputRef.current.select();
+    }
+  }, [isEditing]);
+
+  const commitEdit = useCallback(() => {
+    const trimmed = editValue.trim();
+    if (trimmed && trimmed !== competency.name) {
+      renameCompetency(competency.id, trimmed, author);
+    }
+    setIsEditing(false);
+  }, [editValue, competency.id, competency.name, author, renameCompetency]);
+
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent<HTMLInputElement>) => {
+      if (e.key === 'Enter') {
+        e.preventDefault();
+        commitEdit();
+      } else if (e.key === 'Escape') {
+        setIsEditing(false);
+      }
+    },
+    [commitEdit]
+  );
+
+  return (
+    <div className="competency-item">
+      <div className="competency-header">
+        {isEditing ? (
+          <input
+            ref={inputRef}
+            className="competency-name-input"
+            value={editValue}
+            onChange={(e) => setEditValue(e.target.value)}
+            onBlur={commitEdit}
+            onKeyDown={handleKeyDown}
+            aria-label={`Rename ${competency.name}`}
+          />
+        ) : (
+          <span
+            className="competency-name"
+            title="Double-click to rename"
+            onDoubleClick={() => {
+              setEditValue(competency.name);
+              setIsEditing(true);
+            }}
+          >
+            {competency.name}
+          </span>
+        )}
+        <button
+          className="competency-remove-btn"
+          title={`Remove ${competency.name}`}
+          onClick={() => removeCompetency(competency.id, author)}
+        >
+          ×
+        </button>
+      </div>
+      <div className="rating-buttons" role="group" aria-label={`Rating for ${competency.name}`}>
+        {RATINGS.map((rating) => (
+          <button
+            key={rating}
+            className={`rating-btn ${competency.rating === rating ? 'selected' : ''}`}
+            title={RATING_LABELS[rating]}
+            aria-pressed={competency.rating === rating}
+            // Clicking the selected rating clears it
+            onClick={() => setRating(competency.id, competency.rating === rating ? null : rating, author)}
+          >
+            {rating}
+          </button>
+        ))}
+      </div>
+      <textarea
+        className="competency-comment"
+        value={competency.comment}
+        onChange={(e) => setComment(competency.id, e.target.value, author)}
+        placeholder="Comments"
+        aria-label={`Comments on ${competency.name}`}
+        rows={2}
+      />
+    </div>
+  );
+}
+
+/**
+ * Interview scorecard shared among interviewers only (see useScorecardSync).
+ * Hidden from anyone whose role lacks the `viewNotes` permission.
+ */
+export default function ScorecardPanel() {
+  const [collapsed, setCollapsed] = useState(false);
+  const [newName, setNewName] = useState('');
+  const canViewScorecard = useSessionStore((s) => hasPermission(s.role, 'viewNotes'));
+  const peerName = useSessionStore((s) => s.peerName);
+  const competencies = useScorecardStore((s) => s.competencies);
+  const addCompetency = useScorecardStore((s) => s.addCompetency);
+
+  const author = peerName || 'Anonymous';
+
+  const handleAdd = useCallback(
+    (e: FormEvent) => {
+      e.preventDefault();
+      const trimmed = newName.trim();
+      if (!trimmed) return;
+      addCompetency(trimmed, author);
+      setNewName('');
+    },
+    [newName, author, addCompetency]
+  );
+
+  if (!canViewScorecard) return null;
+
+  const active = getActiveCompetencies(competencies);
+  const average = getAverageRating(active);
+
+  return (
+    <div className={`scorecard-section ${collapsed ? 'collapsed' : ''}`}>
+      <div className="scorecard-header" onClick={() => setCollapsed((c) => !c)}>
+        <span>
+          Scorecard
+          {average !== null && <span className="scorecard-average"> · {average.toFixed(1)} / 4</span>}
+        </span>
+        <span className="toggle-icon">
+          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+            <polyline points="6 9 12 15 18 9" />
+          </svg>
+        </span>
+      </div>
+      <div className="scorecard-body">
+        {active.map((competency) => (
+          <CompetencyItem key={competency.id} competency={competency} author={author} />
+        ))}
+        <form className="competency-add" onSubmit={handleAdd}>
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="Add competency"
+            aria-label="New competency"
+          />
+          <button type="submit" disabled={!newName.trim()}>Add</button>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,30 +1,74 @@
+import { useState } from 'react';
 import { useUIStore } from '../../stores/uiStore';
 import { useSessionStore } from '../../stores/sessionStore';
-import { useEditorStore } from '../../stores/editorStore';
+import { useEditorStore, DEFAULT_FILE_ID } from '../../stores/editorStore';
 import { useMessagesStore } from '../../stores/messagesStore';
+import { useNotesStore } from '../../stores/notesStore';
+import { useScorecardStore } from '../../stores/scorecardStore';
+import { useQuestionStore } from '../../stores/questionStore';
+import { useExecutionHistoryStore } from '../../stores/executionHistoryStore';
 import { useCanvasStore } from '../../stores/canvasStore';
 import { useConnectionStore } from '../../stores/connectionStore';
 import { generateSessionId, updateURLWithSession } from '../../services/session-logic';
+import { getDefaultFilename } from '../../services/code-editor-logic';
+import {
+  QUESTION_BANK,
+  getQuestion,
+  getStarterCode,
+  getStarterLanguages,
+  toSharedQuestion,
+} from '../../services/question-bank';
+import type { Question } from '../../services/question-bank';
+
+/** Load a question's starter code and diagram into the new session. */
+function loadQuestion(question: Question, language: string) {
+  useEditorStore.getState().setFiles([
+    { id: DEFAULT_FILE_ID, name: getDefaultFilename(language), language, code: getStarterCode(question, language) },
+  ]);
+  if (question.starterDiagram) {
+    useCanvasStore.getState().setStrokes(question.starterDiagram);
+  }
+  useQuestionStore.getState().setQuestion(toSharedQuestion(question), question.tests);
+}
 
 export default function NewSessionModal() {
   const isOpen = useUIStore((s) => s.isNewSessionModalOpen);
   const hideNewSessionModal = useUIStore((s) => s.hideNewSessionModal);
   const createSession = useSessionStore((s) => s.createSession);
+  const currentLanguage = useEditorStore((s) => s.language);
+  const [questionId, setQuestionId] = useState('');
+  const [questionLanguage, setQuestionLanguage] = useState('');
 
   if (!isOpen) return null;
 
+  const question = questionId ? getQuestion(questionId) : undefined;
+  const starterLanguages = question ? getStarterLanguages(question) : [];
+  // Keep the current language when the question has starter code for it
+  const language = starterLanguages.includes(questionLanguage)
+    ? questionLanguage
+    : starterLanguages.includes(currentLanguage) || starterLanguages.length === 0
+      ? currentLanguage
+      : starterLanguages[0];
+
   const handleConfirm = () => {
-    // Reset all stores
+    // Reset all stores — the session first, so the old session's replay log
+    // does not record the other resets
+    useSessionStore.getState().reset();
     useEditorStore.getState().reset();
     useMessagesStore.getState().reset();
+    useNotesStore.getState().reset();
+    useScorecardStore.getState().reset();
+    useQuestionStore.getState().reset();
+    useExecutionHistoryStore.getState().reset();
     useCanvasStore.getState().reset();
     useConnectionStore.getState().reset();
-    useSessionStore.getState().reset();
 
     // Generate new session ID, create session, and update URL
     const newSessionId = generateSessionId();
     createSession(newSessionId);
     updateURLWithSession(newSessionId);
+    if (question) loadQuestion(question, language);
+    setQuestionId('');
     hideNewSessionModal();
   };
 
@@ -36,6 +80,31 @@ export default function NewSessionModal() {
           Are you sure you want to start a new session? All current session data
           will be lost.
         </p>
+        <div className="question-picker">
+          <label>
+            Question
+            <select value={questionId} aria-label="Question" onChange={(e) => setQuestionId(e.target.value)}>
+              <option value="">Blank session</option>
+              {QUESTION_BANK.map((q) => (
+                <option key={q.id} value={q.id}>
+                  {q.title} ({q.difficulty})
+                </option>
+              ))}
+            </select>
+          </label>
+          {starterLanguages.length > 0 && (
+            <label>
+              Language
+              <select value={language} aria-label="Starter language" onChange={(e) => setQuestionLanguage(e.target.value)}>
+                {starterLanguages.map((lang) => (
+                  <option key={lang} value={lang}>
+                    {lang}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
         <div className="modal-buttons">
           <button className="btn-secondary" onClick={hideNewSessionModal}>
             Cancel
@@ -0,0 +1,184 @@
+import { DEFAULT_FONT_SIZE, getArrowheadPoints, getDiagramBounds, getLabelBounds, getShapePath, getStrokeBounds, isSystemShape } from '../../services/canvas-logic';
+import type { PathSegment, Stroke } from '../../services/canvas-logic';
+
+const PADDING = 20;
+
+interface ReplayDiagramProps {
+  strokes: Stroke[];
+}
+
+/** Text lines centred on (x, y), as the canvas draws shape labels. */
+function Label({ text, x, y, color }: { text: string; x: number; y: number; color: string }) {
+  const lineHeight = DEFAULT_FONT_SIZE * 1.3;
+  const lines = text.split('\n');
+  const top = y - ((lines.length - 1) * lineHeight) / 2;
+  return (
+    <text x={x} fill={color} fontSize={DEFAULT_FONT_SIZE} textAnchor="middle" dominantBaseline="middle">
+      {lines.map((line, i) => (
+        <tspan key={i} x={x} y={top + i * lineHeight}>{line}</tspan>
+      ))}
+    </text>
+  );
+}
+
+/** Path segments as SVG path data. */
+function toPathData(path: PathSegment[]): string {
+  return path
+    .map((segment) => {
+      switch (segment.type) {
+        case 'move':
+          return `M${segment.to.x},${segment.to.y}`;
+        case 'line':
+          return `L${segment.to.x},${segment.to.y}`;
+        case 'quad':
+          return `Q${segment.control.x},${segment.control.y} ${segment.to.x},${segment.to.y}`;
+        case 'curve':
+          return `C${segment.control1.x},${segment.control1.y} ${segment.control2.x},${segment.control2.y} ${segment.to.x},${segment.to.y}`;
+        case 'close':
+          return 'Z';
+      }
+    })
+    .join(' ');
+}
+
+function StrokeShape({ stroke }: { stroke: Stroke }) {
+  const color = stroke.color || '#000';
+  const common = {
+    stroke: color,
+    strokeWidth: stroke.brushSize || 2,
+    strokeLinecap: 'round' as const,
+    strokeLinejoin: 'round' as const,
+    fill: 'none',
+  };
+
+  switch (stroke.tool) {
+    case 'pen':
+      if (!stroke.points?.length) return null;
+      return <polyline {...common} points={stroke.points.map((p) => `${p.x},${p.y}`).join(' ')} />;
+
+    case 'line':
+      if (!stroke.start || !stroke.end) return null;
+      return <line {...common} x1={stroke.start.x} y1={stroke.start.y} x2={stroke.end.x} y2={stroke.end.y} />;
+
+    case 'arrow': {
+      if (!stroke.start || !stroke.end) return null;
+      const { start, end } = stroke;
+      const [left, right] = getArrowheadPoints(start, end);
+      return (
+        <g>
+          <line {...common} x1={start.x} y1={start.y} x2={end.x} y2={end.y} />
+          <polygon fill={color} points={[end, left, right].map((p) => `${p.x},${p.y}`).join(' ')} />
+          {stroke.text && (
+            <text
+              x={(start.x + end.x) / 2}
+              y={(start.y + end.y) / 2 - 4}
+              fill={stroke.textColor || color}
+              fontSize={DEFAULT_FONT_SIZE}
+              textAnchor="middle"
+            >
+              {stroke.text}
+            </text>
+          )}
+        </g>
+      );
+    }
+
+    case 'rectangle': {
+      if (!stroke.start || !stroke.end) return null;
+      const x = Math.min(stroke.start.x, stroke.end.x);
+      const y = Math.min(stroke.start.y, stroke.end.y);
+      const width = Math.abs(stroke.end.x - stroke.start.x);
+      const height = Math.abs(stroke.end.y - stroke.start.y);
+      return (
+        <g>
+          <rect {...common} x={x} y={y} width={width} height={height} />
+          {stroke.text && (
+            <Label text={stroke.text} x={x + width / 2} y={y + height / 2} color={stroke.textColor || color} />
+          )}
+        </g>
+      );
+    }
+
+    case 'circle': {
+      if (!stroke.start || !stroke.end) return null;
+      const r = Math.hypot(stroke.end.x - stroke.start.x, stroke.end.y - stroke.start.y);
+      return (
+        <g>
+          <circle {...common} cx={stroke.start.x} cy={stroke.start.y} r={r} />
+          {stroke.text && (
+            <Label text={stroke.text} x={stroke.start.x} y={stroke.start.y} color={stroke.textColor || color} />
+          )}
+        </g>
+      );
+    }
+
+    case 'text': {
+      if (!stroke.text || !stroke.position) return null;
+      const fontSize = stroke.fontSize || DEFAULT_FONT_SIZE;
+      const { x, y } = stroke.position;
+      return (
+        <text x={x} y={y} fill={color} fontSize={fontSize} dominantBaseline="hanging">
+          {stroke.text.split('\n').map((line, i) => (
+            <tspan key={i} x={x} y={y + i * fontSize * 1.3}>{line}</tspan>
+          ))}
+        </text>
+      );
+    }
+
+    default: {
+      if (!isSystemShape(stroke.tool) || !stroke.start || !stroke.end) return null;
+      const label = getLabelBounds(stroke);
+      return (
+        <g>
+          <path {...common} d={toPathData(getShapePath(stroke))} strokeDasharray={stroke.tool === 'group' ? '8 6' : undefined} />
+          {stroke.text && (
+            <Label
+              text={stroke.text}
+              x={(label.minX + label.maxX) / 2}
+              y={(label.minY + label.maxY) / 2}
+              color={stroke.textColor || color}
+            />
+          )}
+        </g>
+      );
+    }
+  }
+}
+
+/** A stroke turned by its rotation about the centre of its bounds, as the canvas does. */
+function RotatedStroke({ stroke }: { stroke: Stroke }) {
+  if (!stroke.rotation) return <StrokeShape stroke={stroke} />;
+  const { minX, minY, maxX, maxY } = getStrokeBounds(stroke);
+  const degrees = (stroke.rotation * 180) / Math.PI;
+  return (
+    <g transform={`rotate(${degrees} ${(minX + maxX) / 2} ${(minY + maxY) / 2})`}>
+      <StrokeShape stroke={stroke} />
+    </g>
+  );
+}
+
+/**
+ * Read-only rendering of canvas strokes as SVG, scaled to fit. Used by the
+ * replay view, which shows the diagram at any moment without a live canvas.
+ */
+export default function ReplayDiagram({ strokes }: ReplayDiagramProps) {
+  if (strokes.length === 0) {
+    return <div className="replay-diagram empty">No diagram yet</div>;
+  }
+
+  const { minX, minY, maxX, maxY } = getDiagramBounds(strokes);
+  const viewBox = [
+    minX - PADDING,
+    minY - PADDING,
+    maxX - minX + PADDING * 2,
+    maxY - minY + PADDING * 2,
+  ].join(' ');
+
+  return (
+    <svg className="replay-diagram" viewBox={viewBox} preserveAspectRatio="xMidYMid meet" role="img" aria-label="Diagram">
+      {strokes.map((stroke, i) => (
+        <RotatedStroke key={i} stroke={stroke} />
+      ))}
+    </svg>
+  );
+}
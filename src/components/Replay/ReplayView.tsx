@@ -0,0 +1,174 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useUIStore } from '../../stores/uiStore';
+import { useSessionStore } from '../../stores/sessionStore';
+import { StorageManager } from '../../services/persistence';
+import {
+  formatReplayTime,
+  getReplayRange,
+  reconstructReplayState,
+} from '../../services/session-replay';
+import type { ReplayEvent } from '../../services/session-replay';
+import { getPrismLanguage } from '../../services/code-editor-logic';
+import { LineHighlighter } from '../../services/line-highlighter';
+import ReplayDiagram from './ReplayDiagram';
+
+/** Playback advances the scrubber this often (ms of real time). */
+const PLAYBACK_TICK = 100;
+
+const SPEEDS = [1, 2, 4, 8, 16];
+
+function ReplayPlayer({ events }: { events: ReplayEvent[] }) {
+  const range = getReplayRange(events)!;
+  const [time, setTime] = useState(range.start);
+  const [playing, setPlaying] = useState(false);
+  const [speed, setSpeed] = useState(4);
+  const [selectedFileId, setSelectedFileId] = useState<string | null>(null);
+  const highlighterRef = useRef<LineHighlighter | null>(null);
+
+  const state = useMemo(() => reconstructReplayState(events, time), [events, time]);
+  const file = state.files.find((f) => f.id === selectedFileId) ?? state.files[0];
+
+  const prismLang = getPrismLanguage(file?.language ?? 'javascript');
+  const lines = useMemo(() => {
+    if (!highlighterRef.current) highlighterRef.current = new LineHighlighter();
+    return highlighterRef.current.update(file?.code ?? '', prismLang);
+  }, [file?.code, prismLang]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const id = setInterval(() => {
+      setTime((t) => Math.min(t + PLAYBACK_TICK * speed, range.end));
+    }, PLAYBACK_TICK);
+    return () => clearInterval(id);
+  }, [playing, speed, range.end]);
+
+  useEffect(() => {
+    if (playing && time >= range.end) setPlaying(false);
+  }, [playing, time, range.end]);
+
+  const togglePlaying = () => {
+    if (!playing && time >= range.end) setTime(range.start);
+    setPlaying((p) => !p);
+  };
+
+  const participants = Object.values(state.participants);
+
+  return (
+    <>
+      <div className="replay-controls">
+        <button className="btn-secondary" onClick={togglePlaying} aria-label={playing ? 'Pause' : 'Play'}>
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <input
+          type="range"
+          aria-label="Replay position"
+          min={0}
+          max={range.end - range.start}
+          step={100}
+          value={time - range.start}
+          onChange={(e) => setTime(range.start + Number(e.target.value))}
+        />
+        <span className="replay-time">
+          {formatReplayTime(time - range.start)} / {formatReplayTime(range.end - range.start)}
+        </span>
+        <select
+          aria-label="Playback speed"
+          value={speed}
+          onChange={(e) => setSpeed(Number(e.target.value))}
+        >
+          {SPEEDS.map((s) => (
+            <option key={s} value={s}>{s}×</option>
+          ))}
+        </select>
+      </div>
+      <div className="replay-body">
+        <section className="replay-code">
+          <div className="replay-file-tabs" role="tablist">
+            {state.files.map((f) => (
+              <button
+                key={f.id}
+                role="tab"
+                aria-selected={f.id === file?.id}
+                className={`file-tab${f.id === file?.id ? ' active' : ''}`}
+                onClick={() => setSelectedFileId(f.id)}
+              >
+                {f.name}
+              </button>
+            ))}
+          </div>
+          <pre className="replay-code-view">
+            <code className={`language-${prismLang}`}>
+              {lines.map((html, i) => (
+                <div key={i} className="replay-code-line" dangerouslySetInnerHTML={{ __html: html }} />
+              ))}
+            </code>
+          </pre>
+          {state.output && (
+            <pre className={`replay-output${state.output.exitCode === 0 ? '' : ' error'}`}>
+              {state.output.stdout}
+              {state.output.stderr}
+            </pre>
+          )}
+        </section>
+        <section className="replay-side">
+          <ReplayDiagram strokes={state.strokes} />
+          <div className="replay-participants">
+            {participants.length > 0 ? `With ${participants.join(', ')}` : 'No one else connected'}
+          </div>
+          <ul className="replay-chat">
+            {state.messages.map((m) => (
+              <li key={m.id}>
+                <strong>{m.sender}:</strong> {m.text}
+              </li>
+            ))}
+          </ul>
+        </section>
+      </div>
+    </>
+  );
+}
+
+/**
+ * Session replay: loads the session's event log (see useSessionRecorder)
+ * and rebuilds the editor, diagram and chat at any point on the scrubber.
+ */
+export default function ReplayView() {
+  const isOpen = useUIStore((s) => s.isReplayOpen);
+  const hideReplay = useUIStore((s) => s.hideReplay);
+  const sessionId = useSessionStore((s) => s.sessionId);
+  const [events, setEvents] = useState<ReplayEvent[] | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || !sessionId) return;
+    let cancelled = false;
+    setEvents(null);
+    StorageManager.loadReplayEvents(sessionId).then((loaded) => {
+      if (!cancelled) setEvents(loaded as ReplayEvent[]);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, sessionId]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="modal" data-testid="replay-view">
+      <div className="modal-content replay-content">
+        <div className="replay-header">
+          <h2>Session Replay</h2>
+          <button className="icon-btn" onClick={hideReplay} aria-label="Close replay">
+            &times;
+          </button>
+        </div>
+        {events === null ? (
+          <p className="modal-subtitle">Loading…</p>
+        ) : events.length === 0 ? (
+          <p className="modal-subtitle">Nothing has been recorded for this session yet.</p>
+        ) : (
+          <ReplayPlayer events={events} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -2,23 +2,37 @@ import { useUIStore } from '../stores/uiStore';
 import { useEditorStore } from '../stores/editorStore';
 import { useExecutionStore } from '../stores/executionStore';
 import { useRuntimeStore } from '../stores/runtimeStore';
-import { isExecutable, isWasmLanguage } from '../services/code-executor';
+import { useSessionStore } from '../stores/sessionStore';
+import { useQuestionStore } from '../stores/questionStore';
+import { isExecutable, isWasmLanguage, getCapabilities } from '../services/code-executor';
+import { hasPermission } from '../services/roles';
 import LanguageSelector from './CodeEditor/LanguageSelector';
 
 export default function TabBar() {
   const activeTab = useUIStore((s) => s.activeTab);
   const switchTab = useUIStore((s) => s.switchTab);
+  const followingPeerId = useUIStore((s) => s.followingPeerId);
+  const stopFollowing = useUIStore((s) => s.stopFollowing);
+  const followedName = useSessionStore((s) =>
+    followingPeerId ? s.participants[followingPeerId]?.name || 'Anonymous' : null,
+  );
   const language = useEditorStore((s) => s.language);
   const isRunning = useExecutionStore((s) => s.isRunning);
   const runCode = useExecutionStore((s) => s.runCode);
   const cancelCode = useExecutionStore((s) => s.cancelCode);
+  const runTests = useExecutionStore((s) => s.runTests);
+  const testCount = useQuestionStore((s) => s.getTests().length);
   const runtimeInfo = useRuntimeStore((s) => s.getRuntime(language === 'c' ? 'cpp' : language));
+  const canRun = useSessionStore((s) => hasPermission(s.role, 'run'));
+  const canRunTests = useSessionStore((s) => hasPermission(s.role, 'viewNotes'));
 
-  const showRunButton = activeTab === 'code' && isExecutable(language);
+  const showRunButton = activeTab === 'code' && isExecutable(language) && canRun;
   const isWasm = isWasmLanguage(language);
   const isLoading = isWasm && runtimeInfo.status === 'loading';
   const hasError = isWasm && runtimeInfo.status === 'error';
   const progress = runtimeInfo.progress;
+  const supportsTests = !!getCapabilities(language)?.tests;
+  const showTestsButton = showRunButton && canRunTests && supportsTests && testCount > 0 && !isRunning && !isLoading && !hasError;
 
   // SVG progress ring params
   const radius = 6;
@@ -42,6 +56,16 @@ export default function TabBar() {
         </button>
       </div>
       {activeTab === 'code' && <LanguageSelector />}
+      {followedName && (
+        <button
+          className="follow-indicator"
+          onClick={stopFollowing}
+          title="Stop following"
+        >
+          Following {followedName}
+          <span aria-hidden="true">&times;</span>
+        </button>
+      )}
       {showRunButton && (
         isRunning ? (
           <button
@@ -108,6 +132,15 @@ export default function TabBar() {
           </button>
         )
       )}
+      {showTestsButton && (
+        <button
+          className="icon-btn run-tests-btn"
+          onClick={() => runTests?.()}
+          title={`Run the ${testCount} hidden tests`}
+        >
+          Run tests
+        </button>
+      )}
     </div>
   );
 }
@@ -1,6 +1,8 @@
 import { useUIStore } from '../stores/uiStore';
 import CodeEditor from './CodeEditor/CodeEditor';
+import FileTabs from './CodeEditor/FileTabs';
 import OutputPanel from './CodeEditor/OutputPanel';
+import ProblemStatement from './CodeEditor/ProblemStatement';
 import DiagramCanvas from './DiagramCanvas/DiagramCanvas';
 
 export default function TabContent() {
@@ -9,6 +11,8 @@ export default function TabContent() {
   return (
     <div id="tabContent">
       <div id="codeCanvas" className={activeTab === 'code' ? 'active' : ''}>
+        <ProblemStatement />
+        <FileTabs />
         <CodeEditor />
         <OutputPanel />
       </div>
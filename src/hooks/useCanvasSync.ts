@@ -1,91 +1,66 @@
-import { useCallback, useEffect, useRef } from 'react';
+import { useCallback, useEffect } from 'react';
 import { useCanvasStore } from '../stores/canvasStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { hasPermission } from '../services/roles';
 import type { DataChannelMessage } from '../services/connection-manager';
 import type { Stroke, Point } from '../services/canvas-logic';
+import type { CanvasOp } from '../services/canvas-document';
 
 interface UseCanvasSyncOptions {
-  sendMessage?: (data: DataChannelMessage) => boolean;
+  /** Sends to every peer, or with `toPeerId` to that one only. */
+  sendMessage?: (data: DataChannelMessage, toPeerId?: string) => boolean;
 }
 
 interface UseCanvasSyncReturn {
-  handleMessage: (message: DataChannelMessage) => void;
+  handleMessage: (message: DataChannelMessage, fromPeerId?: string) => void;
   sendStroke: (stroke: Stroke) => void;
   sendCanvasView: (zoom: number, panOffset: Point) => void;
-  sendCanvasClear: () => void;
+}
+
+function canDraw(): boolean {
+  return hasPermission(useSessionStore.getState().role, 'draw');
+}
+
+/** The op adding a whole stroke sent by an older peer, stamped after everything seen. */
+function addOpFor(stroke: Stroke): CanvasOp {
+  const clock = useCanvasStore.getState().document.clock + 1;
+  const site = stroke.author ?? '';
+  return { kind: 'add', stroke: { ...stroke, id: stroke.id ?? `${site}-${clock}`, author: site, clock }, clock, site };
 }
 
 /**
  * useCanvasSync — sends/receives canvas drawing actions over a data channel.
  *
- * - Automatically sends new strokes to peers when added locally.
- * - Provides `sendCanvasView` / `sendCanvasClear` helpers
- *   that broadcast local actions to peers.
- * - Handles incoming `canvas`, `canvas-view`, `canvas-clear`, and
- *   `canvas-sync` messages by updating the canvas store.
+ * - Sends the ops of every local change (see canvas-document.ts) to peers
+ *   as `canvas-ops`, and merges theirs. A clear is the deletes it amounts to.
+ * - Provides a `sendCanvasView` helper that broadcasts the local view.
+ * - Answers a joining peer's `state-request` with a `canvas-sync` of the
+ *   whole document, stamps included, which the joiner merges into its own.
+ * - Also handles `canvas` strokes and bare `canvas-sync` strokes from older
+ *   peers, and `canvas-view` messages, by updating the canvas store.
+ * - Enforces the `draw` permission (see roles.ts): nothing is sent without
+ *   it, and the host drops drawing from peers whose role does not allow it.
  */
 export function useCanvasSync({ sendMessage }: UseCanvasSyncOptions = {}): UseCanvasSyncReturn {
   const setStrokes = useCanvasStore((s) => s.setStrokes);
-  const addStroke = useCanvasStore((s) => s.addStroke);
+  const applyRemoteOps = useCanvasStore((s) => s.applyRemoteOps);
+  const mergeRemoteDocument = useCanvasStore((s) => s.mergeRemoteDocument);
   const setZoom = useCanvasStore((s) => s.setZoom);
   const setPan = useCanvasStore((s) => s.setPan);
-  const clear = useCanvasStore((s) => s.clear);
   const updateRemoteDrawer = useCanvasStore((s) => s.updateRemoteDrawer);
-  const drawingStrokes = useCanvasStore((s) => s.drawingStrokes);
-  const strokeVersion = useCanvasStore((s) => s.strokeVersion);
 
-  const isRemoteUpdateRef = useRef(false);
-  const previousStrokesLenRef = useRef(0);
-  const previousVersionRef = useRef(0);
-
-  // Auto-send new strokes when added locally
+  // Send the ops of each local change
   useEffect(() => {
-    if (isRemoteUpdateRef.current) {
-      isRemoteUpdateRef.current = false;
-      previousStrokesLenRef.current = drawingStrokes.length;
-      return;
-    }
-
-    const prevLen = previousStrokesLenRef.current;
-    const currLen = drawingStrokes.length;
-
-    if (currLen > prevLen && sendMessage) {
-      // New stroke(s) added — send incrementally
-      for (let i = prevLen; i < currLen; i++) {
-        sendMessage({
-          type: 'canvas',
-          action: 'stroke',
-          stroke: drawingStrokes[i],
-        });
+    return useCanvasStore.subscribe((state, prev) => {
+      if (state.lastLocalOps === prev.lastLocalOps || state.lastLocalOps.length === 0) return;
+      if (sendMessage && canDraw()) {
+        sendMessage({ type: 'canvas-ops', ops: state.lastLocalOps });
       }
-    } else if (currLen !== prevLen && sendMessage) {
-      // Strokes removed (undo/clear) — send full sync
-      sendMessage({
-        type: 'canvas-sync',
-        strokes: drawingStrokes,
-      });
-    }
-
-    previousStrokesLenRef.current = currLen;
-  }, [drawingStrokes, sendMessage]);
-
-  // Detect in-place stroke updates (same length, version bumped)
-  useEffect(() => {
-    if (isRemoteUpdateRef.current) {
-      previousVersionRef.current = strokeVersion;
-      return;
-    }
-
-    if (strokeVersion > previousVersionRef.current && sendMessage) {
-      sendMessage({
-        type: 'canvas-sync',
-        strokes: drawingStrokes,
-      });
-    }
-    previousVersionRef.current = strokeVersion;
-  }, [strokeVersion, drawingStrokes, sendMessage]);
+    });
+  }, [sendMessage]);
 
   const sendStroke = useCallback((stroke: Stroke) => {
-    if (sendMessage) {
+    if (sendMessage && canDraw()) {
       sendMessage({
         type: 'canvas',
         action: 'stroke',
@@ -104,18 +79,18 @@ export function useCanvasSync({ sendMessage }: UseCanvasSyncOptions = {}): UseCa
     }
   }, [sendMessage]);
 
-  const sendCanvasClear = useCallback(() => {
-    if (sendMessage) {
-      sendMessage({ type: 'canvas-clear' });
-    }
-  }, [sendMessage]);
+  const handleMessage = useCallback((message: DataChannelMessage, fromPeerId?: string) => {
+    if (!useSessionStore.getState().isAllowedFrom(fromPeerId, message)) return;
 
-  const handleMessage = useCallback((message: DataChannelMessage) => {
     switch (message.type) {
+      case 'canvas-ops':
+        applyRemoteOps(message.ops);
+        break;
+
       case 'canvas': {
+        // Whole strokes from peers without canvas-ops
         if (message.action === 'stroke' && 'stroke' in message) {
-          isRemoteUpdateRef.current = true;
-          addStroke(message.stroke);
+          applyRemoteOps([addOpFor(message.stroke)]);
         } else if (message.action === 'drawing' && 'peerId' in message) {
           updateRemoteDrawer(message.peerId, message.data as Record<string, unknown>);
         }
@@ -123,22 +98,19 @@ export function useCanvasSync({ sendMessage }: UseCanvasSyncOptions = {}): UseCa
       }
 
       case 'canvas-view': {
+        // A peer's own view, broadcast for follow mode (see useFollowMode)
+        if (message.peerId) break;
         if (message.zoom != null) setZoom(message.zoom);
         if (message.panOffset) setPan(message.panOffset);
         break;
       }
 
-      case 'canvas-clear': {
-        isRemoteUpdateRef.current = true;
-        clear();
-        break;
-      }
-
       case 'canvas-sync': {
         // Full canvas state from host (late joiner sync)
-        if (message.strokes) {
-          isRemoteUpdateRef.current = true;
-          setStrokes(message.strokes);
+        if (message.entries) {
+          mergeRemoteDocument(message.entries, message.clock);
+        } else if (message.strokes) {
+          setStrokes(message.strokes, message.clock);
         }
         if (message.zoom != null) setZoom(message.zoom);
         if (message.panOffset) setPan(message.panOffset);
@@ -146,15 +118,17 @@ export function useCanvasSync({ sendMessage }: UseCanvasSyncOptions = {}): UseCa
       }
 
       case 'state-request': {
-        // Peer requesting full state — send canvas data
+        // Peer requesting full state — send canvas data to it alone
         const state = useCanvasStore.getState();
         if (sendMessage) {
           sendMessage({
             type: 'canvas-sync',
             strokes: state.drawingStrokes,
+            entries: state.document.entries,
+            clock: state.document.clock,
             zoom: state.zoom,
             panOffset: state.panOffset,
-          });
+          }, fromPeerId);
         }
         break;
       }
@@ -162,7 +136,7 @@ export function useCanvasSync({ sendMessage }: UseCanvasSyncOptions = {}): UseCa
       default:
         break;
     }
-  }, [addStroke, clear, sendMessage, setPan, setStrokes, setZoom, updateRemoteDrawer]);
+  }, [applyRemoteOps, mergeRemoteDocument, sendMessage, setPan, setStrokes, setZoom, updateRemoteDrawer]);
 
-  return { handleMessage, sendStroke, sendCanvasView, sendCanvasClear };
+  return { handleMessage, sendStroke, sendCanvasView };
 }
@@ -1,41 +1,354 @@
-import { useEffect, useRef, useCallback } from 'react';
-import { useEditorStore } from '../stores/editorStore';
+import { useEffect, useRef, useCallback, useState } from 'react';
+import { useEditorStore, DEFAULT_FILE_ID } from '../stores/editorStore';
 import { useSessionStore } from '../stores/sessionStore';
+import { useToastStore } from '../stores/toastStore';
+import { useQuestionStore } from '../stores/questionStore';
 import { TextOperation, calculateTextOperation } from '../services/ot-engine';
-import type { DataChannelMessage } from '../services/connection-manager';
-import type { RemoteCursor } from '../stores/editorStore';
+import { OTClient, OTServer, computeChecksum } from '../services/ot-protocol';
+import { UndoManager } from '../services/undo-manager';
+import { hasPermission } from '../services/roles';
+import type { DataChannelMessage, SyncedFile } from '../services/connection-manager';
+import type { RemoteCursor, WorkspaceFile } from '../stores/editorStore';
+
+/** Local edits closer together than this (ms) are undone as one step. */
+const UNDO_GROUP_INTERVAL = 1000;
+
+/** How often (ms) each peer broadcasts a checksum of its code. */
+const CHECKSUM_INTERVAL = 5000;
+
+/**
+ * Sync state for one workspace file. Each file is an independent OT document
+ * with its own revision history and undo stack.
+ */
+interface FileStream {
+  /** Name and language as last announced to or received from peers. */
+  name: string;
+  language: string;
+  /** Text last synced — local edits are diffed against it. */
+  previousCode: string;
+  client: OTClient;
+  /** Host-side revision history, created lazily (see getServer). */
+  server: OTServer | null;
+  undo: UndoManager;
+  lastLocalEdit: number;
+  repairPending: boolean;
+}
+
+function createStream(file: WorkspaceFile, revision = 0): FileStream {
+  return {
+    name: file.name,
+    language: file.language,
+    previousCode: file.code,
+    client: new OTClient(revision),
+    server: null,
+    undo: new UndoManager(),
+    lastLocalEdit: 0,
+    repairPending: false,
+  };
+}
+
+/**
+ * Created lazily so a peer promoted to host continues from the revision it
+ * reached as a client.
+ */
+function getServer(stream: FileStream): OTServer {
+  if (!stream.server) {
+    stream.server = new OTServer(stream.client.revision);
+  }
+  return stream.server;
+}
+
+function getFile(fileId: string): WorkspaceFile | undefined {
+  return useEditorStore.getState().files.find((f) => f.id === fileId);
+}
 
 interface UseCodeSyncOptions {
   sendMessage?: (data: DataChannelMessage) => boolean;
 }
 
 interface UseCodeSyncReturn {
-  handleMessage: (message: DataChannelMessage) => void;
+  handleMessage: (message: DataChannelMessage, fromPeerId?: string) => void;
+}
+
+function canEdit(): boolean {
+  return hasPermission(useSessionStore.getState().role, 'edit');
 }
 
 /**
  * useCodeSync — sends/receives OT operations over a data channel.
  *
- * - Watches editorStore.code for local changes, computes OT operations, and
+ * The host is the server of record (see ot-protocol.ts): peers send their
+ * operations to the host tagged with the revision they were based on, and the
+ * host transforms them into its history and broadcasts the ordered result.
+ * A peer recognises its own operation in that broadcast as the acknowledgement.
+ *
+ * Every workspace file has its own operation stream; messages carry a
+ * `fileId` (missing means the default file, for older peers).
+ *
+ * - Watches editorStore.files for local changes, computes OT operations, and
  *   sends them as `code-operation` messages via sendMessage.
- * - Handles incoming `code-operation` messages, transforms if necessary,
- *   and applies to the editor store.
+ * - Announces created, renamed and deleted files and language changes with
+ *   `file-create` / `file-rename` / `file-delete` / `language` messages.
+ * - Handles incoming `code-operation` messages, transforms them against
+ *   unacknowledged local operations, and applies them to the editor store.
  * - Handles `code` messages for full-sync fallback (late joiners).
- * - Handles `state-request` / `state-sync` for initial state exchange.
- * - Sends cursor/selection position to peers when the user clicks or selects.
+ * - Handles `state-request` / `state-sync` for initial state exchange. The
+ *   state includes the session's question (see question-bank.ts), and the
+ *   host broadcasts it again whenever it picks a different one. The host
+ *   ignores `state-sync`: its own workspace is authoritative.
+ * - Sends cursor/selection position to peers when the user clicks or selects,
+ *   and shifts peers' cursors and selections through every applied operation,
+ *   local or remote.
+ * - Keeps an undo stack of the local participant's own edits, transformed
+ *   against remote operations, and registers undo/redo on editorStore.
+ * - Periodically broadcasts a `code-checksum` of each file at its revision.
+ *   A mismatch against the host's copy triggers a repairing `state-sync`.
+ * - Enforces the `edit` permission (see roles.ts): without it local changes
+ *   are reverted rather than sent, and the host drops edits from peers whose
+ *   role does not allow them.
  */
 export function useCodeSync({ sendMessage }: UseCodeSyncOptions = {}): UseCodeSyncReturn {
-  const previousCodeRef = useRef('');
-  const pendingOpsRef = useRef<TextOperation[]>([]);
-  const isRemoteUpdateRef = useRef(false);
-  const lastSentCursorRef = useRef(-1);
+  const [streams] = useState(
+    () => new Map(useEditorStore.getState().files.map((f) => [f.id, createStream(f)])),
+  );
+  const clientIdRef = useRef(`${Date.now()}-${Math.random().toString(36).slice(2, 9)}`);
+  const lastSentCursorRef = useRef('');
 
-  const code = useEditorStore((s) => s.code);
+  const files = useEditorStore((s) => s.files);
+  const setCode = useEditorStore((s) => s.setCode);
   const applyLocalOperation = useEditorStore((s) => s.applyLocalOperation);
   const applyRemoteOperation = useEditorStore((s) => s.applyRemoteOperation);
-  const localOperationCount = useEditorStore((s) => s.localOperationCount);
   const setLanguage = useEditorStore((s) => s.setLanguage);
   const updateRemoteCursor = useEditorStore((s) => s.updateRemoteCursor);
+  const transformRemoteCursors = useEditorStore((s) => s.transformRemoteCursors);
+  const setUndoCallbacks = useEditorStore((s) => s.setUndoCallbacks);
+  const sessionId = useSessionStore((s) => s.sessionId);
+
+  const sendOperation = useCallback((
+    fileId: string,
+    operation: TextOperation,
+    revision: number,
+    clientId: string,
+  ): boolean => {
+    if (!sendMessage) return false;
+    return sendMessage({
+      type: 'code-operation',
+      fileId,
+      operation: operation.ops,
+      revision,
+      clientId,
+    });
+  }, [sendMessage]);
+
+  /** The full workspace with each file's current revision, and the question. */
+  const sendStateSync = useCallback((repair = false) => {
+    if (!sendMessage) return;
+    const isHost = useSessionStore.getState().isHost;
+    const snapshot: SyncedFile[] = useEditorStore.getState().files.map((file) => {
+      const stream = streams.get(file.id);
+      const revision = !stream ? 0 : isHost ? getServer(stream).revision : stream.client.revision;
+      return { id: file.id, name: file.name, language: file.language, code: file.code, revision };
+    });
+    sendMessage({
+      type: 'state-sync',
+      files: snapshot,
+      question: useQuestionStore.getState().question,
+      ...(repair ? { repair: true } : {}),
+    });
+  }, [sendMessage, streams]);
+
+  /**
+   * Submit the client's next operation to the host. If nobody is connected it
+   * will never be acknowledged, so drop it — the state-sync on connect
+   * replaces the local document anyway.
+   */
+  const submitToHost = useCallback((fileId: string, stream: FileStream, operation: TextOperation | null) => {
+    if (!operation) return;
+    if (!sendOperation(fileId, operation, stream.client.revision, clientIdRef.current)) {
+      stream.client.reset(stream.client.revision);
+    }
+  }, [sendOperation]);
+
+  /**
+   * Order (host) or submit (peer) a local operation that has already been
+   * applied to the editor. Peers' cursors in the file move with the edit.
+   */
+  const submitLocalOperation = useCallback((fileId: string, stream: FileStream, operation: TextOperation) => {
+    applyLocalOperation();
+    transformRemoteCursors(fileId, operation);
+
+    if (useSessionStore.getState().isHost) {
+      // The host's own edits are ordered immediately — nothing to await
+      const server = getServer(stream);
+      server.receiveOperation(server.revision, operation);
+      stream.client.reset(server.revision);
+      sendOperation(fileId, operation, server.revision, clientIdRef.current);
+    } else {
+      submitToHost(fileId, stream, stream.client.applyClient(operation));
+    }
+  }, [applyLocalOperation, sendOperation, submitToHost, transformRemoteCursors]);
+
+  /**
+   * Compare the workspace's files with the ones peers know about and announce
+   * the difference. Runs before diffing code so a new file reaches the host
+   * ahead of its first operation.
+   */
+  const announceFileChanges = useCallback(() => {
+    const current = useEditorStore.getState().files;
+
+    for (const file of current) {
+      const stream = streams.get(file.id);
+      if (!stream) {
+        streams.set(file.id, createStream(file));
+        sendMessage?.({
+          type: 'file-create',
+          file: { id: file.id, name: file.name, language: file.language, code: file.code },
+        });
+        continue;
+      }
+      if (stream.name !== file.name) {
+        stream.name = file.name;
+        sendMessage?.({ type: 'file-rename', fileId: file.id, name: file.name });
+      }
+      if (stream.language !== file.language) {
+        stream.language = file.language;
+        sendMessage?.({ type: 'language', fileId: file.id, language: file.language });
+      }
+    }
+
+    for (const fileId of Array.from(streams.keys())) {
+      if (!current.some((f) => f.id === fileId)) {
+        streams.delete(fileId);
+        sendMessage?.({ type: 'file-delete', fileId });
+      }
+    }
+  }, [sendMessage, streams]);
+
+  /**
+   * Diff each file's code against its last synced text and submit the change.
+   * Called from the change effect and before applying a remote operation, so
+   * a local edit that has not been diffed yet is never overwritten.
+   */
+  const flushLocalChanges = useCallback(() => {
+    if (!canEdit()) {
+      // The editor is read-only, so this only undoes changes made around it
+      for (const file of useEditorStore.getState().files) {
+        const stream = streams.get(file.id);
+        if (stream && stream.previousCode !== file.code) {
+          applyRemoteOperation(stream.previousCode, file.id);
+        }
+      }
+      return;
+    }
+
+    announceFileChanges();
+
+    for (const file of useEditorStore.getState().files) {
+      const stream = streams.get(file.id);
+      if (!stream || stream.previousCode === file.code) continue;
+
+      const oldText = stream.previousCode;
+      const operation = calculateTextOperation(oldText, file.code);
+      stream.previousCode = file.code;
+      if (operation.ops.length === 0) continue;
+
+      // Keystrokes in quick succession form a single undo step
+      const now = Date.now();
+      stream.undo.record(operation, oldText, now - stream.lastLocalEdit < UNDO_GROUP_INTERVAL);
+      stream.lastLocalEdit = now;
+
+      submitLocalOperation(file.id, stream, operation);
+    }
+  }, [announceFileChanges, applyRemoteOperation, streams, submitLocalOperation]);
+
+  const applyToEditor = useCallback((
+    fileId: string,
+    stream: FileStream,
+    operation: TextOperation,
+    authorClientId: string,
+  ) => {
+    const newCode = operation.apply(getFile(fileId)?.code ?? '');
+    stream.undo.transform(operation);
+    applyRemoteOperation(newCode, fileId);
+    transformRemoteCursors(fileId, operation, authorClientId);
+    stream.previousCode = newCode;
+  }, [applyRemoteOperation, transformRemoteCursors]);
+
+  /** Apply an undo/redo step to the active file as a regular local edit and sync it. */
+  const applyHistoryStep = useCallback((step: (manager: UndoManager, text: string) => TextOperation | null) => {
+    flushLocalChanges();
+    if (!canEdit()) return null;
+
+    const { activeFileId, code: text } = useEditorStore.getState();
+    const stream = streams.get(activeFileId);
+    if (!stream) return null;
+
+    const operation = step(stream.undo, text);
+    if (!operation) return null;
+
+    const newCode = operation.apply(text);
+    stream.previousCode = newCode;
+    setCode(newCode);
+    submitLocalOperation(activeFileId, stream, operation);
+    return operation;
+  }, [flushLocalChanges, setCode, streams, submitLocalOperation]);
+
+  /**
+   * Replace the workspace with the host's copy. State syncs are broadcast, so
+   * one answering another peer's request can arrive while we are mid-edit: a
+   * file at the same revision keeps its code, since our pending operations
+   * are still valid against it.
+   */
+  const applyWorkspaceSync = useCallback((synced: SyncedFile[], repair: boolean) => {
+    const local = useEditorStore.getState().files;
+    const nextFiles: WorkspaceFile[] = [];
+    const nextStreams = new Map<string, FileStream>();
+    let restored = false;
+
+    for (const file of synced) {
+      const revision = file.revision ?? 0;
+      const stream = streams.get(file.id);
+      const localFile = local.find((f) => f.id === file.id);
+
+      if (stream && localFile && revision === stream.client.revision && stream.client.state !== 'synchronized') {
+        stream.name = file.name;
+        stream.language = file.language;
+        nextFiles.push({ ...localFile, name: file.name, language: file.language });
+        nextStreams.set(file.id, stream);
+        continue;
+      }
+
+      const next = { id: file.id, name: file.name, language: file.language, code: file.code };
+      const nextStream = createStream(next, revision);
+      if (stream && localFile) {
+        if (localFile.code === file.code) {
+          nextStream.undo = stream.undo;
+        } else if (repair || stream.repairPending) {
+          restored = true;
+        }
+      }
+      nextFiles.push(next);
+      nextStreams.set(file.id, nextStream);
+    }
+
+    if (nextFiles.length === 0) return;
+
+    streams.clear();
+    nextStreams.forEach((stream, fileId) => streams.set(fileId, stream));
+    useEditorStore.getState().setFiles(nextFiles);
+
+    if (restored) {
+      useToastStore.getState().showWarning(
+        'Your code had drifted out of sync and was restored from the host\'s copy'
+      );
+    }
+  }, [streams]);
+
+  const requestFullState = useCallback(() => {
+    if (sendMessage) {
+      sendMessage({ type: 'state-request' });
+    }
+  }, [sendMessage]);
 
   // Send cursor/selection position to peers when user interacts with #codeInput
   useEffect(() => {
@@ -44,16 +357,23 @@ export function useCodeSync({ sendMessage }: UseCodeSyncOptions = {}): UseCodeSy
       if (!el || el.id !== 'codeInput') return;
       if (!sendMessage) return;
 
-      const pos = el.selectionStart;
-      if (pos === lastSentCursorRef.current) return;
-      lastSentCursorRef.current = pos;
+      const { selectionStart, selectionEnd, selectionDirection } = el;
+      const fileId = useEditorStore.getState().activeFileId;
+      const key = `${fileId}:${selectionStart}:${selectionEnd}`;
+      if (key === lastSentCursorRef.current) return;
+      lastSentCursorRef.current = key;
 
       const peerName = useSessionStore.getState().peerName;
       sendMessage({
         type: 'cursor',
         peerId: peerName || 'Anonymous',
-        position: pos,
+        // The caret sits at whichever end the selection was extended from
+        position: selectionDirection === 'backward' ? selectionStart : selectionEnd,
+        selectionStart,
+        selectionEnd,
         name: peerName || 'Anonymous',
+        fileId,
+        clientId: clientIdRef.current,
       });
     };
 
@@ -63,69 +383,168 @@ export function useCodeSync({ sendMessage }: UseCodeSyncOptions = {}): UseCodeSy
     };
   }, [sendMessage]);
 
-  // Detect local code changes and send OT operations
+  // Expose per-participant undo/redo to the editor
   useEffect(() => {
-    if (isRemoteUpdateRef.current) {
-      isRemoteUpdateRef.current = false;
-      previousCodeRef.current = code;
-      return;
-    }
+    setUndoCallbacks(
+      () => applyHistoryStep((manager, text) => manager.undo(text)),
+      () => applyHistoryStep((manager, text) => manager.redo(text)),
+    );
+    return () => setUndoCallbacks(null, null);
+  }, [applyHistoryStep, setUndoCallbacks]);
 
-    const oldText = previousCodeRef.current;
-    const newText = code;
+  // Periodically announce each file's checksum. Only meaningful while nothing
+  // local is in flight, since unacknowledged edits are not part of the host's
+  // copy yet.
+  useEffect(() => {
+    if (!sendMessage) return;
 
-    if (oldText === newText) return;
+    const timer = setInterval(() => {
+      flushLocalChanges();
+      const isHost = useSessionStore.getState().isHost;
 
-    const operation = calculateTextOperation(oldText, newText);
-    if (operation.ops.length === 0) return;
+      streams.forEach((stream, fileId) => {
+        if (!isHost && stream.client.state !== 'synchronized') return;
+        sendMessage({
+          type: 'code-checksum',
+          fileId,
+          revision: isHost ? getServer(stream).revision : stream.client.revision,
+          checksum: computeChecksum(getFile(fileId)?.code ?? ''),
+        });
+      });
+    }, CHECKSUM_INTERVAL);
 
-    applyLocalOperation();
-    previousCodeRef.current = newText;
+    return () => clearInterval(timer);
+  }, [flushLocalChanges, sendMessage, streams]);
 
-    if (sendMessage) {
-      sendMessage({
-        type: 'code-operation',
-        operation: operation.ops,
-        operationCount: localOperationCount + 1,
-      });
-    }
-  }, [code, sendMessage, applyLocalOperation, localOperationCount]);
+  // Losing edit permission abandons edits still waiting for the host; a peer
+  // then takes the host's copy, since it can't send its own any more.
+  const role = useSessionStore((s) => s.role);
+  useEffect(() => {
+    if (hasPermission(role, 'edit')) return;
+    let pending = false;
+    streams.forEach((stream) => {
+      if (stream.client.state !== 'synchronized') {
+        pending = true;
+        stream.client.reset(stream.client.revision);
+      }
+    });
+    if (pending && !useSessionStore.getState().isHost) requestFullState();
+  }, [requestFullState, role, streams]);
+
+  // Push a newly picked question, with its starter code, to everyone
+  useEffect(() => {
+    return useQuestionStore.subscribe((state, prev) => {
+      if (state.question === prev.question || !useSessionStore.getState().isHost) return;
+      flushLocalChanges();
+      sendStateSync();
+    });
+  }, [flushLocalChanges, sendStateSync]);
+
+  // A new session starts a new document — old undo steps no longer apply
+  useEffect(() => {
+    streams.forEach((stream) => stream.undo.clear());
+  }, [sessionId, streams]);
+
+  // Detect local file and code changes and send them to peers. Remote updates
+  // set the stream's previousCode alongside the store, so they produce no diff.
+  useEffect(() => {
+    flushLocalChanges();
+  }, [files, flushLocalChanges]);
 
   // Handle incoming messages
-  const handleMessage = useCallback((message: DataChannelMessage) => {
+  const handleMessage = useCallback((message: DataChannelMessage, fromPeerId?: string) => {
+    if (!useSessionStore.getState().isAllowedFrom(fromPeerId, message)) return;
+
     switch (message.type) {
       case 'code-operation': {
-        const remoteOp = new TextOperation();
-        remoteOp.ops = message.operation;
-
-        // Transform against any pending local operations
-        let transformedOp = remoteOp;
-        for (const pending of pendingOpsRef.current) {
-          const [, newRemote] = TextOperation.transform(pending, transformedOp);
-          transformedOp = newRemote;
+        const fileId = message.fileId ?? DEFAULT_FILE_ID;
+        const incoming = new TextOperation();
+        incoming.ops = message.operation;
+
+        flushLocalChanges();
+
+        // The file was deleted while the operation was in flight
+        const stream = streams.get(fileId);
+        if (!stream) break;
+
+        if (useSessionStore.getState().isHost) {
+          // Order the peer's operation into the history and broadcast it;
+          // the broadcast doubles as the sender's acknowledgement.
+          const server = getServer(stream);
+          try {
+            const ordered = server.receiveOperation(message.revision, incoming);
+            applyToEditor(fileId, stream, ordered, message.clientId);
+            stream.client.reset(server.revision);
+            sendOperation(fileId, ordered, server.revision, message.clientId);
+          } catch {
+            // The sender is too far out of step — resync everyone from here
+            sendStateSync();
+          }
+          break;
+        }
+
+        const client = stream.client;
+        if (message.revision !== client.revision + 1) {
+          // Missed an operation — our history no longer lines up with the host's
+          requestFullState();
+          break;
         }
 
-        const currentCode = useEditorStore.getState().code;
-        try {
-          const newCode = transformedOp.apply(currentCode);
-          isRemoteUpdateRef.current = true;
-          applyRemoteOperation(newCode);
-          previousCodeRef.current = newCode;
-        } catch {
-          // Transformation failed — request full sync
-          if (sendMessage) {
-            sendMessage({ type: 'state-request' });
+        if (message.clientId === clientIdRef.current && client.outstanding) {
+          submitToHost(fileId, stream, client.serverAck());
+        } else {
+          // Includes our own operation when a resync dropped it locally
+          try {
+            applyToEditor(fileId, stream, client.applyServer(incoming), message.clientId);
+          } catch {
+            // Operation does not fit our document — request full sync
+            requestFullState();
           }
         }
         break;
       }
 
+      case 'code-checksum': {
+        const fileId = message.fileId ?? DEFAULT_FILE_ID;
+        flushLocalChanges();
+        const stream = streams.get(fileId);
+        if (!stream) break;
+        const checksum = computeChecksum(getFile(fileId)?.code ?? '');
+
+        if (useSessionStore.getState().isHost) {
+          // A peer's copy at our current revision differs — push ours to everyone.
+          // Reports for older revisions can't be checked; the peer will resend.
+          if (message.revision === getServer(stream).revision && message.checksum !== checksum) {
+            sendStateSync(true);
+          }
+          break;
+        }
+
+        // Host checksums arrive in order with its operations, so a synchronized
+        // peer is at exactly the reported revision and must match it.
+        const client = stream.client;
+        if (
+          client.state === 'synchronized' &&
+          message.revision === client.revision &&
+          message.checksum !== checksum
+        ) {
+          stream.repairPending = true;
+          requestFullState();
+        }
+        break;
+      }
+
       case 'code': {
-        // Full code sync (fallback for late joiners)
-        isRemoteUpdateRef.current = true;
+        // Full code sync of the active file (fallback for late joiners)
+        const { activeFileId } = useEditorStore.getState();
+        const stream = streams.get(activeFileId);
         applyRemoteOperation(message.code);
-        previousCodeRef.current = message.code;
-        pendingOpsRef.current = [];
+        if (stream) {
+          stream.previousCode = message.code;
+          stream.client.reset(stream.client.revision);
+          stream.undo.clear();
+          if (message.language) stream.language = message.language;
+        }
         if (message.language) {
           setLanguage(message.language);
         }
@@ -136,7 +555,11 @@ export function useCodeSync({ sendMessage }: UseCodeSyncOptions = {}): UseCodeSy
         if (message.peerId) {
           updateRemoteCursor(message.peerId, {
             position: message.position,
+            selectionStart: message.selectionStart,
+            selectionEnd: message.selectionEnd,
             name: message.name,
+            fileId: message.fileId,
+            clientId: message.clientId,
           } as RemoteCursor);
         }
         break;
@@ -144,42 +567,88 @@ export function useCodeSync({ sendMessage }: UseCodeSyncOptions = {}): UseCodeSy
 
       case 'state-request': {
         // Peer is requesting full state — send it
-        const state = useEditorStore.getState();
-        if (sendMessage) {
-          sendMessage({
-            type: 'state-sync',
-            code: state.code,
-            language: state.language,
-          });
-        }
+        sendStateSync();
         break;
       }
 
       case 'state-sync': {
-        // Received full state from peer
-        isRemoteUpdateRef.current = true;
-        if (message.code != null) {
-          applyRemoteOperation(message.code);
-          previousCodeRef.current = message.code;
+        // Received full state from peer. The host's workspace is the one
+        // everyone converges on, so no peer may replace it
+        if (useSessionStore.getState().isHost) break;
+        flushLocalChanges();
+
+        // The host decides the question
+        if (message.question !== undefined) {
+          useQuestionStore.getState().setQuestion(message.question);
         }
+
+        if (message.files) {
+          applyWorkspaceSync(message.files, Boolean(message.repair));
+          break;
+        }
+
+        // Single-buffer state from an older peer — applies to the active file
+        const { activeFileId } = useEditorStore.getState();
+        const stream = streams.get(activeFileId);
+        if (!stream) break;
         if (message.language) {
+          stream.language = message.language;
           setLanguage(message.language);
         }
-        pendingOpsRef.current = [];
+        applyWorkspaceSync(
+          useEditorStore.getState().files.map((file) => {
+            if (file.id !== activeFileId) {
+              return { ...file, revision: streams.get(file.id)?.client.revision ?? 0 };
+            }
+            return { ...file, code: message.code ?? file.code, revision: message.revision ?? 0 };
+          }),
+          Boolean(message.repair),
+        );
+        break;
+      }
+
+      case 'file-create': {
+        const { file } = message;
+        if (streams.has(file.id)) break;
+        streams.set(file.id, createStream(file, file.revision ?? 0));
+        useEditorStore.getState().addFile({
+          id: file.id,
+          name: file.name,
+          language: file.language,
+          code: file.code,
+        });
+        break;
+      }
+
+      case 'file-rename': {
+        const stream = streams.get(message.fileId);
+        if (!stream) break;
+        stream.name = message.name;
+        useEditorStore.getState().renameFile(message.fileId, message.name);
+        break;
+      }
+
+      case 'file-delete': {
+        if (!streams.has(message.fileId)) break;
+        // Refused for our last file (a peer deleted the others meanwhile), and
+        // then edits to it must keep syncing
+        if (useEditorStore.getState().deleteFile(message.fileId)) streams.delete(message.fileId);
         break;
       }
 
       case 'language': {
-        if (message.language) {
-          setLanguage(message.language);
-        }
+        if (!message.language) break;
+        const fileId = message.fileId ?? useEditorStore.getState().activeFileId;
+        const stream = streams.get(fileId);
+        if (stream) stream.language = message.language;
+        useEditorStore.getState().setFileLanguage(fileId, message.language);
         break;
       }
 
       default:
         break;
     }
-  }, [applyRemoteOperation, sendMessage, setLanguage, updateRemoteCursor]);
+  }, [applyRemoteOperation, applyToEditor, applyWorkspaceSync, flushLocalChanges, requestFullState, sendOperation, sendStateSync, setLanguage, streams, submitToHost, updateRemoteCursor]);
 
   return { handleMessage };
 }
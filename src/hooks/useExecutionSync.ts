@@ -1,34 +1,68 @@
-import { useCallback, useEffect } from 'react';
+import { useCallback, useEffect, useRef } from 'react';
 import { useExecutionStore } from '../stores/executionStore';
+import type { ExecutionResult } from '../stores/executionStore';
 import { useEditorStore } from '../stores/editorStore';
-import { runCode, stopExecution as stopWorker, isExecutable, isWasmLanguage, preloadRuntime } from '../services/code-executor';
+import {
+  runCode,
+  stopExecution as stopWorker,
+  isExecutable,
+  isWasmLanguage,
+  preloadRuntime,
+  getCapabilities,
+} from '../services/code-executor';
 import { stopWasmExecution } from '../services/wasm-runtime-manager';
 import { useRuntimeStore } from '../stores/runtimeStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { useQuestionStore } from '../stores/questionStore';
+import { useExecutionHistoryStore } from '../stores/executionHistoryStore';
+import { hasPermission } from '../services/roles';
+import { runTests, toSharedTestResults } from '../services/test-runner';
 import type { DataChannelMessage } from '../services/connection-manager';
+import type { OutputChunk } from '../services/output-stream';
 
 interface UseExecutionSyncOptions {
   sendMessage?: (data: DataChannelMessage) => boolean;
 }
 
 interface UseExecutionSyncReturn {
-  handleMessage: (message: DataChannelMessage) => void;
+  handleMessage: (message: DataChannelMessage, fromPeerId?: string) => void;
+}
+
+/** A run that started, waiting for its result to go in the history. */
+interface PendingRun {
+  timestamp: number;
+  runBy: string;
+  language: string;
+  code: string;
 }
 
 /**
  * useExecutionSync — runs code locally and syncs results over the data channel.
  *
- * - executeCode() reads the current editor code/language, runs it in a Worker,
- *   broadcasts execution-start and execution-result to peers.
+ * - executeCode() reads the current editor code/language and stdin, runs it in
+ *   a Worker, broadcasts execution-start (with the code, for peers' history,
+ *   and the stdin, which peers adopt), execution-output as the program writes
+ *   and execution-result to peers.
+ * - executeTests() does the same against the question's hidden tests, one run
+ *   per case, and adds each case's pass/fail to execution-result. Needs the
+ *   `viewNotes` permission and a runtime that supports tests; peers only get
+ *   the outcome, not the output, so nothing is streamed.
  * - handleMessage() receives execution events from peers and updates the store.
+ * - Every finished run, ours or a peer's, goes in executionHistoryStore with
+ *   who started it and the code it ran.
  * - Preloads WASM runtimes when the user switches to a WASM language.
+ * - Enforces the `run` permission (see roles.ts) for local runs and, on the
+ *   host, received execution events.
  */
 export function useExecutionSync({
   sendMessage,
 }: UseExecutionSyncOptions = {}): UseExecutionSyncReturn {
   const startExecution = useExecutionStore((s) => s.startExecution);
   const setResult = useExecutionStore((s) => s.setResult);
+  const appendOutput = useExecutionStore((s) => s.appendOutput);
   const stopExecution = useExecutionStore((s) => s.stopExecution);
   const setCallbacks = useExecutionStore((s) => s.setCallbacks);
+  const setStdin = useExecutionStore((s) => s.setStdin);
   const language = useEditorStore((s) => s.language);
 
   // Preload WASM runtime when user switches to a WASM language
@@ -38,7 +72,34 @@ export function useExecutionSync({
     }
   }, [language]);
 
-  const executeCode = useCallback(async () => {
+  const pendingRunRef = useRef<PendingRun | null>(null);
+
+  /** Adds the pending run to the history, with its outcome. */
+  const recordRun = useCallback((result: ExecutionResult) => {
+    const pending = pendingRunRef.current;
+    if (!pending) return;
+    pendingRunRef.current = null;
+
+    const { code, ...run } = pending;
+    const { testResults } = result;
+    useExecutionHistoryStore.getState().addRun({
+      ...run,
+      stdout: result.stdout,
+      stderr: result.stderr,
+      exitCode: result.exitCode,
+      duration: result.duration,
+      ...(testResults && { tests: { passed: testResults.filter((t) => t.passed).length, total: testResults.length } }),
+    }, code);
+  }, []);
+
+  /**
+   * Runs the editor's code through `run` and shares the outcome, along with
+   * `stdin` if the run reads it. WASM runtimes must have finished loading first.
+   */
+  const execute = useCallback(async (
+    run: (code: string, language: string) => Promise<ExecutionResult>,
+    stdin?: string,
+  ) => {
     const { code, language } = useEditorStore.getState();
     if (!isExecutable(language)) return;
 
@@ -70,18 +131,25 @@ export function useExecutionSync({
     }
 
     startExecution();
+    const runBy = useSessionStore.getState().peerName || 'You';
+    const timestamp = Date.now();
+    pendingRunRef.current = { timestamp, runBy, language, code };
 
     if (sendMessage) {
       sendMessage({
         type: 'execution-start',
         language,
-        timestamp: Date.now(),
+        timestamp,
+        runBy,
+        code,
+        ...(stdin !== undefined && { stdin }),
       });
     }
 
     try {
-      const result = await runCode(code, language);
+      const result = await run(code, language);
       setResult(result);
+      recordRun(result);
 
       if (sendMessage) {
         sendMessage({
@@ -90,6 +158,7 @@ export function useExecutionSync({
           stderr: result.stderr,
           exitCode: result.exitCode,
           duration: result.duration,
+          ...(result.testResults && { testResults: toSharedTestResults(result.testResults) }),
         });
       }
     } catch {
@@ -100,6 +169,7 @@ export function useExecutionSync({
         duration: 0,
       };
       setResult(errorResult);
+      recordRun(errorResult);
 
       if (sendMessage) {
         sendMessage({
@@ -108,7 +178,30 @@ export function useExecutionSync({
         });
       }
     }
-  }, [sendMessage, startExecution, setResult]);
+  }, [sendMessage, startExecution, setResult, recordRun]);
+
+  /** Shows output as the program writes it, here and on every peer. */
+  const streamOutput = useCallback((chunk: OutputChunk) => {
+    appendOutput(chunk);
+    sendMessage?.({ type: 'execution-output', stream: chunk.stream, text: chunk.text });
+  }, [sendMessage, appendOutput]);
+
+  const executeCode = useCallback(async () => {
+    if (!hasPermission(useSessionStore.getState().role, 'run')) return;
+    const { stdin } = useExecutionStore.getState();
+    await execute((code, language) => runCode(code, language, { stdin, onOutput: streamOutput }), stdin);
+  }, [execute, streamOutput]);
+
+  const executeTests = useCallback(async () => {
+    // The hidden tests are only known to interviewers
+    if (!hasPermission(useSessionStore.getState().role, 'viewNotes')) return;
+    if (!getCapabilities(useEditorStore.getState().language)?.tests) return;
+    const tests = useQuestionStore.getState().getTests();
+    if (tests.length === 0) return;
+    await execute((code, language) =>
+      runTests(code, language, tests, (program, lang, stdin) => runCode(program, lang, { stdin })),
+    );
+  }, [execute]);
 
   const cancelExecution = useCallback(() => {
     const { language } = useEditorStore.getState();
@@ -122,30 +215,48 @@ export function useExecutionSync({
 
   // Register callbacks on the store so components can trigger execution
   useEffect(() => {
-    setCallbacks(executeCode, cancelExecution);
-  }, [executeCode, cancelExecution, setCallbacks]);
+    setCallbacks(executeCode, cancelExecution, executeTests);
+  }, [executeCode, cancelExecution, executeTests, setCallbacks]);
 
   const handleMessage = useCallback(
-    (message: DataChannelMessage) => {
+    (message: DataChannelMessage, fromPeerId?: string) => {
+      if (!useSessionStore.getState().isAllowedFrom(fromPeerId, message)) return;
+
       switch (message.type) {
         case 'execution-start':
+          if (message.stdin !== undefined) setStdin(message.stdin);
           startExecution();
+          // Older peers send no code; our copy is then the best guess at what ran
+          pendingRunRef.current = {
+            timestamp: message.timestamp,
+            runBy: message.runBy || 'Peer',
+            language: message.language,
+            code: message.code ?? useEditorStore.getState().code,
+          };
+          break;
+
+        case 'execution-output':
+          appendOutput({ stream: message.stream === 'stderr' ? 'stderr' : 'stdout', text: String(message.text) });
           break;
 
-        case 'execution-result':
-          setResult({
+        case 'execution-result': {
+          const result = {
             stdout: message.stdout,
             stderr: message.stderr,
             exitCode: message.exitCode,
             duration: message.duration,
-          });
+            testResults: message.testResults,
+          };
+          setResult(result);
+          recordRun(result);
           break;
+        }
 
         default:
           break;
       }
     },
-    [startExecution, setResult],
+    [startExecution, appendOutput, setResult, setStdin, recordRun],
   );
 
   return { handleMessage };
@@ -0,0 +1,206 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useUIStore } from '../stores/uiStore';
+import { useEditorStore } from '../stores/editorStore';
+import { useCanvasStore } from '../stores/canvasStore';
+import { useSessionStore } from '../stores/sessionStore';
+import type { DataChannelMessage } from '../services/connection-manager';
+import type { Point } from '../services/canvas-logic';
+
+/** Scroll and canvas-view broadcasts are sent at most this often (ms). */
+const VIEW_BROADCAST_INTERVAL = 100;
+
+/** Input inside this element counts as taking back control of the view. */
+const FOLLOW_AREA_SELECTOR = '#tabGroup';
+
+/** Last known view of a participant; parts they never reported are absent. */
+interface PeerView {
+  tab?: string;
+  scroll?: { fileId: string; top: number; left: number };
+  canvas?: { zoom: number; panOffset: Point };
+}
+
+interface UseFollowModeOptions {
+  sendMessage?: (data: DataChannelMessage) => boolean;
+}
+
+interface UseFollowModeReturn {
+  handleMessage: (message: DataChannelMessage) => void;
+}
+
+/** Show a peer's view: their tab, file and editor scroll, and canvas pan/zoom. */
+function applyView(view: PeerView): void {
+  if (view.tab) {
+    useUIStore.getState().switchTab(view.tab);
+  }
+  if (view.scroll) {
+    const { fileId, top, left } = view.scroll;
+    const editor = useEditorStore.getState();
+    if (editor.files.some((f) => f.id === fileId)) {
+      editor.setActiveFile(fileId);
+    }
+    useUIStore.getState().setEditorScroll(top, left);
+  }
+  if (view.canvas) {
+    const canvas = useCanvasStore.getState();
+    canvas.setZoom(view.canvas.zoom);
+    canvas.setPan(view.canvas.panOffset);
+  }
+}
+
+/**
+ * useFollowMode — shares each participant's view and mirrors a followed one.
+ *
+ * - Broadcasts the local active tab (`view-tab`), active file and editor
+ *   scroll (`view-scroll`) and canvas pan/zoom (`canvas-view`), tagged with
+ *   our `localPeerId`. Scroll and pan are throttled.
+ * - Remembers the last view of every peer, so following someone jumps to
+ *   their view at once; a `view-request` asks them to re-send it.
+ * - While `uiStore.followingPeerId` is set, applies that peer's view changes.
+ *   Pointer, wheel or key input in the editor/canvas area, or the peer
+ *   leaving, stops following.
+ */
+export function useFollowMode({ sendMessage }: UseFollowModeOptions = {}): UseFollowModeReturn {
+  const viewsRef = useRef(new Map<string, PeerView>());
+  const scrollTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const canvasTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const followingPeerId = useUIStore((s) => s.followingPeerId);
+  const stopFollowing = useUIStore((s) => s.stopFollowing);
+  const participants = useSessionStore((s) => s.participants);
+
+  const sendTab = useCallback(() => {
+    const peerId = useSessionStore.getState().localPeerId;
+    if (!sendMessage || !peerId) return;
+    sendMessage({ type: 'view-tab', peerId, tab: useUIStore.getState().activeTab });
+  }, [sendMessage]);
+
+  const sendScroll = useCallback(() => {
+    scrollTimerRef.current = null;
+    const peerId = useSessionStore.getState().localPeerId;
+    if (!sendMessage || !peerId) return;
+    const { top, left } = useUIStore.getState().editorScroll;
+    sendMessage({
+      type: 'view-scroll',
+      peerId,
+      fileId: useEditorStore.getState().activeFileId,
+      scrollTop: top,
+      scrollLeft: left,
+    });
+  }, [sendMessage]);
+
+  const sendCanvasView = useCallback(() => {
+    canvasTimerRef.current = null;
+    const peerId = useSessionStore.getState().localPeerId;
+    if (!sendMessage || !peerId) return;
+    const { zoom, panOffset } = useCanvasStore.getState();
+    sendMessage({ type: 'canvas-view', peerId, zoom, panOffset });
+  }, [sendMessage]);
+
+  // Broadcast local view changes
+  useEffect(() => {
+    const scheduleScroll = () => {
+      scrollTimerRef.current ??= setTimeout(sendScroll, VIEW_BROADCAST_INTERVAL);
+    };
+
+    const unsubUI = useUIStore.subscribe((state, prev) => {
+      if (state.activeTab !== prev.activeTab) sendTab();
+      if (state.editorScroll !== prev.editorScroll) scheduleScroll();
+    });
+    const unsubEditor = useEditorStore.subscribe((state, prev) => {
+      if (state.activeFileId !== prev.activeFileId) scheduleScroll();
+    });
+    const unsubCanvas = useCanvasStore.subscribe((state, prev) => {
+      // Compare by value: a followed view echoes back as a fresh object
+      if (
+        state.zoom !== prev.zoom ||
+        state.panOffset.x !== prev.panOffset.x ||
+        state.panOffset.y !== prev.panOffset.y
+      ) {
+        canvasTimerRef.current ??= setTimeout(sendCanvasView, VIEW_BROADCAST_INTERVAL);
+      }
+    });
+
+    return () => {
+      unsubUI();
+      unsubEditor();
+      unsubCanvas();
+      if (scrollTimerRef.current) clearTimeout(scrollTimerRef.current);
+      if (canvasTimerRef.current) clearTimeout(canvasTimerRef.current);
+      scrollTimerRef.current = null;
+      canvasTimerRef.current = null;
+    };
+  }, [sendCanvasView, sendScroll, sendTab]);
+
+  // Jump to the followed peer's last known view and ask for a fresh one
+  useEffect(() => {
+    if (!followingPeerId) return;
+    const view = viewsRef.current.get(followingPeerId);
+    if (view) applyView(view);
+    sendMessage?.({ type: 'view-request', peerId: followingPeerId });
+  }, [followingPeerId, sendMessage]);
+
+  // Taking control of the editor or canvas ends follow mode
+  useEffect(() => {
+    if (!followingPeerId) return;
+
+    const onInput = (e: Event) => {
+      if (e.target instanceof Element && e.target.closest(FOLLOW_AREA_SELECTOR)) {
+        stopFollowing();
+      }
+    };
+    const events = ['pointerdown', 'wheel', 'keydown'] as const;
+    events.forEach((type) => document.addEventListener(type, onInput, true));
+    return () => {
+      events.forEach((type) => document.removeEventListener(type, onInput, true));
+    };
+  }, [followingPeerId, stopFollowing]);
+
+  // Nobody left to follow
+  useEffect(() => {
+    if (followingPeerId && !participants[followingPeerId]) {
+      stopFollowing();
+    }
+  }, [followingPeerId, participants, stopFollowing]);
+
+  const handleMessage = useCallback((message: DataChannelMessage) => {
+    let peerId: string;
+    let update: PeerView;
+
+    switch (message.type) {
+      case 'view-tab':
+        peerId = message.peerId;
+        update = { tab: message.tab };
+        break;
+
+      case 'view-scroll':
+        peerId = message.peerId;
+        update = { scroll: { fileId: message.fileId, top: message.scrollTop, left: message.scrollLeft } };
+        break;
+
+      case 'canvas-view':
+        // Views without a sender are shared views, handled by useCanvasSync
+        if (!message.peerId) return;
+        peerId = message.peerId;
+        update = { canvas: { zoom: message.zoom, panOffset: message.panOffset } };
+        break;
+
+      case 'view-request':
+        if (message.peerId === useSessionStore.getState().localPeerId) {
+          sendTab();
+          sendScroll();
+          sendCanvasView();
+        }
+        return;
+
+      default:
+        return;
+    }
+
+    viewsRef.current.set(peerId, { ...viewsRef.current.get(peerId), ...update });
+    if (peerId === useUIStore.getState().followingPeerId) {
+      applyView(update);
+    }
+  }, [sendCanvasView, sendScroll, sendTab]);
+
+  return { handleMessage };
+}
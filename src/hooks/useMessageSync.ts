@@ -2,6 +2,7 @@ import { useCallback, useEffect, useRef } from 'react';
 import { useMessagesStore } from '../stores/messagesStore';
 import { useSessionStore } from '../stores/sessionStore';
 import { MessageDeduplicator } from '../services/messages-logic';
+import { hasPermission } from '../services/roles';
 import type { DataChannelMessage } from '../services/connection-manager';
 
 interface UseMessageSyncOptions {
@@ -9,8 +10,9 @@ interface UseMessageSyncOptions {
 }
 
 interface UseMessageSyncReturn {
-  handleMessage: (message: DataChannelMessage) => void;
-  sendChatMessage: (text: string) => string;
+  handleMessage: (message: DataChannelMessage, fromPeerId?: string) => void;
+  /** Returns the new message's id, or null if our role may not chat. */
+  sendChatMessage: (text: string) => string | null;
 }
 
 /**
@@ -20,6 +22,8 @@ interface UseMessageSyncReturn {
  * - Provides `sendChatMessage` helper to broadcast a local message.
  * - Handles incoming `message` and `message-ack` types.
  * - Deduplicates messages to prevent duplicates in mesh topology.
+ * - Enforces the `chat` permission (see roles.ts) for local and, on the
+ *   host, received messages.
  */
 export function useMessageSync({ sendMessage }: UseMessageSyncOptions = {}): UseMessageSyncReturn {
   const deduplicatorRef = useRef(new MessageDeduplicator());
@@ -31,7 +35,9 @@ export function useMessageSync({ sendMessage }: UseMessageSyncOptions = {}): Use
   const acknowledgeMessage = useMessagesStore((s) => s.acknowledgeMessage);
   const peerName = useSessionStore((s) => s.peerName);
 
-  const sendChatMessage = useCallback((text: string): string => {
+  const sendChatMessage = useCallback((text: string): string | null => {
+    if (!hasPermission(useSessionStore.getState().role, 'chat')) return null;
+
     const id = `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
     const message = {
       id,
@@ -57,7 +63,9 @@ export function useMessageSync({ sendMessage }: UseMessageSyncOptions = {}): Use
     return id;
   }, [addMessage, peerName, sendMessage]);
 
-  const handleMessage = useCallback((message: DataChannelMessage) => {
+  const handleMessage = useCallback((message: DataChannelMessage, fromPeerId?: string) => {
+    if (!useSessionStore.getState().isAllowedFrom(fromPeerId, message)) return;
+
     switch (message.type) {
       case 'message': {
         if (!message.id || deduplicatorRef.current.hasSeen(message.id)) {
@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useNotesStore } from '../stores/notesStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { hasPermission } from '../services/roles';
+import type { DataChannelMessage } from '../services/connection-manager';
+
+/** Local edits are sent once typing pauses for this long (ms). */
+const NOTES_SEND_DELAY = 300;
+
+interface UseNotesSyncOptions {
+  sendMessage?: (data: DataChannelMessage) => boolean;
+}
+
+interface UseNotesSyncReturn {
+  handleMessage: (message: DataChannelMessage, fromPeerId?: string) => void;
+}
+
+function canViewNotes(): boolean {
+  return hasPermission(useSessionStore.getState().role, 'viewNotes');
+}
+
+/**
+ * useNotesSync — shares the private interviewer notes among participants
+ * with the `viewNotes` permission (see roles.ts).
+ *
+ * useWebRTC only sends and relays `notes` / `notes-request` messages to
+ * peers whose role has that permission, so candidates never receive them.
+ *
+ * - Sends the whole text after local edits, debounced. Newer notes replace
+ *   older ones (see notesStore).
+ * - Sends a `notes-request` on gaining the permission; peers that have notes
+ *   answer with them.
+ */
+export function useNotesSync({ sendMessage }: UseNotesSyncOptions = {}): UseNotesSyncReturn {
+  const mayViewNotes = useSessionStore((s) => hasPermission(s.role, 'viewNotes'));
+  const isRemoteUpdateRef = useRef(false);
+
+  const sendNotes = useCallback(() => {
+    const { text, updatedAt, updatedBy } = useNotesStore.getState();
+    sendMessage?.({ type: 'notes', text, updatedAt, updatedBy });
+  }, [sendMessage]);
+
+  // Send local edits
+  useEffect(() => {
+    if (!mayViewNotes) return;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = useNotesStore.subscribe((state, prev) => {
+      if (isRemoteUpdateRef.current || state.updatedAt === prev.updatedAt) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        sendNotes();
+      }, NOTES_SEND_DELAY);
+    });
+
+    return () => {
+      unsubscribe();
+      // Don't lose the last keystrokes, unless we may no longer share them
+      if (timer) {
+        clearTimeout(timer);
+        if (canViewNotes()) sendNotes();
+      }
+    };
+  }, [mayViewNotes, sendNotes]);
+
+  // Catch up with the notes written before we could see them
+  useEffect(() => {
+    if (mayViewNotes) sendMessage?.({ type: 'notes-request' });
+  }, [mayViewNotes, sendMessage]);
+
+  const handleMessage = useCallback((message: DataChannelMessage, fromPeerId?: string) => {
+    if (!useSessionStore.getState().isAllowedFrom(fromPeerId, message)) return;
+    if (!canViewNotes()) return;
+
+    switch (message.type) {
+      case 'notes': {
+        isRemoteUpdateRef.current = true;
+        useNotesStore.getState().mergeNotes({
+          text: message.text,
+          updatedAt: message.updatedAt,
+          updatedBy: message.updatedBy,
+        });
+        isRemoteUpdateRef.current = false;
+        break;
+      }
+
+      case 'notes-request': {
+        if (useNotesStore.getState().updatedAt > 0) sendNotes();
+        break;
+      }
+
+      default:
+        break;
+    }
+  }, [sendNotes]);
+
+  return { handleMessage };
+}
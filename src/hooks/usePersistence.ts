@@ -4,15 +4,24 @@ import { useEditorStore } from '../stores/editorStore';
 import { useMessagesStore } from '../stores/messagesStore';
 import type { Message } from '../stores/messagesStore';
 import { useSessionStore } from '../stores/sessionStore';
+import { useNotesStore } from '../stores/notesStore';
+import { useScorecardStore } from '../stores/scorecardStore';
+import { useQuestionStore } from '../stores/questionStore';
+import { useExecutionHistoryStore } from '../stores/executionHistoryStore';
+import { hasPermission, isRole } from '../services/roles';
 
 /**
  * usePersistence — auto-saves store state to localStorage / IndexedDB and
  * restores it on mount when a session exists.
  *
  * Persistence targets:
- *  - Code (editorStore.code)          → localStorage (debounced by StorageManager)
+ *  - Files (editorStore.files)        → localStorage (debounced by StorageManager)
  *  - Messages (messagesStore)         → localStorage (debounced by StorageManager)
- *  - Session metadata                 → localStorage
+ *  - Private notes (notesStore)       → localStorage (debounced by StorageManager)
+ *  - Scorecard (scorecardStore)       → localStorage (debounced by StorageManager)
+ *  - Question (questionStore)         → localStorage
+ *  - Run history (executionHistoryStore) → localStorage (debounced by StorageManager)
+ *  - Session metadata and our role     → localStorage
  *  - OT state (operation counts)      → localStorage (debounced by StorageManager)
  *
  * Also runs expired-session cleanup on mount.
@@ -37,16 +46,27 @@ export function usePersistence(): void {
   useEffect(() => {
     if (!sessionId) return;
 
-    // Restore code
-    const savedCode = StorageManager.loadCode(sessionId);
-    if (savedCode) {
-      useEditorStore.getState().setCode(savedCode);
+    // Restore workspace files, or the single code buffer saved by older versions
+    const savedWorkspace = StorageManager.loadFiles(sessionId);
+    if (savedWorkspace) {
+      useEditorStore.getState().setFiles(savedWorkspace.files, savedWorkspace.activeFileId);
+    } else {
+      const savedCode = StorageManager.loadCode(sessionId);
+      if (savedCode) {
+        useEditorStore.getState().setCode(savedCode);
+      }
+
+      // Restore session metadata (language, host status)
+      const savedSession = StorageManager.loadSession(sessionId);
+      if (savedSession?.language) {
+        useEditorStore.getState().setLanguage(savedSession.language);
+      }
     }
 
-    // Restore session metadata (language, host status)
-    const savedSession = StorageManager.loadSession(sessionId);
-    if (savedSession?.language) {
-      useEditorStore.getState().setLanguage(savedSession.language);
+    // Restore our role — a host's assignment replaces it once connected
+    const savedRole = StorageManager.loadSession(sessionId)?.role;
+    if (isRole(savedRole)) {
+      useSessionStore.getState().setRole(savedRole);
     }
 
     // Restore messages
@@ -56,6 +76,30 @@ export function usePersistence(): void {
       savedMessages.forEach((msg) => store.addMessage(msg));
     }
 
+    // Restore private notes
+    const savedNotes = StorageManager.loadNotes(sessionId);
+    if (savedNotes) {
+      useNotesStore.getState().mergeNotes(savedNotes);
+    }
+
+    // Restore the scorecard
+    const savedScorecard = StorageManager.loadScorecard(sessionId);
+    if (savedScorecard) {
+      useScorecardStore.getState().mergeCompetencies(savedScorecard);
+    }
+
+    // Restore the question
+    const savedQuestion = StorageManager.loadQuestion(sessionId);
+    if (savedQuestion) {
+      useQuestionStore.getState().setQuestion(savedQuestion.question, savedQuestion.tests);
+    }
+
+    // Restore the run history
+    const savedHistory = StorageManager.loadExecutionHistory(sessionId);
+    if (savedHistory) {
+      useExecutionHistoryStore.getState().mergeHistory(savedHistory);
+    }
+
     // Restore OT operation counts
     const savedOT = StorageManager.loadOTState(sessionId);
     if (savedOT) {
@@ -70,16 +114,31 @@ export function usePersistence(): void {
   useEffect(() => {
     if (!sessionId) return;
 
-    let prevCode = useEditorStore.getState().code;
+    let prevFiles = useEditorStore.getState().files;
+    let prevActiveFileId = useEditorStore.getState().activeFileId;
     let prevLanguage = useEditorStore.getState().language;
     let prevLocalOps = useEditorStore.getState().localOperationCount;
     let prevRemoteOps = useEditorStore.getState().remoteOperationCount;
     let prevMessageCount = useMessagesStore.getState().messages.length;
+    let prevRole = useSessionStore.getState().role;
+    let prevNotesUpdatedAt = useNotesStore.getState().updatedAt;
+    let prevCompetencies = useScorecardStore.getState().competencies;
+    let prevQuestion = useQuestionStore.getState();
+    let prevRuns = useExecutionHistoryStore.getState().runs;
+
+    const saveSession = () => {
+      StorageManager.saveSession(sessionId, {
+        role: useSessionStore.getState().role,
+        language: useEditorStore.getState().language,
+        isSessionHost: isHost,
+      });
+    };
 
     const unsubEditor = useEditorStore.subscribe((state) => {
-      if (state.code !== prevCode) {
-        prevCode = state.code;
-        StorageManager.saveCode(sessionId, state.code);
+      if (state.files !== prevFiles || state.activeFileId !== prevActiveFileId) {
+        prevFiles = state.files;
+        prevActiveFileId = state.activeFileId;
+        StorageManager.saveFiles(sessionId, state.files, state.activeFileId);
       }
       if (
         state.language !== prevLanguage ||
@@ -90,10 +149,7 @@ export function usePersistence(): void {
         prevLocalOps = state.localOperationCount;
         prevRemoteOps = state.remoteOperationCount;
 
-        StorageManager.saveSession(sessionId, {
-          language: state.language,
-          isSessionHost: isHost,
-        });
+        saveSession();
         StorageManager.saveOTState(sessionId, {
           localOperationCount: state.localOperationCount,
           remoteOperationCount: state.remoteOperationCount,
@@ -108,9 +164,68 @@ export function usePersistence(): void {
       }
     });
 
+    const unsubSession = useSessionStore.subscribe((state) => {
+      // Leaving the session resets the role — that's not one to remember
+      if (state.sessionId !== sessionId) return;
+      if (state.role !== prevRole) {
+        prevRole = state.role;
+        saveSession();
+      }
+    });
+
+    const unsubNotes = useNotesStore.subscribe((state) => {
+      if (state.updatedAt !== prevNotesUpdatedAt) {
+        prevNotesUpdatedAt = state.updatedAt;
+        // Skip the reset of leaving the session
+        if (state.updatedAt > 0) {
+          StorageManager.saveNotes(sessionId, {
+            text: state.text,
+            updatedAt: state.updatedAt,
+            updatedBy: state.updatedBy,
+          });
+        }
+      }
+    });
+
+    const unsubScorecard = useScorecardStore.subscribe((state) => {
+      if (state.competencies !== prevCompetencies) {
+        prevCompetencies = state.competencies;
+        // Skip the reset of leaving the session
+        if (state.competencies.some((c) => c.updatedAt > 0)) {
+          StorageManager.saveScorecard(sessionId, state.competencies);
+        }
+      }
+    });
+
+    const unsubQuestion = useQuestionStore.subscribe((state) => {
+      if (state.question === prevQuestion.question && state.tests === prevQuestion.tests) return;
+      prevQuestion = state;
+      // Skip the reset of leaving the session
+      if (state.question) {
+        StorageManager.saveQuestion(sessionId, {
+          question: state.question,
+          tests: hasPermission(useSessionStore.getState().role, 'viewNotes') ? state.getTests() : [],
+        });
+      }
+    });
+
+    const unsubHistory = useExecutionHistoryStore.subscribe((state) => {
+      if (state.runs === prevRuns) return;
+      prevRuns = state.runs;
+      // Skip the reset of leaving the session
+      if (state.runs.length > 0) {
+        StorageManager.saveExecutionHistory(sessionId, state);
+      }
+    });
+
     return () => {
       unsubEditor();
       unsubMessages();
+      unsubSession();
+      unsubNotes();
+      unsubScorecard();
+      unsubQuestion();
+      unsubHistory();
     };
   }, [sessionId, isHost]);
 }
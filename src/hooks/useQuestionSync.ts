@@ -0,0 +1,84 @@
+import { useCallback, useEffect } from 'react';
+import { useQuestionStore } from '../stores/questionStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { hasPermission } from '../services/roles';
+import type { DataChannelMessage } from '../services/connection-manager';
+
+interface UseQuestionSyncOptions {
+  sendMessage?: (data: DataChannelMessage) => boolean;
+}
+
+interface UseQuestionSyncReturn {
+  handleMessage: (message: DataChannelMessage, fromPeerId?: string) => void;
+}
+
+function canViewTests(): boolean {
+  return hasPermission(useSessionStore.getState().role, 'viewNotes');
+}
+
+/**
+ * useQuestionSync — shares the question's hidden tests among participants
+ * with the `viewNotes` permission. The question itself travels with the
+ * workspace in `state-sync` (see useCodeSync).
+ *
+ * useWebRTC only sends and relays `question-tests` / `question-tests-request`
+ * messages to peers whose role has that permission, so candidates never
+ * receive them.
+ *
+ * - The host sends the tests whenever the question or its tests change, and
+ *   in reply to a joining peer's `state-request` or a `question-tests-request`.
+ * - Peers send a `question-tests-request` on gaining the permission, e.g.
+ *   when promoted from candidate, and keep the tests for the question they
+ *   belong to.
+ */
+export function useQuestionSync({ sendMessage }: UseQuestionSyncOptions = {}): UseQuestionSyncReturn {
+  const isHost = useSessionStore((s) => s.isHost);
+  const mayViewTests = useSessionStore((s) => hasPermission(s.role, 'viewNotes'));
+
+  const sendTests = useCallback(() => {
+    const { question, getTests } = useQuestionStore.getState();
+    const tests = getTests();
+    if (!question || tests.length === 0) return;
+    sendMessage?.({ type: 'question-tests', questionId: question.id, tests });
+  }, [sendMessage]);
+
+  useEffect(() => {
+    if (!isHost) return;
+    return useQuestionStore.subscribe((state, prev) => {
+      if (state.question === prev.question && state.tests === prev.tests) return;
+      sendTests();
+    });
+  }, [isHost, sendTests]);
+
+  // Catch up with the tests sent before we could see them
+  useEffect(() => {
+    if (!isHost && mayViewTests) sendMessage?.({ type: 'question-tests-request' });
+  }, [isHost, mayViewTests, sendMessage]);
+
+  const handleMessage = useCallback((message: DataChannelMessage, fromPeerId?: string) => {
+    const state = useSessionStore.getState();
+
+    switch (message.type) {
+      case 'question-tests': {
+        if (state.isHost || !state.isAllowedFrom(fromPeerId, message) || !canViewTests()) break;
+        useQuestionStore.getState().setTests(message.questionId, message.tests);
+        break;
+      }
+
+      case 'state-request': {
+        if (state.isHost) sendTests();
+        break;
+      }
+
+      case 'question-tests-request': {
+        if (state.isHost && state.isAllowedFrom(fromPeerId, message)) sendTests();
+        break;
+      }
+
+      default:
+        break;
+    }
+  }, [sendTests]);
+
+  return { handleMessage };
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect } from 'react';
+import { useSessionStore } from '../stores/sessionStore';
+import type { SessionStore } from '../stores/sessionStore';
+import { isRole } from '../services/roles';
+import type { Role } from '../services/roles';
+import type { DataChannelMessage } from '../services/connection-manager';
+
+interface UseRoleSyncOptions {
+  sendMessage?: (data: DataChannelMessage) => boolean;
+}
+
+interface UseRoleSyncReturn {
+  handleMessage: (message: DataChannelMessage) => void;
+}
+
+/** Everyone's role as the host sees it, keyed by signaling id. */
+function collectRoles(state: SessionStore): Record<string, Role> {
+  const roles: Record<string, Role> = {};
+  for (const peerId of Object.keys(state.participants)) {
+    roles[peerId] = state.getPeerRole(peerId);
+  }
+  if (state.localPeerId) {
+    roles[state.localPeerId] = state.role;
+  }
+  return roles;
+}
+
+/**
+ * useRoleSync — shares the roles the host assigns (see roles.ts).
+ *
+ * - The host broadcasts a `roles` message with every participant's role,
+ *   its own included, whenever one changes or someone joins, and answers a
+ *   joining peer's `state-request` with it.
+ * - Peers apply `roles` messages to themselves and the participants list.
+ *   The host is the authority, so it ignores them.
+ */
+export function useRoleSync({ sendMessage }: UseRoleSyncOptions = {}): UseRoleSyncReturn {
+  const isHost = useSessionStore((s) => s.isHost);
+
+  const sendRoles = useCallback(() => {
+    sendMessage?.({ type: 'roles', roles: collectRoles(useSessionStore.getState()) });
+  }, [sendMessage]);
+
+  useEffect(() => {
+    if (!isHost) return;
+    let lastSent = JSON.stringify(collectRoles(useSessionStore.getState()));
+    // A peer promoted to host may know of assignments the others missed
+    sendRoles();
+
+    return useSessionStore.subscribe((state) => {
+      const roles = JSON.stringify(collectRoles(state));
+      if (roles === lastSent) return;
+      lastSent = roles;
+      sendRoles();
+    });
+  }, [isHost, sendRoles]);
+
+  const handleMessage = useCallback((message: DataChannelMessage) => {
+    const state = useSessionStore.getState();
+
+    switch (message.type) {
+      case 'roles': {
+        if (state.isHost) break;
+        for (const [peerId, role] of Object.entries(message.roles)) {
+          if (!isRole(role)) continue;
+          if (peerId === state.localPeerId) {
+            if (role !== state.role) state.setRole(role);
+          } else if (state.participants[peerId] && state.participants[peerId].role !== role) {
+            state.updateParticipant(peerId, { role });
+          }
+        }
+        break;
+      }
+
+      case 'state-request': {
+        if (state.isHost) sendRoles();
+        break;
+      }
+
+      default:
+        break;
+    }
+  }, [sendRoles]);
+
+  return { handleMessage };
+}
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useScorecardStore } from '../stores/scorecardStore';
+import { useSessionStore } from '../stores/sessionStore';
+import { hasPermission } from '../services/roles';
+import type { DataChannelMessage } from '../services/connection-manager';
+
+/** Local edits are sent once they pause for this long (ms). */
+const SCORECARD_SEND_DELAY = 300;
+
+interface UseScorecardSyncOptions {
+  sendMessage?: (data: DataChannelMessage) => boolean;
+}
+
+interface UseScorecardSyncReturn {
+  handleMessage: (message: DataChannelMessage, fromPeerId?: string) => void;
+}
+
+function canViewScorecard(): boolean {
+  return hasPermission(useSessionStore.getState().role, 'viewNotes');
+}
+
+/**
+ * useScorecardSync — shares the interview scorecard among participants with
+ * the `viewNotes` permission, like useNotesSync does for the notes.
+ *
+ * - Sends every competency after local edits, debounced. Peers keep the
+ *   newer copy of each (see scorecard.ts).
+ * - Sends a `scorecard-request` on gaining the permission; peers that have
+ *   scored anything answer with their scorecard.
+ */
+export function useScorecardSync({ sendMessage }: UseScorecardSyncOptions = {}): UseScorecardSyncReturn {
+  const mayViewScorecard = useSessionStore((s) => hasPermission(s.role, 'viewNotes'));
+  const isRemoteUpdateRef = useRef(false);
+
+  const sendScorecard = useCallback(() => {
+    sendMessage?.({ type: 'scorecard', competencies: useScorecardStore.getState().competencies });
+  }, [sendMessage]);
+
+  // Send local edits
+  useEffect(() => {
+    if (!mayViewScorecard) return;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const unsubscribe = useScorecardStore.subscribe((state, prev) => {
+      if (isRemoteUpdateRef.current || state.competencies === prev.competencies) return;
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        sendScorecard();
+      }, SCORECARD_SEND_DELAY);
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer) {
+        clearTimeout(timer);
+        if (canViewScorecard()) sendScorecard();
+      }
+    };
+  }, [mayViewScorecard, sendScorecard]);
+
+  // Catch up with the scores given before we could see them
+  useEffect(() => {
+    if (mayViewScorecard) sendMessage?.({ type: 'scorecard-request' });
+  }, [mayViewScorecard, sendMessage]);
+
+  const handleMessage = useCallback((message: DataChannelMessage, fromPeerId?: string) => {
+    if (!useSessionStore.getState().isAllowedFrom(fromPeerId, message)) return;
+    if (!canViewScorecard()) return;
+
+    switch (message.type) {
+      case 'scorecard': {
+        isRemoteUpdateRef.current = true;
+        useScorecardStore.getState().mergeCompetencies(message.competencies);
+        isRemoteUpdateRef.current = false;
+        break;
+      }
+
+      case 'scorecard-request': {
+        if (useScorecardStore.getState().competencies.some((c) => c.updatedAt > 0)) sendScorecard();
+        break;
+      }
+
+      default:
+        break;
+    }
+  }, [sendScorecard]);
+
+  return { handleMessage };
+}
@@ -0,0 +1,148 @@
+import { useEffect } from 'react';
+import { StorageManager } from '../services/persistence';
+import { diffStrokes, diffWorkspace } from '../services/session-replay';
+import type { ReplayEvent, ReplayFile, ReplayMessage } from '../services/session-replay';
+import { useEditorStore } from '../stores/editorStore';
+import { useCanvasStore } from '../stores/canvasStore';
+import { useMessagesStore } from '../stores/messagesStore';
+import type { Message } from '../stores/messagesStore';
+import { useExecutionStore } from '../stores/executionStore';
+import { useSessionStore } from '../stores/sessionStore';
+
+/** Recorded events are written to storage in batches this often (ms). */
+const RECORD_FLUSH_DELAY = 1000;
+
+function toReplayFiles(files: ReplayFile[]): ReplayFile[] {
+  return files.map(({ id, name, language, code }) => ({ id, name, language, code }));
+}
+
+function toReplayMessage(message: Message): ReplayMessage {
+  return {
+    id: message.id,
+    text: message.text ?? message.content ?? '',
+    sender: message.sender,
+    timestamp: message.timestamp,
+  };
+}
+
+function participantNames(participants: Record<string, { name?: string }>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(participants).map(([peerId, p]) => [peerId, p.name || 'Anonymous']),
+  );
+}
+
+/**
+ * useSessionRecorder — appends everything that happens in the session to the
+ * replay log (see session-replay.ts) while a session is active.
+ *
+ * Starts each run with a `snapshot` of the current state, then records code
+ * edits per file, canvas strokes, chat messages, execution results and
+ * participants joining or leaving — local and remote alike, since it watches
+ * the stores rather than the data channel. Events are batched and written via
+ * StorageManager.appendReplayEvents.
+ */
+export function useSessionRecorder(): void {
+  const sessionId = useSessionStore((s) => s.sessionId);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let pending: ReplayEvent[] = [];
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    const flush = () => {
+      timer = null;
+      if (pending.length === 0) return;
+      const events = pending;
+      pending = [];
+      StorageManager.appendReplayEvents(sessionId, events).catch(() => {
+        // Replay is best-effort — never interrupt the session over it
+      });
+    };
+
+    const record = (events: ReplayEvent[]) => {
+      // Stores are reset when leaving a session — that is not part of it
+      if (events.length === 0 || useSessionStore.getState().sessionId !== sessionId) return;
+      pending.push(...events);
+      timer ??= setTimeout(flush, RECORD_FLUSH_DELAY);
+    };
+
+    let prevFiles = toReplayFiles(useEditorStore.getState().files);
+    let prevStrokes = useCanvasStore.getState().drawingStrokes;
+    let prevMessageCount = useMessagesStore.getState().messages.length;
+    let prevParticipants = participantNames(useSessionStore.getState().participants);
+
+    record([{
+      type: 'snapshot',
+      t: Date.now(),
+      files: prevFiles,
+      strokes: prevStrokes,
+      messages: useMessagesStore.getState().messages.map(toReplayMessage),
+      participants: prevParticipants,
+    }]);
+
+    const unsubEditor = useEditorStore.subscribe((state, prev) => {
+      if (state.files === prev.files) return;
+      const next = toReplayFiles(state.files);
+      record(diffWorkspace(prevFiles, next, Date.now()));
+      prevFiles = next;
+    });
+
+    const unsubCanvas = useCanvasStore.subscribe((state) => {
+      const next = state.drawingStrokes;
+      record(diffStrokes(prevStrokes, next, Date.now()));
+      prevStrokes = next;
+    });
+
+    const unsubMessages = useMessagesStore.subscribe((state) => {
+      if (state.messages.length <= prevMessageCount) {
+        prevMessageCount = state.messages.length;
+        return;
+      }
+      const t = Date.now();
+      record(state.messages.slice(prevMessageCount).map((m) => ({
+        type: 'message',
+        t,
+        message: toReplayMessage(m),
+      })));
+      prevMessageCount = state.messages.length;
+    });
+
+    const unsubExecution = useExecutionStore.subscribe((state, prev) => {
+      // Only finished runs; output streamed while running is left out
+      if (state.output && state.output !== prev.output && !state.isRunning) {
+        record([{ type: 'execution-result', t: Date.now(), ...state.output }]);
+      }
+    });
+
+    const unsubSession = useSessionStore.subscribe((state, prev) => {
+      if (state.participants === prev.participants) return;
+      const next = participantNames(state.participants);
+      const t = Date.now();
+      const events: ReplayEvent[] = [];
+      for (const [peerId, name] of Object.entries(next)) {
+        // Renames are recorded as a fresh join with the new name
+        if (prevParticipants[peerId] !== name) events.push({ type: 'join', t, peerId, name });
+      }
+      for (const peerId of Object.keys(prevParticipants)) {
+        if (!(peerId in next)) events.push({ type: 'leave', t, peerId });
+      }
+      record(events);
+      prevParticipants = next;
+    });
+
+    const onPageHide = () => flush();
+    window.addEventListener('pagehide', onPageHide);
+
+    return () => {
+      unsubEditor();
+      unsubCanvas();
+      unsubMessages();
+      unsubExecution();
+      unsubSession();
+      window.removeEventListener('pagehide', onPageHide);
+      if (timer) clearTimeout(timer);
+      flush();
+    };
+  }, [sessionId]);
+}
@@ -3,14 +3,16 @@ import { ConnectionManager } from '../services/connection-manager';
 import { SignalingClient } from '../services/signaling-client';
 import { useConnectionStore } from '../stores/connectionStore';
 import { useSessionStore } from '../stores/sessionStore';
+import { getRecipientPermission, hasPermission } from '../services/roles';
 import type { DataChannelMessage } from '../services/connection-manager';
 
 interface UseWebRTCOptions {
-  onMessage?: (message: DataChannelMessage) => void;
+  /** Receives each message with the id of the peer whose channel it arrived on. */
+  onMessage?: (message: DataChannelMessage, fromPeerId: string) => void;
 }
 
 interface UseWebRTCReturn {
-  sendMessage: (data: DataChannelMessage | string) => boolean;
+  sendMessage: (data: DataChannelMessage | string, toPeerId?: string) => boolean;
   dataChannelRef: React.RefObject<RTCDataChannel | null>;
 }
 
@@ -19,12 +21,21 @@ interface PeerEntry {
   channel: RTCDataChannel | null;
 }
 
+/** Whether a peer's role lets it receive a message (see getRecipientPermission). */
+function canReceive(peerId: string, message: DataChannelMessage): boolean {
+  const permission = getRecipientPermission(message);
+  return !permission || hasPermission(useSessionStore.getState().getPeerRole(peerId), permission);
+}
+
 /**
  * useWebRTC — bridges ConnectionManager + SignalingClient with React state.
  *
  * Supports multiple peer connections (for 3+ user sessions).
  * Each peer gets its own ConnectionManager and DataChannel.
- * Messages received from one peer are relayed to all other peers.
+ * Messages received from one peer are relayed to all other peers, unless
+ * the sender's role does not allow them (see roles.ts). Messages meant for
+ * some roles only, like private notes, are sent and relayed just to peers
+ * with that role — so notes travel only while the host is one of them.
  */
 export function useWebRTC({ onMessage }: UseWebRTCOptions = {}): UseWebRTCReturn {
   const peersRef = useRef<Map<string, PeerEntry>>(new Map());
@@ -52,13 +63,15 @@ export function useWebRTC({ onMessage }: UseWebRTCOptions = {}): UseWebRTCReturn
   const transferHost = useSessionStore((s) => s.transferHost);
 
   /**
-   * Send a message to ALL connected peers.
+   * Send a message to ALL connected peers allowed to receive it, or with
+   * `toPeerId` to that peer only.
    */
-  const sendMessage = useCallback((data: DataChannelMessage | string): boolean => {
+  const sendMessage = useCallback((data: DataChannelMessage | string, toPeerId?: string): boolean => {
     const jsonStr = typeof data === 'string' ? data : JSON.stringify(data);
     let sent = false;
-    peersRef.current.forEach(({ channel }) => {
-      if (channel && channel.readyState === 'open') {
+    peersRef.current.forEach(({ channel }, peerId) => {
+      if (toPeerId !== undefined && peerId !== toPeerId) return;
+      if (channel && channel.readyState === 'open' && (typeof data === 'string' || canReceive(peerId, data))) {
         channel.send(jsonStr);
         sent = true;
       }
@@ -108,15 +121,27 @@ export function useWebRTC({ onMessage }: UseWebRTCOptions = {}): UseWebRTCReturn
       try {
         const message = JSON.parse(event.data) as DataChannelMessage;
         if (onMessageRef.current) {
-          onMessageRef.current(message);
+          onMessageRef.current(message, peerId);
         }
         // Relay the message to all other connected peers.
-        // Don't relay state-request/state-sync — these are point-to-point
-        // between the joining peer and the host. Relaying them causes
-        // late state-sync messages that overwrite in-progress OT operations.
-        if (message.type !== 'state-request' && message.type !== 'state-sync') {
+        // Don't relay state-request/state-sync/canvas-sync — these are
+        // point-to-point between the joining peer and the host. Relaying them
+        // causes late state-sync messages that overwrite in-progress OT operations.
+        // Don't relay code-operation either — the host orders each one into
+        // its revision history and broadcasts the transformed result itself.
+        // Checksums are only ever compared against the host's copy.
+        // Roles come from the host alone, and nobody else's are passed on.
+        if (
+          message.type !== 'state-request' &&
+          message.type !== 'state-sync' &&
+          message.type !== 'canvas-sync' &&
+          message.type !== 'code-operation' &&
+          message.type !== 'code-checksum' &&
+          message.type !== 'roles' &&
+          useSessionStore.getState().isAllowedFrom(peerId, message)
+        ) {
           peersRef.current.forEach(({ channel: ch }, pid) => {
-            if (pid !== peerId && ch && ch.readyState === 'open') {
+            if (pid !== peerId && ch && ch.readyState === 'open' && canReceive(pid, message)) {
               ch.send(event.data);
             }
           });
@@ -236,6 +261,7 @@ export function useWebRTC({ onMessage }: UseWebRTCOptions = {}): UseWebRTCReturn
 
     // Wire SignalingClient callbacks
     sc.on('onConnected', (data: Record<string, unknown>) => {
+      useSessionStore.getState().setLocalPeerId(sc.getSocketId() ?? ((data.peerId || data.socketId || null) as string | null));
       if (data.isHost) {
         useSessionStore.setState({ isHost: true });
       }
@@ -335,6 +361,7 @@ export function useWebRTC({ onMessage }: UseWebRTCOptions = {}): UseWebRTCReturn
       peersRef.current.clear();
       sc.disconnect();
       signalingClientRef.current = null;
+      useSessionStore.getState().setLocalPeerId(null);
       dataChannelRef.current = null;
       resetConnection();
     };
@@ -0,0 +1,441 @@
+/**
+ * Canvas Document Service
+ *
+ * The diagram as a replicated document. Every stroke has an id, the site that
+ * drew it and the Lamport time it was drawn at; peers exchange `add`,
+ * `update` and `delete` ops on single strokes instead of whole stroke lists.
+ *
+ * Ops merge the same way on every peer whatever order they arrive in: each
+ * field of a stroke, and whether it exists at all, is a last-writer-wins
+ * register ordered by the op's stamp (Lamport time, then site). So a move and
+ * a relabel of one stroke both survive, a delete beats an older move, and an
+ * undo re-adding a stroke beats the delete it reverts.
+ *
+ * Undo is per peer: each local change keeps the ops that revert it, stamped
+ * like the ops they revert. Undoing only applies the parts still in effect,
+ * so it never takes back what someone else drew or changed since. Undoing a
+ * step re-stamps the ones under it to match what it restored, so changes to
+ * one stroke undo one after another.
+ */
+
+import type { Stroke } from './canvas-logic';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** When and where an op was made; totally ordered across peers. */
+export interface Stamp {
+  clock: number;
+  site: string;
+}
+
+/** Fields an update sets; null removes the field (undefined is lost in JSON). */
+export type StrokeChanges = { [K in keyof Stroke]?: Stroke[K] | null };
+
+export type CanvasOp =
+  | { kind: 'add'; stroke: Stroke; clock: number; site: string }
+  | { kind: 'update'; id: string; changes: StrokeChanges; clock: number; site: string }
+  | { kind: 'delete'; id: string; clock: number; site: string };
+
+/**
+ * An op reverting a local change, stamped like the op it reverts. `prior`
+ * holds the stamps of what it restores: those of the fields it sets, and of
+ * the last add or delete under PRESENCE.
+ */
+export type InverseOp = CanvasOp & { prior: Record<string, Stamp> };
+
+/** Everything known about one stroke, deleted or not. */
+export interface StrokeEntry {
+  stroke: Stroke;
+  /** Stamp of the op that last set each field. */
+  fieldStamps: Record<string, Stamp>;
+  present: boolean;
+  /** Stamp of the last add or delete. */
+  presenceStamp: Stamp;
+}
+
+export interface CanvasDocument {
+  entries: Record<string, StrokeEntry>;
+  /** Present strokes in drawing order (see compareStrokes). */
+  strokes: Stroke[];
+  /** Highest Lamport time seen. */
+  clock: number;
+}
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+/** Older than any op; what loaded strokes are stamped with. */
+const ORIGIN: Stamp = { clock: 0, site: '' };
+
+// Never changed by an update: they identify and order the stroke
+const IDENTITY_FIELDS = new Set(['id', 'author', 'clock']);
+
+/** Key of whether a stroke exists, beside its fields, in InverseOp.prior. */
+const PRESENCE = '';
+
+// ── Functions ────────────────────────────────────────────────────────────────
+
+export function compareStamps(a: Stamp, b: Stamp): number {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  return a.site < b.site ? -1 : a.site > b.site ? 1 : 0;
+}
+
+/**
+ * Drawing order: by when each stroke was drawn, or the `z` it was brought
+ * to front or sent back to, ties broken by site and id.
+ */
+export function compareStrokes(a: Stroke, b: Stroke): number {
+  const byStamp = compareStamps(
+    { clock: a.z ?? a.clock ?? 0, site: a.author ?? '' },
+    { clock: b.z ?? b.clock ?? 0, site: b.author ?? '' },
+  );
+  if (byStamp !== 0) return byStamp;
+  return (a.id ?? '') < (b.id ?? '') ? -1 : (a.id ?? '') > (b.id ?? '') ? 1 : 0;
+}
+
+function stampOf(op: CanvasOp): Stamp {
+  return { clock: op.clock, site: op.site };
+}
+
+function visibleStrokes(entries: Record<string, StrokeEntry>): Stroke[] {
+  return Object.values(entries)
+    .filter((entry) => entry.present)
+    .map((entry) => entry.stroke)
+    .sort(compareStrokes);
+}
+
+/**
+ * Gives strokes saved or drawn without an id one, from their position, so
+ * every peer loading the same list names them alike.
+ */
+export function withStrokeIds(strokes: Stroke[]): Stroke[] {
+  return strokes.map((stroke, index) =>
+    stroke.id ? stroke : { ...stroke, id: `s${index}`, author: stroke.author ?? '', clock: stroke.clock ?? 0 }
+  );
+}
+
+/** A document holding `strokes`, which any op newer than the origin overrides. */
+export function createDocument(strokes: Stroke[] = [], clock = 0): CanvasDocument {
+  const entries: Record<string, StrokeEntry> = {};
+  let maxClock = clock;
+  for (const stroke of withStrokeIds(strokes)) {
+    const fieldStamps: Record<string, Stamp> = {};
+    for (const field of Object.keys(stroke)) fieldStamps[field] = ORIGIN;
+    entries[stroke.id!] = { stroke, fieldStamps, present: true, presenceStamp: ORIGIN };
+    maxClock = Math.max(maxClock, stroke.clock ?? 0);
+  }
+  return { entries, strokes: visibleStrokes(entries), clock: maxClock };
+}
+
+/** Sets each field of `changes` that `stamp` is newer for. Returns null if none were. */
+function mergeFields(entry: StrokeEntry | undefined, changes: StrokeChanges, stamp: Stamp): StrokeEntry | null {
+  const stroke = { ...(entry?.stroke ?? { tool: 'pen' }) } as Stroke & Record<string, unknown>;
+  const fieldStamps = { ...entry?.fieldStamps };
+  let changed = !entry;
+
+  for (const [field, value] of Object.entries(changes)) {
+    if (entry && IDENTITY_FIELDS.has(field) && field in entry.stroke) continue;
+    const current = fieldStamps[field];
+    if (current && compareStamps(stamp, current) <= 0) continue;
+    if (value === null) delete stroke[field];
+    else stroke[field] = value;
+    fieldStamps[field] = stamp;
+    changed = true;
+  }
+
+  if (!changed) return null;
+  return {
+    stroke,
+    fieldStamps,
+    present: entry?.present ?? false,
+    presenceStamp: entry?.presenceStamp ?? ORIGIN,
+  };
+}
+
+/**
+ * Merges one op. Returns `doc` itself when the op changes nothing (already
+ * applied, or overridden by newer ones), so callers can skip re-rendering.
+ */
+export function applyOp(doc: CanvasDocument, op: CanvasOp): CanvasDocument {
+  const stamp = stampOf(op);
+  const clock = Math.max(doc.clock, op.clock);
+  const id = op.kind === 'add' ? op.stroke.id : op.id;
+  if (!id) return doc;
+
+  const entry = doc.entries[id];
+  let next: StrokeEntry | null = null;
+
+  switch (op.kind) {
+    case 'add': {
+      // Always an entry: mergeFields only returns null for a known stroke
+      next = (mergeFields(entry, op.stroke, stamp) ?? entry)!;
+      if (compareStamps(stamp, next.presenceStamp) > 0) {
+        next = { ...next, present: true, presenceStamp: stamp };
+      }
+      break;
+    }
+
+    case 'update':
+      next = mergeFields(entry, op.changes, stamp);
+      break;
+
+    case 'delete':
+      if (!entry) {
+        // Deleted before we heard of it: remember, so a late add stays deleted
+        next = { stroke: { tool: 'pen', id }, fieldStamps: {}, present: false, presenceStamp: stamp };
+      } else if (compareStamps(stamp, entry.presenceStamp) > 0) {
+        next = { ...entry, present: false, presenceStamp: stamp };
+      }
+      break;
+  }
+
+  if (!next || next === entry) {
+    return clock === doc.clock ? doc : { ...doc, clock };
+  }
+
+  const entries = { ...doc.entries, [id]: next };
+  const visibilityChanged = next.present || entry?.present;
+  return {
+    entries,
+    strokes: visibilityChanged ? visibleStrokes(entries) : doc.strokes,
+    clock,
+  };
+}
+
+export function applyOps(doc: CanvasDocument, ops: CanvasOp[]): CanvasDocument {
+  return ops.reduce(applyOp, doc);
+}
+
+/** `local` with every field, and whether it exists, taken from `remote` where that is newer. */
+function mergeEntry(local: StrokeEntry | undefined, remote: StrokeEntry): StrokeEntry {
+  if (!local) return remote;
+  const stroke = { ...local.stroke } as Stroke & Record<string, unknown>;
+  const fieldStamps = { ...local.fieldStamps };
+  let changed = false;
+
+  for (const [field, stamp] of Object.entries(remote.fieldStamps)) {
+    const current = fieldStamps[field];
+    if (current && compareStamps(stamp, current) <= 0) continue;
+    // A field an update removed keeps its stamp but has no value
+    const value = (remote.stroke as Stroke & Record<string, unknown>)[field];
+    if (value === undefined) delete stroke[field];
+    else stroke[field] = value;
+    fieldStamps[field] = stamp;
+    changed = true;
+  }
+
+  const newerPresence = compareStamps(remote.presenceStamp, local.presenceStamp) > 0;
+  if (!changed && !newerPresence) return local;
+  return {
+    stroke,
+    fieldStamps,
+    present: newerPresence ? remote.present : local.present,
+    presenceStamp: newerPresence ? remote.presenceStamp : local.presenceStamp,
+  };
+}
+
+/**
+ * Merges another peer's whole document, as sent in `canvas-sync`. Like ops,
+ * it converges whatever order it arrives in and keeps every stamp, so ops
+ * and undo steps made before or since still apply.
+ */
+export function mergeDocument(doc: CanvasDocument, entries: Record<string, StrokeEntry>, clock = 0): CanvasDocument {
+  const merged = { ...doc.entries };
+  let changed = false;
+  for (const [id, remote] of Object.entries(entries)) {
+    const next = mergeEntry(merged[id], remote);
+    if (next === merged[id]) continue;
+    merged[id] = next;
+    changed = true;
+  }
+
+  const maxClock = Math.max(doc.clock, clock);
+  if (!changed) return maxClock === doc.clock ? doc : { ...doc, clock: maxClock };
+  return { entries: merged, strokes: visibleStrokes(merged), clock: maxClock };
+}
+
+/** The fields of `after` that differ from `before`, for an update op. */
+export function strokeChanges(before: Stroke, after: Stroke): StrokeChanges {
+  const changes: Record<string, unknown> = {};
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  for (const field of fields) {
+    const key = field as keyof Stroke;
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) changes[field] = after[key] ?? null;
+  }
+  return changes as StrokeChanges;
+}
+
+// ── Undo ─────────────────────────────────────────────────────────────────────
+
+function opId(op: CanvasOp): string {
+  return op.kind === 'add' ? op.stroke.id! : op.id;
+}
+
+/** The op reverting `op`, which turned `before` into `after`, or null if it changed nothing. */
+function invertOp(op: CanvasOp, before: StrokeEntry | undefined, after: StrokeEntry): InverseOp | null {
+  const id = opId(op);
+  const { clock, site } = op;
+
+  if (op.kind !== 'update') {
+    if (after.present === (before?.present ?? false)) return null;
+    if (after.present) {
+      return { kind: 'delete', id, clock, site, prior: before ? { [PRESENCE]: before.presenceStamp } : {} };
+    }
+    // Re-adding the stroke sets its fields too
+    const prior = { ...before!.fieldStamps, [PRESENCE]: before!.presenceStamp };
+    return { kind: 'add', stroke: before!.stroke, clock, site, prior };
+  }
+
+  // Only the fields the update won
+  const changes: Record<string, unknown> = {};
+  const prior: Record<string, Stamp> = {};
+  for (const field of Object.keys(op.changes)) {
+    if (after.fieldStamps[field] === before?.fieldStamps[field]) continue;
+    changes[field] = (before?.stroke as Record<string, unknown> | undefined)?.[field] ?? null;
+    if (before?.fieldStamps[field]) prior[field] = before.fieldStamps[field];
+  }
+  return Object.keys(changes).length > 0 ? { kind: 'update', id, changes, clock, site, prior } : null;
+}
+
+/**
+ * Applies ops made here. Also returns the ops reverting them, newest first,
+ * each stamped like the op it reverts (see undoOps).
+ */
+export function applyLocalOps(doc: CanvasDocument, ops: CanvasOp[]): { doc: CanvasDocument; inverse: InverseOp[] } {
+  const inverse: InverseOp[] = [];
+  let current = doc;
+  for (const op of ops) {
+    const before = current.entries[opId(op)];
+    current = applyOp(current, op);
+    const after = current.entries[opId(op)];
+    const revert = after && after !== before ? invertOp(op, before, after) : null;
+    if (revert) inverse.unshift(revert);
+  }
+  return { doc: current, inverse };
+}
+
+function stampKey(id: string, field: string): string {
+  return `${id}\n${field}`;
+}
+
+function pick<T>(record: Record<string, T>, fields: string[]): Record<string, T> {
+  return Object.fromEntries(Object.entries(record).filter(([field]) => fields.includes(field)));
+}
+
+interface UndoPlan {
+  ops: CanvasOp[];
+  /** Per field the ops set, the stamp it had before the change and the one it gets. */
+  restamps: Map<string, { from: Stamp; to: Stamp }>;
+}
+
+function planUndo(doc: CanvasDocument, inverse: InverseOp[], site: string): UndoPlan {
+  const ops: CanvasOp[] = [];
+  const restamps = new Map<string, { from: Stamp; to: Stamp }>();
+  let clock = doc.clock;
+  // Stamps fields are back at once the ops before have reverted them
+  const reverted = new Map<string, Stamp | undefined>();
+
+  for (const op of inverse) {
+    const id = opId(op);
+    const entry = doc.entries[id];
+    if (!entry) continue;
+    const stamp = stampOf(op);
+    const inEffect = (field: string): boolean => {
+      const key = stampKey(id, field);
+      const current = reverted.has(key)
+        ? reverted.get(key)
+        : field === PRESENCE ? entry.presenceStamp : entry.fieldStamps[field];
+      return current !== undefined && compareStamps(current, stamp) === 0;
+    };
+
+    const fields = op.kind === 'update'
+      ? Object.keys(op.changes).filter(inEffect)
+      : [PRESENCE].filter(inEffect);
+    if (fields.length === 0) continue;
+    if (op.kind === 'add') fields.push(...Object.keys(op.stroke));
+
+    const to = { clock: ++clock, site };
+    if (op.kind === 'update') ops.push({ kind: 'update', id, changes: pick(op.changes, fields) as StrokeChanges, ...to });
+    else if (op.kind === 'add') ops.push({ kind: 'add', stroke: op.stroke, ...to });
+    else ops.push({ kind: 'delete', id, ...to });
+
+    for (const field of fields) {
+      const key = stampKey(id, field);
+      reverted.set(key, op.prior[field]);
+      if (op.prior[field]) restamps.set(key, { from: op.prior[field], to });
+      else restamps.delete(key);
+    }
+  }
+
+  return { ops, restamps };
+}
+
+/**
+ * The ops to apply to undo a change, given the ops reverting it: those parts
+ * no one has changed since, stamped from `doc.clock + 1` on at `site`.
+ */
+export function undoOps(doc: CanvasDocument, inverse: InverseOp[], site: string): CanvasOp[] {
+  return planUndo(doc, inverse, site).ops;
+}
+
+/**
+ * Undoing `inverse` on `doc` puts fields back as they were, but under new
+ * stamps. Re-stamps the steps in `stack` expecting the old ones, so they can
+ * still be undone after it.
+ */
+export function restampHistory(
+  stack: InverseOp[][],
+  doc: CanvasDocument,
+  inverse: InverseOp[],
+  site: string,
+): InverseOp[][] {
+  const { restamps } = planUndo(doc, inverse, site);
+  if (restamps.size === 0) return stack;
+
+  const restamped = (op: InverseOp, field: string) => {
+    const restamp = restamps.get(stampKey(opId(op), field));
+    return restamp !== undefined && compareStamps(restamp.from, stampOf(op)) === 0 ? restamp.to : null;
+  };
+  return stack.map((ops) => ops.flatMap((op): InverseOp[] => {
+    if (op.kind !== 'update') {
+      const to = restamped(op, PRESENCE);
+      return [to ? { ...op, ...to } : op];
+    }
+
+    // Split the fields by the stamp they now expect
+    const byStamp = new Map<string, { stamp: Stamp; fields: string[] }>();
+    for (const field of Object.keys(op.changes)) {
+      const stamp = restamped(op, field) ?? stampOf(op);
+      const key = `${stamp.clock}@${stamp.site}`;
+      byStamp.set(key, { stamp, fields: [...(byStamp.get(key)?.fields ?? []), field] });
+    }
+    if (byStamp.size === 1 && !restamped(op, Object.keys(op.changes)[0])) return [op];
+    return [...byStamp.values()].map(({ stamp, fields }) => ({
+      ...op,
+      changes: pick(op.changes, fields) as StrokeChanges,
+      prior: pick(op.prior, fields),
+      ...stamp,
+    }));
+  }));
+}
+
+/**
+ * Folds the ops reverting a change into those reverting the change before it,
+ * so both undo as one step (e.g. every move of one drag). A repeated update
+ * of the same fields keeps the older values under the newer stamp.
+ */
+export function composeInverse(older: InverseOp[], newer: InverseOp[]): InverseOp[] {
+  const composed = [...older];
+  const fresh: InverseOp[] = [];
+  const sameFields = (a: StrokeChanges, b: StrokeChanges) =>
+    Object.keys(a).sort().join() === Object.keys(b).sort().join();
+
+  for (const op of newer) {
+    const index = op.kind === 'update'
+      ? composed.findIndex((o) => o.kind === 'update' && o.id === op.id && sameFields(o.changes, op.changes))
+      : -1;
+    if (index === -1) fresh.push(op);
+    else composed[index] = { ...composed[index], clock: op.clock, site: op.site };
+  }
+
+  return [...fresh, ...composed];
+}
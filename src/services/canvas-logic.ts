@@ -2,8 +2,8 @@
  * Canvas Logic Service
  *
  * Pure, framework-agnostic canvas helpers extracted from app.js.
- * Covers coordinate transforms, drawing helpers, shape hit-testing,
- * undo/redo history management, and stroke filtering.
+ * Covers coordinate transforms, drawing helpers, shape outlines,
+ * hit-testing and stroke filtering. Undo/redo lives in canvas-document.ts.
  */
 
 // ── Types ───────────────────────────────────────────────────────────────────
@@ -23,7 +23,23 @@ export interface TouchPoint {
   clientY: number;
 }
 
-export type CanvasTool = 'pen' | 'line' | 'rectangle' | 'circle' | 'eraser' | 'text' | 'select' | 'pan';
+/** Architecture primitives, drawn corner to corner like rectangles. */
+export const SYSTEM_SHAPES = [
+  'service',
+  'database',
+  'queue',
+  'cache',
+  'load-balancer',
+  'client',
+  'cloud',
+  'group',
+] as const;
+
+export type SystemShape = typeof SYSTEM_SHAPES[number];
+
+export type CanvasTool =
+  | 'pen' | 'line' | 'arrow' | 'rectangle' | 'circle' | 'eraser' | 'text' | 'select' | 'pan'
+  | SystemShape;
 
 export interface Stroke {
   tool: CanvasTool | string;
@@ -37,14 +53,38 @@ export interface Stroke {
   text?: string;
   textColor?: string;
   fontSize?: number;
+  /** Unique across peers; set when the stroke is added (see canvas-document.ts). */
+  id?: string;
+  /** Site id of the peer that drew it. */
+  author?: string;
+  /** Lamport time it was drawn at, which orders strokes the same everywhere. */
+  clock?: number;
+  /** Id of the shape an arrow starts at; the arrow's start then follows it. */
+  from?: string;
+  /** Id of the shape an arrow ends at. */
+  to?: string;
+  /**
+   * Turn about the centre of its bounds, in radians. Shapes and text only:
+   * pen strokes, lines and arrows are rotated point by point.
+   */
+  rotation?: number;
+  /** Strokes sharing a group id are selected and moved as one. */
+  groupId?: string;
+  /** Stacking order once brought to front or sent to back; `clock` until then. */
+  z?: number;
 }
 
 // ── Constants ────────────────────────────────────────────────────────────────
 
 export const MIN_SCALE = 0.25;
 export const MAX_SCALE = 4;
-export const MAX_HISTORY_SIZE = 10;
+/** Undo steps kept per participant; each is a few ops, not a canvas copy. */
+export const MAX_HISTORY_SIZE = 500;
 export const DEFAULT_FONT_SIZE = 16;
+/** Length of an arrowhead's sides, in canvas units. */
+export const ARROWHEAD_SIZE = 12;
+/** Height of the title band along the top of a group. */
+export const GROUP_HEADER_HEIGHT = 28;
 
 // ── Coordinate Transform Functions ──────────────────────────────────────────
 
@@ -160,6 +200,11 @@ export function filterStrokesAfterErase(
   eraseRadius: number
 ): Stroke[] {
   return strokes.filter(stroke => {
+    if (stroke.rotation) {
+      const local = toStrokeSpace(stroke, x, y);
+      return filterStrokesAfterErase([unrotated(stroke)], local.x, local.y, eraseRadius).length > 0;
+    }
+
     if (stroke.tool === 'pen' && stroke.points) {
       const pts = stroke.points;
       // Check each segment between consecutive points
@@ -212,11 +257,15 @@ export function filterStrokesAfterErase(
       return Math.min(topDist, bottomDist, leftDist, rightDist) >= eraseRadius;
     }
 
-    if (stroke.tool === 'line' && stroke.start && stroke.end) {
+    if ((stroke.tool === 'line' || stroke.tool === 'arrow') && stroke.start && stroke.end) {
       const dist = pointToSegmentDist(x, y, stroke.start.x, stroke.start.y, stroke.end.x, stroke.end.y);
       return dist >= eraseRadius;
     }
 
+    if (isSystemShape(stroke.tool) && stroke.start && stroke.end) {
+      return !isPointInShape(stroke, x, y, eraseRadius);
+    }
+
     // Unknown stroke type — don't erase
     return true;
   });
@@ -226,6 +275,12 @@ export function findShapeAtPosition(strokes: Stroke[], x: number, y: number): nu
   for (let i = strokes.length - 1; i >= 0; i--) {
     const stroke = strokes[i];
 
+    if (stroke.rotation) {
+      const local = toStrokeSpace(stroke, x, y);
+      if (findShapeAtPosition([unrotated(stroke)], local.x, local.y) !== null) return i;
+      continue;
+    }
+
     if (stroke.tool === 'rectangle' && stroke.start && stroke.end) {
       const minX = Math.min(stroke.start.x, stroke.end.x);
       const maxX = Math.max(stroke.start.x, stroke.end.x);
@@ -246,6 +301,8 @@ export function findShapeAtPosition(strokes: Stroke[], x: number, y: number): nu
       if (distance <= radius) {
         return i;
       }
+    } else if (isSystemShape(stroke.tool) && stroke.start && stroke.end) {
+      if (isPointInShape(stroke, x, y)) return i;
     }
   }
   return null;
@@ -259,6 +316,11 @@ export function getShapeCenter(stroke: Stroke): Point {
     };
   } else if (stroke.tool === 'circle' && stroke.start) {
     return { x: stroke.start.x, y: stroke.start.y };
+  } else if (isSystemShape(stroke.tool) && stroke.start && stroke.end) {
+    return {
+      x: (stroke.start.x + stroke.end.x) / 2,
+      y: (stroke.start.y + stroke.end.y) / 2,
+    };
   }
   return stroke.position || { x: 0, y: 0 };
 }
@@ -327,6 +389,19 @@ export function getStrokeBounds(stroke: Stroke): StrokeBounds {
   return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
 }
 
+/** The box around every stroke of a diagram, as drawn. */
+export function getDiagramBounds(strokes: Stroke[]): StrokeBounds {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const stroke of strokes) {
+    const b = getOuterBounds(stroke);
+    minX = Math.min(minX, b.minX);
+    minY = Math.min(minY, b.minY);
+    maxX = Math.max(maxX, b.maxX);
+    maxY = Math.max(maxY, b.maxY);
+  }
+  return { minX, minY, maxX, maxY };
+}
+
 /**
  * Universal hit-test for all stroke types.
  * Returns the index of the topmost stroke at (x,y), or null.
@@ -337,6 +412,12 @@ export function findStrokeAtPosition(strokes: Stroke[], x: number, y: number): n
   for (let i = strokes.length - 1; i >= 0; i--) {
     const stroke = strokes[i];
 
+    if (stroke.rotation) {
+      const local = toStrokeSpace(stroke, x, y);
+      if (findStrokeAtPosition([unrotated(stroke)], local.x, local.y) !== null) return i;
+      continue;
+    }
+
     if (stroke.tool === 'rectangle' && stroke.start && stroke.end) {
       const minX = Math.min(stroke.start.x, stroke.end.x);
       const maxX = Math.max(stroke.start.x, stroke.end.x);
@@ -349,6 +430,8 @@ export function findStrokeAtPosition(strokes: Stroke[], x: number, y: number): n
       );
       const dist = Math.sqrt((x - stroke.start.x) ** 2 + (y - stroke.start.y) ** 2);
       if (dist <= radius) return i;
+    } else if (isSystemShape(stroke.tool) && stroke.start && stroke.end) {
+      if (isPointInShape(stroke, x, y)) return i;
     } else if (stroke.tool === 'text' && stroke.text && stroke.position) {
       const bounds = getStrokeBounds(stroke);
       if (x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY) return i;
@@ -356,7 +439,7 @@ export function findStrokeAtPosition(strokes: Stroke[], x: number, y: number): n
       for (const p of stroke.points) {
         if (Math.abs(x - p.x) <= HIT_TOLERANCE && Math.abs(y - p.y) <= HIT_TOLERANCE) return i;
       }
-    } else if (stroke.tool === 'line' && stroke.start && stroke.end) {
+    } else if ((stroke.tool === 'line' || stroke.tool === 'arrow') && stroke.start && stroke.end) {
       // Point-to-line-segment distance
       const dx = stroke.end.x - stroke.start.x;
       const dy = stroke.end.y - stroke.start.y;
@@ -398,6 +481,446 @@ export function translateStroke(stroke: Stroke, dx: number, dy: number): Stroke
   return result;
 }
 
+// ── Rotation ────────────────────────────────────────────────────────────────
+
+export function rotatePoint(point: Point, center: Point, angle: number): Point {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+}
+
+/** Pen strokes, lines and arrows turn by moving their points; the rest by `rotation`. */
+function rotatesByPoints(stroke: Stroke): boolean {
+  return stroke.tool === 'pen' || stroke.tool === 'line' || stroke.tool === 'arrow';
+}
+
+function unrotated(stroke: Stroke): Stroke {
+  const { rotation: _, ...rest } = stroke;
+  return rest;
+}
+
+/** (x, y) in the stroke's own frame, before its rotation. */
+function toStrokeSpace(stroke: Stroke, x: number, y: number): Point {
+  if (!stroke.rotation) return { x, y };
+  return rotatePoint({ x, y }, boundsCenter(stroke), -stroke.rotation);
+}
+
+/** Angle in (-π, π]. */
+function normalizeAngle(angle: number): number {
+  const turned = angle % (2 * Math.PI);
+  if (turned > Math.PI) return turned - 2 * Math.PI;
+  if (turned <= -Math.PI) return turned + 2 * Math.PI;
+  return turned;
+}
+
+/** The axis-aligned box around a stroke as drawn, its rotation included. */
+export function getOuterBounds(stroke: Stroke): StrokeBounds {
+  const bounds = getStrokeBounds(stroke);
+  if (!stroke.rotation) return bounds;
+
+  const center = boundsCenter(stroke);
+  const corners = [
+    { x: bounds.minX, y: bounds.minY },
+    { x: bounds.maxX, y: bounds.minY },
+    { x: bounds.maxX, y: bounds.maxY },
+    { x: bounds.minX, y: bounds.maxY },
+  ].map((corner) => rotatePoint(corner, center, stroke.rotation!));
+  return {
+    minX: Math.min(...corners.map((p) => p.x)),
+    minY: Math.min(...corners.map((p) => p.y)),
+    maxX: Math.max(...corners.map((p) => p.x)),
+    maxY: Math.max(...corners.map((p) => p.y)),
+  };
+}
+
+/** Returns a new stroke turned by `angle` radians about `pivot`. */
+export function rotateStroke(stroke: Stroke, pivot: Point, angle: number): Stroke {
+  if (rotatesByPoints(stroke)) {
+    const result = { ...stroke };
+    if (result.start) result.start = rotatePoint(result.start, pivot, angle);
+    if (result.end) result.end = rotatePoint(result.end, pivot, angle);
+    if (result.points) result.points = result.points.map((p) => rotatePoint(p, pivot, angle));
+    return result;
+  }
+
+  const center = boundsCenter(stroke);
+  const moved = rotatePoint(center, pivot, angle);
+  const result = translateStroke(stroke, moved.x - center.x, moved.y - center.y);
+  const rotation = normalizeAngle((stroke.rotation ?? 0) + angle);
+  if (Math.abs(rotation) < 1e-9) return unrotated(result);
+  return { ...result, rotation };
+}
+
+// ── System-Design Shapes ────────────────────────────────────────────────────
+
+/** One step of a shape's outline; a `move` starts a new subpath. */
+export type PathSegment =
+  | { type: 'move'; to: Point }
+  | { type: 'line'; to: Point }
+  | { type: 'quad'; control: Point; to: Point }
+  | { type: 'curve'; control1: Point; control2: Point; to: Point }
+  | { type: 'close' };
+
+// Control-point distance that makes four cubic curves an ellipse
+const KAPPA = 0.5523;
+
+// Groups are picked by their edges and title band, not their inside, so
+// the shapes they contain stay clickable
+const GROUP_EDGE_TOLERANCE = 6;
+
+export function isSystemShape(tool: string): tool is SystemShape {
+  return (SYSTEM_SHAPES as readonly string[]).includes(tool);
+}
+
+interface Box {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+function shapeBox(stroke: Stroke): Box {
+  const { minX, minY, maxX, maxY } = getStrokeBounds(stroke);
+  return { x: minX, y: minY, w: maxX - minX, h: maxY - minY };
+}
+
+function ellipsePath(cx: number, cy: number, rx: number, ry: number): PathSegment[] {
+  const ox = rx * KAPPA;
+  const oy = ry * KAPPA;
+  return [
+    { type: 'move', to: { x: cx + rx, y: cy } },
+    { type: 'curve', control1: { x: cx + rx, y: cy + oy }, control2: { x: cx + ox, y: cy + ry }, to: { x: cx, y: cy + ry } },
+    { type: 'curve', control1: { x: cx - ox, y: cy + ry }, control2: { x: cx - rx, y: cy + oy }, to: { x: cx - rx, y: cy } },
+    { type: 'curve', control1: { x: cx - rx, y: cy - oy }, control2: { x: cx - ox, y: cy - ry }, to: { x: cx, y: cy - ry } },
+    { type: 'curve', control1: { x: cx + ox, y: cy - ry }, control2: { x: cx + rx, y: cy - oy }, to: { x: cx + rx, y: cy } },
+    { type: 'close' },
+  ];
+}
+
+function rectPath({ x, y, w, h }: Box): PathSegment[] {
+  return [
+    { type: 'move', to: { x, y } },
+    { type: 'line', to: { x: x + w, y } },
+    { type: 'line', to: { x: x + w, y: y + h } },
+    { type: 'line', to: { x, y: y + h } },
+    { type: 'close' },
+  ];
+}
+
+function roundedRectPath({ x, y, w, h }: Box, radius: number): PathSegment[] {
+  const r = Math.min(radius, w / 2, h / 2);
+  return [
+    { type: 'move', to: { x: x + r, y } },
+    { type: 'line', to: { x: x + w - r, y } },
+    { type: 'quad', control: { x: x + w, y }, to: { x: x + w, y: y + r } },
+    { type: 'line', to: { x: x + w, y: y + h - r } },
+    { type: 'quad', control: { x: x + w, y: y + h }, to: { x: x + w - r, y: y + h } },
+    { type: 'line', to: { x: x + r, y: y + h } },
+    { type: 'quad', control: { x, y: y + h }, to: { x, y: y + h - r } },
+    { type: 'line', to: { x, y: y + r } },
+    { type: 'quad', control: { x, y }, to: { x: x + r, y } },
+    { type: 'close' },
+  ];
+}
+
+function linePath(from: Point, to: Point): PathSegment[] {
+  return [{ type: 'move', to: from }, { type: 'line', to }];
+}
+
+/** Height of a database's top ellipse. */
+function cylinderCapHeight({ w, h }: Box): number {
+  return Math.min(h / 6, w / 4, 14);
+}
+
+/** Width of each slot at the tail of a queue. */
+function queueSlotWidth({ w, h }: Box): number {
+  return Math.min(w / 8, h / 2);
+}
+
+/** Inset of a client device's speaker and home bars. */
+function deviceBarInset({ h }: Box): number {
+  return Math.min(h / 8, 10);
+}
+
+// A cloud's bumps bulge this much past the ellipse they sit on
+const CLOUD_BUMPS = 8;
+const CLOUD_BULGE = 1.3;
+// How far a bump's peak reaches out, relative to that ellipse
+const CLOUD_REACH = 0.5 * Math.cos(Math.PI / CLOUD_BUMPS) + 0.5 * CLOUD_BULGE;
+
+function cloudPath({ x, y, w, h }: Box): PathSegment[] {
+  const cx = x + w / 2;
+  const cy = y + h / 2;
+  const rx = w / 2 / CLOUD_REACH;
+  const ry = h / 2 / CLOUD_REACH;
+  const at = (angle: number, reach = 1): Point => ({
+    x: cx + rx * reach * Math.cos(angle),
+    y: cy + ry * reach * Math.sin(angle),
+  });
+
+  const path: PathSegment[] = [{ type: 'move', to: at(0) }];
+  for (let i = 0; i < CLOUD_BUMPS; i++) {
+    const from = (2 * Math.PI * i) / CLOUD_BUMPS;
+    const to = (2 * Math.PI * (i + 1)) / CLOUD_BUMPS;
+    path.push({ type: 'quad', control: at((from + to) / 2, CLOUD_BULGE), to: at(to) });
+  }
+  path.push({ type: 'close' });
+  return path;
+}
+
+/** A lightning bolt in the top-right corner: the cache's mark. */
+function boltPath({ x, y, w, h }: Box): PathSegment[] {
+  const size = Math.min(14, w / 4, h / 3);
+  const left = x + w - size - 4;
+  const top = y + 4;
+  const points: Point[] = [
+    { x: left + 0.6 * size, y: top },
+    { x: left + 0.1 * size, y: top + 0.55 * size },
+    { x: left + 0.45 * size, y: top + 0.55 * size },
+    { x: left + 0.3 * size, y: top + size },
+    { x: left + 0.9 * size, y: top + 0.4 * size },
+    { x: left + 0.55 * size, y: top + 0.4 * size },
+  ];
+  return [
+    { type: 'move', to: points[0] },
+    ...points.slice(1).map((to): PathSegment => ({ type: 'line', to })),
+    { type: 'close' },
+  ];
+}
+
+/**
+ * The outline of a system-design shape, fitted to its start/end corners, as
+ * path segments both the canvas and SVG can trace. Empty for other strokes.
+ */
+export function getShapePath(stroke: Stroke): PathSegment[] {
+  if (!isSystemShape(stroke.tool) || !stroke.start || !stroke.end) return [];
+  const box = shapeBox(stroke);
+  const { x, y, w, h } = box;
+  const cx = x + w / 2;
+  const cy = y + h / 2;
+
+  switch (stroke.tool) {
+    case 'service':
+      return roundedRectPath(box, 10);
+
+    case 'database': {
+      // A cylinder: the whole top ellipse, the sides and the front of the bottom
+      const cap = cylinderCapHeight(box);
+      const ox = (w / 2) * KAPPA;
+      const oy = cap * KAPPA;
+      const bottom = y + h - cap;
+      return [
+        ...ellipsePath(cx, y + cap, w / 2, cap),
+        { type: 'move', to: { x, y: y + cap } },
+        { type: 'line', to: { x, y: bottom } },
+        { type: 'curve', control1: { x, y: bottom + oy }, control2: { x: cx - ox, y: y + h }, to: { x: cx, y: y + h } },
+        { type: 'curve', control1: { x: cx + ox, y: y + h }, control2: { x: x + w, y: bottom + oy }, to: { x: x + w, y: bottom } },
+        { type: 'line', to: { x: x + w, y: y + cap } },
+      ];
+    }
+
+    case 'queue': {
+      const slot = queueSlotWidth(box);
+      const path = rectPath(box);
+      for (let i = 1; i <= 3; i++) {
+        path.push(...linePath({ x: x + w - slot * i, y }, { x: x + w - slot * i, y: y + h }));
+      }
+      return path;
+    }
+
+    case 'cache':
+      return [...rectPath(box), ...boltPath(box)];
+
+    case 'load-balancer':
+      return [
+        { type: 'move', to: { x: cx, y } },
+        { type: 'line', to: { x: x + w, y: cy } },
+        { type: 'line', to: { x: cx, y: y + h } },
+        { type: 'line', to: { x, y: cy } },
+        { type: 'close' },
+      ];
+
+    case 'client': {
+      // A phone: the body, with a speaker bar at the top and a home bar below
+      const inset = deviceBarInset(box);
+      const bar = Math.min(w * 0.15, 16);
+      return [
+        ...roundedRectPath(box, 8),
+        ...linePath({ x: cx - bar, y: y + inset }, { x: cx + bar, y: y + inset }),
+        ...linePath({ x: cx - bar, y: y + h - inset }, { x: cx + bar, y: y + h - inset }),
+      ];
+    }
+
+    case 'cloud':
+      return cloudPath(box);
+
+    case 'group': {
+      const header = Math.min(GROUP_HEADER_HEIGHT, h);
+      return [...rectPath(box), ...linePath({ x, y: y + header }, { x: x + w, y: y + header })];
+    }
+  }
+}
+
+/**
+ * Whether (x, y) is on a system-design shape, within `tolerance`. Diamonds
+ * and clouds are tested by their outline, other shapes by their box; a group
+ * only by its edges and title band.
+ */
+export function isPointInShape(stroke: Stroke, x: number, y: number, tolerance = 0): boolean {
+  if (!stroke.start || !stroke.end) return false;
+  const box = shapeBox(stroke);
+  const left = box.x - tolerance;
+  const top = box.y - tolerance;
+  const right = box.x + box.w + tolerance;
+  const bottom = box.y + box.h + tolerance;
+  if (x < left || x > right || y < top || y > bottom) return false;
+
+  const dx = Math.abs(x - (box.x + box.w / 2));
+  const dy = Math.abs(y - (box.y + box.h / 2));
+  const rx = box.w / 2 + tolerance;
+  const ry = box.h / 2 + tolerance;
+
+  switch (stroke.tool) {
+    case 'load-balancer':
+      return dx / rx + dy / ry <= 1;
+
+    case 'cloud':
+      return (dx / rx) ** 2 + (dy / ry) ** 2 <= 1;
+
+    case 'group': {
+      const edge = Math.max(tolerance, GROUP_EDGE_TOLERANCE);
+      const inHeader = y <= box.y + Math.min(GROUP_HEADER_HEIGHT, box.h) + tolerance;
+      const onEdge = x - box.x <= edge || box.x + box.w - x <= edge || box.y + box.h - y <= edge;
+      return inHeader || onEdge;
+    }
+
+    default:
+      return true;
+  }
+}
+
+/**
+ * Where a shape's label goes: the part of it free for text, which the label
+ * is centred in. The whole bounds for rectangles, circles and most shapes.
+ */
+export function getLabelBounds(stroke: Stroke): StrokeBounds {
+  const bounds = getStrokeBounds(stroke);
+  if (!isSystemShape(stroke.tool) || !stroke.start || !stroke.end) return bounds;
+  const box = shapeBox(stroke);
+
+  switch (stroke.tool) {
+    case 'database':
+      return { ...bounds, minY: bounds.minY + cylinderCapHeight(box) * 2 };
+    case 'queue':
+      return { ...bounds, maxX: bounds.maxX - queueSlotWidth(box) * 3 };
+    case 'client':
+      return { ...bounds, minY: bounds.minY + deviceBarInset(box), maxY: bounds.maxY - deviceBarInset(box) };
+    case 'cloud': {
+      const insetX = box.w * 0.15;
+      const insetY = box.h * 0.15;
+      return { minX: bounds.minX + insetX, minY: bounds.minY + insetY, maxX: bounds.maxX - insetX, maxY: bounds.maxY - insetY };
+    }
+    case 'group':
+      return { ...bounds, maxY: bounds.minY + Math.min(GROUP_HEADER_HEIGHT, box.h) };
+    default:
+      return bounds;
+  }
+}
+
+// ── Connectors ──────────────────────────────────────────────────────────────
+
+/**
+ * The point on `shape` an arrow attaches to: the middle of the side facing
+ * `toward`, so arrows leave and enter shapes square-on.
+ */
+export function getAnchorPoint(shape: Stroke, toward: Point): Point {
+  if (shape.rotation) {
+    const center = boundsCenter(shape);
+    const anchor = getAnchorPoint(unrotated(shape), rotatePoint(toward, center, -shape.rotation));
+    return rotatePoint(anchor, center, shape.rotation);
+  }
+
+  const { minX, minY, maxX, maxY } = getStrokeBounds(shape);
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+  const dx = toward.x - cx;
+  const dy = toward.y - cy;
+
+  // Compare the direction's slope with the diagonal's
+  if (Math.abs(dx) * (maxY - minY) >= Math.abs(dy) * (maxX - minX)) {
+    return { x: dx >= 0 ? maxX : minX, y: cy };
+  }
+  return { x: cx, y: dy >= 0 ? maxY : minY };
+}
+
+function boundsCenter(stroke: Stroke): Point {
+  const { minX, minY, maxX, maxY } = getStrokeBounds(stroke);
+  return { x: (minX + maxX) / 2, y: (minY + maxY) / 2 };
+}
+
+/**
+ * Where an arrow's ends are now: at an anchor of each shape it is bound to
+ * that is still on the canvas, and its own `start`/`end` otherwise.
+ */
+export function getConnectorEnds(arrow: Stroke, shapesById: Map<string, Stroke>): { start: Point; end: Point } {
+  const fromShape = arrow.from ? shapesById.get(arrow.from) : undefined;
+  const toShape = arrow.to ? shapesById.get(arrow.to) : undefined;
+  let start = arrow.start ?? { x: 0, y: 0 };
+  let end = arrow.end ?? start;
+
+  // Aim each bound end at the other end's shape, or its free point
+  const fromTarget = toShape ? boundsCenter(toShape) : end;
+  const toTarget = fromShape ? boundsCenter(fromShape) : start;
+  if (fromShape) start = getAnchorPoint(fromShape, fromTarget);
+  if (toShape) end = getAnchorPoint(toShape, toTarget);
+  return { start, end };
+}
+
+// Last routing of each arrow, so unchanged arrows keep their identity
+const routedArrows = new WeakMap<Stroke, Stroke>();
+
+function samePoint(a: Point | undefined, b: Point): boolean {
+  return a !== undefined && a.x === b.x && a.y === b.y;
+}
+
+/**
+ * `strokes` with each bound arrow's start and end moved to the shapes it
+ * connects, so arrows follow shapes wherever they are moved, on every peer.
+ * Strokes that don't change are returned as they are, and so is the array
+ * if none do.
+ */
+export function routeConnectors(strokes: Stroke[]): Stroke[] {
+  if (!strokes.some((s) => s.tool === 'arrow' && (s.from || s.to))) return strokes;
+
+  const byId = new Map(strokes.filter((s) => s.id).map((s) => [s.id!, s]));
+  let changed = false;
+  const routed = strokes.map((stroke) => {
+    if (stroke.tool !== 'arrow' || (!stroke.from && !stroke.to)) return stroke;
+    const { start, end } = getConnectorEnds(stroke, byId);
+    if (samePoint(stroke.start, start) && samePoint(stroke.end, end)) return stroke;
+
+    changed = true;
+    const previous = routedArrows.get(stroke);
+    if (previous && samePoint(previous.start, start) && samePoint(previous.end, end)) return previous;
+    const next = { ...stroke, start, end };
+    routedArrows.set(stroke, next);
+    return next;
+  });
+  return changed ? routed : strokes;
+}
+
+/** The two back corners of an arrowhead pointing at `end`, from `start`. */
+export function getArrowheadPoints(start: Point, end: Point, size: number = ARROWHEAD_SIZE): [Point, Point] {
+  const angle = Math.atan2(end.y - start.y, end.x - start.x);
+  const spread = Math.PI / 7;
+  return [
+    { x: end.x - size * Math.cos(angle - spread), y: end.y - size * Math.sin(angle - spread) },
+    { x: end.x - size * Math.cos(angle + spread), y: end.y - size * Math.sin(angle + spread) },
+  ];
+}
+
 // ── Text Hit-Testing ────────────────────────────────────────────────────────
 
 /**
@@ -415,6 +938,12 @@ export function findTextAtPosition(
     const stroke = strokes[i];
     if (stroke.tool !== 'text' || !stroke.text || !stroke.position) continue;
 
+    if (stroke.rotation) {
+      const local = toStrokeSpace(stroke, x, y);
+      if (findTextAtPosition([unrotated(stroke)], local.x, local.y, defaultFontSize) !== null) return i;
+      continue;
+    }
+
     const fontSize = stroke.fontSize || defaultFontSize;
     const lines = stroke.text.split('\n');
     const lineHeight = fontSize * 1.3;
@@ -435,61 +964,6 @@ export function findTextAtPosition(
   return null;
 }
 
-// ── Undo / Redo History ─────────────────────────────────────────────────────
-
-export interface UndoRedoResult {
-  strokes: Stroke[];
-}
-
-/**
- * Manages an undo/redo history stack for drawing strokes.
- * Pure state management — no DOM or canvas rendering side-effects.
- */
-export class CanvasHistoryManager {
-  private maxSize: number;
-  undoStack: Stroke[][];
-  redoStack: Stroke[][];
-
-  constructor(maxSize: number = MAX_HISTORY_SIZE) {
-    this.maxSize = maxSize;
-    this.undoStack = [];
-    this.redoStack = [];
-  }
-
-  save(currentStrokes: Stroke[]): void {
-    this.undoStack.push(JSON.parse(JSON.stringify(currentStrokes)));
-    if (this.undoStack.length > this.maxSize) {
-      this.undoStack.shift();
-    }
-    this.redoStack = [];
-  }
-
-  undo(currentStrokes: Stroke[]): UndoRedoResult | null {
-    if (this.undoStack.length === 0) return null;
-    this.redoStack.push(JSON.parse(JSON.stringify(currentStrokes)));
-    return { strokes: this.undoStack.pop()! };
-  }
-
-  redo(currentStrokes: Stroke[]): UndoRedoResult | null {
-    if (this.redoStack.length === 0) return null;
-    this.undoStack.push(JSON.parse(JSON.stringify(currentStrokes)));
-    return { strokes: this.redoStack.pop()! };
-  }
-
-  get canUndo(): boolean {
-    return this.undoStack.length > 0;
-  }
-
-  get canRedo(): boolean {
-    return this.redoStack.length > 0;
-  }
-
-  clear(): void {
-    this.undoStack = [];
-    this.redoStack = [];
-  }
-}
-
 // ── Export Helpers ───────────────────────────────────────────────────────────
 
 export function containsNonASCII(text: string): boolean {
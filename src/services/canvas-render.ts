@@ -0,0 +1,213 @@
+/**
+ * Canvas Render Service
+ *
+ * Draws strokes onto a 2D canvas context. The diagram canvas renders with it
+ * on screen, and the PDF export renders the whole diagram off screen, so the
+ * two always look alike.
+ */
+
+import {
+  DEFAULT_FONT_SIZE,
+  getArrowheadPoints,
+  getDiagramBounds,
+  getLabelBounds,
+  getShapePath,
+  getStrokeBounds,
+  isSystemShape,
+} from './canvas-logic';
+import type { PathSegment, Point, Stroke } from './canvas-logic';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+const DIAGRAM_PADDING = 20;
+/** Longest side of an exported diagram image, in pixels. */
+const MAX_IMAGE_SIZE = 2400;
+
+// ── Shapes ───────────────────────────────────────────────────────────────────
+
+/** A line from `start` to `end` with a filled arrowhead at `end`. */
+export function drawArrow(ctx: CanvasRenderingContext2D, start: Point, end: Point): void {
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.lineTo(end.x, end.y);
+  ctx.stroke();
+
+  const [left, right] = getArrowheadPoints(start, end);
+  ctx.beginPath();
+  ctx.moveTo(end.x, end.y);
+  ctx.lineTo(left.x, left.y);
+  ctx.lineTo(right.x, right.y);
+  ctx.closePath();
+  ctx.fillStyle = ctx.strokeStyle;
+  ctx.fill();
+}
+
+function tracePath(ctx: CanvasRenderingContext2D, path: PathSegment[]): void {
+  ctx.beginPath();
+  for (const segment of path) {
+    switch (segment.type) {
+      case 'move':
+        ctx.moveTo(segment.to.x, segment.to.y);
+        break;
+      case 'line':
+        ctx.lineTo(segment.to.x, segment.to.y);
+        break;
+      case 'quad':
+        ctx.quadraticCurveTo(segment.control.x, segment.control.y, segment.to.x, segment.to.y);
+        break;
+      case 'curve':
+        ctx.bezierCurveTo(
+          segment.control1.x, segment.control1.y,
+          segment.control2.x, segment.control2.y,
+          segment.to.x, segment.to.y,
+        );
+        break;
+      case 'close':
+        ctx.closePath();
+        break;
+    }
+  }
+}
+
+/** The outline of a system-design shape, in the current stroke style. Groups are dashed. */
+export function drawSystemShape(ctx: CanvasRenderingContext2D, stroke: Stroke): void {
+  tracePath(ctx, getShapePath(stroke));
+  if (stroke.tool === 'group') ctx.setLineDash([8, 6]);
+  ctx.stroke();
+  ctx.setLineDash([]);
+}
+
+/** A shape's text, centred in its label bounds one line under another. */
+function drawLabel(ctx: CanvasRenderingContext2D, stroke: Stroke): void {
+  if (!stroke.text) return;
+  const { minX, minY, maxX, maxY } = getLabelBounds(stroke);
+  const fontSize = DEFAULT_FONT_SIZE;
+  ctx.font = `${fontSize}px sans-serif`;
+  ctx.fillStyle = stroke.textColor || stroke.color || '#000';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  const lines = stroke.text.split('\n');
+  const lineHeight = fontSize * 1.3;
+  const totalHeight = lines.length * lineHeight;
+  const centerX = (minX + maxX) / 2;
+  const startY = (minY + maxY) / 2 - totalHeight / 2 + lineHeight / 2;
+  lines.forEach((line, li) => {
+    ctx.fillText(line, centerX, startY + li * lineHeight);
+  });
+  ctx.textAlign = 'left';
+}
+
+// ── Strokes ──────────────────────────────────────────────────────────────────
+
+/** One stroke, unrotated; `showLabel` false leaves its label out. */
+function drawStroke(ctx: CanvasRenderingContext2D, stroke: Stroke, showLabel: boolean): void {
+  if (stroke.tool === 'text' && stroke.text && stroke.position) {
+    const fontSize = stroke.fontSize || DEFAULT_FONT_SIZE;
+    ctx.font = `${fontSize}px sans-serif`;
+    ctx.fillStyle = stroke.color || '#000';
+    ctx.textBaseline = 'top';
+    const lines = stroke.text.split('\n');
+    const lineHeight = fontSize * 1.3;
+    lines.forEach((line, i) => {
+      ctx.fillText(line, stroke.position!.x, stroke.position!.y + i * lineHeight);
+    });
+    return;
+  }
+
+  ctx.beginPath();
+  ctx.strokeStyle = stroke.color || '#000';
+  ctx.lineWidth = stroke.brushSize || 2;
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  if (stroke.tool === 'pen' && stroke.points && stroke.points.length > 0) {
+    ctx.moveTo(stroke.points[0].x, stroke.points[0].y);
+    for (let i = 1; i < stroke.points.length; i++) {
+      ctx.lineTo(stroke.points[i].x, stroke.points[i].y);
+    }
+    ctx.stroke();
+  } else if (stroke.tool === 'line' && stroke.start && stroke.end) {
+    ctx.moveTo(stroke.start.x, stroke.start.y);
+    ctx.lineTo(stroke.end.x, stroke.end.y);
+    ctx.stroke();
+  } else if (stroke.tool === 'arrow' && stroke.start && stroke.end) {
+    drawArrow(ctx, stroke.start, stroke.end);
+    if (stroke.text && showLabel) {
+      ctx.font = `${DEFAULT_FONT_SIZE}px sans-serif`;
+      ctx.fillStyle = stroke.textColor || stroke.color || '#000';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'bottom';
+      // Just above the middle of the arrow
+      ctx.fillText(stroke.text, (stroke.start.x + stroke.end.x) / 2, (stroke.start.y + stroke.end.y) / 2 - 4);
+      ctx.textAlign = 'left';
+    }
+  } else if (stroke.tool === 'rectangle' && stroke.start && stroke.end) {
+    ctx.strokeRect(stroke.start.x, stroke.start.y, stroke.end.x - stroke.start.x, stroke.end.y - stroke.start.y);
+    if (showLabel) drawLabel(ctx, stroke);
+  } else if (stroke.tool === 'circle' && stroke.start && stroke.end) {
+    const radius = Math.sqrt(
+      (stroke.end.x - stroke.start.x) ** 2 + (stroke.end.y - stroke.start.y) ** 2,
+    );
+    ctx.arc(stroke.start.x, stroke.start.y, radius, 0, 2 * Math.PI);
+    ctx.stroke();
+    if (showLabel) drawLabel(ctx, stroke);
+  } else if (isSystemShape(stroke.tool) && stroke.start && stroke.end) {
+    drawSystemShape(ctx, stroke);
+    if (showLabel) drawLabel(ctx, stroke);
+  }
+}
+
+/**
+ * Draws `strokes` in order. The label of the shape being edited, if any, is
+ * left out so the text overlay can stand in for it.
+ */
+export function renderStrokes(ctx: CanvasRenderingContext2D, strokes: Stroke[], editingShapeId?: string | null): void {
+  strokes.forEach((stroke) => {
+    const showLabel = !editingShapeId || stroke.id !== editingShapeId;
+    if (!stroke.rotation) {
+      drawStroke(ctx, stroke, showLabel);
+      return;
+    }
+
+    // Turned about the centre of its bounds
+    const { minX, minY, maxX, maxY } = getStrokeBounds(stroke);
+    const cx = (minX + maxX) / 2;
+    const cy = (minY + maxY) / 2;
+    ctx.save();
+    ctx.translate(cx, cy);
+    ctx.rotate(stroke.rotation);
+    ctx.translate(-cx, -cy);
+    drawStroke(ctx, stroke, showLabel);
+    ctx.restore();
+  });
+}
+
+/**
+ * The whole diagram drawn on a canvas of its own, fitted to its strokes
+ * whatever part of it is on screen. Null if there is nothing to draw or no
+ * 2D context to draw with.
+ */
+export function renderDiagramImage(strokes: Stroke[], background: string, scale = 2): HTMLCanvasElement | null {
+  if (strokes.length === 0) return null;
+
+  const { minX, minY, maxX, maxY } = getDiagramBounds(strokes);
+  const width = maxX - minX + DIAGRAM_PADDING * 2;
+  const height = maxY - minY + DIAGRAM_PADDING * 2;
+  const pixelScale = Math.min(scale, MAX_IMAGE_SIZE / Math.max(width, height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width * pixelScale);
+  canvas.height = Math.ceil(height * pixelScale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.setTransform(
+    pixelScale, 0, 0, pixelScale,
+    (DIAGRAM_PADDING - minX) * pixelScale,
+    (DIAGRAM_PADDING - minY) * pixelScale,
+  );
+  renderStrokes(ctx, strokes);
+  return canvas;
+}
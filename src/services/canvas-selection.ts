@@ -0,0 +1,219 @@
+/**
+ * Canvas Selection Service
+ *
+ * Pure helpers for working on several strokes at once: whole groups, marquee
+ * selection, the selection box and its handles, resizing, and aligning or
+ * distributing. They return new strokes, which the canvas store turns into
+ * update ops.
+ */
+
+import { getDiagramBounds, getOuterBounds, translateStroke } from './canvas-logic';
+import type { Point, Stroke, StrokeBounds } from './canvas-logic';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type HandlePosition = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w';
+/** A resize handle, or the rotation handle above the box. */
+export type SelectionHandle = HandlePosition | 'rotate';
+
+export type AlignEdge = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+/** Side of a resize handle, in screen pixels. */
+export const HANDLE_SIZE = 8;
+/** Distance of the rotation handle above the selection box, in screen pixels. */
+export const ROTATE_HANDLE_OFFSET = 24;
+/** Smallest side a selection can be resized to, in canvas units. */
+const MIN_RESIZE = 10;
+
+// ── Selection ────────────────────────────────────────────────────────────────
+
+/** `ids` and every stroke grouped with one of them, in drawing order. */
+export function expandToGroups(strokes: Stroke[], ids: string[]): string[] {
+  const picked = new Set(ids);
+  const groups = new Set(
+    strokes.filter((s) => picked.has(s.id!) && s.groupId).map((s) => s.groupId!)
+  );
+  return strokes
+    .filter((s) => picked.has(s.id!) || (s.groupId !== undefined && groups.has(s.groupId)))
+    .map((s) => s.id!);
+}
+
+/** Ids of the strokes lying wholly inside the rectangle spanned by `a` and `b`. */
+export function findStrokesInRect(strokes: Stroke[], a: Point, b: Point): string[] {
+  const minX = Math.min(a.x, b.x);
+  const maxX = Math.max(a.x, b.x);
+  const minY = Math.min(a.y, b.y);
+  const maxY = Math.max(a.y, b.y);
+  return strokes
+    .filter((stroke) => {
+      const bounds = getOuterBounds(stroke);
+      return bounds.minX >= minX && bounds.maxX <= maxX && bounds.minY >= minY && bounds.maxY <= maxY;
+    })
+    .map((s) => s.id!);
+}
+
+/** The box around the selected strokes as drawn, or null if none are on the canvas. */
+export function getSelectionBounds(strokes: Stroke[], ids: string[]): StrokeBounds | null {
+  const selected = strokes.filter((s) => ids.includes(s.id!));
+  return selected.length > 0 ? getDiagramBounds(selected) : null;
+}
+
+// ── Handles ──────────────────────────────────────────────────────────────────
+
+/**
+ * Where each handle of a selection box is. `scale` is the canvas zoom, so
+ * the rotation handle keeps its distance on screen.
+ */
+export function getHandlePoints(bounds: StrokeBounds, scale = 1): Record<SelectionHandle, Point> {
+  const { minX, minY, maxX, maxY } = bounds;
+  const cx = (minX + maxX) / 2;
+  const cy = (minY + maxY) / 2;
+  return {
+    nw: { x: minX, y: minY },
+    n: { x: cx, y: minY },
+    ne: { x: maxX, y: minY },
+    e: { x: maxX, y: cy },
+    se: { x: maxX, y: maxY },
+    s: { x: cx, y: maxY },
+    sw: { x: minX, y: maxY },
+    w: { x: minX, y: cy },
+    rotate: { x: cx, y: minY - ROTATE_HANDLE_OFFSET / scale },
+  };
+}
+
+/** The handle of a selection box at (x, y), if any. */
+export function findHandleAtPosition(bounds: StrokeBounds, x: number, y: number, scale = 1): SelectionHandle | null {
+  const reach = HANDLE_SIZE / scale;
+  const handles = getHandlePoints(bounds, scale);
+  for (const handle of Object.keys(handles) as SelectionHandle[]) {
+    const p = handles[handle];
+    if (Math.abs(x - p.x) <= reach && Math.abs(y - p.y) <= reach) return handle;
+  }
+  return null;
+}
+
+// ── Resizing ─────────────────────────────────────────────────────────────────
+
+/**
+ * `bounds` with the edges under `handle` dragged to `to`. Edges never cross
+ * the opposite ones, so the selection can't be flipped or squashed flat.
+ */
+export function resizeBounds(bounds: StrokeBounds, handle: HandlePosition, to: Point): StrokeBounds {
+  const next = { ...bounds };
+  if (handle.includes('w')) next.minX = Math.min(to.x, bounds.maxX - MIN_RESIZE);
+  if (handle.includes('e')) next.maxX = Math.max(to.x, bounds.minX + MIN_RESIZE);
+  if (handle.includes('n')) next.minY = Math.min(to.y, bounds.maxY - MIN_RESIZE);
+  if (handle.includes('s')) next.maxY = Math.max(to.y, bounds.minY + MIN_RESIZE);
+  return next;
+}
+
+/**
+ * Returns a new stroke stretched the way the box `from` is to `to`. Text
+ * keeps to the box by shrinking with its narrower side.
+ */
+export function scaleStroke(stroke: Stroke, from: StrokeBounds, to: StrokeBounds): Stroke {
+  const fromWidth = from.maxX - from.minX;
+  const fromHeight = from.maxY - from.minY;
+  const sx = fromWidth > 0 ? (to.maxX - to.minX) / fromWidth : 1;
+  const sy = fromHeight > 0 ? (to.maxY - to.minY) / fromHeight : 1;
+  const map = (p: Point): Point => ({
+    x: to.minX + (p.x - from.minX) * sx,
+    y: to.minY + (p.y - from.minY) * sy,
+  });
+
+  const result = { ...stroke };
+  if (result.start) result.start = map(result.start);
+  if (result.end) result.end = map(result.end);
+  if (result.position) result.position = map(result.position);
+  if (result.points) result.points = result.points.map(map);
+  if (result.tool === 'text' && result.fontSize) {
+    result.fontSize = Math.max(1, Math.round(result.fontSize * Math.min(sx, sy)));
+  }
+  return result;
+}
+
+/**
+ * Transformed copies of arrows let go of the shapes that aren't transformed
+ * with them; arrows keep ends bound to shapes that are.
+ */
+export function detachArrows(strokes: Stroke[]): Stroke[] {
+  const ids = new Set(strokes.map((s) => s.id));
+  return strokes.map((stroke) => {
+    if (stroke.tool !== 'arrow') return stroke;
+    const result = { ...stroke };
+    if (result.from && !ids.has(result.from)) delete result.from;
+    if (result.to && !ids.has(result.to)) delete result.to;
+    return result;
+  });
+}
+
+// ── Align & Distribute ───────────────────────────────────────────────────────
+
+interface Unit {
+  strokes: Stroke[];
+  bounds: StrokeBounds;
+}
+
+/** Strokes that move together when arranged: each group, and each stroke in none. */
+function arrangeUnits(strokes: Stroke[]): Unit[] {
+  const byKey = new Map<string, Stroke[]>();
+  for (const stroke of strokes) {
+    const key = stroke.groupId ? `group:${stroke.groupId}` : `stroke:${stroke.id}`;
+    byKey.set(key, [...(byKey.get(key) ?? []), stroke]);
+  }
+  return [...byKey.values()].map((unit) => ({ strokes: unit, bounds: getDiagramBounds(unit) }));
+}
+
+function moveUnit(unit: Unit, dx: number, dy: number): Stroke[] {
+  return unit.strokes.map((s) => translateStroke(s, dx, dy));
+}
+
+/** `strokes` moved so each group or lone stroke lines up on `edge` of them all. */
+export function alignStrokes(strokes: Stroke[], edge: AlignEdge): Stroke[] {
+  const units = arrangeUnits(strokes);
+  if (units.length < 2) return strokes;
+  const all = getDiagramBounds(strokes);
+
+  return units.flatMap((unit) => {
+    const { minX, minY, maxX, maxY } = unit.bounds;
+    switch (edge) {
+      case 'left':
+        return moveUnit(unit, all.minX - minX, 0);
+      case 'center':
+        return moveUnit(unit, (all.minX + all.maxX) / 2 - (minX + maxX) / 2, 0);
+      case 'right':
+        return moveUnit(unit, all.maxX - maxX, 0);
+      case 'top':
+        return moveUnit(unit, 0, all.minY - minY);
+      case 'middle':
+        return moveUnit(unit, 0, (all.minY + all.maxY) / 2 - (minY + maxY) / 2);
+      case 'bottom':
+        return moveUnit(unit, 0, all.maxY - maxY);
+    }
+  });
+}
+
+/**
+ * `strokes` moved so the gaps between their groups and lone strokes are
+ * equal along `axis`, the outermost two staying put. Needs at least three.
+ */
+export function distributeStrokes(strokes: Stroke[], axis: DistributeAxis): Stroke[] {
+  const units = arrangeUnits(strokes);
+  if (units.length < 3) return strokes;
+
+  const [min, max] = axis === 'horizontal' ? (['minX', 'maxX'] as const) : (['minY', 'maxY'] as const);
+  units.sort((a, b) => (a.bounds[min] + a.bounds[max]) - (b.bounds[min] + b.bounds[max]));
+  const span = units[units.length - 1].bounds[max] - units[0].bounds[min];
+  const occupied = units.reduce((sum, u) => sum + u.bounds[max] - u.bounds[min], 0);
+  const gap = (span - occupied) / (units.length - 1);
+
+  let next = units[0].bounds[min];
+  return units.flatMap((unit) => {
+    const delta = next - unit.bounds[min];
+    next += unit.bounds[max] - unit.bounds[min] + gap;
+    return axis === 'horizontal' ? moveUnit(unit, delta, 0) : moveUnit(unit, 0, delta);
+  });
+}
@@ -35,6 +35,44 @@ export const codeTemplates: Record<string, string> = {
     sql: '-- Write your SQL query here\nSELECT * FROM users WHERE id = 1;'
 };
 
+// File extensions for each language — used to name and recognise workspace files
+export const languageExtensions: Record<string, string> = {
+    javascript: 'js',
+    typescript: 'ts',
+    python: 'py',
+    java: 'java',
+    kotlin: 'kt',
+    cpp: 'cpp',
+    c: 'c',
+    csharp: 'cs',
+    go: 'go',
+    rust: 'rs',
+    ruby: 'rb',
+    swift: 'swift',
+    scala: 'scala',
+    lua: 'lua',
+    php: 'php',
+    sql: 'sql'
+};
+
+// Default file name for a new workspace file in the given language
+export function getDefaultFilename(language: string): string {
+    return `main.${languageExtensions[language] || 'txt'}`;
+}
+
+// Infer a language from a file name's extension, or null if unknown
+export function getLanguageFromFilename(name: string): string | null {
+    const dot = name.lastIndexOf('.');
+    if (dot < 0) return null;
+    const ext = name.slice(dot + 1).toLowerCase();
+    if (ext === 'h') return 'c';
+    if (ext === 'hpp' || ext === 'cc') return 'cpp';
+    for (const [language, extension] of Object.entries(languageExtensions)) {
+        if (extension === ext) return language;
+    }
+    return null;
+}
+
 // ── Indentation helpers ─────────────────────────────────────────────────────
 
 export interface DedentResult {
@@ -166,6 +204,24 @@ export function calculateCursorPosition(
     return { line: lineNumber, column: columnNumber, top, left };
 }
 
+// Range of line indices [start, end) to render for a scrolled viewport,
+// padded by `overscan` lines on each side so fast scrolling doesn't show gaps
+export function getVisibleLineRange(
+    scrollTop: number,
+    viewportHeight: number,
+    lineHeight: number,
+    paddingTop: number,
+    lineCount: number,
+    overscan: number
+): { start: number; end: number } {
+    const first = Math.floor((scrollTop - paddingTop) / lineHeight);
+    const last = Math.ceil((scrollTop + viewportHeight - paddingTop) / lineHeight);
+    return {
+        start: Math.max(0, first - overscan),
+        end: Math.min(lineCount, Math.max(0, last + overscan)),
+    };
+}
+
 // Check if a cursor position is visible within the editor viewport
 export function isCursorVisible(top: number, left: number, visibleHeight: number, visibleWidth: number): boolean {
     return top >= -20 && top <= visibleHeight && left >= 0 && left <= visibleWidth;
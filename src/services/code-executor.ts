@@ -2,31 +2,57 @@
  * code-executor.ts — Framework-agnostic service for running code.
  *
  * JS/TS: sandboxed Web Worker (fresh per execution).
- * WASM languages (Python, C/C++, Go, Ruby, Lua): persistent workers via wasm-runtime-manager.
+ * Other languages (Python, C/C++, Go, Ruby, Lua, and whatever a deployment
+ * adds): persistent workers via wasm-runtime-manager and its backends.
  */
 
 import type { ExecutionResult } from '../stores/executionStore';
-import { isWasmLanguage, executeWasm, stopWasmExecution, preloadRuntime } from './wasm-runtime-manager';
+import type { OutputChunk } from './output-stream';
+import type { RuntimeCapabilities } from './runtime-backends';
+import {
+  isWasmLanguage,
+  executeWasm,
+  stopWasmExecution,
+  preloadRuntime,
+  getCapabilities as getBackendCapabilities,
+} from './wasm-runtime-manager';
+
+export interface RunOptions {
+  /** ms; defaults to, and can't exceed, the runtime's time limit. */
+  timeout?: number;
+  /** Fed to the program's stdin. */
+  stdin?: string;
+  /** Receives output while the program runs (see output-stream.ts). */
+  onOutput?: (chunk: OutputChunk) => void;
+}
 
 const JS_LANGUAGES = new Set(['javascript', 'typescript']);
-const WASM_LANGUAGES = new Set(['python', 'c', 'cpp', 'go', 'ruby', 'lua']);
+
+const JS_CAPABILITIES: RuntimeCapabilities = { stdin: true, tests: true, timeLimit: 10_000, memoryLimit: null };
 
 let worker: Worker | null = null;
 let currentReject: ((reason: string) => void) | null = null;
 
 export function isExecutable(language: string): boolean {
-  return JS_LANGUAGES.has(language) || WASM_LANGUAGES.has(language);
+  return JS_LANGUAGES.has(language) || isWasmLanguage(language);
+}
+
+/** What running `language` supports, or null if it can't run. */
+export function getCapabilities(language: string): RuntimeCapabilities | null {
+  return JS_LANGUAGES.has(language) ? JS_CAPABILITIES : getBackendCapabilities(language);
 }
 
 export function runCode(
   code: string,
   language: string,
-  timeout = 10_000,
+  options: RunOptions = {},
 ): Promise<ExecutionResult> {
   if (isWasmLanguage(language)) {
-    return executeWasm(language, code, timeout);
+    return executeWasm(language, code, options);
   }
 
+  const { timeout = JS_CAPABILITIES.timeLimit, stdin = '', onOutput } = options;
+
   // JS/TS: fresh worker per execution
   terminateWorker();
 
@@ -39,7 +65,9 @@ export function runCode(
     );
 
     worker.onmessage = (event: MessageEvent) => {
-      if (event.data.type === 'result') {
+      if (event.data.type === 'output') {
+        onOutput?.({ stream: event.data.stream, text: event.data.text });
+      } else if (event.data.type === 'result') {
         resolve(event.data as ExecutionResult);
         cleanupWorker();
       }
@@ -50,7 +78,7 @@ export function runCode(
       cleanupWorker();
     };
 
-    worker.postMessage({ type: 'run', code, language, timeout });
+    worker.postMessage({ type: 'run', code, language, timeout, stdin });
   });
 }
 
@@ -1,17 +1,20 @@
 /**
  * code-executor.worker.ts — Sandboxed Web Worker for JS/TS code execution.
  *
- * Receives { type: 'run', code, language } messages.
- * Captures console output, enforces a timeout, and posts back results.
+ * Receives { type: 'run', code, language, stdin } messages.
+ * Captures console output (streamed as it comes, see output-stream.ts), serves stdin line by line through a global
+ * `readline()` (null once exhausted), enforces a timeout, and posts back results.
  */
 
 import ts from 'typescript';
+import { createOutputStream } from './output-stream';
 
 interface RunMessage {
   type: 'run';
   code: string;
   language: string;
   timeout?: number;
+  stdin?: string;
 }
 
 interface OutputLine {
@@ -23,10 +26,16 @@ const DEFAULT_TIMEOUT = 10_000; // 10 seconds
 const MAX_OUTPUT_SIZE = 100_000; // 100KB per stream
 
 self.onmessage = (event: MessageEvent<RunMessage>) => {
-  const { code, language, timeout = DEFAULT_TIMEOUT } = event.data;
+  const { code, language, timeout = DEFAULT_TIMEOUT, stdin = '' } = event.data;
   if (event.data.type !== 'run') return;
 
+  const inputLines = stdin ? stdin.replace(/\r?\n$/, '').split(/\r?\n/) : [];
+  let nextLine = 0;
+  const readline = (): string | null =>
+    nextLine < inputLines.length ? inputLines[nextLine++] : null;
+
   const output: OutputLine[] = [];
+  const live = createOutputStream();
   let totalSize = 0;
   let truncated = false;
 
@@ -35,11 +44,14 @@ self.onmessage = (event: MessageEvent<RunMessage>) => {
     const text = args.map(stringifyArg).join(' ');
     totalSize += text.length;
     if (totalSize > MAX_OUTPUT_SIZE) {
-      output.push({ stream: 'stderr', text: '\n[Output truncated — exceeded 100KB limit]' });
+      const notice = '\n[Output truncated — exceeded 100KB limit]';
+      output.push({ stream: 'stderr', text: notice });
+      live.writeLine('stderr', notice);
       truncated = true;
       return;
     }
     output.push({ stream, text });
+    live.writeLine(stream, text);
   }
 
   // Override console methods to capture output
@@ -58,6 +70,7 @@ self.onmessage = (event: MessageEvent<RunMessage>) => {
 
   // Timeout guard
   const timeoutId = setTimeout(() => {
+    live.flush();
     const duration = Math.round(performance.now() - start);
     self.postMessage({
       type: 'result',
@@ -85,18 +98,19 @@ self.onmessage = (event: MessageEvent<RunMessage>) => {
       jsCode = result.outputText;
     }
 
-    // Execute in a closure that provides our fake console
+    // Execute in a closure that provides our fake console and stdin
     const wrappedCode = `
       "use strict";
-      return (function(console) {
+      return (function(console, readline) {
         ${jsCode}
       });
     `;
     const factory = new Function(wrappedCode);
     const executor = factory();
-    executor(fakeConsole);
+    executor(fakeConsole, readline);
 
     clearTimeout(timeoutId);
+    live.flush();
     const duration = Math.round(performance.now() - start);
 
     self.postMessage({
@@ -108,6 +122,7 @@ self.onmessage = (event: MessageEvent<RunMessage>) => {
     });
   } catch (error: unknown) {
     clearTimeout(timeoutId);
+    live.flush();
     const duration = Math.round(performance.now() - start);
     const errorMessage = error instanceof Error ? error.message : String(error);
     const errorStack = error instanceof Error && error.stack ? error.stack : '';
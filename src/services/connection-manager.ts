@@ -7,6 +7,12 @@
 
 import type { Op } from './ot-engine';
 import type { Stroke, Point } from './canvas-logic';
+import type { CanvasOp, StrokeEntry } from './canvas-document';
+import type { Role } from './roles';
+import type { Competency } from './scorecard';
+import type { SharedQuestion, TestCase } from './question-bank';
+import type { TestCaseResult } from '../stores/executionStore';
+import type { OutputStreamName } from './output-stream';
 
 export type ConnectionState = 'disconnected' | 'connecting' | 'connected' | 'failed' | 'closed' | 'reconnecting' | 'error';
 export type ConnectionType = 'direct' | 'relay';
@@ -15,23 +21,82 @@ type CandidateType = 'host' | 'srflx' | 'relay';
 
 // ── DataChannel Message Types ────────────────────────────────────────────────
 
+/** A workspace file as sent over the wire; `revision` is its OT revision. */
+export interface SyncedFile {
+  id: string;
+  name: string;
+  language: string;
+  code: string;
+  revision?: number;
+}
+
 /** Discriminated union of all messages sent/received over the WebRTC DataChannel. */
 export type DataChannelMessage =
-  | { type: 'code-operation'; operation: Op[]; operationCount: number }
+  | { type: 'code-operation'; operation: Op[]; revision: number; clientId: string; fileId?: string }
   | { type: 'code'; code: string; language?: string }
-  | { type: 'cursor'; peerId: string; position?: number; line?: number; column?: number; name: string }
-  | { type: 'language'; language: string }
+  | {
+      type: 'cursor';
+      peerId: string;
+      position?: number;
+      selectionStart?: number;
+      selectionEnd?: number;
+      line?: number;
+      column?: number;
+      name: string;
+      fileId?: string;
+      clientId?: string;
+    }
+  | { type: 'language'; language: string; fileId?: string }
+  | { type: 'file-create'; file: SyncedFile }
+  | { type: 'file-rename'; fileId: string; name: string }
+  | { type: 'file-delete'; fileId: string }
   | { type: 'state-request' }
-  | { type: 'state-sync'; code?: string; language?: string }
+  | {
+      type: 'state-sync';
+      files?: SyncedFile[];
+      code?: string;
+      language?: string;
+      revision?: number;
+      repair?: boolean;
+      /** The session's question; null for none, absent from older peers. */
+      question?: SharedQuestion | null;
+    }
+  | { type: 'code-checksum'; revision: number; checksum: string; fileId?: string }
   | { type: 'canvas'; action: 'stroke'; stroke: Stroke }
   | { type: 'canvas'; action: 'drawing'; peerId: string; data: unknown }
-  | { type: 'canvas-view'; zoom: number; panOffset: Point }
-  | { type: 'canvas-clear' }
-  | { type: 'canvas-sync'; strokes: Stroke[]; zoom?: number; panOffset?: Point }
+  | { type: 'canvas-view'; zoom: number; panOffset: Point; peerId?: string }
+  | { type: 'view-tab'; peerId: string; tab: string }
+  | { type: 'view-scroll'; peerId: string; fileId: string; scrollTop: number; scrollLeft: number }
+  | { type: 'view-request'; peerId: string }
+  | { type: 'canvas-ops'; ops: CanvasOp[] }
+  | {
+      type: 'canvas-sync';
+      strokes: Stroke[];
+      /** The sender's whole document with its stamps; older peers send just `strokes`. */
+      entries?: Record<string, StrokeEntry>;
+      clock?: number;
+      zoom?: number;
+      panOffset?: Point;
+    }
   | { type: 'message'; id: string; text: string; sender: string; timestamp: number }
   | { type: 'message-ack'; messageId: string }
-  | { type: 'execution-start'; language: string; timestamp: number }
-  | { type: 'execution-result'; stdout: string; stderr: string; exitCode: number; duration: number };
+  | { type: 'execution-start'; language: string; timestamp: number; runBy?: string; code?: string; stdin?: string }
+  | { type: 'execution-output'; stream: OutputStreamName; text: string }
+  | {
+      type: 'execution-result';
+      stdout: string;
+      stderr: string;
+      exitCode: number;
+      duration: number;
+      testResults?: TestCaseResult[];
+    }
+  | { type: 'roles'; roles: Record<string, Role> }
+  | { type: 'notes'; text: string; updatedAt: number; updatedBy: string }
+  | { type: 'notes-request' }
+  | { type: 'scorecard'; competencies: Competency[] }
+  | { type: 'scorecard-request' }
+  | { type: 'question-tests'; questionId: string; tests: TestCase[] }
+  | { type: 'question-tests-request' };
 
 export interface ConnectionManagerOptions {
     stunServers?: RTCIceServer[];
@@ -0,0 +1,150 @@
+/**
+ * Execution History Service
+ *
+ * Every run of the session, as each peer saw it: who ran what, when, and how
+ * it went. A run keeps a hash of its code rather than the code itself; the
+ * history stores each distinct code once, so any two runs can be diffed.
+ */
+
+import { computeChecksum } from './ot-protocol';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface ExecutionRun {
+  id: string;
+  /** When the run started. */
+  timestamp: number;
+  runBy: string;
+  language: string;
+  /** Key of the run's code in ExecutionHistory.snapshots. */
+  codeHash: string;
+  stdout: string;
+  stderr: string;
+  exitCode: number;
+  duration: number;
+  /** Set for runs against the hidden tests, whose output isn't kept. */
+  tests?: { passed: number; total: number };
+}
+
+export interface ExecutionHistory {
+  /** Oldest first. */
+  runs: ExecutionRun[];
+  snapshots: Record<string, string>;
+}
+
+export type NewRun = Omit<ExecutionRun, 'id' | 'codeHash'>;
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+export const MAX_RUNS = 100;
+
+/** Output kept per stream; more is cut, as it is saved with the session. */
+export const MAX_SAVED_OUTPUT = 10_000;
+
+// Lines compared pairwise before diffing gives up on matching lines up
+const MAX_DIFF_CELLS = 4_000_000;
+
+export const EMPTY_HISTORY: ExecutionHistory = { runs: [], snapshots: {} };
+
+// ── Functions ────────────────────────────────────────────────────────────────
+
+function truncate(output: string): string {
+  return output.length > MAX_SAVED_OUTPUT ? `${output.slice(0, MAX_SAVED_OUTPUT)}\n[Output truncated]` : output;
+}
+
+/** Keeps the newest MAX_RUNS runs and the code they refer to. */
+function prune(runs: ExecutionRun[], snapshots: Record<string, string>): ExecutionHistory {
+  const kept = runs.slice(-MAX_RUNS);
+  const keptSnapshots: Record<string, string> = {};
+  for (const run of kept) {
+    if (run.codeHash in snapshots) keptSnapshots[run.codeHash] = snapshots[run.codeHash];
+  }
+  return { runs: kept, snapshots: keptSnapshots };
+}
+
+export function addRun(history: ExecutionHistory, run: NewRun, code: string): ExecutionHistory {
+  const codeHash = computeChecksum(code);
+  const entry: ExecutionRun = {
+    ...run,
+    id: `${run.timestamp}-${Math.random().toString(36).slice(2, 9)}`,
+    codeHash,
+    stdout: truncate(run.stdout),
+    stderr: truncate(run.stderr),
+  };
+  return prune([...history.runs, entry], { ...history.snapshots, [codeHash]: code });
+}
+
+/** Both histories' runs, in the order they started. */
+export function mergeHistories(a: ExecutionHistory, b: ExecutionHistory): ExecutionHistory {
+  const ids = new Set(a.runs.map((run) => run.id));
+  const runs = [...a.runs, ...b.runs.filter((run) => !ids.has(run.id))]
+    .sort((x, y) => x.timestamp - y.timestamp);
+  return prune(runs, { ...b.snapshots, ...a.snapshots });
+}
+
+/**
+ * Line diff turning `before` into `after`, from their longest common
+ * subsequence of lines. Past MAX_DIFF_CELLS, the changed middle is shown as
+ * removed and re-added wholesale.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // Lines shared at the start and end need no matching
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const same = (lines: string[]): DiffLine[] => lines.map((text) => ({ type: 'same', text }));
+  const head = same(a.slice(0, start));
+  const tail = same(a.slice(endA));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    return [
+      ...head,
+      ...midA.map((text): DiffLine => ({ type: 'removed', text })),
+      ...midB.map((text): DiffLine => ({ type: 'added', text })),
+      ...tail,
+    ];
+  }
+
+  // lcs[i][j]: common lines of midA[i..] and midB[j..]
+  const lcs = Array.from({ length: midA.length + 1 }, () => new Uint32Array(midB.length + 1));
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lcs[i][j] = midA[i] === midB[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length || j < midB.length) {
+    if (i < midA.length && j < midB.length && midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (i < midA.length && (j === midB.length || lcs[i + 1][j] >= lcs[i][j + 1])) {
+      middle.push({ type: 'removed', text: midA[i] });
+      i++;
+    } else {
+      middle.push({ type: 'added', text: midB[j] });
+      j++;
+    }
+  }
+
+  return [...head, ...middle, ...tail];
+}
@@ -0,0 +1,212 @@
+// Line-based Incremental Syntax Highlighting
+// Highlights the editor buffer one line at a time with Prism and caches the
+// result, so an edit only re-tokenizes the lines it touched. Constructs that
+// span lines (block comments, multi-line strings) are tracked as a per-line
+// entry state; tokenizing continues past the edit until the state settles.
+
+import Prism from 'prismjs';
+import 'prismjs/components/prism-typescript';
+import 'prismjs/components/prism-python';
+import 'prismjs/components/prism-java';
+import 'prismjs/components/prism-kotlin';
+import 'prismjs/components/prism-c';
+import 'prismjs/components/prism-cpp';
+import 'prismjs/components/prism-csharp';
+import 'prismjs/components/prism-go';
+import 'prismjs/components/prism-rust';
+import 'prismjs/components/prism-ruby';
+import 'prismjs/components/prism-lua';
+import 'prismjs/components/prism-swift';
+import 'prismjs/components/prism-scala';
+import 'prismjs/components/prism-markup';
+import 'prismjs/components/prism-markup-templating';
+import 'prismjs/components/prism-php';
+import 'prismjs/components/prism-sql';
+
+export interface BlockDelimiter {
+    open: string;
+    close: string;
+    token: 'comment' | 'string';
+}
+
+interface LanguageSyntax {
+    blocks: BlockDelimiter[];
+    lineComments: string[];
+    quotes: string[];
+}
+
+const C_COMMENT: BlockDelimiter = { open: '/*', close: '*/', token: 'comment' };
+const BACKTICK_STRING: BlockDelimiter = { open: '`', close: '`', token: 'string' };
+const TRIPLE_DOUBLE: BlockDelimiter = { open: '"""', close: '"""', token: 'string' };
+const TRIPLE_SINGLE: BlockDelimiter = { open: '\'\'\'', close: '\'\'\'', token: 'string' };
+const LUA_COMMENT: BlockDelimiter = { open: '--[[', close: ']]', token: 'comment' };
+
+const C_LIKE: LanguageSyntax = { blocks: [C_COMMENT], lineComments: ['//'], quotes: ['"', '\''] };
+
+// Multi-line constructs per language. Anything else is left to Prism line by line.
+const languageSyntax: Record<string, LanguageSyntax> = {
+    javascript: { ...C_LIKE, blocks: [C_COMMENT, BACKTICK_STRING] },
+    typescript: { ...C_LIKE, blocks: [C_COMMENT, BACKTICK_STRING] },
+    java: { ...C_LIKE, blocks: [C_COMMENT, TRIPLE_DOUBLE] },
+    kotlin: { ...C_LIKE, blocks: [C_COMMENT, TRIPLE_DOUBLE] },
+    c: C_LIKE,
+    cpp: C_LIKE,
+    csharp: C_LIKE,
+    go: { ...C_LIKE, blocks: [C_COMMENT, BACKTICK_STRING] },
+    rust: { ...C_LIKE, quotes: ['"'] },
+    swift: { ...C_LIKE, blocks: [C_COMMENT, TRIPLE_DOUBLE] },
+    scala: { ...C_LIKE, blocks: [C_COMMENT, TRIPLE_DOUBLE] },
+    php: { ...C_LIKE, lineComments: ['//', '#'] },
+    python: { blocks: [TRIPLE_DOUBLE, TRIPLE_SINGLE], lineComments: ['#'], quotes: ['"', '\''] },
+    ruby: { blocks: [], lineComments: ['#'], quotes: ['"', '\''] },
+    lua: { blocks: [LUA_COMMENT], lineComments: ['--'], quotes: ['"', '\''] },
+    sql: { blocks: [C_COMMENT], lineComments: ['--'], quotes: ['"', '\''] },
+};
+
+const NO_SYNTAX: LanguageSyntax = { blocks: [], lineComments: [], quotes: [] };
+
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;');
+}
+
+function highlightSegment(text: string, language: string): string {
+    if (!text) return '';
+    const grammar = Prism.languages[language];
+    return grammar ? Prism.highlight(text, grammar, language) : escapeHtml(text);
+}
+
+/**
+ * Find the next block opener at or after `from`, skipping quoted strings.
+ * Returns null if there is none, including when a line comment starts first.
+ */
+function findBlockOpen(
+    text: string,
+    from: number,
+    syntax: LanguageSyntax
+): { index: number; block: BlockDelimiter } | null {
+    let i = from;
+    while (i < text.length) {
+        const block = syntax.blocks.find((b) => text.startsWith(b.open, i));
+        if (block) return { index: i, block };
+
+        if (syntax.lineComments.some((c) => text.startsWith(c, i))) return null;
+
+        const quote = text[i];
+        if (syntax.quotes.includes(quote)) {
+            i++;
+            while (i < text.length && text[i] !== quote) {
+                i += text[i] === '\\' ? 2 : 1;
+            }
+        }
+        i++;
+    }
+    return null;
+}
+
+/**
+ * Highlight one line that starts in `entry` (an unclosed block from an earlier
+ * line, or null). Returns the HTML and the block still open at the line's end.
+ */
+function highlightLine(
+    text: string,
+    entry: BlockDelimiter | null,
+    language: string
+): { html: string; exit: BlockDelimiter | null } {
+    const syntax = languageSyntax[language] ?? NO_SYNTAX;
+    let html = '';
+    let pos = 0;
+    let block = entry;
+    let blockStart = 0;
+
+    while (pos <= text.length) {
+        if (block) {
+            const close = text.indexOf(block.close, pos);
+            const end = close < 0 ? text.length : close + block.close.length;
+            html += `<span class="token ${block.token}">${escapeHtml(text.slice(blockStart, end))}</span>`;
+            if (close < 0) return { html, exit: block };
+            block = null;
+            pos = end;
+            continue;
+        }
+
+        const open = findBlockOpen(text, pos, syntax);
+        if (!open) {
+            html += highlightSegment(text.slice(pos), language);
+            return { html, exit: null };
+        }
+        html += highlightSegment(text.slice(pos, open.index), language);
+        block = open.block;
+        blockStart = open.index;
+        pos = open.index + open.block.open.length;
+    }
+
+    return { html, exit: block };
+}
+
+interface CachedLine {
+    text: string;
+    entry: BlockDelimiter | null;
+    exit: BlockDelimiter | null;
+    html: string;
+}
+
+export class LineHighlighter {
+    private language: string;
+    private lines: CachedLine[];
+    /** Number of lines tokenized by the last update. */
+    lastTokenized: number;
+
+    constructor() {
+        this.language = '';
+        this.lines = [];
+        this.lastTokenized = 0;
+    }
+
+    /**
+     * Highlight `code`, reusing cached lines outside the edited range. Lines
+     * after the edit are reused as soon as their entry state matches the cache.
+     * Returns one HTML string per line.
+     */
+    update(code: string, language: string): string[] {
+        const texts = code.split('\n');
+        if (language !== this.language) {
+            this.language = language;
+            this.lines = [];
+        }
+
+        const old = this.lines;
+        const shared = Math.min(old.length, texts.length);
+        let prefix = 0;
+        while (prefix < shared && old[prefix].text === texts[prefix]) prefix++;
+        let suffix = 0;
+        while (
+            suffix < shared - prefix &&
+            old[old.length - 1 - suffix].text === texts[texts.length - 1 - suffix]
+        ) {
+            suffix++;
+        }
+
+        const next = old.slice(0, prefix);
+        const offset = old.length - texts.length;
+        let tokenized = 0;
+
+        for (let i = prefix; i < texts.length; i++) {
+            const entry = i > 0 ? next[i - 1].exit : null;
+            if (i >= texts.length - suffix && old[i + offset].entry === entry) {
+                // Same text, same starting state — the rest is unchanged
+                for (let j = i + offset; j < old.length; j++) next.push(old[j]);
+                break;
+            }
+            const { html, exit } = highlightLine(texts[i], entry, language);
+            next.push({ text: texts[i], entry, exit, html });
+            tokenized++;
+        }
+
+        this.lines = next;
+        this.lastTokenized = tokenized;
+        return next.map((line) => line.html);
+    }
+}
@@ -0,0 +1,107 @@
+/**
+ * Markdown Service
+ *
+ * A small Markdown parser for problem statements: headings, paragraphs,
+ * bullet and numbered lists, fenced code blocks, and inline code, bold and
+ * italics. It returns a tree rather than HTML, so rendering never injects
+ * markup.
+ */
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong'; text: string }
+  | { type: 'em'; text: string };
+
+export type MarkdownBlock =
+  | { type: 'heading'; level: number; content: InlineNode[] }
+  | { type: 'paragraph'; content: InlineNode[] }
+  | { type: 'list'; ordered: boolean; items: InlineNode[][] }
+  | { type: 'code'; language: string; text: string };
+
+// ── Parsing ──────────────────────────────────────────────────────────────────
+
+const INLINE_PATTERN = /(`[^`]+`|\*\*[^*]+\*\*|\*[^*]+\*)/g;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const BULLET_PATTERN = /^\s*[-*]\s+(.*)$/;
+const NUMBERED_PATTERN = /^\s*\d+\.\s+(.*)$/;
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  for (const part of text.split(INLINE_PATTERN)) {
+    if (!part) continue;
+    if (part.startsWith('`') && part.endsWith('`') && part.length > 1) {
+      nodes.push({ type: 'code', text: part.slice(1, -1) });
+    } else if (part.startsWith('**') && part.endsWith('**') && part.length > 3) {
+      nodes.push({ type: 'strong', text: part.slice(2, -2) });
+    } else if (part.startsWith('*') && part.endsWith('*') && part.length > 1) {
+      nodes.push({ type: 'em', text: part.slice(1, -1) });
+    } else {
+      nodes.push({ type: 'text', text: part });
+    }
+  }
+  return nodes;
+}
+
+export function parseMarkdown(markdown: string): MarkdownBlock[] {
+  const blocks: MarkdownBlock[] = [];
+  const lines = markdown.replace(/\r\n/g, '\n').split('\n');
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ type: 'paragraph', content: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.trimStart().startsWith('```')) {
+      flushParagraph();
+      const language = line.trim().slice(3).trim();
+      const code: string[] = [];
+      // An unclosed fence runs to the end of the text
+      while (++i < lines.length && !lines[i].trimStart().startsWith('```')) {
+        code.push(lines[i]);
+      }
+      blocks.push({ type: 'code', language, text: code.join('\n') });
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ type: 'heading', level: heading[1].length, content: parseInline(heading[2].trim()) });
+      continue;
+    }
+
+    const bullet = BULLET_PATTERN.exec(line);
+    const numbered = bullet ? null : NUMBERED_PATTERN.exec(line);
+    if (bullet || numbered) {
+      flushParagraph();
+      const ordered = Boolean(numbered);
+      const item = parseInline((bullet ?? numbered)![1]);
+      const last = blocks[blocks.length - 1];
+      if (last && last.type === 'list' && last.ordered === ordered) {
+        last.items.push(item);
+      } else {
+        blocks.push({ type: 'list', ordered, items: [item] });
+      }
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flushParagraph();
+      continue;
+    }
+
+    paragraph.push(line.trim());
+  }
+
+  flushParagraph();
+  return blocks;
+}
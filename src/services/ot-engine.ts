@@ -46,7 +46,49 @@ export class TextOperation {
         return this;
     }
 
+    /**
+     * Number of characters the operation consumes (retains + deletes).
+     * Text past this point is implicitly retained, so an operation may be
+     * applied to any text at least this long.
+     */
+    get baseLength(): number {
+        let length = 0;
+        for (const op of this.ops) {
+            if (typeof op === 'number') length += Math.abs(op);
+        }
+        return length;
+    }
+
+    /** Number of characters the consumed span becomes (retains + inserts). */
+    get targetLength(): number {
+        let length = 0;
+        for (const op of this.ops) {
+            if (typeof op === 'string') length += op.length;
+            else if (op > 0) length += op;
+        }
+        return length;
+    }
+
+    /** True when applying the operation leaves any text unchanged. */
+    isNoop(): boolean {
+        return this.ops.every((op) => typeof op === 'number' && op > 0);
+    }
+
+    /** Structural equality, ignoring a trailing retain (which is implicit). */
+    equals(other: TextOperation): boolean {
+        const a = trimTrailingRetain(this.ops);
+        const b = trimTrailingRetain(other.ops);
+        if (a.length !== b.length) return false;
+        return a.every((op, i) => op === b[i]);
+    }
+
     apply(text: string): string {
+        if (this.baseLength > text.length) {
+            throw new Error(
+                `Operation base length ${this.baseLength} exceeds text length ${text.length}`
+            );
+        }
+
         let result = '';
         let pos = 0;
 
@@ -70,6 +112,133 @@ export class TextOperation {
         return result;
     }
 
+    /**
+     * Map an offset in the document before this operation to the matching
+     * offset after it. Text inserted exactly at the offset lands before it;
+     * an offset inside deleted text moves to the start of the deletion.
+     */
+    transformIndex(index: number): number {
+        let remaining = index;
+        let newIndex = index;
+
+        for (const op of this.ops) {
+            if (typeof op === 'string') {
+                newIndex += op.length;
+            } else if (op > 0) {
+                remaining -= op;
+            } else {
+                newIndex -= Math.min(remaining, -op);
+                remaining += op;
+            }
+            if (remaining < 0) break;
+        }
+
+        return newIndex;
+    }
+
+    /**
+     * Build the operation that reverts this one. `text` must be the document
+     * this operation is applied to, so deleted characters can be restored.
+     */
+    invert(text: string): TextOperation {
+        if (this.baseLength > text.length) {
+            throw new Error(
+                `Operation base length ${this.baseLength} exceeds text length ${text.length}`
+            );
+        }
+
+        const inverse = new TextOperation();
+        let pos = 0;
+
+        for (const op of this.ops) {
+            if (typeof op === 'string') {
+                inverse.delete(op.length);
+            } else if (op > 0) {
+                inverse.retain(op);
+                pos += op;
+            } else {
+                inverse.insert(text.slice(pos, pos - op));
+                pos -= op;
+            }
+        }
+
+        return inverse;
+    }
+
+    /**
+     * Combine this operation with one applied after it into a single
+     * operation with the same effect: compose(b).apply(t) === b.apply(this.apply(t)).
+     */
+    compose(other: TextOperation): TextOperation {
+        const composed = new TextOperation();
+        const ops1 = this.ops.slice();
+        const ops2 = other.ops.slice();
+
+        // Spell out whichever implicit trailing retain the other side reaches into
+        const gap = other.baseLength - this.targetLength;
+        if (gap > 0) ops1.push(gap);
+        else if (gap < 0) ops2.push(-gap);
+
+        let i1 = 0, i2 = 0;
+
+        while (i1 < ops1.length || i2 < ops2.length) {
+            const o1 = ops1[i1];
+            const o2 = ops2[i2];
+
+            // Deletes from the first op happen before the second op sees the text
+            if (typeof o1 === 'number' && o1 < 0) {
+                composed.delete(-o1);
+                i1++;
+                continue;
+            }
+            // Inserts from the second op are independent of the first
+            if (typeof o2 === 'string') {
+                composed.insert(o2);
+                i2++;
+                continue;
+            }
+
+            if (o1 === undefined || o2 === undefined) {
+                throw new Error('Cannot compose operations: lengths do not line up');
+            }
+
+            // Retain from op1
+            if (typeof o1 === 'number') {
+                if (o2 > 0) {
+                    // Retain from op2
+                    const n = Math.min(o1, o2);
+                    composed.retain(n);
+                    ops1[i1] = o1 - n;
+                    ops2[i2] = o2 - n;
+                } else {
+                    // Delete from op2
+                    const n = Math.min(o1, -o2);
+                    composed.delete(n);
+                    ops1[i1] = o1 - n;
+                    ops2[i2] = o2 + n;
+                }
+            }
+            // Insert from op1
+            else if (o2 > 0) {
+                // Retained by op2 — the insert survives
+                const n = Math.min(o1.length, o2);
+                composed.insert(o1.slice(0, n));
+                ops1[i1] = o1.slice(n);
+                ops2[i2] = o2 - n;
+            } else {
+                // Deleted by op2 — the two cancel out
+                const n = Math.min(o1.length, -o2);
+                ops1[i1] = o1.slice(n);
+                ops2[i2] = o2 + n;
+            }
+
+            if (ops1[i1] === 0 || ops1[i1] === '') i1++;
+            if (ops2[i2] === 0) i2++;
+        }
+
+        return composed;
+    }
+
     // Transform two operations for concurrent editing
     static transform(op1: TextOperation, op2: TextOperation): [TextOperation, TextOperation] {
         const newOp1 = new TextOperation();
@@ -180,6 +349,11 @@ export class TextOperation {
     }
 }
 
+function trimTrailingRetain(ops: Op[]): Op[] {
+    const last = ops[ops.length - 1];
+    return typeof last === 'number' && last > 0 ? ops.slice(0, -1) : ops;
+}
+
 // Calculate text operation from old to new text
 export function calculateTextOperation(oldText: string, newText: string): TextOperation {
     const op = new TextOperation();
@@ -0,0 +1,146 @@
+// Client/Server OT Protocol for Code Synchronization
+// The session host is the server of record: it orders every operation into a
+// numbered revision history, and each peer tracks its own unacknowledged ops.
+
+import { TextOperation } from './ot-engine';
+
+export type OTClientState = 'synchronized' | 'awaiting-confirm' | 'awaiting-with-buffer';
+
+/**
+ * Peer-side protocol state.
+ *
+ * A client has at most one operation in flight (`outstanding`). Edits made
+ * while waiting for the acknowledgement are composed into a single `buffer`
+ * operation, sent as soon as the outstanding one is acknowledged. Operations
+ * arriving from the server are transformed against everything the server has
+ * not yet seen.
+ */
+export class OTClient {
+    revision: number;
+    outstanding: TextOperation | null;
+    buffer: TextOperation | null;
+
+    constructor(revision = 0) {
+        this.revision = revision;
+        this.outstanding = null;
+        this.buffer = null;
+    }
+
+    get state(): OTClientState {
+        if (!this.outstanding) return 'synchronized';
+        return this.buffer ? 'awaiting-with-buffer' : 'awaiting-confirm';
+    }
+
+    /**
+     * Register a local edit. Returns the operation to send to the server now,
+     * or null when it has been buffered behind the outstanding operation.
+     */
+    applyClient(operation: TextOperation): TextOperation | null {
+        if (!this.outstanding) {
+            this.outstanding = operation;
+            return operation;
+        }
+        this.buffer = this.buffer ? this.buffer.compose(operation) : operation;
+        return null;
+    }
+
+    /**
+     * The server acknowledged the outstanding operation. Returns the buffered
+     * operation to send next, or null when the client is synchronized.
+     */
+    serverAck(): TextOperation | null {
+        this.revision++;
+        this.outstanding = this.buffer;
+        this.buffer = null;
+        return this.outstanding;
+    }
+
+    /**
+     * Receive an operation ordered by the server. Returns it transformed
+     * against the local unacknowledged operations, ready to apply to the
+     * local document.
+     */
+    applyServer(operation: TextOperation): TextOperation {
+        this.revision++;
+        let incoming = operation;
+
+        if (this.outstanding) {
+            const [outstanding, transformed] = TextOperation.transform(this.outstanding, incoming);
+            this.outstanding = outstanding;
+            incoming = transformed;
+        }
+
+        if (this.buffer) {
+            const [buffer, transformed] = TextOperation.transform(this.buffer, incoming);
+            this.buffer = buffer;
+            incoming = transformed;
+        }
+
+        return incoming;
+    }
+
+    /** Drop all unacknowledged operations and adopt the given revision (after a full resync). */
+    reset(revision: number): void {
+        this.revision = revision;
+        this.outstanding = null;
+        this.buffer = null;
+    }
+}
+
+/**
+ * Host-side protocol state: the authoritative revision history.
+ *
+ * `baseRevision` lets a peer that is promoted to host mid-session continue
+ * numbering from the revision it had already reached as a client.
+ */
+export class OTServer {
+    baseRevision: number;
+    history: TextOperation[];
+
+    constructor(baseRevision = 0) {
+        this.baseRevision = baseRevision;
+        this.history = [];
+    }
+
+    get revision(): number {
+        return this.baseRevision + this.history.length;
+    }
+
+    /**
+     * Order an operation that was based on `revision`. It is transformed
+     * against every operation the sender had not seen yet, appended to the
+     * history, and returned for application and broadcast.
+     */
+    receiveOperation(revision: number, operation: TextOperation): TextOperation {
+        if (revision < this.baseRevision || revision > this.revision) {
+            throw new Error(`Operation revision ${revision} is outside history (${this.baseRevision}-${this.revision})`);
+        }
+
+        let transformed = operation;
+        for (const concurrent of this.history.slice(revision - this.baseRevision)) {
+            [transformed] = TextOperation.transform(transformed, concurrent);
+        }
+
+        this.history.push(transformed);
+        return transformed;
+    }
+
+    /** Discard history and restart numbering at `revision`. */
+    reset(revision: number): void {
+        this.baseRevision = revision;
+        this.history = [];
+    }
+}
+
+/**
+ * Cheap content fingerprint (length + 32-bit FNV-1a) that peers exchange to
+ * confirm their documents have converged at a given revision.
+ */
+export function computeChecksum(text: string): string {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return `${text.length.toString(36)}-${(hash >>> 0).toString(16)}`;
+}
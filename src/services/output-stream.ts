@@ -0,0 +1,68 @@
+/**
+ * output-stream.ts — Streams a worker's program output to the page.
+ *
+ * Workers write output as the program produces it; it is posted as
+ * { type: 'output', stream, text } messages, batched so a chatty program
+ * doesn't flood the page. Concatenating every chunk of a stream gives the
+ * `stdout`/`stderr` of the final `result` message.
+ */
+
+export type OutputStreamName = 'stdout' | 'stderr';
+
+export interface OutputChunk {
+  stream: OutputStreamName;
+  text: string;
+}
+
+export interface OutputStream {
+  /** Appends raw text. */
+  write: (stream: OutputStreamName, text: string) => void;
+  /** Appends a line; lines of a stream are joined by newlines. */
+  writeLine: (stream: OutputStreamName, line: string) => void;
+  /** Posts whatever is pending; call before posting the result. */
+  flush: () => void;
+}
+
+const FLUSH_INTERVAL = 50; // ms
+const FLUSH_SIZE = 4096; // chars
+
+export function createOutputStream(
+  post: (message: { type: 'output' } & OutputChunk) => void = (message) => self.postMessage(message),
+): OutputStream {
+  let pending: OutputChunk | null = null;
+  let lastFlush = performance.now();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const hasLines: Record<OutputStreamName, boolean> = { stdout: false, stderr: false };
+
+  function flush() {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    if (pending) {
+      post({ type: 'output', ...pending });
+      pending = null;
+    }
+    lastFlush = performance.now();
+  }
+
+  function write(stream: OutputStreamName, text: string) {
+    if (!text) return;
+    if (pending && pending.stream !== stream) flush();
+    pending = { stream, text: (pending?.text ?? '') + text };
+
+    // Synchronous programs block timers, so also flush from here
+    if (pending.text.length >= FLUSH_SIZE || performance.now() - lastFlush >= FLUSH_INTERVAL) {
+      flush();
+    } else if (!timer) {
+      timer = setTimeout(flush, FLUSH_INTERVAL);
+    }
+  }
+
+  function writeLine(stream: OutputStreamName, line: string) {
+    write(stream, hasLines[stream] ? `\n${line}` : line);
+    hasLines[stream] = true;
+  }
+
+  return { write, writeLine, flush };
+}
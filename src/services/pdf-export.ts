@@ -2,10 +2,13 @@
  * PDF Export Service
  *
  * Generates a PDF report of the current interview session including
- * session metadata, code, diagram snapshot, and chat messages.
+ * session metadata, workspace files, diagram snapshot, chat messages and,
+ * for interviewers, their scorecard and private notes.
  */
 
 import { jsPDF } from 'jspdf';
+import { renderDiagramImage } from './canvas-render';
+import type { Stroke } from './canvas-logic';
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
@@ -24,6 +27,12 @@ export interface ChatMessage {
   timestamp?: string;
 }
 
+export interface ExportedFile {
+  name: string;
+  language: string;
+  code: string;
+}
+
 export interface PDFExportData {
   sessionId: string;
   peerName: string;
@@ -31,8 +40,30 @@ export interface PDFExportData {
   sessionStartTime: number | null;
   code: string;
   language: string;
+  /** Workspace files; each gets its own code section. Falls back to `code`. */
+  files?: ExportedFile[];
   messages: ChatMessage[];
   canvasElement: HTMLCanvasElement | null;
+  /** Diagram strokes; drawn whole in place of `canvasElement`, which only shows what is on screen. */
+  strokes?: Stroke[];
+  /** Background for the drawn strokes, so strokes drawn for the canvas theme stay visible. */
+  canvasBackground?: string;
+  /** Private interviewer notes; only pass them when the exporter may see them. */
+  notes?: ExportedNotes | null;
+  /** Interview scorecard; like `notes`, only for exporters who may see it. */
+  scorecard?: ExportedCompetency[] | null;
+}
+
+export interface ExportedCompetency {
+  name: string;
+  /** 1–4, or null if not rated. */
+  rating: number | null;
+  comment: string;
+}
+
+export interface ExportedNotes {
+  text: string;
+  updatedBy?: string;
 }
 
 type SupportedLanguage = 'javascript' | 'typescript' | 'python' | 'java' | 'cpp' | 'csharp' | 'go' | 'rust';
@@ -228,8 +259,13 @@ export function exportToPDF({
   sessionStartTime,
   code,
   language,
+  files,
   messages,
   canvasElement,
+  strokes,
+  canvasBackground = '#ffffff',
+  notes,
+  scorecard,
 }: PDFExportData): string {
   const doc = new jsPDF();
 
@@ -301,12 +337,19 @@ export function exportToPDF({
     sessionDuration = hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
   }
 
+  const exportedFiles = files && files.length > 0 ? files : [{ name: '', language, code }];
+  const languages = Array.from(new Set(exportedFiles.map((f) => f.language)));
+  const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
   const metadataLines = [
     `Session ID: ${sessionId}`,
     `Exported by: ${peerName || 'Unknown'}`,
     `Export Date: ${formattedDate}`,
     `Session Duration: ${sessionDuration}`,
-    `Programming Language: ${language.charAt(0).toUpperCase() + language.slice(1)}`,
+    `Programming Language${languages.length > 1 ? 's' : ''}: ${languages.map(capitalize).join(', ')}`,
+    ...(exportedFiles.length > 1
+      ? [`Files (${exportedFiles.length}): ${exportedFiles.map((f) => f.name).join(', ')}`]
+      : []),
     `Participants (${participantNames.length}): ${participantNames.join(', ')}`,
   ];
 
@@ -320,54 +363,59 @@ export function exportToPDF({
   yPosition += 5;
 
   // === CODE SECTION ===
-  drawSectionHeader('Code Editor');
-
-  if (code && code.trim()) {
-    doc.setFontSize(9);
-    doc.setFont('courier', 'normal');
-    const codeLines = doc.splitTextToSize(code, contentWidth - 6);
-    const codeHeight = Math.min(
-      codeLines.length * 4 + 6,
-      pageHeight - yPosition - margin - 10
-    );
-
-    checkPageBreak(codeHeight);
-    doc.setFillColor(248, 248, 248);
-    doc.setDrawColor(200, 200, 200);
-    doc.rect(margin, yPosition, contentWidth, codeHeight, 'FD');
+  // One section per workspace file
+  exportedFiles.forEach(({ name, language: fileLanguage, code: fileCode }) => {
+    drawSectionHeader(exportedFiles.length > 1 ? `Code Editor: ${name}` : 'Code Editor');
 
-    yPosition += 4;
-    const rawLines = code.split('\n');
-    const lineHeight = 4;
-
-    rawLines.forEach((line) => {
-      if (yPosition + lineHeight > pageHeight - margin) {
-        doc.addPage();
-        yPosition = margin + 4;
-        doc.setFillColor(248, 248, 248);
-        doc.setDrawColor(200, 200, 200);
-      }
-      renderCodeLineWithColors(doc, line, margin + 3, yPosition, language);
-      yPosition += lineHeight;
-    });
-    yPosition += 8;
-  } else {
-    doc.setFontSize(10);
-    doc.setFont('helvetica', 'italic');
-    doc.setTextColor(128, 128, 128);
-    doc.text('No code content', margin, yPosition);
-    doc.setTextColor(0, 0, 0);
-    yPosition += 10;
-  }
+    if (fileCode && fileCode.trim()) {
+      doc.setFontSize(9);
+      doc.setFont('courier', 'normal');
+      const codeLines = doc.splitTextToSize(fileCode, contentWidth - 6);
+      const codeHeight = Math.min(
+        codeLines.length * 4 + 6,
+        pageHeight - yPosition - margin - 10
+      );
+
+      checkPageBreak(codeHeight);
+      doc.setFillColor(248, 248, 248);
+      doc.setDrawColor(200, 200, 200);
+      doc.rect(margin, yPosition, contentWidth, codeHeight, 'FD');
+
+      yPosition += 4;
+      const rawLines = fileCode.split('\n');
+      const lineHeight = 4;
+
+      rawLines.forEach((line) => {
+        if (yPosition + lineHeight > pageHeight - margin) {
+          doc.addPage();
+          yPosition = margin + 4;
+          doc.setFillColor(248, 248, 248);
+          doc.setDrawColor(200, 200, 200);
+        }
+        renderCodeLineWithColors(doc, line, margin + 3, yPosition, fileLanguage);
+        yPosition += lineHeight;
+      });
+      yPosition += 8;
+    } else {
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'italic');
+      doc.setTextColor(128, 128, 128);
+      doc.text('No code content', margin, yPosition);
+      doc.setTextColor(0, 0, 0);
+      yPosition += 10;
+    }
+  });
 
   // === DIAGRAM SECTION ===
   checkPageBreak(60);
   drawSectionHeader('Diagram');
 
-  if (canvasElement) {
+  const diagramCanvas = (strokes && renderDiagramImage(strokes, canvasBackground)) || canvasElement;
+
+  if (diagramCanvas) {
     try {
-      const canvasData = canvasElement.toDataURL('image/png');
-      const canvasAspectRatio = canvasElement.width / canvasElement.height;
+      const canvasData = diagramCanvas.toDataURL('image/png');
+      const canvasAspectRatio = diagramCanvas.width / diagramCanvas.height;
       let imgWidth = contentWidth;
       let imgHeight = imgWidth / canvasAspectRatio;
 
@@ -477,6 +525,77 @@ export function exportToPDF({
     yPosition += 10;
   }
 
+  // === SCORECARD SECTION ===
+  if (scorecard && scorecard.length > 0) {
+    checkPageBreak(30);
+    drawSectionHeader('Scorecard');
+
+    const ratings = scorecard.map((c) => c.rating).filter((r): r is number => r !== null);
+    if (ratings.length > 0) {
+      const average = ratings.reduce((sum, r) => sum + r, 0) / ratings.length;
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.text(`Average rating: ${average.toFixed(1)} / 4`, margin, yPosition);
+      yPosition += 7;
+    }
+
+    scorecard.forEach((competency) => {
+      const commentLines = competency.comment.trim()
+        ? (doc.splitTextToSize(competency.comment.trim(), contentWidth - 5) as string[])
+        : [];
+      checkPageBreak(8 + commentLines.length * 4);
+
+      doc.setFontSize(10);
+      doc.setFont('helvetica', 'bold');
+      doc.text(competency.name, margin, yPosition);
+      doc.setFont('helvetica', 'normal');
+      doc.text(competency.rating !== null ? `${competency.rating} / 4` : 'Not rated', pageWidth - margin, yPosition, {
+        align: 'right',
+      });
+      yPosition += 5;
+
+      if (commentLines.length > 0) {
+        doc.setFontSize(9);
+        doc.setTextColor(80, 80, 80);
+        doc.text(commentLines, margin + 3, yPosition);
+        doc.setTextColor(0, 0, 0);
+        yPosition += commentLines.length * 4;
+      }
+      yPosition += 3;
+    });
+    yPosition += 4;
+  }
+
+  // === NOTES SECTION ===
+  if (notes && notes.text.trim()) {
+    checkPageBreak(30);
+    drawSectionHeader('Interviewer Notes (private)');
+    doc.setFontSize(9);
+    doc.setFont('helvetica', 'normal');
+
+    if (notes.updatedBy) {
+      doc.setTextColor(128, 128, 128);
+      doc.text(`Last edited by ${notes.updatedBy}`, margin, yPosition);
+      doc.setTextColor(0, 0, 0);
+      yPosition += 6;
+    }
+
+    notes.text.split('\n').forEach((paragraph) => {
+      if (containsNonASCII(paragraph)) {
+        checkPageBreak(10);
+        yPosition += addTextToPDF(doc, paragraph, margin, yPosition, { maxWidth: contentWidth }) + 1;
+        return;
+      }
+      const lines = doc.splitTextToSize(paragraph || ' ', contentWidth) as string[];
+      lines.forEach((line) => {
+        checkPageBreak(5);
+        doc.text(line, margin, yPosition);
+        yPosition += 4;
+      });
+    });
+    yPosition += 6;
+  }
+
   // === FOOTER ===
   const totalPages = (doc as unknown as { internal: { getNumberOfPages(): number } }).internal.getNumberOfPages();
   for (let i = 1; i <= totalPages; i++) {
@@ -1,6 +1,10 @@
 // Client-side Data Persistence using localStorage and IndexedDB
 // Provides session data recovery on page reload
 
+import type { Competency } from './scorecard';
+import type { SharedQuestion, TestCase } from './question-bank';
+import type { ExecutionHistory } from './execution-history';
+
 export interface SessionData {
     sessionId: string;
     role: string;
@@ -29,11 +33,49 @@ interface CodeEntry {
     lastUpdated: number;
 }
 
+export interface PersistedFile {
+    id: string;
+    name: string;
+    language: string;
+    code: string;
+}
+
+export interface SavedWorkspace {
+    files: PersistedFile[];
+    activeFileId: string;
+}
+
+interface FilesEntry extends SavedWorkspace {
+    lastUpdated: number;
+}
+
 interface MessagesEntry {
     messages: unknown[];
     lastUpdated: number;
 }
 
+export interface SavedNotes {
+    text: string;
+    /** When the text was last changed, by whom — newer notes win when syncing. */
+    updatedAt: number;
+    updatedBy: string;
+}
+
+interface ScorecardEntry {
+    competencies: Competency[];
+    lastUpdated: number;
+}
+
+export interface SavedQuestion {
+    question: SharedQuestion;
+    /** Hidden tests, saved by interviewers only. */
+    tests: TestCase[];
+}
+
+interface HistoryEntry extends ExecutionHistory {
+    lastUpdated: number;
+}
+
 interface CanvasEntry {
     sessionId: string;
     dataUrl: string;
@@ -45,6 +87,11 @@ interface CanvasLocalStorageEntry {
     lastUpdated: number;
 }
 
+interface ReplayRecord {
+    sessionId: string;
+    event: unknown;
+}
+
 export const StorageManager = {
     // Storage keys prefix
     PREFIX: 'duocode_',
@@ -62,7 +109,7 @@ export const StorageManager = {
     // Initialize IndexedDB for canvas storage
     async initIndexedDB(): Promise<boolean> {
         return new Promise((resolve) => {
-            const request = indexedDB.open('DuoCodeStorage', 1);
+            const request = indexedDB.open('DuoCodeStorage', 2);
 
             request.onerror = () => {
                 console.warn('IndexedDB not available, falling back to localStorage');
@@ -88,6 +135,12 @@ export const StorageManager = {
                 if (!db.objectStoreNames.contains('sessions')) {
                     db.createObjectStore('sessions', { keyPath: 'sessionId' });
                 }
+
+                // Create object store for the session replay event log
+                if (!db.objectStoreNames.contains('replay')) {
+                    const replay = db.createObjectStore('replay', { keyPath: 'id', autoIncrement: true });
+                    replay.createIndex('sessionId', 'sessionId', { unique: false });
+                }
             };
         });
     },
@@ -165,6 +218,36 @@ export const StorageManager = {
         }
     },
 
+    // Save workspace files (debounced)
+    saveFiles(sessionId: string, files: PersistedFile[], activeFileId: string): void {
+        this._debounce(`files_${sessionId}`, () => {
+            try {
+                const entry: FilesEntry = {
+                    files,
+                    activeFileId,
+                    lastUpdated: Date.now()
+                };
+                localStorage.setItem(this._key('files', sessionId), JSON.stringify(entry));
+            } catch (error) {
+                console.error('Error saving files:', error);
+            }
+        }, 500);
+    },
+
+    // Load workspace files
+    loadFiles(sessionId: string): SavedWorkspace | null {
+        try {
+            const data = localStorage.getItem(this._key('files', sessionId));
+            if (!data) return null;
+            const entry: FilesEntry = JSON.parse(data);
+            if (!Array.isArray(entry.files) || entry.files.length === 0) return null;
+            return { files: entry.files, activeFileId: entry.activeFileId };
+        } catch (error) {
+            console.error('Error loading files:', error);
+            return null;
+        }
+    },
+
     // Save message history
     saveMessages(sessionId: string, messages: unknown[]): void {
         this._debounce(`messages_${sessionId}`, () => {
@@ -191,6 +274,104 @@ export const StorageManager = {
         }
     },
 
+    // Save private interviewer notes (debounced)
+    saveNotes(sessionId: string, notes: SavedNotes): void {
+        this._debounce(`notes_${sessionId}`, () => {
+            try {
+                localStorage.setItem(this._key('notes', sessionId), JSON.stringify(notes));
+            } catch (error) {
+                console.error('Error saving notes:', error);
+            }
+        }, 300);
+    },
+
+    // Load private interviewer notes
+    loadNotes(sessionId: string): SavedNotes | null {
+        try {
+            const data = localStorage.getItem(this._key('notes', sessionId));
+            return data ? (JSON.parse(data) as SavedNotes) : null;
+        } catch (error) {
+            console.error('Error loading notes:', error);
+            return null;
+        }
+    },
+
+    // Save the interview scorecard (debounced)
+    saveScorecard(sessionId: string, competencies: Competency[]): void {
+        this._debounce(`scorecard_${sessionId}`, () => {
+            try {
+                const data: ScorecardEntry = {
+                    competencies,
+                    lastUpdated: Date.now(),
+                };
+                localStorage.setItem(this._key('scorecard', sessionId), JSON.stringify(data));
+            } catch (error) {
+                console.error('Error saving scorecard:', error);
+            }
+        }, 300);
+    },
+
+    // Load the interview scorecard
+    loadScorecard(sessionId: string): Competency[] | null {
+        try {
+            const data = localStorage.getItem(this._key('scorecard', sessionId));
+            return data ? (JSON.parse(data) as ScorecardEntry).competencies : null;
+        } catch (error) {
+            console.error('Error loading scorecard:', error);
+            return null;
+        }
+    },
+
+    // Save the session's question
+    saveQuestion(sessionId: string, saved: SavedQuestion): void {
+        try {
+            localStorage.setItem(this._key('question', sessionId), JSON.stringify(saved));
+        } catch (error) {
+            console.error('Error saving question:', error);
+        }
+    },
+
+    // Load the session's question
+    loadQuestion(sessionId: string): SavedQuestion | null {
+        try {
+            const data = localStorage.getItem(this._key('question', sessionId));
+            return data ? (JSON.parse(data) as SavedQuestion) : null;
+        } catch (error) {
+            console.error('Error loading question:', error);
+            return null;
+        }
+    },
+
+    // Save the session's run history with the code of each run (debounced)
+    saveExecutionHistory(sessionId: string, history: ExecutionHistory): void {
+        this._debounce(`history_${sessionId}`, () => {
+            try {
+                const entry: HistoryEntry = {
+                    runs: history.runs,
+                    snapshots: history.snapshots,
+                    lastUpdated: Date.now()
+                };
+                localStorage.setItem(this._key('history', sessionId), JSON.stringify(entry));
+            } catch (error) {
+                console.error('Error saving execution history:', error);
+            }
+        }, 500);
+    },
+
+    // Load the session's run history
+    loadExecutionHistory(sessionId: string): ExecutionHistory | null {
+        try {
+            const data = localStorage.getItem(this._key('history', sessionId));
+            if (!data) return null;
+            const entry: HistoryEntry = JSON.parse(data);
+            if (!Array.isArray(entry.runs)) return null;
+            return { runs: entry.runs, snapshots: entry.snapshots ?? {} };
+        } catch (error) {
+            console.error('Error loading execution history:', error);
+            return null;
+        }
+    },
+
     // Save canvas to IndexedDB (for large data)
     async saveCanvas(sessionId: string, canvasDataUrl: string): Promise<void> {
         this._debounce(`canvas_${sessionId}`, async () => {
@@ -258,6 +439,59 @@ export const StorageManager = {
         }
     },
 
+    // Append events to the session replay log (IndexedDB, append-only)
+    async appendReplayEvents(sessionId: string, events: unknown[]): Promise<void> {
+        if (events.length === 0) return;
+
+        if (this._dbReady && this._db) {
+            try {
+                const transaction = this._db.transaction(['replay'], 'readwrite');
+                const store = transaction.objectStore('replay');
+                events.forEach((event) => store.add({ sessionId, event } as ReplayRecord));
+                await new Promise<void>((resolve, reject) => {
+                    transaction.oncomplete = () => resolve();
+                    transaction.onerror = () => reject(transaction.error);
+                });
+                return;
+            } catch (error) {
+                // Fall through to localStorage
+            }
+        }
+
+        try {
+            const key = this._key('replay', sessionId);
+            const existing = JSON.parse(localStorage.getItem(key) || '[]') as unknown[];
+            localStorage.setItem(key, JSON.stringify([...existing, ...events]));
+        } catch (error) {
+            // Likely quota exceeded
+        }
+    },
+
+    // Load the session replay log in recording order
+    async loadReplayEvents(sessionId: string): Promise<unknown[]> {
+        if (this._dbReady && this._db) {
+            try {
+                const transaction = this._db.transaction(['replay'], 'readonly');
+                const index = transaction.objectStore('replay').index('sessionId');
+                const records = await new Promise<ReplayRecord[]>((resolve, reject) => {
+                    const request = index.getAll(sessionId);
+                    request.onsuccess = () => resolve(request.result as ReplayRecord[]);
+                    request.onerror = () => reject(request.error);
+                });
+                if (records.length > 0) return records.map((record) => record.event);
+            } catch (error) {
+                // Fall through to localStorage
+            }
+        }
+
+        try {
+            const data = localStorage.getItem(this._key('replay', sessionId));
+            return data ? (JSON.parse(data) as unknown[]) : [];
+        } catch (error) {
+            return [];
+        }
+    },
+
     // Save OT synchronization state
     saveOTState(sessionId: string, otState: Partial<OTState>): void {
         this._debounce(`ot_${sessionId}`, () => {
@@ -292,7 +526,7 @@ export const StorageManager = {
 
     // Clear all data for a session
     clearSession(sessionId: string): void {
-        const keys = ['session', 'code', 'messages', 'canvas', 'ot'];
+        const keys = ['session', 'code', 'files', 'messages', 'notes', 'scorecard', 'question', 'history', 'canvas', 'ot', 'replay'];
         keys.forEach(key => {
             localStorage.removeItem(this._key(key, sessionId));
         });
@@ -306,6 +540,21 @@ export const StorageManager = {
             } catch (error) {
                 console.error('Error clearing canvas from IndexedDB:', error);
             }
+
+            try {
+                const transaction = this._db.transaction(['replay'], 'readwrite');
+                const index = transaction.objectStore('replay').index('sessionId');
+                const request = index.openKeyCursor(IDBKeyRange.only(sessionId));
+                request.onsuccess = () => {
+                    const cursor = request.result;
+                    if (cursor) {
+                        transaction.objectStore('replay').delete(cursor.primaryKey);
+                        cursor.continue();
+                    }
+                };
+            } catch (error) {
+                console.error('Error clearing replay log from IndexedDB:', error);
+            }
         }
 
     },
@@ -378,6 +627,7 @@ export const StorageManager = {
     hasPersistedData(sessionId: string): boolean {
         return localStorage.getItem(this._key('session', sessionId)) !== null ||
                localStorage.getItem(this._key('code', sessionId)) !== null ||
+               localStorage.getItem(this._key('files', sessionId)) !== null ||
                localStorage.getItem(this._key('messages', sessionId)) !== null;
     }
 };
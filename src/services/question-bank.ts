@@ -0,0 +1,380 @@
+/**
+ * Question Bank Service
+ *
+ * Interview problems the host can start a session with: a Markdown statement,
+ * starter code per language, an optional starter diagram, and hidden test
+ * cases. Tests feed `input` to the program's stdin and compare its stdout
+ * with `expectedOutput`, so the same cases work in every language.
+ */
+
+import type { Stroke } from './canvas-logic';
+import { codeTemplates } from './code-editor-logic';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export interface TestCase {
+  id: string;
+  input: string;
+  expectedOutput: string;
+}
+
+export interface Question {
+  id: string;
+  title: string;
+  difficulty: Difficulty;
+  /** Problem statement in Markdown. */
+  statement: string;
+  /** Starter code keyed by language. */
+  starterCode: Record<string, string>;
+  starterDiagram?: Stroke[];
+  /** Hidden from candidates; only interviewers receive them. */
+  tests: TestCase[];
+}
+
+/** What every participant gets: the question without its tests. */
+export type SharedQuestion = Omit<Question, 'tests'>;
+
+// ── Questions ────────────────────────────────────────────────────────────────
+
+const fizzBuzz: Question = {
+  id: 'fizzbuzz',
+  title: 'FizzBuzz',
+  difficulty: 'easy',
+  statement: `# FizzBuzz
+
+Read an integer \`n\` from stdin and print the numbers from 1 to \`n\`, one per line, except:
+
+- print **Fizz** for multiples of 3,
+- print **Buzz** for multiples of 5,
+- print **FizzBuzz** for multiples of both.
+
+## Example
+
+\`\`\`
+Input:  5
+Output: 1
+        2
+        Fizz
+        4
+        Buzz
+\`\`\``,
+  starterCode: {
+    javascript: `function fizzBuzz(n) {
+  // Your code here
+}
+
+const n = Number(readline());
+fizzBuzz(n);`,
+    typescript: `function fizzBuzz(n: number): void {
+  // Your code here
+}
+
+const n = Number(readline());
+fizzBuzz(n);`,
+    python: `def fizz_buzz(n):
+    # Your code here
+    pass
+
+
+n = int(input())
+fizz_buzz(n)`,
+    cpp: `#include <iostream>
+
+void fizzBuzz(int n) {
+    // Your code here
+}
+
+int main() {
+    int n;
+    std::cin >> n;
+    fizzBuzz(n);
+    return 0;
+}`,
+    go: `package main
+
+import "fmt"
+
+func fizzBuzz(n int) {
+	// Your code here
+}
+
+func main() {
+	var n int
+	fmt.Scan(&n)
+	fizzBuzz(n)
+}`,
+  },
+  tests: [
+    { id: 'small', input: '5', expectedOutput: '1\n2\nFizz\n4\nBuzz' },
+    { id: 'fizzbuzz', input: '15', expectedOutput: '1\n2\nFizz\n4\nBuzz\nFizz\n7\n8\nFizz\nBuzz\n11\nFizz\n13\n14\nFizzBuzz' },
+    { id: 'one', input: '1', expectedOutput: '1' },
+  ],
+};
+
+const twoSum: Question = {
+  id: 'two-sum',
+  title: 'Two Sum',
+  difficulty: 'easy',
+  statement: `# Two Sum
+
+The first line of stdin holds space-separated integers \`nums\`, the second an integer \`target\`.
+
+Print the indices of the two numbers that add up to \`target\`, smaller index first, separated by a space. Every input has exactly one solution, and the same element can't be used twice.
+
+## Example
+
+\`\`\`
+Input:  2 7 11 15
+        9
+Output: 0 1
+\`\`\`
+
+Can you do better than O(n²)?`,
+  starterCode: {
+    javascript: `function twoSum(nums, target) {
+  // Your code here
+  return [];
+}
+
+const nums = readline().split(' ').map(Number);
+const target = Number(readline());
+console.log(twoSum(nums, target).join(' '));`,
+    typescript: `function twoSum(nums: number[], target: number): number[] {
+  // Your code here
+  return [];
+}
+
+const nums = readline().split(' ').map(Number);
+const target = Number(readline());
+console.log(twoSum(nums, target).join(' '));`,
+    python: `def two_sum(nums, target):
+    # Your code here
+    return []
+
+
+nums = list(map(int, input().split()))
+target = int(input())
+print(*two_sum(nums, target))`,
+    cpp: `#include <iostream>
+#include <sstream>
+#include <string>
+#include <vector>
+
+std::vector<int> twoSum(const std::vector<int>& nums, int target) {
+    // Your code here
+    return {};
+}
+
+int main() {
+    std::string line;
+    std::getline(std::cin, line);
+    std::istringstream in(line);
+    std::vector<int> nums;
+    for (int x; in >> x;) nums.push_back(x);
+    int target;
+    std::cin >> target;
+    std::vector<int> result = twoSum(nums, target);
+    for (size_t i = 0; i < result.size(); i++) {
+        std::cout << (i ? " " : "") << result[i];
+    }
+    std::cout << std::endl;
+    return 0;
+}`,
+    go: `package main
+
+import (
+	"bufio"
+	"fmt"
+	"os"
+	"strconv"
+	"strings"
+)
+
+func twoSum(nums []int, target int) []int {
+	// Your code here
+	return nil
+}
+
+func main() {
+	reader := bufio.NewReader(os.Stdin)
+	line, _ := reader.ReadString('\\n')
+	var nums []int
+	for _, field := range strings.Fields(line) {
+		n, _ := strconv.Atoi(field)
+		nums = append(nums, n)
+	}
+	var target int
+	fmt.Fscan(reader, &target)
+	result := twoSum(nums, target)
+	out := make([]string, len(result))
+	for i, n := range result {
+		out[i] = strconv.Itoa(n)
+	}
+	fmt.Println(strings.Join(out, " "))
+}`,
+  },
+  tests: [
+    { id: 'example', input: '2 7 11 15\n9', expectedOutput: '0 1' },
+    { id: 'middle', input: '3 2 4\n6', expectedOutput: '1 2' },
+    { id: 'duplicates', input: '3 3\n6', expectedOutput: '0 1' },
+    { id: 'negatives', input: '-1 -2 -3 -4 -5\n-8', expectedOutput: '2 4' },
+  ],
+};
+
+const validParentheses: Question = {
+  id: 'valid-parentheses',
+  title: 'Valid Parentheses',
+  difficulty: 'medium',
+  statement: `# Valid Parentheses
+
+Read a string of \`()[]{}\` characters from stdin and print \`true\` if the brackets are balanced, otherwise \`false\`.
+
+A string is balanced when every opening bracket is closed by the same type of bracket, in the right order.
+
+## Examples
+
+- \`()[]{}\` → \`true\`
+- \`([)]\` → \`false\`
+- \`{[]}\` → \`true\``,
+  starterCode: {
+    javascript: `function isValid(s) {
+  // Your code here
+  return false;
+}
+
+console.log(isValid(readline().trim()));`,
+    typescript: `function isValid(s: string): boolean {
+  // Your code here
+  return false;
+}
+
+console.log(isValid(readline().trim()));`,
+    python: `def is_valid(s):
+    # Your code here
+    return False
+
+
+print(str(is_valid(input().strip())).lower())`,
+    cpp: `#include <iostream>
+#include <string>
+
+bool isValid(const std::string& s) {
+    // Your code here
+    return false;
+}
+
+int main() {
+    std::string s;
+    std::getline(std::cin, s);
+    std::cout << (isValid(s) ? "true" : "false") << std::endl;
+    return 0;
+}`,
+    go: `package main
+
+import "fmt"
+
+func isValid(s string) bool {
+	// Your code here
+	return false
+}
+
+func main() {
+	var s string
+	fmt.Scanln(&s)
+	fmt.Println(isValid(s))
+}`,
+  },
+  tests: [
+    { id: 'mixed', input: '()[]{}', expectedOutput: 'true' },
+    { id: 'interleaved', input: '([)]', expectedOutput: 'false' },
+    { id: 'nested', input: '{[]}', expectedOutput: 'true' },
+    { id: 'unclosed', input: '((', expectedOutput: 'false' },
+    { id: 'stray-close', input: '())', expectedOutput: 'false' },
+  ],
+};
+
+const box = (id: string, x: number, y: number, label: string): Stroke => ({
+  id,
+  tool: 'rectangle',
+  color: '#ffffff',
+  width: 2,
+  start: { x, y },
+  end: { x: x + 140, y: y + 60 },
+  text: label,
+});
+
+/** An arrow attached to shapes `from` and `to`, so it follows them around. */
+const arrow = (id: string, from: Stroke, to: Stroke): Stroke => ({
+  id,
+  tool: 'arrow',
+  color: '#ffffff',
+  width: 2,
+  start: from.end,
+  end: to.start,
+  from: from.id,
+  to: to.id,
+});
+
+const client = box('client', 60, 120, 'Client');
+const api = box('api', 300, 120, 'API Service');
+const database = box('database', 540, 120, 'Database');
+
+const urlShortener: Question = {
+  id: 'url-shortener',
+  title: 'Design a URL Shortener',
+  difficulty: 'medium',
+  statement: `# Design a URL Shortener
+
+Design a service like bit.ly that turns long URLs into short links and redirects visitors to the original URL.
+
+## Requirements
+
+- Create a short link for a long URL
+- Redirect a short link to its URL with low latency
+- Around 100M new links a month; reads outnumber writes 100:1
+
+## Discuss
+
+1. How are short codes generated, and how are collisions avoided?
+2. What does the data model look like, and where is it stored?
+3. How do redirects stay fast as traffic grows?
+
+The diagram tab has a starting point — extend it as you go.`,
+  starterCode: {},
+  starterDiagram: [
+    client,
+    api,
+    database,
+    arrow('client-api', client, api),
+    arrow('api-database', api, database),
+  ],
+  tests: [],
+};
+
+export const QUESTION_BANK: Question[] = [fizzBuzz, twoSum, validParentheses, urlShortener];
+
+// ── Functions ────────────────────────────────────────────────────────────────
+
+export function getQuestion(id: string): Question | undefined {
+  return QUESTION_BANK.find((q) => q.id === id);
+}
+
+/** Languages with starter code, in the order the question lists them. */
+export function getStarterLanguages(question: SharedQuestion): string[] {
+  return Object.keys(question.starterCode);
+}
+
+/**
+ * Starter code for `language`, falling back to the language's blank template
+ * for questions without any (e.g. system design).
+ */
+export function getStarterCode(question: SharedQuestion, language: string): string {
+  return question.starterCode[language] ?? codeTemplates[language] ?? '';
+}
+
+export function toSharedQuestion({ tests: _tests, ...question }: Question): SharedQuestion {
+  return question;
+}
+
@@ -0,0 +1,126 @@
+/**
+ * Roles Service
+ *
+ * Participant roles and the permissions each one grants. The host assigns
+ * roles and, being the only peer that knows who sent each message (everyone
+ * else receives them relayed through it), enforces them for the session.
+ */
+
+import type { DataChannelMessage } from './connection-manager';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type Role = 'interviewer' | 'candidate' | 'observer';
+
+/**
+ * - edit: change code, files and languages
+ * - draw: change the diagram
+ * - chat: send chat messages
+ * - run: execute code for everyone
+ * - viewNotes: read and write the interviewers' private notes and scorecard,
+ *   and see and run the question's hidden tests
+ */
+export type Permission = 'edit' | 'draw' | 'chat' | 'run' | 'viewNotes';
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+export const ROLES: Role[] = ['interviewer', 'candidate', 'observer'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  interviewer: 'Interviewer',
+  candidate: 'Candidate',
+  observer: 'Observer',
+};
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  interviewer: ['edit', 'draw', 'chat', 'run', 'viewNotes'],
+  candidate: ['edit', 'draw', 'chat', 'run'],
+  observer: [],
+};
+
+// ── Functions ────────────────────────────────────────────────────────────────
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as string[]).includes(value);
+}
+
+/**
+ * The role a participant has until the host assigns one: whoever starts the
+ * session interviews, everyone joining is a candidate.
+ */
+export function getDefaultRole(isHost: boolean): Role {
+  return isHost ? 'interviewer' : 'candidate';
+}
+
+export function hasPermission(role: Role, permission: Permission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+/**
+ * The permission a peer needs to send a message, or null if anyone may.
+ */
+export function getMessagePermission(message: DataChannelMessage): Permission | null {
+  switch (message.type) {
+    case 'code-operation':
+    case 'code':
+    case 'language':
+    case 'file-create':
+    case 'file-rename':
+    case 'file-delete':
+      return 'edit';
+
+    case 'canvas':
+    case 'canvas-ops':
+    case 'canvas-sync':
+      return 'draw';
+
+    case 'message':
+      return 'chat';
+
+    case 'execution-start':
+    case 'execution-output':
+      return 'run';
+
+    // Only those who know the hidden tests can report a run against them
+    case 'execution-result':
+      return message.testResults ? 'viewNotes' : 'run';
+
+    case 'notes':
+    case 'notes-request':
+    case 'scorecard':
+    case 'scorecard-request':
+    case 'question-tests':
+    case 'question-tests-request':
+      return 'viewNotes';
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * The permission a peer needs to receive a message, or null if it goes to
+ * everyone. Such messages are only sent or relayed to peers that have it.
+ */
+export function getRecipientPermission(message: DataChannelMessage): Permission | null {
+  switch (message.type) {
+    case 'notes':
+    case 'notes-request':
+    case 'scorecard':
+    case 'scorecard-request':
+    case 'question-tests':
+    case 'question-tests-request':
+      return 'viewNotes';
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Whether a participant with `role` may send `message`.
+ */
+export function isMessageAllowed(message: DataChannelMessage, role: Role): boolean {
+  const permission = getMessagePermission(message);
+  return permission === null || hasPermission(role, permission);
+}
@@ -0,0 +1,132 @@
+/**
+ * runtime-backends.ts — Where each non-JS language runs.
+ *
+ * A RuntimeBackend creates the worker for its languages and declares what it
+ * can do. wasm-runtime-manager routes every language to one backend: the
+ * built-in ones below by default, overridden by any a deployment registers
+ * (e.g. createRunnerBackend() for a self-hosted code runner).
+ *
+ * Workers speak one protocol. In: { type: 'init', ...backend.init } once,
+ * then { type: 'run', code, language, timeout, stdin, memoryLimit }.
+ * Out: 'progress' / 'ready' / 'error' while loading, then 'output' chunks
+ * (see output-stream.ts) and one 'result' per run.
+ */
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export interface RuntimeCapabilities {
+  /** Programs can read stdin. */
+  stdin: boolean;
+  /** Can run a question's hidden tests (see test-runner.ts). */
+  tests: boolean;
+  /** Longest a run may take, in ms. */
+  timeLimit: number;
+  /** Most memory a run may use, in MB; null if not enforced. */
+  memoryLimit: number | null;
+}
+
+/** The part of Worker the runtime manager uses, so tests can stand in for it. */
+export interface RuntimeWorker {
+  postMessage(message: unknown): void;
+  terminate(): void;
+  onmessage: ((event: MessageEvent) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+}
+
+export interface RuntimeBackend {
+  /** Shown to users, e.g. in errors. */
+  name: string;
+  languages: string[];
+  capabilities: RuntimeCapabilities;
+  /** Null where workers can't run (e.g. outside a browser). */
+  createWorker: (language: string) => RuntimeWorker | null;
+  /** Extra fields for the worker's init message. */
+  init?: Record<string, unknown>;
+}
+
+// ── Built-in backends ────────────────────────────────────────────────────────
+
+// Each worker URL must stay a literal `new URL(...)` so Vite bundles it
+function moduleWorker(create: () => Worker): RuntimeWorker | null {
+  return typeof Worker === 'undefined' ? null : create();
+}
+
+export const pyodideBackend: RuntimeBackend = {
+  name: 'Pyodide',
+  languages: ['python'],
+  capabilities: { stdin: true, tests: true, timeLimit: 10_000, memoryLimit: null },
+  createWorker: () =>
+    moduleWorker(() => new Worker(new URL('./runtimes/python.worker.ts', import.meta.url), { type: 'module' })),
+};
+
+export const compilerExplorerBackend: RuntimeBackend = {
+  name: 'Compiler Explorer',
+  languages: ['c', 'cpp'],
+  capabilities: { stdin: true, tests: true, timeLimit: 15_000, memoryLimit: null },
+  createWorker: () =>
+    moduleWorker(() => new Worker(new URL('./runtimes/cpp.worker.ts', import.meta.url), { type: 'module' })),
+};
+
+export const goPlaygroundBackend: RuntimeBackend = {
+  name: 'Go Playground',
+  languages: ['go'],
+  capabilities: { stdin: true, tests: true, timeLimit: 15_000, memoryLimit: null },
+  createWorker: () =>
+    moduleWorker(() => new Worker(new URL('./runtimes/go.worker.ts', import.meta.url), { type: 'module' })),
+};
+
+export const rubyWasmBackend: RuntimeBackend = {
+  name: 'ruby.wasm',
+  languages: ['ruby'],
+  capabilities: { stdin: true, tests: true, timeLimit: 10_000, memoryLimit: null },
+  createWorker: () =>
+    moduleWorker(() => new Worker(new URL('./runtimes/ruby.worker.ts', import.meta.url), { type: 'module' })),
+};
+
+export const wasmoonBackend: RuntimeBackend = {
+  name: 'Wasmoon',
+  languages: ['lua'],
+  capabilities: { stdin: true, tests: true, timeLimit: 10_000, memoryLimit: null },
+  createWorker: () =>
+    moduleWorker(() => new Worker(new URL('./runtimes/lua.worker.ts', import.meta.url), { type: 'module' })),
+};
+
+export const BUILT_IN_BACKENDS: RuntimeBackend[] = [
+  pyodideBackend,
+  compilerExplorerBackend,
+  goPlaygroundBackend,
+  rubyWasmBackend,
+  wasmoonBackend,
+];
+
+// ── Self-hosted code runner ──────────────────────────────────────────────────
+
+/** Everything server/runner.js can run, given the toolchains. */
+export const RUNNER_LANGUAGES = ['c', 'cpp', 'go', 'java', 'kotlin', 'rust', 'csharp', 'swift', 'scala', 'php'];
+
+export interface RunnerOptions {
+  url: string;
+  /** Defaults to RUNNER_LANGUAGES. */
+  languages?: string[];
+  /** Defaults to 30s, the runner's maximum. */
+  timeLimit?: number;
+  /** MB; the runner caps it with its own RUNNER_MEMORY_LIMIT_MB. */
+  memoryLimit?: number;
+}
+
+/** A backend running code on the self-hosted code runner (server/runner.js). */
+export function createRunnerBackend({
+  url,
+  languages = RUNNER_LANGUAGES,
+  timeLimit = 30_000,
+  memoryLimit = 256,
+}: RunnerOptions): RuntimeBackend {
+  return {
+    name: 'Code runner',
+    languages,
+    capabilities: { stdin: true, tests: true, timeLimit, memoryLimit },
+    createWorker: () =>
+      moduleWorker(() => new Worker(new URL('./runtimes/runner.worker.ts', import.meta.url), { type: 'module' })),
+    init: { url },
+  };
+}
@@ -5,6 +5,8 @@
  * No WASM binary needed — requires internet (same as WebRTC).
  */
 
+import { createOutputStream } from '../output-stream';
+
 const GODBOLT_API = 'https://godbolt.org/api/compiler';
 
 // GCC 14.2 for C++ and C
@@ -45,7 +47,7 @@ self.onmessage = async (event: MessageEvent) => {
   }
 
   if (data.type === 'run') {
-    const { code, language = 'cpp', timeout = 15000 } = data;
+    const { code, language = 'cpp', timeout = 15000, stdin = '' } = data;
     const start = performance.now();
     const compilerId = COMPILERS[language] || COMPILERS.cpp;
 
@@ -65,6 +67,7 @@ self.onmessage = async (event: MessageEvent) => {
             userArguments: '-O2',
             compilerOptions: { executorRequest: true },
             filters: { execute: true },
+            executeParameters: { stdin },
           },
         }),
         signal: controller.signal,
@@ -109,6 +112,12 @@ self.onmessage = async (event: MessageEvent) => {
         .map((e: { text: string }) => e.text.replace(/\x1b\[[0-9;]*m/g, ''))
         .join('\n');
 
+      // Compiler Explorer returns all output at once, after the run
+      const live = createOutputStream();
+      live.write('stdout', stdout);
+      live.write('stderr', stderr);
+      live.flush();
+
       self.postMessage({
         type: 'result',
         stdout,
@@ -3,10 +3,39 @@
  *
  * Uses the official Go Playground compile endpoint (play.golang.org/compile)
  * which has full CORS support. No WASM binary needed — requires internet.
+ *
+ * The Playground has no stdin of its own, so input is fed through an extra
+ * file (the Playground accepts several in txtar form) whose init() swaps
+ * os.Stdin for a pipe holding it.
  */
 
+import { createOutputStream } from '../output-stream';
+
 const GO_PLAYGROUND_URL = 'https://play.golang.org/compile';
 
+function withStdin(code: string, stdin: string): string {
+  if (!stdin) return code;
+  // A JSON string is also a valid Go string literal
+  return `${code}
+-- zz_stdin.go --
+package main
+
+import "os"
+
+func init() {
+	r, w, err := os.Pipe()
+	if err != nil {
+		panic(err)
+	}
+	os.Stdin = r
+	go func() {
+		w.WriteString(${JSON.stringify(stdin)})
+		w.Close()
+	}()
+}
+`;
+}
+
 self.onmessage = async (event: MessageEvent) => {
   const { data } = event;
 
@@ -29,7 +58,7 @@ self.onmessage = async (event: MessageEvent) => {
   }
 
   if (data.type === 'run') {
-    const { code, timeout = 15000 } = data;
+    const { code, timeout = 15000, stdin = '' } = data;
     const start = performance.now();
 
     const controller = new AbortController();
@@ -39,7 +68,7 @@ self.onmessage = async (event: MessageEvent) => {
       const response = await fetch(GO_PLAYGROUND_URL, {
         method: 'POST',
         headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-        body: new URLSearchParams({ body: code, version: '2' }),
+        body: new URLSearchParams({ body: withStdin(code, stdin), version: '2' }),
         signal: controller.signal,
       });
 
@@ -88,6 +117,12 @@ self.onmessage = async (event: MessageEvent) => {
         }
       }
 
+      // The Playground returns all output at once, after the run
+      const live = createOutputStream();
+      live.write('stdout', stdout);
+      live.write('stderr', stderr);
+      live.flush();
+
       self.postMessage({
         type: 'result',
         stdout,
@@ -4,9 +4,39 @@
  * Uses Wasmoon (Lua 5.4 compiled to WASM, ~300KB) for Lua code execution.
  */
 
+import { createOutputStream } from '../output-stream';
+
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let luaFactory: any = null;
 
+/** Serves `io.read` formats ("l", "L", "n", "a") from a fixed input. */
+class StdinReader {
+  private position = 0;
+
+  constructor(private readonly text: string) {}
+
+  read(format: string): string | number | undefined {
+    const fmt = format.replace(/^\*/, '');
+    if (fmt.startsWith('a')) {
+      const rest = this.text.slice(this.position);
+      this.position = this.text.length;
+      return rest;
+    }
+    if (this.position >= this.text.length) return undefined;
+    if (fmt.startsWith('n')) {
+      const match = /^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/.exec(this.text.slice(this.position));
+      if (!match) return undefined;
+      this.position += match[0].length;
+      return Number(match[0]);
+    }
+    const end = this.text.indexOf('\n', this.position);
+    const lineEnd = end === -1 ? this.text.length : end;
+    const line = this.text.slice(this.position, fmt.startsWith('L') ? Math.min(lineEnd + 1, this.text.length) : lineEnd);
+    this.position = lineEnd + 1;
+    return fmt.startsWith('L') ? line : line.replace(/\r$/, '');
+  }
+}
+
 self.onmessage = async (event: MessageEvent) => {
   const { data } = event;
 
@@ -31,12 +61,15 @@ self.onmessage = async (event: MessageEvent) => {
       return;
     }
 
-    const { code, timeout = 10000 } = data;
+    const { code, timeout = 10000, stdin = '' } = data;
+    const input = new StdinReader(stdin);
     const stdoutLines: string[] = [];
     const stderrLines: string[] = [];
+    const live = createOutputStream();
     const start = performance.now();
 
     const timeoutId = setTimeout(() => {
+      live.flush();
       const duration = Math.round(performance.now() - start);
       self.postMessage({
         type: 'result',
@@ -54,18 +87,24 @@ self.onmessage = async (event: MessageEvent) => {
 
       // Override print to capture output
       engine.global.set('print', (...args: unknown[]) => {
-        stdoutLines.push(args.map(String).join('\t'));
+        const line = args.map(String).join('\t');
+        stdoutLines.push(line);
+        live.writeLine('stdout', line);
       });
 
-      // Override io.write for direct output
+      // Override io.write for direct output, io.read for stdin
       engine.global.set('io', {
         write: (...args: unknown[]) => {
-          stdoutLines.push(args.map(String).join(''));
+          const line = args.map(String).join('');
+          stdoutLines.push(line);
+          live.writeLine('stdout', line);
         },
+        read: (format: unknown = 'l') => input.read(String(format)),
       });
 
       await engine.doString(code);
       clearTimeout(timeoutId);
+      live.flush();
       const duration = Math.round(performance.now() - start);
 
       self.postMessage({
@@ -77,6 +116,7 @@ self.onmessage = async (event: MessageEvent) => {
       });
     } catch (error: unknown) {
       clearTimeout(timeoutId);
+      live.flush();
       const duration = Math.round(performance.now() - start);
       const message = error instanceof Error ? error.message : String(error);
 
@@ -6,6 +6,7 @@
  */
 
 import type { loadPyodide as LoadPyodideType } from 'pyodide';
+import { createOutputStream } from '../output-stream';
 
 type PyodideInterface = Awaited<ReturnType<typeof LoadPyodideType>>;
 
@@ -77,17 +78,38 @@ self.onmessage = async (event: MessageEvent) => {
       return;
     }
 
-    const { code, timeout = 10000 } = data;
+    const { code, timeout = 10000, stdin = '' } = data;
     const stdoutLines: string[] = [];
     const stderrLines: string[] = [];
-
-    pyodide.setStdout({ batched: (text: string) => stdoutLines.push(text) });
-    pyodide.setStderr({ batched: (text: string) => stderrLines.push(text) });
+    const live = createOutputStream();
+
+    // Hand over the whole input at once, then report end of file
+    let stdinConsumed = !stdin;
+    pyodide.setStdin({
+      stdin: () => {
+        if (stdinConsumed) return null;
+        stdinConsumed = true;
+        return stdin;
+      },
+    });
+    pyodide.setStdout({
+      batched: (text: string) => {
+        stdoutLines.push(text);
+        live.writeLine('stdout', text);
+      },
+    });
+    pyodide.setStderr({
+      batched: (text: string) => {
+        stderrLines.push(text);
+        live.writeLine('stderr', text);
+      },
+    });
 
     const start = performance.now();
 
     // Timeout guard
     const timeoutId = setTimeout(() => {
+      live.flush();
       const duration = Math.round(performance.now() - start);
       self.postMessage({
         type: 'result',
@@ -101,6 +123,7 @@ self.onmessage = async (event: MessageEvent) => {
     try {
       await pyodide.runPythonAsync(code);
       clearTimeout(timeoutId);
+      live.flush();
       const duration = Math.round(performance.now() - start);
 
       self.postMessage({
@@ -112,6 +135,7 @@ self.onmessage = async (event: MessageEvent) => {
       });
     } catch (error: unknown) {
       clearTimeout(timeoutId);
+      live.flush();
       const duration = Math.round(performance.now() - start);
       const message = error instanceof Error ? error.message : String(error);
 
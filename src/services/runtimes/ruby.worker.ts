@@ -2,9 +2,13 @@
  * ruby.worker.ts — Ruby execution via ruby.wasm in a Web Worker.
  *
  * Downloads the Ruby WASM binary from CDN, initializes via DefaultRubyVM,
- * and captures stdout/stderr by overriding console methods.
+ * and captures stdout/stderr by overriding console methods. Stdin is served
+ * from a StringIO assigned to $stdin before each run.
  */
 
+import { createOutputStream } from '../output-stream';
+import type { OutputStream } from '../output-stream';
+
 const RUBY_WASM_URL = 'https://cdn.jsdelivr.net/npm/@ruby/3.3-wasm-wasi@2.8.1/dist/ruby+stdlib.wasm';
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -14,6 +18,7 @@ let rubyVM: any = null;
 let capturedStdout: string[] = [];
 let capturedStderr: string[] = [];
 let capturing = false;
+let live: OutputStream | null = null;
 
 const originalLog = console.log;
 const originalError = console.error;
@@ -21,7 +26,9 @@ const originalWarn = console.warn;
 
 console.log = (...args: unknown[]) => {
   if (capturing) {
-    capturedStdout.push(args.map(String).join(' '));
+    const line = args.map(String).join(' ');
+    capturedStdout.push(line);
+    live?.writeLine('stdout', line);
   } else {
     originalLog(...args);
   }
@@ -29,7 +36,9 @@ console.log = (...args: unknown[]) => {
 
 console.error = (...args: unknown[]) => {
   if (capturing) {
-    capturedStderr.push(args.map(String).join(' '));
+    const line = args.map(String).join(' ');
+    capturedStderr.push(line);
+    live?.writeLine('stderr', line);
   } else {
     originalError(...args);
   }
@@ -37,7 +46,9 @@ console.error = (...args: unknown[]) => {
 
 console.warn = (...args: unknown[]) => {
   if (capturing) {
-    capturedStderr.push(args.map(String).join(' '));
+    const line = args.map(String).join(' ');
+    capturedStderr.push(line);
+    live?.writeLine('stderr', line);
   } else {
     originalWarn(...args);
   }
@@ -100,14 +111,17 @@ self.onmessage = async (event: MessageEvent) => {
       return;
     }
 
-    const { code, timeout = 10000 } = data;
+    const { code, timeout = 10000, stdin = '' } = data;
     capturedStdout = [];
     capturedStderr = [];
     capturing = true;
+    const stream = createOutputStream();
+    live = stream;
 
     const start = performance.now();
     const timeoutId = setTimeout(() => {
       capturing = false;
+      stream.flush();
       const duration = Math.round(performance.now() - start);
       self.postMessage({
         type: 'result',
@@ -119,9 +133,12 @@ self.onmessage = async (event: MessageEvent) => {
     }, timeout);
 
     try {
+      // A JSON string is a valid Ruby string literal once interpolation is escaped
+      rubyVM.eval(`require "stringio"; $stdin = StringIO.new(${JSON.stringify(stdin).replace(/#/g, '\\#')})`);
       rubyVM.eval(code);
       clearTimeout(timeoutId);
       capturing = false;
+      stream.flush();
       const duration = Math.round(performance.now() - start);
 
       self.postMessage({
@@ -134,6 +151,7 @@ self.onmessage = async (event: MessageEvent) => {
     } catch (error: unknown) {
       clearTimeout(timeoutId);
       capturing = false;
+      stream.flush();
       const duration = Math.round(performance.now() - start);
       const message = error instanceof Error ? error.message : String(error);
 
@@ -0,0 +1,116 @@
+/**
+ * runner.worker.ts — Execution via a self-hosted code runner (server/runner.js).
+ *
+ * Stands in for Compiler Explorer and the Go Playground where those can't be
+ * reached (restricted networks, offline). Receives the runner's URL with the
+ * init message; see wasm-runtime-manager.ts for how a deployment picks it.
+ *
+ * Protocol: GET {url}/health (which may give the runner's `compileTimeout`),
+ * and POST {url}/run with
+ * { language, code, stdin, timeout, memoryLimit } answered by
+ * { stdout, stderr, exitCode, duration }.
+ */
+
+import { createOutputStream } from '../output-stream';
+
+/** server/runner.js's compile time limit, until the runner reports its own. */
+const DEFAULT_COMPILE_TIMEOUT = 60000;
+
+let runnerUrl = '';
+let compileTimeout = DEFAULT_COMPILE_TIMEOUT;
+
+self.onmessage = async (event: MessageEvent) => {
+  const { data } = event;
+
+  if (data.type === 'init') {
+    runnerUrl = String(data.url ?? '').replace(/\/+$/, '');
+    try {
+      if (!runnerUrl) throw new Error('no runner URL configured');
+      const response = await fetch(`${runnerUrl}/health`);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const health = await response.json().catch(() => ({}));
+      compileTimeout = Number(health.compileTimeout) || DEFAULT_COMPILE_TIMEOUT;
+      self.postMessage({ type: 'ready' });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      self.postMessage({ type: 'error', error: `Code runner unavailable: ${message}` });
+    }
+    return;
+  }
+
+  if (data.type === 'run') {
+    const { code, language, timeout = 15000, stdin = '', memoryLimit = null } = data;
+    const start = performance.now();
+
+    // The runner enforces both time limits itself, compiling then running;
+    // this only guards against a hung connection
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), compileTimeout + timeout + 5000);
+
+    try {
+      const response = await fetch(`${runnerUrl}/run`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+        },
+        body: JSON.stringify({ language, code, stdin, timeout, memoryLimit }),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+      const duration = Math.round(performance.now() - start);
+
+      if (!response.ok) {
+        self.postMessage({
+          type: 'result',
+          stdout: '',
+          stderr: `Code runner returned HTTP ${response.status}`,
+          exitCode: 1,
+          duration,
+        });
+        return;
+      }
+
+      const result = await response.json();
+      const stdout = String(result.stdout ?? '');
+      const stderr = String(result.stderr ?? '');
+
+      // The runner returns all output at once, after the run
+      const live = createOutputStream();
+      live.write('stdout', stdout);
+      live.write('stderr', stderr);
+      live.flush();
+
+      self.postMessage({
+        type: 'result',
+        stdout,
+        stderr,
+        exitCode: result.exitCode ?? 0,
+        duration: result.duration ?? duration,
+      });
+    } catch (error: unknown) {
+      clearTimeout(timeoutId);
+      const duration = Math.round(performance.now() - start);
+
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        self.postMessage({
+          type: 'result',
+          stdout: '',
+          stderr: `[Execution timed out after ${timeout / 1000}s]`,
+          exitCode: 1,
+          duration,
+        });
+      } else {
+        const message = error instanceof Error ? error.message : String(error);
+        self.postMessage({
+          type: 'result',
+          stdout: '',
+          stderr: `Code runner error: ${message}`,
+          exitCode: 1,
+          duration,
+        });
+      }
+    }
+  }
+};
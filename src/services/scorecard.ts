@@ -0,0 +1,106 @@
+/**
+ * Scorecard Service
+ *
+ * The structured rubric interviewers fill in during a session: a list of
+ * competencies, each rated 1–4 with a comment. Competencies are merged one by
+ * one (newest edit wins), so two interviewers can score different ones at the
+ * same time.
+ */
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+export type Rating = 1 | 2 | 3 | 4;
+
+export interface Competency {
+  id: string;
+  name: string;
+  rating: Rating | null;
+  comment: string;
+  /** Orders the rubric; the defaults come first, in their given order. */
+  createdAt: number;
+  /** When the competency last changed (0 if never), by whom. */
+  updatedAt: number;
+  updatedBy: string;
+  /** Kept as a tombstone so the removal reaches peers that still have it. */
+  removed?: boolean;
+}
+
+// ── Constants ────────────────────────────────────────────────────────────────
+
+export const RATINGS: Rating[] = [1, 2, 3, 4];
+
+export const RATING_LABELS: Record<Rating, string> = {
+  1: 'Poor',
+  2: 'Mixed',
+  3: 'Good',
+  4: 'Excellent',
+};
+
+const DEFAULT_COMPETENCIES: Array<{ id: string; name: string }> = [
+  { id: 'problem-solving', name: 'Problem solving' },
+  { id: 'code-quality', name: 'Code quality' },
+  { id: 'communication', name: 'Communication' },
+];
+
+// ── Functions ────────────────────────────────────────────────────────────────
+
+export function isRating(value: unknown): value is Rating {
+  return typeof value === 'number' && (RATINGS as number[]).includes(value);
+}
+
+/**
+ * The rubric every session starts with. Its ids are fixed, so every peer's
+ * copy merges into the same competencies.
+ */
+export function createDefaultScorecard(): Competency[] {
+  return DEFAULT_COMPETENCIES.map(({ id, name }, index) => ({
+    id,
+    name,
+    rating: null,
+    comment: '',
+    createdAt: index,
+    updatedAt: 0,
+    updatedBy: '',
+  }));
+}
+
+/**
+ * Whether `a` replaces `b`: the newer edit wins, and equal timestamps go to
+ * the greater author so every peer keeps the same copy.
+ */
+function isNewer(a: Competency, b: Competency): boolean {
+  return a.updatedAt > b.updatedAt || (a.updatedAt === b.updatedAt && a.updatedBy > b.updatedBy);
+}
+
+/**
+ * Merges `remote` competencies into `local`, keeping the newer copy of each,
+ * ordered by creation. Returns `local` itself when nothing changed.
+ */
+export function mergeCompetencies(local: Competency[], remote: Competency[]): Competency[] {
+  const byId = new Map(local.map((c) => [c.id, c]));
+  let changed = false;
+
+  for (const competency of remote) {
+    const current = byId.get(competency.id);
+    if (current && !isNewer(competency, current)) continue;
+    byId.set(competency.id, competency);
+    changed = true;
+  }
+
+  if (!changed) return local;
+  return Array.from(byId.values()).sort((a, b) => a.createdAt - b.createdAt || a.id.localeCompare(b.id));
+}
+
+/** The competencies that haven't been removed. */
+export function getActiveCompetencies(competencies: Competency[]): Competency[] {
+  return competencies.filter((c) => !c.removed);
+}
+
+/** Mean of the given ratings, or null if none are rated yet. */
+export function getAverageRating(competencies: Competency[]): number | null {
+  const ratings = getActiveCompetencies(competencies)
+    .map((c) => c.rating)
+    .filter((r): r is Rating => r !== null);
+  if (ratings.length === 0) return null;
+  return ratings.reduce((sum, r) => sum + r, 0) / ratings.length;
+}
@@ -0,0 +1,249 @@
+// Session Replay
+// Event log types and pure reconstruction of the editor, diagram and chat at
+// any moment of a recorded session. Recording lives in useSessionRecorder.
+
+import { TextOperation, calculateTextOperation } from './ot-engine';
+import type { Op } from './ot-engine';
+import { strokeChanges } from './canvas-document';
+import type { StrokeChanges } from './canvas-document';
+import type { Stroke } from './canvas-logic';
+
+export interface ReplayFile {
+    id: string;
+    name: string;
+    language: string;
+    code: string;
+}
+
+export type ReplayFileMeta = Omit<ReplayFile, 'code'>;
+
+export interface ReplayMessage {
+    id: string;
+    text: string;
+    sender: string;
+    timestamp: number;
+}
+
+export interface ReplayOutput {
+    stdout: string;
+    stderr: string;
+    exitCode: number;
+    duration: number;
+}
+
+/**
+ * One entry of the append-only log; `t` is the wall-clock time (ms).
+ * A `snapshot` starts each recording run (page load), so a log stays
+ * replayable when recording resumes mid-session.
+ */
+export type ReplayEvent =
+    | {
+          type: 'snapshot';
+          t: number;
+          files: ReplayFile[];
+          strokes: Stroke[];
+          messages: ReplayMessage[];
+          participants: Record<string, string>;
+      }
+    | { type: 'files'; t: number; files: ReplayFileMeta[] }
+    | { type: 'code-operation'; t: number; fileId: string; operation: Op[] }
+    | { type: 'canvas'; t: number; action: 'stroke'; stroke: Stroke }
+    | { type: 'canvas'; t: number; action: 'update'; id: string; changes: StrokeChanges }
+    | { type: 'canvas'; t: number; action: 'delete'; ids: string[] }
+    | { type: 'canvas'; t: number; action: 'sync'; strokes: Stroke[] }
+    | { type: 'message'; t: number; message: ReplayMessage }
+    | ({ type: 'execution-result'; t: number } & ReplayOutput)
+    | { type: 'join'; t: number; peerId: string; name: string }
+    | { type: 'leave'; t: number; peerId: string };
+
+export interface ReplayState {
+    files: ReplayFile[];
+    strokes: Stroke[];
+    messages: ReplayMessage[];
+    /** Latest execution result, or null before the first run. */
+    output: ReplayOutput | null;
+    /** Connected participants by peer id → name. */
+    participants: Record<string, string>;
+}
+
+export const EMPTY_REPLAY_STATE: ReplayState = {
+    files: [],
+    strokes: [],
+    messages: [],
+    output: null,
+    participants: {},
+};
+
+// ── Recording helpers ───────────────────────────────────────────────────────
+
+/**
+ * Events turning one workspace into the next: a `files` event when files
+ * were added, removed, renamed or changed language, then one `code-operation`
+ * per edited file.
+ */
+export function diffWorkspace(prev: ReplayFile[], next: ReplayFile[], t: number): ReplayEvent[] {
+    const events: ReplayEvent[] = [];
+
+    const meta = (files: ReplayFile[]) => files.map(({ id, name, language }) => ({ id, name, language }));
+    if (JSON.stringify(meta(prev)) !== JSON.stringify(meta(next))) {
+        events.push({ type: 'files', t, files: meta(next) });
+    }
+
+    for (const file of next) {
+        const before = prev.find((f) => f.id === file.id)?.code ?? '';
+        if (before === file.code) continue;
+        const operation = calculateTextOperation(before, file.code);
+        if (operation.ops.length > 0) {
+            events.push({ type: 'code-operation', t, fileId: file.id, operation: operation.ops });
+        }
+    }
+
+    return events;
+}
+
+/**
+ * Events turning one stroke list into the next, by stroke id: a `delete` of
+ * the strokes gone, an `update` with the changed fields of each stroke
+ * edited, then a `stroke` per stroke appended. Falls back to a full `sync`
+ * when strokes lack ids or the drawing order changed (bring to front).
+ */
+export function diffStrokes(prev: Stroke[], next: Stroke[], t: number): ReplayEvent[] {
+    if (prev === next) return [];
+    const appended = next.length > prev.length && prev.every((stroke, i) => next[i] === stroke);
+    if (appended) {
+        return next.slice(prev.length).map((stroke) => ({ type: 'canvas', t, action: 'stroke', stroke }));
+    }
+
+    const sync: ReplayEvent[] = [{ type: 'canvas', t, action: 'sync', strokes: next }];
+    if ([...prev, ...next].some((stroke) => !stroke.id)) return sync;
+    const before = new Map(prev.map((stroke) => [stroke.id!, stroke]));
+    const nextIds = new Set(next.map((stroke) => stroke.id!));
+    const kept = prev.filter((stroke) => nextIds.has(stroke.id!));
+    const inOrder = kept.every((stroke, i) => next[i].id === stroke.id)
+        && next.slice(kept.length).every((stroke) => !before.has(stroke.id!));
+    if (!inOrder) return sync;
+
+    const events: ReplayEvent[] = [];
+    const deleted = prev.filter((stroke) => !nextIds.has(stroke.id!)).map((stroke) => stroke.id!);
+    if (deleted.length > 0) events.push({ type: 'canvas', t, action: 'delete', ids: deleted });
+    for (const stroke of next.slice(0, kept.length)) {
+        const old = before.get(stroke.id!)!;
+        if (old === stroke) continue;
+        const changes = strokeChanges(old, stroke);
+        if (Object.keys(changes).length > 0) events.push({ type: 'canvas', t, action: 'update', id: stroke.id!, changes });
+    }
+    for (const stroke of next.slice(kept.length)) events.push({ type: 'canvas', t, action: 'stroke', stroke });
+    return events;
+}
+
+// ── Reconstruction ──────────────────────────────────────────────────────────
+
+/** `stroke` with `changes` made; a null field is removed. */
+function withChanges(stroke: Stroke, changes: StrokeChanges): Stroke {
+    const changed = { ...stroke } as Stroke & Record<string, unknown>;
+    for (const [field, value] of Object.entries(changes)) {
+        if (value === null) delete changed[field];
+        else changed[field] = value;
+    }
+    return changed;
+}
+
+function applyCanvasEvent(strokes: Stroke[], event: Extract<ReplayEvent, { type: 'canvas' }>): Stroke[] {
+    switch (event.action) {
+        case 'stroke':
+            return [...strokes, event.stroke];
+        case 'update':
+            return strokes.map((stroke) => (stroke.id === event.id ? withChanges(stroke, event.changes) : stroke));
+        case 'delete':
+            return strokes.filter((stroke) => !event.ids.includes(stroke.id!));
+        case 'sync':
+            return event.strokes;
+    }
+}
+
+/** Apply one event. Returns a new state; the input is not modified. */
+export function applyReplayEvent(state: ReplayState, event: ReplayEvent): ReplayState {
+    switch (event.type) {
+        case 'snapshot':
+            return {
+                files: event.files,
+                strokes: event.strokes,
+                messages: event.messages,
+                output: state.output,
+                participants: event.participants,
+            };
+
+        case 'files':
+            return {
+                ...state,
+                files: event.files.map((meta) => ({
+                    ...meta,
+                    code: state.files.find((f) => f.id === meta.id)?.code ?? '',
+                })),
+            };
+
+        case 'code-operation': {
+            const operation = new TextOperation();
+            operation.ops = event.operation;
+            return {
+                ...state,
+                files: state.files.map((file) => {
+                    if (file.id !== event.fileId) return file;
+                    try {
+                        return { ...file, code: operation.apply(file.code) };
+                    } catch {
+                        // A gap in the log (e.g. a lost write) — keep what we have
+                        return file;
+                    }
+                }),
+            };
+        }
+
+        case 'canvas':
+            return { ...state, strokes: applyCanvasEvent(state.strokes, event) };
+
+        case 'message':
+            return { ...state, messages: [...state.messages, event.message] };
+
+        case 'execution-result': {
+            const { stdout, stderr, exitCode, duration } = event;
+            return { ...state, output: { stdout, stderr, exitCode, duration } };
+        }
+
+        case 'join':
+            return { ...state, participants: { ...state.participants, [event.peerId]: event.name } };
+
+        case 'leave': {
+            const { [event.peerId]: _, ...participants } = state.participants;
+            return { ...state, participants };
+        }
+
+        default:
+            return state;
+    }
+}
+
+/** The session as it was at `time`: every event up to and including it applied. */
+export function reconstructReplayState(events: ReplayEvent[], time: number): ReplayState {
+    let state = EMPTY_REPLAY_STATE;
+    for (const event of events) {
+        if (event.t > time) break;
+        state = applyReplayEvent(state, event);
+    }
+    return state;
+}
+
+/** First and last event times, or null for an empty log. */
+export function getReplayRange(events: ReplayEvent[]): { start: number; end: number } | null {
+    if (events.length === 0) return null;
+    return { start: events[0].t, end: events[events.length - 1].t };
+}
+
+/** Format an offset in ms as m:ss (or h:mm:ss past an hour). */
+export function formatReplayTime(ms: number): string {
+    const total = Math.max(0, Math.floor(ms / 1000));
+    const h = Math.floor(total / 3600);
+    const m = Math.floor((total % 3600) / 60);
+    const s = String(total % 60).padStart(2, '0');
+    return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
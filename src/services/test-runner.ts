@@ -0,0 +1,73 @@
+/**
+ * Test Runner Service
+ *
+ * Runs a program against a question's hidden tests (see question-bank.ts).
+ * Each case is a separate run with the case's input on stdin; it passes when
+ * the program exits cleanly and its stdout matches the expected output.
+ */
+
+import type { TestCase } from './question-bank';
+import type { ExecutionResult, TestCaseResult } from '../stores/executionStore';
+
+// ── Types ────────────────────────────────────────────────────────────────────
+
+/** Runs `code` once with `stdin` as its input (see code-executor.ts). */
+export type ProgramRunner = (code: string, language: string, stdin: string) => Promise<ExecutionResult>;
+
+// ── Functions ────────────────────────────────────────────────────────────────
+
+/** Trailing whitespace on each line and trailing blank lines don't count. */
+function normalizeOutput(output: string): string {
+  return output
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n+$/, '');
+}
+
+export function outputMatches(actual: string, expected: string): boolean {
+  return normalizeOutput(actual) === normalizeOutput(expected);
+}
+
+/**
+ * Runs every case in order and folds them into one result: `testResults`
+ * holds each case, `exitCode` is 0 only if all passed and `duration` is the
+ * total. Rejects as soon as a run does (e.g. when stopped by the user).
+ */
+export async function runTests(
+  code: string,
+  language: string,
+  tests: TestCase[],
+  run: ProgramRunner,
+): Promise<ExecutionResult> {
+  const testResults: TestCaseResult[] = [];
+
+  for (const test of tests) {
+    const result = await run(code, language, test.input);
+    testResults.push({
+      id: test.id,
+      passed: result.exitCode === 0 && outputMatches(result.stdout, test.expectedOutput),
+      exitCode: result.exitCode,
+      duration: result.duration,
+      stdout: result.stdout,
+      stderr: result.stderr,
+    });
+  }
+
+  const passed = testResults.filter((t) => t.passed).length;
+  return {
+    stdout: '',
+    stderr: '',
+    exitCode: passed === testResults.length ? 0 : 1,
+    duration: testResults.reduce((total, t) => total + t.duration, 0),
+    testResults,
+  };
+}
+
+/**
+ * What peers get of a test run: a program can print its input, so the
+ * output of each case stays with whoever ran the hidden tests.
+ */
+export function toSharedTestResults(testResults: TestCaseResult[]): TestCaseResult[] {
+  return testResults.map(({ id, passed, exitCode, duration }) => ({ id, passed, exitCode, duration }));
+}
@@ -0,0 +1,129 @@
+// Collaborative Undo/Redo for the Code Editor
+// Keeps inverted TextOperations for the local participant's own edits only.
+// Remote operations are transformed into both stacks as they arrive, so undo
+// reverts exactly what this participant typed, wherever it has moved to.
+
+import { TextOperation } from './ot-engine';
+
+export const MAX_UNDO_DEPTH = 500;
+
+export class UndoManager {
+    undoStack: TextOperation[];
+    redoStack: TextOperation[];
+    maxDepth: number;
+    private dontCompose: boolean;
+
+    constructor(maxDepth = MAX_UNDO_DEPTH) {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.maxDepth = maxDepth;
+        this.dontCompose = false;
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Record a local edit. `text` is the document before the edit was applied.
+     * With `compose`, the edit is merged into the previous undo step (e.g.
+     * consecutive keystrokes) unless a remote edit or undo happened in between.
+     */
+    record(operation: TextOperation, text: string, compose = false): void {
+        if (operation.isNoop()) return;
+
+        const inverse = operation.invert(text);
+        const top = this.undoStack[this.undoStack.length - 1];
+
+        if (compose && !this.dontCompose && top) {
+            // Undoing (a then b) means undoing b, then a
+            this.undoStack[this.undoStack.length - 1] = inverse.compose(top);
+        } else {
+            this.undoStack.push(inverse);
+            if (this.undoStack.length > this.maxDepth) this.undoStack.shift();
+        }
+
+        this.redoStack = [];
+        this.dontCompose = false;
+    }
+
+    /**
+     * Pop the latest local edit and return the operation that reverts it on
+     * `text` (the current document). Its inverse is kept for redo.
+     */
+    undo(text: string): TextOperation | null {
+        const operation = this.undoStack.pop();
+        if (!operation) return null;
+
+        this.redoStack.push(operation.invert(text));
+        this.dontCompose = true;
+        return operation;
+    }
+
+    /** Reapply the most recently undone edit on `text` (the current document). */
+    redo(text: string): TextOperation | null {
+        const operation = this.redoStack.pop();
+        if (!operation) return null;
+
+        this.undoStack.push(operation.invert(text));
+        this.dontCompose = true;
+        return operation;
+    }
+
+    /**
+     * Transform both stacks against an operation from another participant
+     * that was just applied to the current document.
+     */
+    transform(operation: TextOperation): void {
+        this.undoStack = transformStack(this.undoStack, operation);
+        this.redoStack = transformStack(this.redoStack, operation);
+        this.dontCompose = true;
+    }
+
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+        this.dontCompose = false;
+    }
+}
+
+/**
+ * The newest entry applies to the current document; each older one applies to
+ * the document with the newer entries undone. Walk down the stack carrying the
+ * remote operation through each state, dropping entries it fully consumed.
+ */
+function transformStack(stack: TextOperation[], operation: TextOperation): TextOperation[] {
+    const transformed: TextOperation[] = [];
+    let remote = operation;
+
+    for (let i = stack.length - 1; i >= 0; i--) {
+        const [entry, nextRemote] = TextOperation.transform(stack[i], remote);
+        if (!entry.isNoop()) transformed.push(entry);
+        remote = nextRemote;
+    }
+
+    return transformed.reverse();
+}
+
+/** Offset just past the last character an operation inserted or deleted at. */
+export function getCursorAfterOperation(operation: TextOperation): number {
+    let pos = 0;
+    let cursor = 0;
+
+    for (const op of operation.ops) {
+        if (typeof op === 'string') {
+            pos += op.length;
+            cursor = pos;
+        } else if (op > 0) {
+            pos += op;
+        } else {
+            cursor = pos;
+        }
+    }
+
+    return cursor;
+}
@@ -4,51 +4,92 @@
  * Manages persistent Web Workers per language. Each worker loads its runtime
  * once and accepts multiple run messages. Progress is tracked and exposed
  * via the runtimeStore.
+ *
+ * Which worker runs a language is up to its RuntimeBackend (see
+ * runtime-backends.ts). The built-in ones run Python, Ruby and Lua in the
+ * browser and compile C, C++ and Go on public services. A deployment routes
+ * some or all languages elsewhere with registerBackend(), or, for the
+ * self-hosted code runner (server/runner.js), by setting
+ * `window.CODE_RUNNER_URL` (and optionally `window.CODE_RUNNER_LANGUAGES`)
+ * before the app loads.
  */
 
 import type { ExecutionResult } from '../stores/executionStore';
+import type { RunOptions } from './code-executor';
+import type { OutputChunk } from './output-stream';
+import { BUILT_IN_BACKENDS, createRunnerBackend } from './runtime-backends';
+import type { RuntimeBackend, RuntimeCapabilities, RuntimeWorker } from './runtime-backends';
 import { useRuntimeStore } from '../stores/runtimeStore';
 
-// Languages supported via WASM/external runtimes (not native JS)
-const WASM_LANGUAGES = new Set(['python', 'c', 'cpp', 'go', 'ruby', 'lua']);
-
-// Worker factory map — uses Vite's `new Worker(new URL(...))` pattern for code splitting
-function createWorker(lang: string): Worker {
-  switch (lang) {
-    case 'python':
-      return new Worker(new URL('./runtimes/python.worker.ts', import.meta.url), { type: 'module' });
-    case 'c':
-    case 'cpp':
-      return new Worker(new URL('./runtimes/cpp.worker.ts', import.meta.url), { type: 'module' });
-    case 'go':
-      return new Worker(new URL('./runtimes/go.worker.ts', import.meta.url), { type: 'module' });
-    case 'ruby':
-      return new Worker(new URL('./runtimes/ruby.worker.ts', import.meta.url), { type: 'module' });
-    case 'lua':
-      return new Worker(new URL('./runtimes/lua.worker.ts', import.meta.url), { type: 'module' });
-    default:
-      throw new Error(`No WASM runtime for language: ${lang}`);
+declare global {
+  interface Window {
+    CODE_RUNNER_URL?: string;
+    CODE_RUNNER_LANGUAGES?: string[];
   }
 }
 
+// Backend for each language; languages without one aren't run here
+const backends = new Map<string, RuntimeBackend>();
+
+function registerDefaultBackends(): void {
+  for (const backend of BUILT_IN_BACKENDS) {
+    for (const lang of backend.languages) backends.set(lang, backend);
+  }
+  if (typeof window !== 'undefined' && window.CODE_RUNNER_URL) {
+    const runner = createRunnerBackend({ url: window.CODE_RUNNER_URL, languages: window.CODE_RUNNER_LANGUAGES });
+    for (const lang of runner.languages) backends.set(lang, runner);
+  }
+}
+
+registerDefaultBackends();
+
+/**
+ * Route `backend.languages` to `backend`. Their loaded runtimes are dropped,
+ * so the next run starts the new backend's worker. C shares C++'s worker,
+ * so register those two together.
+ */
+export function registerBackend(backend: RuntimeBackend): void {
+  for (const lang of backend.languages) {
+    stopWasmExecution(lang);
+    backends.set(lang, backend);
+  }
+}
+
+/** Back to the built-in backends (and the runner, if configured). */
+export function resetBackends(): void {
+  for (const lang of backends.keys()) stopWasmExecution(lang);
+  backends.clear();
+  registerDefaultBackends();
+}
+
+export function getBackend(lang: string): RuntimeBackend | null {
+  return backends.get(lang) ?? null;
+}
+
+export function getCapabilities(lang: string): RuntimeCapabilities | null {
+  return backends.get(lang)?.capabilities ?? null;
+}
+
 // Canonical language key (c and cpp share a worker, but we track them separately)
 function workerKey(lang: string): string {
   return lang === 'c' ? 'cpp' : lang;
 }
 
 interface WorkerEntry {
-  worker: Worker;
+  worker: RuntimeWorker;
   ready: boolean;
   pendingRun: {
     resolve: (result: ExecutionResult) => void;
     reject: (reason: string) => void;
+    onOutput?: (chunk: OutputChunk) => void;
   } | null;
 }
 
 const workers = new Map<string, WorkerEntry>();
 
+/** Whether a backend runs `lang` (rather than the JS worker or nothing). */
 export function isWasmLanguage(lang: string): boolean {
-  return WASM_LANGUAGES.has(lang);
+  return backends.has(lang);
 }
 
 /**
@@ -56,8 +97,8 @@ export function isWasmLanguage(lang: string): boolean {
  * Safe to call multiple times — no-ops if already loading or ready.
  */
 export function preloadRuntime(lang: string): void {
-  // Guard: Web Workers not available (e.g. test environment)
-  if (typeof Worker === 'undefined') return;
+  const backend = backends.get(lang);
+  if (!backend) return;
 
   const key = workerKey(lang);
   const store = useRuntimeStore.getState();
@@ -66,10 +107,13 @@ export function preloadRuntime(lang: string): void {
   // Already loading or ready
   if (info.status === 'loading' || info.status === 'ready') return;
 
+  // Guard: Web Workers not available (e.g. test environment)
+  const worker = backend.createWorker(lang);
+  if (!worker) return;
+
   store.setStatus(key, 'loading');
   store.setProgress(key, 0);
 
-  const worker = createWorker(lang);
   const entry: WorkerEntry = { worker, ready: false, pendingRun: null };
   workers.set(key, entry);
 
@@ -89,6 +133,10 @@ export function preloadRuntime(lang: string): void {
         store.setStatus(key, 'ready');
         break;
 
+      case 'output':
+        entry.pendingRun?.onOutput?.({ stream: data.stream, text: data.text });
+        break;
+
       case 'result':
         if (entry.pendingRun) {
           entry.pendingRun.resolve({
@@ -122,33 +170,54 @@ export function preloadRuntime(lang: string): void {
     }
   };
 
-  worker.postMessage({ type: 'init' });
+  worker.postMessage({ type: 'init', ...backend.init });
 }
 
 /**
  * Execute code using the WASM runtime for the given language.
  * Will preload if not already loaded. Returns a promise with the result.
+ *
+ * The run gets the backend's time and memory limits; `timeout` can only
+ * shorten it. Input for a backend without stdin fails the run.
  */
 export function executeWasm(
   lang: string,
   code: string,
-  timeout = 10_000,
+  { timeout, stdin = '', onOutput }: RunOptions = {},
 ): Promise<ExecutionResult> {
   const key = workerKey(lang);
   const entry = workers.get(key);
+  const backend = backends.get(lang);
 
-  if (!entry || !entry.ready) {
+  if (!entry || !entry.ready || !backend) {
     return Promise.reject('Runtime not loaded');
   }
 
+  const { capabilities } = backend;
+  if (stdin && !capabilities.stdin) {
+    return Promise.resolve({
+      stdout: '',
+      stderr: `${backend.name} can't read stdin; clear the input to run.`,
+      exitCode: 1,
+      duration: 0,
+    });
+  }
+
   // Cancel any pending run
   if (entry.pendingRun) {
     entry.pendingRun.reject('Superseded by new execution');
   }
 
   return new Promise<ExecutionResult>((resolve, reject) => {
-    entry.pendingRun = { resolve, reject };
-    entry.worker.postMessage({ type: 'run', code, language: lang, timeout });
+    entry.pendingRun = { resolve, reject, onOutput };
+    entry.worker.postMessage({
+      type: 'run',
+      code,
+      language: lang,
+      timeout: Math.min(timeout ?? capabilities.timeLimit, capabilities.timeLimit),
+      stdin,
+      memoryLimit: capabilities.memoryLimit,
+    });
   });
 }
 
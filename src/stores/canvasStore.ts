@@ -1,6 +1,19 @@
 import { create } from 'zustand';
 import type { CanvasTool, Point, Stroke } from '../services/canvas-logic';
-import { MAX_HISTORY_SIZE } from '../services/canvas-logic';
+import { MAX_HISTORY_SIZE, routeConnectors } from '../services/canvas-logic';
+import {
+  applyLocalOps,
+  applyOps,
+  composeInverse,
+  createDocument,
+  mergeDocument,
+  restampHistory,
+  strokeChanges,
+  undoOps,
+} from '../services/canvas-document';
+import { alignStrokes, distributeStrokes } from '../services/canvas-selection';
+import type { AlignEdge, DistributeAxis } from '../services/canvas-selection';
+import type { CanvasDocument, CanvasOp, InverseOp, StrokeChanges, StrokeEntry } from '../services/canvas-document';
 
 export interface RemoteDrawer {
   x: number;
@@ -16,45 +29,182 @@ interface CanvasState {
   strokeWidth: number;
   zoom: number;
   panOffset: Point;
+  /**
+   * The strokes on the canvas, in drawing order: `document.strokes` with
+   * arrows routed to the shapes they connect.
+   */
   drawingStrokes: Stroke[];
   strokeVersion: number;
-  undoHistory: Stroke[][];
-  redoHistory: Stroke[][];
+  document: CanvasDocument;
+  /** Ops made here by the last local change, for useCanvasSync to send. */
+  lastLocalOps: CanvasOp[];
+  /** Per local change, newest last: the ops reverting it (see canvas-document.ts). */
+  undoHistory: InverseOp[][];
+  redoHistory: InverseOp[][];
   remoteDrawers: Record<string, RemoteDrawer>;
+  /** Ids of the strokes selected here; selection isn't shared with peers. */
+  selectedIds: string[];
 }
 
 interface CanvasActions {
   setTool: (tool: CanvasTool) => void;
   setStrokeColor: (color: string) => void;
   setStrokeWidth: (width: number) => void;
+  /** Adds a stroke drawn here, giving it an id, author and Lamport time. */
   addStroke: (stroke: Stroke) => void;
+  /**
+   * With `compose`, the change joins the previous undo step, e.g. the moves
+   * of one drag.
+   */
+  updateStroke: (id: string, changes: StrokeChanges, compose?: boolean) => void;
+  /** Changes several strokes, by id, as one undo step. */
+  updateStrokes: (changes: Record<string, StrokeChanges>, compose?: boolean) => void;
+  deleteStrokes: (ids: string[], compose?: boolean) => void;
+  /** Merges ops made by peers. */
+  applyRemoteOps: (ops: CanvasOp[]) => void;
+  /** Merges a peer's whole document (see canvas-sync), keeping every stamp. */
+  mergeRemoteDocument: (entries: Record<string, StrokeEntry>, clock?: number) => void;
+  /** Reverts this participant's latest change, leaving everyone else's. */
   undo: () => void;
   redo: () => void;
   clear: () => void;
   setZoom: (zoom: number) => void;
   setPan: (offset: Point) => void;
-  setStrokes: (strokes: Stroke[]) => void;
-  updateStrokeAt: (index: number, updates: Partial<Stroke>) => void;
+  /**
+   * Replaces the whole canvas (a saved diagram, or the host's) without making
+   * ops. Undo steps were made against the old canvas, so they are dropped.
+   */
+  setStrokes: (strokes: Stroke[], clock?: number) => void;
   updateRemoteDrawer: (peerId: string, data: Partial<RemoteDrawer>) => void;
   removeRemoteDrawer: (peerId: string) => void;
+  setSelection: (ids: string[]) => void;
+  /** Groups the selected strokes, so they are selected and moved as one. */
+  groupSelection: () => void;
+  ungroupSelection: () => void;
+  bringToFront: () => void;
+  sendToBack: () => void;
+  alignSelection: (edge: AlignEdge) => void;
+  distributeSelection: (axis: DistributeAxis) => void;
   reset: () => void;
 }
 
 export type CanvasStore = CanvasState & CanvasActions;
 
+const emptyDocument = createDocument();
+
 const initialState: CanvasState = {
   currentTool: 'pen',
   strokeColor: '#ffffff',
   strokeWidth: 2,
   zoom: 1,
   panOffset: { x: 0, y: 0 },
-  drawingStrokes: [],
+  drawingStrokes: emptyDocument.strokes,
   strokeVersion: 0,
+  document: emptyDocument,
+  lastLocalOps: [],
   undoHistory: [],
   redoHistory: [],
   remoteDrawers: {},
+  selectedIds: [],
 };
 
+/** This peer's id in op stamps and stroke ids; fixed for the page's lifetime. */
+export const SITE_ID = Math.random().toString(36).slice(2, 10);
+
+/**
+ * State after applying ops made here as a new undo step, or as part of the
+ * last one with `compose`.
+ */
+function commit(state: CanvasState, ops: CanvasOp[], compose = false): Partial<CanvasState> {
+  const { doc: document, inverse } = applyLocalOps(state.document, ops);
+  const top = state.undoHistory[state.undoHistory.length - 1];
+  const undoHistory = compose && top
+    ? [...state.undoHistory.slice(0, -1), composeInverse(top, inverse)]
+    : [...state.undoHistory, inverse].slice(-MAX_HISTORY_SIZE);
+  return { document, drawingStrokes: routeConnectors(document.strokes), lastLocalOps: ops, undoHistory, redoHistory: [] };
+}
+
+/**
+ * Pops steps off `from` until one still has something to revert, applies it
+ * and pushes its reversal onto `to`. Steps everyone else has since overridden
+ * are dropped; those under it are re-stamped to follow it.
+ */
+function step(state: CanvasState, from: 'undoHistory' | 'redoHistory'): Partial<CanvasState> | null {
+  const stack = [...state[from]];
+  while (stack.length > 0) {
+    const reverting = stack.pop()!;
+    const ops = undoOps(state.document, reverting, SITE_ID);
+    if (ops.length === 0) continue;
+
+    const { doc: document, inverse } = applyLocalOps(state.document, ops);
+    const to = from === 'undoHistory' ? 'redoHistory' : 'undoHistory';
+    return {
+      document,
+      drawingStrokes: routeConnectors(document.strokes),
+      lastLocalOps: ops,
+      strokeVersion: state.strokeVersion + 1,
+      [from]: restampHistory(stack, state.document, reverting, SITE_ID),
+      [to]: [...state[to], inverse].slice(-MAX_HISTORY_SIZE),
+    };
+  }
+  return stack.length === state[from].length ? null : { [from]: stack };
+}
+
+/**
+ * Ops deleting the strokes with these ids. Arrows bound to a deleted shape
+ * are unbound from it, keeping the end where it is.
+ */
+function deleteOps(state: CanvasState, ids: string[]): CanvasOp[] {
+  const present = new Set(state.drawingStrokes.map((s) => s.id));
+  const deleted = new Set(ids.filter((id) => present.has(id)));
+  let clock = state.document.clock;
+  const ops: CanvasOp[] = [...deleted].map((id) => ({ kind: 'delete', id, clock: ++clock, site: SITE_ID }));
+
+  for (const arrow of state.drawingStrokes) {
+    if (arrow.tool !== 'arrow' || deleted.has(arrow.id!)) continue;
+    const changes: StrokeChanges = {
+      ...(arrow.from && deleted.has(arrow.from) && { from: null, start: arrow.start }),
+      ...(arrow.to && deleted.has(arrow.to) && { to: null, end: arrow.end }),
+    };
+    if (Object.keys(changes).length > 0) {
+      ops.push({ kind: 'update', id: arrow.id!, changes, clock: ++clock, site: SITE_ID });
+    }
+  }
+  return ops;
+}
+
+/** Ops making `changes`, stamped one after another. */
+function updateOps(state: CanvasState, changes: Record<string, StrokeChanges>): CanvasOp[] {
+  const present = new Set(state.drawingStrokes.map((s) => s.id));
+  let clock = state.document.clock;
+  return Object.entries(changes)
+    .filter(([id, fields]) => present.has(id) && Object.keys(fields).length > 0)
+    .map(([id, fields]) => ({ kind: 'update', id, changes: fields, clock: ++clock, site: SITE_ID }));
+}
+
+/** State after `changes` as one undo step, or `state` if they change nothing. */
+function commitUpdates(
+  state: CanvasState,
+  changes: Record<string, StrokeChanges>,
+  compose = false,
+): Partial<CanvasState> | CanvasState {
+  const ops = updateOps(state, changes);
+  if (ops.length === 0) return state;
+  return { ...commit(state, ops, compose), strokeVersion: state.strokeVersion + 1 };
+}
+
+function selectedStrokes(state: CanvasState): Stroke[] {
+  return state.drawingStrokes.filter((s) => state.selectedIds.includes(s.id!));
+}
+
+/** The changes turning each of `before` into the stroke with its id in `after`. */
+function changesBetween(before: Stroke[], after: Stroke[]): Record<string, StrokeChanges> {
+  const byId = new Map(before.map((s) => [s.id!, s]));
+  return Object.fromEntries(
+    after.filter((s) => byId.has(s.id!)).map((s) => [s.id!, strokeChanges(byId.get(s.id!)!, s)])
+  );
+}
+
 export const useCanvasStore = create<CanvasStore>((set) => ({
   ...initialState,
 
@@ -66,60 +216,63 @@ export const useCanvasStore = create<CanvasStore>((set) => ({
 
   addStroke: (stroke) =>
     set((state) => {
-      const undoHistory = [...state.undoHistory, [...state.drawingStrokes]];
-      if (undoHistory.length > MAX_HISTORY_SIZE) {
-        undoHistory.shift();
-      }
-      return {
-        drawingStrokes: [...state.drawingStrokes, stroke],
-        undoHistory,
-        redoHistory: [],
-      };
+      const clock = state.document.clock + 1;
+      return commit(state, [{
+        kind: 'add',
+        stroke: { ...stroke, id: `${SITE_ID}-${clock}`, author: SITE_ID, clock },
+        clock,
+        site: SITE_ID,
+      }]);
     }),
 
-  undo: () =>
+  updateStroke: (id, changes, compose = false) =>
+    set((state) => commitUpdates(state, { [id]: changes }, compose)),
+
+  updateStrokes: (changes, compose = false) =>
+    set((state) => commitUpdates(state, changes, compose)),
+
+  deleteStrokes: (ids, compose = false) =>
     set((state) => {
-      if (state.undoHistory.length === 0) return state;
-      const undoHistory = [...state.undoHistory];
-      const previous = undoHistory.pop()!;
-      return {
-        drawingStrokes: previous,
-        undoHistory,
-        redoHistory: [...state.redoHistory, [...state.drawingStrokes]],
-      };
+      const ops = deleteOps(state, ids);
+      return ops.length > 0 ? commit(state, ops, compose) : state;
     }),
 
-  redo: () =>
+  applyRemoteOps: (ops) =>
     set((state) => {
-      if (state.redoHistory.length === 0) return state;
-      const redoHistory = [...state.redoHistory];
-      const next = redoHistory.pop()!;
-      return {
-        drawingStrokes: next,
-        undoHistory: [...state.undoHistory, [...state.drawingStrokes]],
-        redoHistory,
-      };
+      const document = applyOps(state.document, ops);
+      return { document, drawingStrokes: routeConnectors(document.strokes) };
+    }),
+
+  mergeRemoteDocument: (entries, clock) =>
+    set((state) => {
+      const document = mergeDocument(state.document, entries, clock);
+      return document === state.document ? state : { document, drawingStrokes: routeConnectors(document.strokes) };
     }),
 
+  undo: () => set((state) => step(state, 'undoHistory') ?? state),
+
+  redo: () => set((state) => step(state, 'redoHistory') ?? state),
+
   clear: () =>
-    set((state) => ({
-      drawingStrokes: [],
-      undoHistory: [...state.undoHistory, [...state.drawingStrokes]],
-      redoHistory: [],
-    })),
+    set((state) => {
+      const ops = deleteOps(state, state.drawingStrokes.map((s) => s.id!));
+      return ops.length > 0 ? commit(state, ops) : state;
+    }),
 
   setZoom: (zoom) => set({ zoom }),
 
   setPan: (panOffset) => set({ panOffset }),
 
-  setStrokes: (drawingStrokes) => set({ drawingStrokes }),
-
-  updateStrokeAt: (index, updates) =>
+  setStrokes: (strokes, clock) =>
     set((state) => {
-      if (index < 0 || index >= state.drawingStrokes.length) return state;
-      const drawingStrokes = [...state.drawingStrokes];
-      drawingStrokes[index] = { ...drawingStrokes[index], ...updates };
-      return { drawingStrokes, strokeVersion: state.strokeVersion + 1 };
+      const document = createDocument(strokes, Math.max(clock ?? 0, state.document.clock));
+      return {
+        document,
+        drawingStrokes: routeConnectors(document.strokes),
+        undoHistory: [],
+        redoHistory: [],
+        selectedIds: [],
+      };
     }),
 
   updateRemoteDrawer: (peerId, data) =>
@@ -136,5 +289,47 @@ export const useCanvasStore = create<CanvasStore>((set) => ({
       return { remoteDrawers: rest };
     }),
 
+  setSelection: (selectedIds) => set({ selectedIds }),
+
+  groupSelection: () =>
+    set((state) => {
+      const selected = selectedStrokes(state);
+      if (selected.length < 2) return state;
+      const groupId = `${SITE_ID}-g${state.document.clock + 1}`;
+      return commitUpdates(state, Object.fromEntries(selected.map((s) => [s.id!, { groupId }])));
+    }),
+
+  ungroupSelection: () =>
+    set((state) => {
+      const grouped = selectedStrokes(state).filter((s) => s.groupId);
+      return commitUpdates(state, Object.fromEntries(grouped.map((s) => [s.id!, { groupId: null }])));
+    }),
+
+  bringToFront: () =>
+    set((state) => {
+      // Above everything drawn so far, keeping their own order
+      const top = state.document.clock + 1;
+      return commitUpdates(state, Object.fromEntries(selectedStrokes(state).map((s, i) => [s.id!, { z: top + i }])));
+    }),
+
+  sendToBack: () =>
+    set((state) => {
+      const selected = selectedStrokes(state);
+      const bottom = Math.min(...state.drawingStrokes.map((s) => s.z ?? s.clock ?? 0)) - selected.length;
+      return commitUpdates(state, Object.fromEntries(selected.map((s, i) => [s.id!, { z: bottom + i }])));
+    }),
+
+  alignSelection: (edge) =>
+    set((state) => {
+      const selected = selectedStrokes(state);
+      return commitUpdates(state, changesBetween(selected, alignStrokes(selected, edge)));
+    }),
+
+  distributeSelection: (axis) =>
+    set((state) => {
+      const selected = selectedStrokes(state);
+      return commitUpdates(state, changesBetween(selected, distributeStrokes(selected, axis)));
+    }),
+
   reset: () => set(initialState),
 }));
@@ -1,59 +1,169 @@
 import { create } from 'zustand';
+import type { TextOperation } from '../services/ot-engine';
+import { getDefaultFilename, getLanguageFromFilename } from '../services/code-editor-logic';
 
 export interface RemoteCursor {
+  /** Caret offset. */
   position?: number;
+  /** Selected range; equal to each other (or absent) when nothing is selected. */
+  selectionStart?: number;
+  selectionEnd?: number;
   line: number;
   column: number;
   name?: string;
   color?: string;
+  /** Workspace file the cursor is in. */
+  fileId?: string;
+  /** Sync client id of the peer, matching the `clientId` on its operations. */
+  clientId?: string;
   [key: string]: unknown;
 }
 
+export interface WorkspaceFile {
+  id: string;
+  name: string;
+  language: string;
+  code: string;
+}
+
+/** Every session starts with this file, so peers agree on its id before syncing. */
+export const DEFAULT_FILE_ID = 'main';
+
 interface EditorState {
+  /** Workspace files in tab order. */
+  files: WorkspaceFile[];
+  activeFileId: string;
+  /** Code of the active file. */
   code: string;
+  /** Language of the active file. */
   language: string;
   localOperationCount: number;
   remoteOperationCount: number;
   remoteCursors: Record<string, RemoteCursor>;
+  /** Set by useCodeSync — reverts the local participant's last edit. */
+  undo: (() => TextOperation | null) | null;
+  /** Set by useCodeSync — reapplies the last undone local edit. */
+  redo: (() => TextOperation | null) | null;
 }
 
 interface EditorActions {
   setCode: (code: string) => void;
   applyLocalOperation: () => void;
-  applyRemoteOperation: (code: string) => void;
+  /** Apply a remote change to a file (the active file by default). */
+  applyRemoteOperation: (code: string, fileId?: string) => void;
   setLanguage: (language: string) => void;
+  /** Create a file and make it active. Returns the new file's id. */
+  createFile: (name: string, language?: string, code?: string) => string;
+  /** Add a file created elsewhere without switching to it. */
+  addFile: (file: WorkspaceFile) => void;
+  renameFile: (fileId: string, name: string) => void;
+  setFileLanguage: (fileId: string, language: string) => void;
+  /** Returns whether it deleted the file; the last one is never deleted. */
+  deleteFile: (fileId: string) => boolean;
+  setActiveFile: (fileId: string) => void;
+  /**
+   * Replace the whole workspace. Activates `activeFileId` if given, otherwise
+   * keeps the current file active if it still exists.
+   */
+  setFiles: (files: WorkspaceFile[], activeFileId?: string) => void;
   updateRemoteCursor: (peerId: string, cursor: RemoteCursor) => void;
   removeRemoteCursor: (peerId: string) => void;
+  /**
+   * Shift remote cursors in a file through an operation applied to it. The
+   * author's own cursor is skipped — its next cursor message already reflects
+   * the edit.
+   */
+  transformRemoteCursors: (fileId: string, operation: TextOperation, authorClientId?: string) => void;
+  setUndoCallbacks: (
+    undo: (() => TextOperation | null) | null,
+    redo: (() => TextOperation | null) | null,
+  ) => void;
   reset: () => void;
 }
 
 export type EditorStore = EditorState & EditorActions;
 
 const initialState: EditorState = {
+  files: [{ id: DEFAULT_FILE_ID, name: getDefaultFilename('javascript'), language: 'javascript', code: '' }],
+  activeFileId: DEFAULT_FILE_ID,
   code: '',
   language: 'javascript',
   localOperationCount: 0,
   remoteOperationCount: 0,
   remoteCursors: {},
+  undo: null,
+  redo: null,
 };
 
-export const useEditorStore = create<EditorStore>((set) => ({
+/** Derive the active-file mirror fields for a file list. */
+function selectFile(files: WorkspaceFile[], activeFileId: string) {
+  const active = files.find((f) => f.id === activeFileId) ?? files[0];
+  return { files, activeFileId: active.id, code: active.code, language: active.language };
+}
+
+function updateFile(state: EditorState, fileId: string, patch: Partial<WorkspaceFile>) {
+  const files = state.files.map((f) => (f.id === fileId ? { ...f, ...patch } : f));
+  return selectFile(files, state.activeFileId);
+}
+
+export const useEditorStore = create<EditorStore>((set, get) => ({
   ...initialState,
 
-  setCode: (code) => set({ code }),
+  setCode: (code) => set((state) => updateFile(state, state.activeFileId, { code })),
 
   applyLocalOperation: () =>
     set((state) => ({
       localOperationCount: state.localOperationCount + 1,
     })),
 
-  applyRemoteOperation: (code) =>
+  applyRemoteOperation: (code, fileId) =>
     set((state) => ({
-      code,
+      ...updateFile(state, fileId ?? state.activeFileId, { code }),
       remoteOperationCount: state.remoteOperationCount + 1,
     })),
 
-  setLanguage: (language) => set({ language }),
+  setLanguage: (language) => set((state) => updateFile(state, state.activeFileId, { language })),
+
+  createFile: (name, language, code = '') => {
+    const id = `${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+    const fileLanguage = language ?? getLanguageFromFilename(name) ?? get().language;
+    set((state) => selectFile([...state.files, { id, name, language: fileLanguage, code }], id));
+    return id;
+  },
+
+  addFile: (file) =>
+    set((state) => {
+      if (state.files.some((f) => f.id === file.id)) return {};
+      return selectFile([...state.files, file], state.activeFileId);
+    }),
+
+  renameFile: (fileId, name) => set((state) => updateFile(state, fileId, { name })),
+
+  setFileLanguage: (fileId, language) => set((state) => updateFile(state, fileId, { language })),
+
+  deleteFile: (fileId) => {
+    const { files: current, activeFileId: active } = get();
+    const index = current.findIndex((f) => f.id === fileId);
+    // The workspace always keeps at least one file
+    if (index < 0 || current.length === 1) return false;
+    const files = current.filter((f) => f.id !== fileId);
+    const activeFileId = active === fileId ? files[Math.min(index, files.length - 1)].id : active;
+    set(selectFile(files, activeFileId));
+    return true;
+  },
+
+  setActiveFile: (fileId) =>
+    set((state) => {
+      if (!state.files.some((f) => f.id === fileId)) return {};
+      return selectFile(state.files, fileId);
+    }),
+
+  setFiles: (files, activeFileId) =>
+    set((state) => {
+      if (files.length === 0) return {};
+      const active = [activeFileId, state.activeFileId].find((id) => files.some((f) => f.id === id));
+      return selectFile(files, active ?? files[0].id);
+    }),
 
   updateRemoteCursor: (peerId, cursor) =>
     set((state) => ({
@@ -69,5 +179,28 @@ export const useEditorStore = create<EditorStore>((set) => ({
       return { remoteCursors: rest };
     }),
 
-  reset: () => set(initialState),
+  transformRemoteCursors: (fileId, operation, authorClientId) =>
+    set((state) => {
+      const remoteCursors = { ...state.remoteCursors };
+      let changed = false;
+
+      for (const [peerId, cursor] of Object.entries(state.remoteCursors)) {
+        if ((cursor.fileId ?? DEFAULT_FILE_ID) !== fileId) continue;
+        if (authorClientId && cursor.clientId === authorClientId) continue;
+        remoteCursors[peerId] = {
+          ...cursor,
+          position: cursor.position == null ? undefined : operation.transformIndex(cursor.position),
+          selectionStart: cursor.selectionStart == null ? undefined : operation.transformIndex(cursor.selectionStart),
+          selectionEnd: cursor.selectionEnd == null ? undefined : operation.transformIndex(cursor.selectionEnd),
+        };
+        changed = true;
+      }
+
+      return changed ? { remoteCursors } : {};
+    }),
+
+  setUndoCallbacks: (undo, redo) => set({ undo, redo }),
+
+  // Keep the callbacks registered by useCodeSync — it outlives a session reset
+  reset: () => set((state) => ({ ...initialState, undo: state.undo, redo: state.redo })),
 }));
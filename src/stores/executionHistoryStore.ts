@@ -0,0 +1,25 @@
+import { create } from 'zustand';
+import { addRun, mergeHistories, EMPTY_HISTORY } from '../services/execution-history';
+import type { ExecutionHistory, NewRun } from '../services/execution-history';
+
+interface ExecutionHistoryActions {
+  /** Records a finished run of `code`. */
+  addRun: (run: NewRun, code: string) => void;
+  /** Runs from storage, merged with any recorded since. */
+  mergeHistory: (history: ExecutionHistory) => void;
+  reset: () => void;
+}
+
+export type ExecutionHistoryStore = ExecutionHistory & ExecutionHistoryActions;
+
+export const useExecutionHistoryStore = create<ExecutionHistoryStore>((set) => ({
+  ...EMPTY_HISTORY,
+
+  addRun: (run, code) =>
+    set((state) => addRun(state, run, code)),
+
+  mergeHistory: (history) =>
+    set((state) => mergeHistories(state, history)),
+
+  reset: () => set(EMPTY_HISTORY),
+}));
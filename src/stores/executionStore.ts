@@ -1,28 +1,49 @@
 import { create } from 'zustand';
+import type { OutputChunk } from '../services/output-stream';
+
+/** One hidden test case of a test run (see test-runner.ts). */
+export interface TestCaseResult {
+  id: string;
+  passed: boolean;
+  exitCode: number;
+  duration: number;
+  /** Only on the peer that ran the tests — they may reveal the hidden input. */
+  stdout?: string;
+  stderr?: string;
+}
 
 export interface ExecutionResult {
   stdout: string;
   stderr: string;
   exitCode: number;
   duration: number;
+  /** Set when the code ran against the question's hidden tests. */
+  testResults?: TestCaseResult[];
 }
 
 interface ExecutionState {
   isRunning: boolean;
   output: ExecutionResult | null;
   panelExpanded: boolean;
+  /** Fed to the program's stdin on each run; peers adopt it from execution-start. */
+  stdin: string;
   /** Set by useExecutionSync — triggers code execution with sync. */
   runCode: (() => void) | null;
   /** Set by useExecutionSync — cancels in-progress execution. */
   cancelCode: (() => void) | null;
+  /** Set by useExecutionSync — runs the code against the hidden tests with sync. */
+  runTests: (() => void) | null;
 }
 
 interface ExecutionActions {
   startExecution: () => void;
+  /** Output streamed while running; the final result replaces it. */
+  appendOutput: (chunk: OutputChunk) => void;
   setResult: (result: ExecutionResult) => void;
   stopExecution: () => void;
   togglePanel: () => void;
-  setCallbacks: (run: () => void, cancel: () => void) => void;
+  setStdin: (stdin: string) => void;
+  setCallbacks: (run: () => void, cancel: () => void, runTests: () => void) => void;
   reset: () => void;
 }
 
@@ -32,8 +53,10 @@ const initialState: ExecutionState = {
   isRunning: false,
   output: null,
   panelExpanded: false,
+  stdin: '',
   runCode: null,
   cancelCode: null,
+  runTests: null,
 };
 
 export const useExecutionStore = create<ExecutionStore>((set) => ({
@@ -42,6 +65,13 @@ export const useExecutionStore = create<ExecutionStore>((set) => ({
   startExecution: () =>
     set({ isRunning: true, output: null, panelExpanded: true }),
 
+  appendOutput: ({ stream, text }) =>
+    set((state) => {
+      if (!state.isRunning) return state;
+      const output = state.output ?? { stdout: '', stderr: '', exitCode: 0, duration: 0 };
+      return { output: { ...output, [stream]: output[stream] + text } };
+    }),
+
   setResult: (result) =>
     set({ isRunning: false, output: result }),
 
@@ -51,8 +81,10 @@ export const useExecutionStore = create<ExecutionStore>((set) => ({
   togglePanel: () =>
     set((state) => ({ panelExpanded: !state.panelExpanded })),
 
-  setCallbacks: (run, cancel) =>
-    set({ runCode: run, cancelCode: cancel }),
+  setStdin: (stdin) => set({ stdin }),
+
+  setCallbacks: (run, cancel, runTests) =>
+    set({ runCode: run, cancelCode: cancel, runTests }),
 
   reset: () => set(initialState),
 }));
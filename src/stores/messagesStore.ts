@@ -16,7 +16,7 @@ interface MessagesState {
   unreadCount: number;
   isPanelOpen: boolean;
   /** Injected by useMessageSync — broadcasts a chat message over WebRTC. */
-  _sendChatFn: ((text: string) => string) | null;
+  _sendChatFn: ((text: string) => string | null) | null;
 }
 
 interface MessagesActions {
@@ -24,7 +24,7 @@ interface MessagesActions {
   markAsRead: () => void;
   togglePanel: () => void;
   acknowledgeMessage: (messageId: string) => void;
-  setSendChatFn: (fn: ((text: string) => string) | null) => void;
+  setSendChatFn: (fn: ((text: string) => string | null) | null) => void;
   reset: () => void;
 }
 
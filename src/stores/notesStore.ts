@@ -0,0 +1,47 @@
+import { create } from 'zustand';
+
+/** Private interviewer notes — one shared text, last writer wins. */
+export interface Notes {
+  text: string;
+  /** When the text last changed (0 if never); newer notes replace older ones. */
+  updatedAt: number;
+  /** Name of whoever changed it last. */
+  updatedBy: string;
+}
+
+type NotesState = Notes;
+
+interface NotesActions {
+  /** A local edit. */
+  setText: (text: string, author: string) => void;
+  /** Notes from a peer or storage; ignored unless newer than ours. Returns whether they were applied. */
+  mergeNotes: (notes: Notes) => boolean;
+  reset: () => void;
+}
+
+export type NotesStore = NotesState & NotesActions;
+
+const initialState: NotesState = {
+  text: '',
+  updatedAt: 0,
+  updatedBy: '',
+};
+
+export const useNotesStore = create<NotesStore>((set, get) => ({
+  ...initialState,
+
+  setText: (text, author) =>
+    // Strictly increasing, so a quick edit after a merge still wins
+    set((state) => ({ text, updatedBy: author, updatedAt: Math.max(Date.now(), state.updatedAt + 1) })),
+
+  mergeNotes: (notes) => {
+    const { updatedAt, updatedBy } = get();
+    // Same timestamp: break the tie by author so every peer keeps the same copy
+    const newer = notes.updatedAt > updatedAt || (notes.updatedAt === updatedAt && notes.updatedBy > updatedBy);
+    if (!newer) return false;
+    set({ text: notes.text, updatedAt: notes.updatedAt, updatedBy: notes.updatedBy });
+    return true;
+  },
+
+  reset: () => set(initialState),
+}));
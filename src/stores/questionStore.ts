@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import type { SharedQuestion, TestCase } from '../services/question-bank';
+
+interface QuestionState {
+  /** The problem the session works on, or null for a blank session. */
+  question: SharedQuestion | null;
+  /** Hidden tests, known to interviewers only, for the question with `questionId`. */
+  tests: { questionId: string; cases: TestCase[] } | null;
+}
+
+interface QuestionActions {
+  /** Tests, if given, are the question's hidden tests. */
+  setQuestion: (question: SharedQuestion | null, tests?: TestCase[]) => void;
+  setTests: (questionId: string, cases: TestCase[]) => void;
+  /** Hidden tests of the current question; empty if unknown. */
+  getTests: () => TestCase[];
+  reset: () => void;
+}
+
+export type QuestionStore = QuestionState & QuestionActions;
+
+/** Shared so selectors returning it keep a stable reference. */
+const NO_TESTS: TestCase[] = [];
+
+const initialState: QuestionState = {
+  question: null,
+  tests: null,
+};
+
+export const useQuestionStore = create<QuestionStore>((set, get) => ({
+  ...initialState,
+
+  setQuestion: (question, tests) =>
+    set(question && tests ? { question, tests: { questionId: question.id, cases: tests } } : { question }),
+
+  // Tests may arrive before or after their question, so they keep its id
+  setTests: (questionId, cases) => set({ tests: { questionId, cases } }),
+
+  getTests: () => {
+    const { question, tests } = get();
+    return question && tests && tests.questionId === question.id ? tests.cases : NO_TESTS;
+  },
+
+  reset: () => set(initialState),
+}));
@@ -0,0 +1,72 @@
+import { create } from 'zustand';
+import { createDefaultScorecard, mergeCompetencies } from '../services/scorecard';
+import type { Competency, Rating } from '../services/scorecard';
+
+interface ScorecardState {
+  competencies: Competency[];
+}
+
+interface ScorecardActions {
+  setRating: (id: string, rating: Rating | null, author: string) => void;
+  setComment: (id: string, comment: string, author: string) => void;
+  /** Returns the new competency's id. */
+  addCompetency: (name: string, author: string) => string;
+  renameCompetency: (id: string, name: string, author: string) => void;
+  removeCompetency: (id: string, author: string) => void;
+  /** Competencies from a peer or storage; each is kept only if newer than ours. Returns whether any were applied. */
+  mergeCompetencies: (competencies: Competency[]) => boolean;
+  reset: () => void;
+}
+
+export type ScorecardStore = ScorecardState & ScorecardActions;
+
+const initialState = (): ScorecardState => ({
+  competencies: createDefaultScorecard(),
+});
+
+export const useScorecardStore = create<ScorecardStore>((set, get) => {
+  /** A local edit to one competency. */
+  const edit = (id: string, changes: Partial<Competency>, author: string) =>
+    set((state) => ({
+      competencies: state.competencies.map((c) =>
+        c.id === id
+          // Strictly increasing, so a quick edit after a merge still wins
+          ? { ...c, ...changes, updatedBy: author, updatedAt: Math.max(Date.now(), c.updatedAt + 1) }
+          : c
+      ),
+    }));
+
+  return {
+    ...initialState(),
+
+    setRating: (id, rating, author) => edit(id, { rating }, author),
+
+    setComment: (id, comment, author) => edit(id, { comment }, author),
+
+    addCompetency: (name, author) => {
+      const now = Date.now();
+      const id = `${now}-${Math.random().toString(36).slice(2, 9)}`;
+      set((state) => ({
+        competencies: [
+          ...state.competencies,
+          { id, name, rating: null, comment: '', createdAt: now, updatedAt: now, updatedBy: author },
+        ],
+      }));
+      return id;
+    },
+
+    renameCompetency: (id, name, author) => edit(id, { name }, author),
+
+    removeCompetency: (id, author) => edit(id, { removed: true }, author),
+
+    mergeCompetencies: (competencies) => {
+      const current = get().competencies;
+      const merged = mergeCompetencies(current, competencies);
+      if (merged === current) return false;
+      set({ competencies: merged });
+      return true;
+    },
+
+    reset: () => set(initialState()),
+  };
+});
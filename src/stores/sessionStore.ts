@@ -1,8 +1,13 @@
 import { create } from 'zustand';
+import { getDefaultRole, isMessageAllowed } from '../services/roles';
+import type { Role } from '../services/roles';
+import type { DataChannelMessage } from '../services/connection-manager';
 
 export interface Participant {
   name?: string;
   isHost?: boolean;
+  /** Assigned by the host; until then the default for isHost applies (see getPeerRole). */
+  role?: Role;
   joinedAt?: number;
   [key: string]: unknown;
 }
@@ -11,6 +16,10 @@ interface SessionState {
   sessionId: string | null;
   isHost: boolean;
   peerName: string | null;
+  /** Our id on the signaling server — the key peers use for us in `participants`. */
+  localPeerId: string | null;
+  /** Our own role, as assigned by the host. */
+  role: Role;
   sessionStartTime: number | null;
   participants: Record<string, Participant>;
 }
@@ -19,6 +28,16 @@ interface SessionActions {
   createSession: (sessionId: string) => void;
   joinSession: (sessionId: string) => void;
   setPeerName: (name: string) => void;
+  setLocalPeerId: (peerId: string | null) => void;
+  setRole: (role: Role) => void;
+  /** Set the role of a participant, or our own when `peerId` is our localPeerId. */
+  assignRole: (peerId: string, role: Role) => void;
+  getPeerRole: (peerId: string) => Role;
+  /**
+   * Whether a message received from `peerId` is allowed by their role. Only
+   * the host can check: everyone else receives messages relayed through it.
+   */
+  isAllowedFrom: (peerId: string | undefined, message: DataChannelMessage) => boolean;
   updateParticipant: (peerId: string, data: Partial<Participant>) => void;
   removeParticipant: (peerId: string) => void;
   transferHost: (newHostPeerId: string | null) => void;
@@ -31,21 +50,46 @@ const initialState: SessionState = {
   sessionId: null,
   isHost: false,
   peerName: null,
+  localPeerId: null,
+  role: getDefaultRole(false),
   sessionStartTime: null,
   participants: {},
 };
 
-export const useSessionStore = create<SessionStore>((set) => ({
+export const useSessionStore = create<SessionStore>((set, get) => ({
   ...initialState,
 
   createSession: (sessionId) =>
-    set({ sessionId, isHost: true, sessionStartTime: Date.now() }),
+    set({ sessionId, isHost: true, role: getDefaultRole(true), sessionStartTime: Date.now() }),
 
   joinSession: (sessionId) =>
-    set({ sessionId, isHost: false, sessionStartTime: Date.now() }),
+    set({ sessionId, isHost: false, role: getDefaultRole(false), sessionStartTime: Date.now() }),
 
   setPeerName: (name) => set({ peerName: name }),
 
+  setLocalPeerId: (localPeerId) => set({ localPeerId }),
+
+  setRole: (role) => set({ role }),
+
+  assignRole: (peerId, role) => {
+    if (peerId === get().localPeerId) {
+      set({ role });
+    } else {
+      get().updateParticipant(peerId, { role });
+    }
+  },
+
+  getPeerRole: (peerId) => {
+    const participant = get().participants[peerId];
+    return participant?.role ?? getDefaultRole(Boolean(participant?.isHost));
+  },
+
+  isAllowedFrom: (peerId, message) => {
+    const { isHost, getPeerRole } = get();
+    if (!isHost || !peerId) return true;
+    return isMessageAllowed(message, getPeerRole(peerId));
+  },
+
   updateParticipant: (peerId, data) =>
     set((state) => ({
       participants: {
@@ -8,6 +8,11 @@ interface UIState {
   theme: Theme;
   isNameModalOpen: boolean;
   isNewSessionModalOpen: boolean;
+  isReplayOpen: boolean;
+  /** Participant whose view is mirrored (follow mode), or null. */
+  followingPeerId: string | null;
+  /** Code editor scroll offset, in px. */
+  editorScroll: { top: number; left: number };
 }
 
 interface UIActions {
@@ -18,6 +23,11 @@ interface UIActions {
   hideNameModal: () => void;
   showNewSessionModal: () => void;
   hideNewSessionModal: () => void;
+  showReplay: () => void;
+  hideReplay: () => void;
+  followPeer: (peerId: string) => void;
+  stopFollowing: () => void;
+  setEditorScroll: (top: number, left: number) => void;
   reset: () => void;
 }
 
@@ -28,6 +38,9 @@ const initialState: UIState = {
   theme: 'dark',
   isNameModalOpen: false,
   isNewSessionModalOpen: false,
+  isReplayOpen: false,
+  followingPeerId: null,
+  editorScroll: { top: 0, left: 0 },
 };
 
 export const useUIStore = create<UIStore>((set) => ({
@@ -50,5 +63,20 @@ export const useUIStore = create<UIStore>((set) => ({
 
   hideNewSessionModal: () => set({ isNewSessionModalOpen: false }),
 
+  showReplay: () => set({ isReplayOpen: true }),
+
+  hideReplay: () => set({ isReplayOpen: false }),
+
+  followPeer: (followingPeerId) => set({ followingPeerId }),
+
+  stopFollowing: () => set({ followingPeerId: null }),
+
+  setEditorScroll: (top, left) =>
+    set((state) =>
+      state.editorScroll.top === top && state.editorScroll.left === left
+        ? state
+        : { editorScroll: { top, left } },
+    ),
+
   reset: () => set(initialState),
 }));
@@ -12,6 +12,7 @@ describe('CanvasToolbar', () => {
     render(<CanvasToolbar />);
     expect(screen.getByTitle('Pen')).toBeInTheDocument();
     expect(screen.getByTitle('Line')).toBeInTheDocument();
+    expect(screen.getByTitle('Arrow')).toBeInTheDocument();
     expect(screen.getByTitle('Rectangle')).toBeInTheDocument();
     expect(screen.getByTitle('Circle')).toBeInTheDocument();
     expect(screen.getByTitle('Text')).toBeInTheDocument();
@@ -19,6 +20,38 @@ describe('CanvasToolbar', () => {
     expect(screen.getByTitle('Eraser')).toBeInTheDocument();
   });
 
+  it('renders the system-design shapes', () => {
+    render(<CanvasToolbar />);
+    for (const title of ['Service', 'Database', 'Queue', 'Cache', 'Load Balancer', 'Client', 'Cloud', 'Group / Swimlane']) {
+      expect(screen.getByTitle(title)).toBeInTheDocument();
+    }
+    fireEvent.click(screen.getByTitle('Database'));
+    expect(useCanvasStore.getState().currentTool).toBe('database');
+  });
+
+  it('shows the arrange commands only for a selection', () => {
+    const { rerender } = render(<CanvasToolbar />);
+    expect(screen.queryByTitle('Group')).not.toBeInTheDocument();
+
+    const store = useCanvasStore.getState();
+    store.addStroke({ tool: 'rectangle', start: { x: 0, y: 0 }, end: { x: 10, y: 10 } });
+    store.addStroke({ tool: 'rectangle', start: { x: 50, y: 0 }, end: { x: 60, y: 10 } });
+    store.setTool('select');
+    store.setSelection([useCanvasStore.getState().drawingStrokes[0].id!]);
+    rerender(<CanvasToolbar />);
+    expect(screen.getByTitle('Bring to Front')).not.toBeDisabled();
+    expect(screen.getByTitle('Group')).toBeDisabled();
+    expect(screen.getByTitle('Distribute Horizontally')).toBeDisabled();
+
+    useCanvasStore.getState().setSelection(useCanvasStore.getState().drawingStrokes.map((s) => s.id!));
+    rerender(<CanvasToolbar />);
+    fireEvent.click(screen.getByTitle('Group'));
+    const [first, second] = useCanvasStore.getState().drawingStrokes;
+    expect(first.groupId).toBeDefined();
+    expect(second.groupId).toBe(first.groupId);
+    expect(screen.getByTitle('Ungroup')).not.toBeDisabled();
+  });
+
   it('renders undo/redo/clear/reset buttons', () => {
     render(<CanvasToolbar />);
     expect(screen.getByTitle('Undo (Ctrl+Z)')).toBeInTheDocument();
@@ -84,7 +117,7 @@ describe('CanvasToolbar', () => {
     useCanvasStore.getState().undo();
     render(<CanvasToolbar />);
     fireEvent.click(screen.getByTitle('Redo (Ctrl+Y)'));
-    expect(useCanvasStore.getState().drawingStrokes).toEqual([stroke]);
+    expect(useCanvasStore.getState().drawingStrokes).toMatchObject([stroke]);
   });
 
   it('clears canvas when clear button is clicked', () => {
@@ -0,0 +1,301 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyOp,
+  applyOps,
+  compareStamps,
+  applyLocalOps,
+  composeInverse,
+  createDocument,
+  mergeDocument,
+  restampHistory,
+  strokeChanges,
+  undoOps,
+  withStrokeIds,
+} from '../../src/services/canvas-document';
+import type { CanvasDocument, CanvasOp, InverseOp } from '../../src/services/canvas-document';
+import type { Stroke } from '../../src/services/canvas-logic';
+
+function box(id: string, site: string, clock: number): Stroke {
+  return { tool: 'rectangle', start: { x: 0, y: 0 }, end: { x: 10, y: 10 }, id, author: site, clock };
+}
+
+function add(stroke: Stroke): CanvasOp {
+  return { kind: 'add', stroke, clock: stroke.clock!, site: stroke.author! };
+}
+
+/** Undoes the newest step of `history` at site 'a', as the canvas store does. */
+function undo(doc: CanvasDocument, history: InverseOp[][]): { doc: CanvasDocument; history: InverseOp[][] } {
+  const stack = history.slice(0, -1);
+  const top = history[history.length - 1];
+  return {
+    doc: applyOps(doc, undoOps(doc, top, 'a')),
+    history: restampHistory(stack, doc, top, 'a'),
+  };
+}
+
+/** Every order of `ops`, so merges can be checked for order independence. */
+function permutations<T>(items: T[]): T[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [item, ...rest])
+  );
+}
+
+describe('canvas-document', () => {
+  describe('compareStamps', () => {
+    it('orders by clock, then site', () => {
+      expect(compareStamps({ clock: 1, site: 'b' }, { clock: 2, site: 'a' })).toBeLessThan(0);
+      expect(compareStamps({ clock: 2, site: 'a' }, { clock: 2, site: 'b' })).toBeLessThan(0);
+      expect(compareStamps({ clock: 2, site: 'a' }, { clock: 2, site: 'a' })).toBe(0);
+    });
+  });
+
+  describe('createDocument', () => {
+    it('gives strokes without ids ids by position', () => {
+      const doc = createDocument([{ tool: 'pen' }, { tool: 'line' }]);
+      expect(doc.strokes.map((s) => s.id)).toEqual(['s0', 's1']);
+      expect(doc.strokes.map((s) => s.tool)).toEqual(['pen', 'line']);
+    });
+
+    it('keeps ids strokes already have', () => {
+      expect(withStrokeIds([box('a-1', 'a', 1)])[0].id).toBe('a-1');
+    });
+
+    it('starts its clock after the newest stroke', () => {
+      expect(createDocument([box('a-4', 'a', 4)]).clock).toBe(4);
+      expect(createDocument([], 9).clock).toBe(9);
+    });
+  });
+
+  describe('applyOp', () => {
+    it('adds, updates and deletes a stroke', () => {
+      let doc = applyOp(createDocument(), add(box('a-1', 'a', 1)));
+      expect(doc.strokes).toHaveLength(1);
+
+      doc = applyOp(doc, { kind: 'update', id: 'a-1', changes: { text: 'DB' }, clock: 2, site: 'a' });
+      expect(doc.strokes[0].text).toBe('DB');
+
+      doc = applyOp(doc, { kind: 'delete', id: 'a-1', clock: 3, site: 'a' });
+      expect(doc.strokes).toEqual([]);
+      expect(doc.clock).toBe(3);
+    });
+
+    it('returns the same document for an op already applied', () => {
+      const op = add(box('a-1', 'a', 1));
+      const doc = applyOp(createDocument(), op);
+      expect(applyOp(doc, op)).toBe(doc);
+    });
+
+    it('orders strokes by when they were drawn', () => {
+      const doc = applyOps(createDocument(), [add(box('b-2', 'b', 2)), add(box('a-1', 'a', 1)), add(box('a-2', 'a', 2))]);
+      expect(doc.strokes.map((s) => s.id)).toEqual(['a-1', 'a-2', 'b-2']);
+    });
+
+    it('orders a stroke brought forward or back by its z', () => {
+      let doc = applyOps(createDocument(), [add(box('a-1', 'a', 1)), add(box('a-2', 'a', 2))]);
+      doc = applyOp(doc, { kind: 'update', id: 'a-1', changes: { z: 3 }, clock: 3, site: 'a' });
+      expect(doc.strokes.map((s) => s.id)).toEqual(['a-2', 'a-1']);
+
+      doc = applyOp(doc, { kind: 'update', id: 'a-1', changes: { z: null }, clock: 4, site: 'a' });
+      expect(doc.strokes.map((s) => s.id)).toEqual(['a-1', 'a-2']);
+    });
+
+    it('never changes a stroke\'s id, author or clock', () => {
+      let doc = applyOp(createDocument(), add(box('a-1', 'a', 1)));
+      doc = applyOp(doc, { kind: 'update', id: 'a-1', changes: { id: 'x', clock: 99 }, clock: 2, site: 'b' });
+      expect(doc.strokes[0]).toMatchObject({ id: 'a-1', clock: 1 });
+    });
+  });
+
+  describe('concurrent ops', () => {
+    const base = add(box('a-1', 'a', 1));
+
+    function converges(ops: CanvasOp[]): Stroke[] {
+      const results = permutations(ops).map((order) => applyOps(createDocument(), order).strokes);
+      for (const strokes of results) expect(strokes).toEqual(results[0]);
+      return results[0];
+    }
+
+    it('keeps both peers\' changes to different fields', () => {
+      const strokes = converges([
+        base,
+        { kind: 'update', id: 'a-1', changes: { start: { x: 5, y: 5 }, end: { x: 15, y: 15 } }, clock: 2, site: 'a' },
+        { kind: 'update', id: 'a-1', changes: { text: 'Cache' }, clock: 2, site: 'b' },
+      ]);
+      expect(strokes[0]).toMatchObject({ start: { x: 5, y: 5 }, text: 'Cache' });
+    });
+
+    it('picks the same winner for the same field everywhere', () => {
+      const strokes = converges([
+        base,
+        { kind: 'update', id: 'a-1', changes: { color: '#f00' }, clock: 2, site: 'a' },
+        { kind: 'update', id: 'a-1', changes: { color: '#0f0' }, clock: 2, site: 'b' },
+      ]);
+      expect(strokes[0].color).toBe('#0f0');
+    });
+
+    it('lets a delete beat an older move', () => {
+      const strokes = converges([
+        base,
+        { kind: 'update', id: 'a-1', changes: { start: { x: 5, y: 5 } }, clock: 2, site: 'b' },
+        { kind: 'delete', id: 'a-1', clock: 3, site: 'a' },
+      ]);
+      expect(strokes).toEqual([]);
+    });
+
+    it('lets a newer add bring back a deleted stroke', () => {
+      const strokes = converges([
+        base,
+        { kind: 'delete', id: 'a-1', clock: 2, site: 'b' },
+        { kind: 'add', stroke: box('a-1', 'a', 1), clock: 3, site: 'a' },
+      ]);
+      expect(strokes.map((s) => s.id)).toEqual(['a-1']);
+    });
+
+    it('keeps a stroke deleted when its add arrives late', () => {
+      const doc = applyOps(createDocument(), [{ kind: 'delete', id: 'a-1', clock: 2, site: 'b' }, base]);
+      expect(doc.strokes).toEqual([]);
+    });
+  });
+
+  describe('mergeDocument', () => {
+    const base = add(box('a-1', 'a', 1));
+    const moved: CanvasOp = { kind: 'update', id: 'a-1', changes: { start: { x: 5, y: 5 } }, clock: 2, site: 'a' };
+    const named: CanvasOp = { kind: 'update', id: 'a-1', changes: { text: 'Cache' }, clock: 2, site: 'b' };
+
+    it('takes each newer field from the other document and keeps the rest', () => {
+      const here = applyOps(createDocument(), [base, moved]);
+      const there = applyOps(createDocument(), [base, named]);
+      const merged = mergeDocument(here, there.entries, there.clock);
+      expect(merged.strokes[0]).toMatchObject({ start: { x: 5, y: 5 }, text: 'Cache' });
+      expect(mergeDocument(there, here.entries, here.clock).strokes).toEqual(merged.strokes);
+    });
+
+    it('keeps a delete the other document has not seen', () => {
+      const deleted = applyOps(createDocument(), [base, { kind: 'delete', id: 'a-1', clock: 3, site: 'a' }]);
+      const stale = applyOps(createDocument(), [base, named]);
+      expect(mergeDocument(deleted, stale.entries).strokes).toEqual([]);
+    });
+
+    it('leaves ops still to come applying as they would have', () => {
+      const there = applyOps(createDocument(), [base]);
+      const merged = mergeDocument(createDocument(), there.entries, there.clock);
+      expect(applyOp(merged, moved).strokes).toEqual(applyOps(createDocument(), [base, moved]).strokes);
+      expect(applyOp(merged, base)).toBe(merged);
+    });
+
+    it('returns the same document when there is nothing new', () => {
+      const doc = applyOps(createDocument(), [base, moved]);
+      expect(mergeDocument(doc, doc.entries, doc.clock)).toBe(doc);
+    });
+  });
+
+  describe('strokeChanges', () => {
+    it('lists the fields that differ', () => {
+      expect(strokeChanges(box('a-1', 'a', 1), { ...box('a-1', 'a', 1), text: 'LB' })).toEqual({ text: 'LB' });
+    });
+
+    it('marks removed fields null', () => {
+      expect(strokeChanges({ ...box('a-1', 'a', 1), text: 'LB' }, box('a-1', 'a', 1))).toEqual({ text: null });
+    });
+  });
+
+  describe('undo', () => {
+    it('reverts an add, update and delete', () => {
+      let doc = applyOp(createDocument(), add(box('a-1', 'a', 1)));
+      const before = doc.strokes;
+      const { doc: after, inverse } = applyLocalOps(doc, [
+        { kind: 'update', id: 'a-1', changes: { text: 'DB' }, clock: 2, site: 'a' },
+        add(box('a-3', 'a', 3)),
+      ]);
+      expect(inverse.map((op) => op.kind)).toEqual(['delete', 'update']);
+
+      doc = applyOps(after, undoOps(after, inverse, 'a'));
+      expect(doc.strokes).toEqual(before);
+    });
+
+    it('removes fields the change added', () => {
+      const doc = applyOp(createDocument(), add(box('a-1', 'a', 1)));
+      const { doc: after, inverse } = applyLocalOps(doc, [
+        { kind: 'update', id: 'a-1', changes: { text: 'DB' }, clock: 2, site: 'a' },
+      ]);
+      const ops = undoOps(after, inverse, 'a');
+      expect(ops).toEqual([{ kind: 'update', id: 'a-1', changes: { text: null }, clock: 3, site: 'a' }]);
+      expect(JSON.parse(JSON.stringify(ops))).toEqual(ops);
+      expect('text' in applyOps(after, ops).strokes[0]).toBe(false);
+    });
+
+    it('skips what others changed since', () => {
+      const doc = applyOp(createDocument(), add(box('a-1', 'a', 1)));
+      const { doc: after, inverse } = applyLocalOps(doc, [
+        { kind: 'update', id: 'a-1', changes: { text: 'DB', color: '#f00' }, clock: 2, site: 'a' },
+      ]);
+      const edited = applyOp(after, { kind: 'update', id: 'a-1', changes: { color: '#0f0' }, clock: 3, site: 'b' });
+      expect(undoOps(edited, inverse, 'a')).toEqual([
+        { kind: 'update', id: 'a-1', changes: { text: null }, clock: 4, site: 'a' },
+      ]);
+    });
+
+    it('undoes several changes of the same field one after another', () => {
+      let doc = applyOp(createDocument(), add(box('a-1', 'a', 1)));
+      const history: InverseOp[][] = [];
+      for (const [clock, x] of [[2, 20], [3, 30]]) {
+        const local = applyLocalOps(doc, [{ kind: 'update', id: 'a-1', changes: { start: { x, y: 0 } }, clock, site: 'a' }]);
+        doc = local.doc;
+        history.push(local.inverse);
+      }
+
+      let state = undo(doc, history);
+      expect(state.doc.strokes[0].start).toEqual({ x: 20, y: 0 });
+      state = undo(state.doc, state.history);
+      expect(state.doc.strokes[0].start).toEqual({ x: 0, y: 0 });
+    });
+
+    it('undoes an erase, then the drawing it erased', () => {
+      let doc = createDocument();
+      const history: InverseOp[][] = [];
+      for (const op of [add(box('a-1', 'a', 1)), { kind: 'delete', id: 'a-1', clock: 2, site: 'a' } as CanvasOp]) {
+        const local = applyLocalOps(doc, [op]);
+        doc = local.doc;
+        history.push(local.inverse);
+      }
+
+      let state = undo(doc, history);
+      expect(state.doc.strokes.map((s) => s.id)).toEqual(['a-1']);
+      state = undo(state.doc, state.history);
+      expect(state.doc.strokes).toEqual([]);
+    });
+
+    it('still skips older changes someone else has overridden since', () => {
+      let doc = applyOp(createDocument(), add(box('a-1', 'a', 1)));
+      const first = applyLocalOps(doc, [{ kind: 'update', id: 'a-1', changes: { text: 'A' }, clock: 2, site: 'a' }]);
+      doc = applyOp(first.doc, { kind: 'update', id: 'a-1', changes: { text: 'B' }, clock: 3, site: 'b' });
+      const second = applyLocalOps(doc, [{ kind: 'update', id: 'a-1', changes: { text: 'C' }, clock: 4, site: 'a' }]);
+
+      const state = undo(second.doc, [first.inverse, second.inverse]);
+      expect(state.doc.strokes[0].text).toBe('B');
+      expect(undoOps(state.doc, state.history[0], 'a')).toEqual([]);
+    });
+
+    it('reverts a composed step whose parts changed different fields', () => {
+      const doc = applyOp(createDocument(), add({ tool: 'text', text: 'Hi', position: { x: 0, y: 0 }, fontSize: 16, id: 'a-1', author: 'a', clock: 1 }));
+      const first = applyLocalOps(doc, [{ kind: 'update', id: 'a-1', changes: { position: { x: 5, y: 5 }, fontSize: 20 }, clock: 2, site: 'a' }]);
+      const second = applyLocalOps(first.doc, [{ kind: 'update', id: 'a-1', changes: { position: { x: 9, y: 9 } }, clock: 3, site: 'a' }]);
+
+      const after = applyOps(second.doc, undoOps(second.doc, composeInverse(first.inverse, second.inverse), 'a'));
+      expect(after.strokes[0]).toMatchObject({ position: { x: 0, y: 0 }, fontSize: 16 });
+    });
+
+    it('composes repeated updates of the same fields into one', () => {
+      const first: InverseOp[] = [
+        { kind: 'update', id: 'a-1', changes: { start: { x: 0, y: 0 } }, clock: 2, site: 'a', prior: { start: { clock: 1, site: 'a' } } },
+      ];
+      const second: InverseOp[] = [
+        { kind: 'update', id: 'a-1', changes: { start: { x: 5, y: 5 } }, clock: 3, site: 'a', prior: { start: { clock: 2, site: 'a' } } },
+      ];
+      expect(composeInverse(first, second)).toEqual([
+        { kind: 'update', id: 'a-1', changes: { start: { x: 0, y: 0 } }, clock: 3, site: 'a', prior: { start: { clock: 1, site: 'a' } } },
+      ]);
+    });
+  });
+});
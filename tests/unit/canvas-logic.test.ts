@@ -18,6 +18,21 @@ import {
   filterStrokesAfterErase,
   findShapeAtPosition,
   getShapeCenter,
+  getAnchorPoint,
+  getConnectorEnds,
+  routeConnectors,
+  getArrowheadPoints,
+  findStrokeAtPosition,
+  getShapePath,
+  isPointInShape,
+  getLabelBounds,
+  getDiagramBounds,
+  isSystemShape,
+  rotatePoint,
+  rotateStroke,
+  getOuterBounds,
+  SYSTEM_SHAPES,
+  GROUP_HEADER_HEIGHT,
   containsNonASCII,
   wrapText,
   MIN_SCALE,
@@ -300,6 +315,227 @@ describe('getShapeCenter', () => {
   });
 });
 
+// ── Connectors ──────────────────────────────────────────────────────────────
+
+const shape = (id: string, x: number, y: number): Stroke => ({
+  id,
+  tool: 'rectangle',
+  start: { x, y },
+  end: { x: x + 100, y: y + 50 },
+});
+
+describe('getAnchorPoint', () => {
+  const box = shape('a', 0, 0);
+
+  it('should pick the middle of the side facing the point', () => {
+    expect(getAnchorPoint(box, { x: 300, y: 30 })).toEqual({ x: 100, y: 25 });
+    expect(getAnchorPoint(box, { x: -300, y: 30 })).toEqual({ x: 0, y: 25 });
+    expect(getAnchorPoint(box, { x: 50, y: 300 })).toEqual({ x: 50, y: 50 });
+    expect(getAnchorPoint(box, { x: 50, y: -300 })).toEqual({ x: 50, y: 0 });
+  });
+});
+
+describe('getConnectorEnds', () => {
+  const a = shape('a', 0, 0);
+  const b = shape('b', 300, 0);
+  const shapes = new Map([['a', a], ['b', b]]);
+
+  it('should attach bound ends to the facing sides', () => {
+    const arrow: Stroke = { tool: 'arrow', start: { x: 0, y: 0 }, end: { x: 1, y: 1 }, from: 'a', to: 'b' };
+    expect(getConnectorEnds(arrow, shapes)).toEqual({ start: { x: 100, y: 25 }, end: { x: 300, y: 25 } });
+  });
+
+  it('should keep free ends where they are', () => {
+    const arrow: Stroke = { tool: 'arrow', start: { x: 50, y: 200 }, end: { x: 0, y: 0 }, to: 'a' };
+    expect(getConnectorEnds(arrow, shapes)).toEqual({ start: { x: 50, y: 200 }, end: { x: 50, y: 50 } });
+  });
+
+  it('should fall back to the stored end when its shape is gone', () => {
+    const arrow: Stroke = { tool: 'arrow', start: { x: 5, y: 5 }, end: { x: 9, y: 9 }, from: 'missing' };
+    expect(getConnectorEnds(arrow, shapes)).toEqual({ start: { x: 5, y: 5 }, end: { x: 9, y: 9 } });
+  });
+});
+
+describe('routeConnectors', () => {
+  const arrow: Stroke = { id: 'x', tool: 'arrow', start: { x: 0, y: 0 }, end: { x: 0, y: 0 }, from: 'a', to: 'b' };
+
+  it('should move arrows with the shapes they connect', () => {
+    const routed = routeConnectors([shape('a', 0, 0), shape('b', 0, 300), arrow]);
+    expect(routed[2]).toMatchObject({ start: { x: 50, y: 50 }, end: { x: 50, y: 300 } });
+  });
+
+  it('should return the same strokes when nothing needs routing', () => {
+    const strokes = [shape('a', 0, 0), { tool: 'line', start: { x: 0, y: 0 }, end: { x: 5, y: 5 } }];
+    expect(routeConnectors(strokes)).toBe(strokes);
+  });
+
+  it('should return the same routed arrow for the same layout', () => {
+    const a = shape('a', 0, 0);
+    const b = shape('b', 300, 0);
+    const first = routeConnectors([a, b, arrow]);
+    const second = routeConnectors([a, b, arrow]);
+    expect(second[2]).toBe(first[2]);
+  });
+});
+
+describe('getArrowheadPoints', () => {
+  it('should put both corners behind the tip, either side of the shaft', () => {
+    const [left, right] = getArrowheadPoints({ x: 0, y: 0 }, { x: 100, y: 0 }, 10);
+    expect(left.x).toBeLessThan(100);
+    expect(right.x).toBeCloseTo(left.x);
+    expect(left.y).toBeCloseTo(-right.y);
+  });
+});
+
+describe('arrow hit-testing', () => {
+  const arrow: Stroke = { tool: 'arrow', start: { x: 0, y: 0 }, end: { x: 100, y: 0 } };
+
+  it('should hit an arrow near its shaft', () => {
+    expect(findStrokeAtPosition([arrow], 50, 4)).toBe(0);
+    expect(findStrokeAtPosition([arrow], 50, 40)).toBeNull();
+  });
+
+  it('should erase an arrow the eraser crosses', () => {
+    expect(filterStrokesAfterErase([arrow], 50, 2, 6)).toEqual([]);
+  });
+});
+
+describe('system-design shapes', () => {
+  const shape = (tool: string): Stroke => ({ tool, start: { x: 0, y: 0 }, end: { x: 200, y: 100 } });
+
+  it('should recognise only the system-design tools', () => {
+    expect(SYSTEM_SHAPES.every(isSystemShape)).toBe(true);
+    expect(isSystemShape('rectangle')).toBe(false);
+  });
+
+  it('should outline every shape within its box', () => {
+    for (const tool of SYSTEM_SHAPES) {
+      const path = getShapePath(shape(tool));
+      expect(path[0].type).toBe('move');
+      for (const segment of path) {
+        if (segment.type === 'close') continue;
+        expect(segment.to.x).toBeGreaterThanOrEqual(-0.5);
+        expect(segment.to.x).toBeLessThanOrEqual(200.5);
+        expect(segment.to.y).toBeGreaterThanOrEqual(-0.5);
+        expect(segment.to.y).toBeLessThanOrEqual(100.5);
+      }
+    }
+  });
+
+  it('should have no outline for other strokes', () => {
+    expect(getShapePath(shape('rectangle'))).toEqual([]);
+  });
+
+  it('should hit a diamond load balancer only inside the diamond', () => {
+    expect(isPointInShape(shape('load-balancer'), 100, 50)).toBe(true);
+    expect(isPointInShape(shape('load-balancer'), 10, 10)).toBe(false);
+  });
+
+  it('should hit a cloud only inside its ellipse', () => {
+    expect(isPointInShape(shape('cloud'), 100, 50)).toBe(true);
+    expect(isPointInShape(shape('cloud'), 5, 5)).toBe(false);
+  });
+
+  it('should hit a group by its title band and edges, not its inside', () => {
+    const group = shape('group');
+    expect(isPointInShape(group, 100, GROUP_HEADER_HEIGHT / 2)).toBe(true);
+    expect(isPointInShape(group, 2, 70)).toBe(true);
+    expect(isPointInShape(group, 100, 70)).toBe(false);
+  });
+
+  it('should find a shape drawn inside a group', () => {
+    const group = shape('group');
+    const db: Stroke = { tool: 'database', start: { x: 50, y: 40 }, end: { x: 90, y: 90 } };
+    expect(findShapeAtPosition([db, group], 70, 60)).toBe(0);
+    expect(findStrokeAtPosition([db, group], 70, 60)).toBe(0);
+    expect(findShapeAtPosition([db, group], 150, 70)).toBeNull();
+  });
+
+  it('should erase a shape the eraser touches', () => {
+    expect(filterStrokesAfterErase([shape('queue')], 205, 50, 6)).toEqual([]);
+    expect(filterStrokesAfterErase([shape('queue')], 220, 50, 6)).toHaveLength(1);
+  });
+
+  it('should centre on the box', () => {
+    expect(getShapeCenter(shape('cache'))).toEqual({ x: 100, y: 50 });
+  });
+
+  it('should put labels below a database cap and in a group title band', () => {
+    expect(getLabelBounds(shape('database')).minY).toBeGreaterThan(0);
+    expect(getLabelBounds(shape('group'))).toEqual({ minX: 0, minY: 0, maxX: 200, maxY: GROUP_HEADER_HEIGHT });
+    expect(getLabelBounds(shape('service'))).toEqual({ minX: 0, minY: 0, maxX: 200, maxY: 100 });
+  });
+
+  it('should attach arrows to system shapes', () => {
+    const anchor = getAnchorPoint(shape('load-balancer'), { x: 500, y: 50 });
+    expect(anchor).toEqual({ x: 200, y: 50 });
+  });
+});
+
+describe('getDiagramBounds', () => {
+  it('should cover every stroke', () => {
+    const bounds = getDiagramBounds([
+      { tool: 'service', start: { x: 0, y: 0 }, end: { x: 50, y: 50 } },
+      { tool: 'line', start: { x: -10, y: 20 }, end: { x: 30, y: 80 } },
+    ]);
+    expect(bounds).toEqual({ minX: -10, minY: 0, maxX: 50, maxY: 80 });
+  });
+});
+
+// ── Rotation ─────────────────────────────────────────────────────────────────
+
+describe('rotation', () => {
+  const box: Stroke = { tool: 'rectangle', start: { x: 0, y: 0 }, end: { x: 100, y: 20 } };
+  const quarter = Math.PI / 2;
+
+  it('rotatePoint turns clockwise on screen for a positive angle', () => {
+    const p = rotatePoint({ x: 10, y: 0 }, { x: 0, y: 0 }, quarter);
+    expect(p.x).toBeCloseTo(0);
+    expect(p.y).toBeCloseTo(10);
+  });
+
+  it('rotateStroke turns shapes by their rotation, about their centre', () => {
+    const turned = rotateStroke(box, { x: 50, y: 10 }, quarter);
+    expect(turned.start).toEqual(box.start);
+    expect(turned.rotation).toBeCloseTo(quarter);
+    expect(rotateStroke(turned, { x: 50, y: 10 }, -quarter)).not.toHaveProperty('rotation');
+  });
+
+  it('rotateStroke moves a shape turned about another pivot', () => {
+    const turned = rotateStroke(box, { x: 0, y: 0 }, Math.PI);
+    expect(turned.start!.x).toBeCloseTo(-100);
+    expect(turned.end!.y).toBeCloseTo(0);
+  });
+
+  it('rotateStroke turns lines point by point', () => {
+    const line: Stroke = { tool: 'line', start: { x: 0, y: 0 }, end: { x: 10, y: 0 } };
+    const turned = rotateStroke(line, { x: 0, y: 0 }, quarter);
+    expect(turned.rotation).toBeUndefined();
+    expect(turned.end!.x).toBeCloseTo(0);
+    expect(turned.end!.y).toBeCloseTo(10);
+  });
+
+  it('getOuterBounds covers the shape as drawn', () => {
+    const bounds = getOuterBounds({ ...box, rotation: quarter });
+    expect(bounds.minX).toBeCloseTo(40);
+    expect(bounds.maxX).toBeCloseTo(60);
+    expect(bounds.minY).toBeCloseTo(-40);
+    expect(bounds.maxY).toBeCloseTo(60);
+  });
+
+  it('hit-tests a rotated shape where it is drawn', () => {
+    const turned = { ...box, rotation: quarter };
+    expect(findShapeAtPosition([turned], 50, -30)).toBe(0);
+    expect(findShapeAtPosition([turned], 90, 10)).toBeNull();
+  });
+
+  it('anchors arrows to the rotated sides', () => {
+    const anchor = getAnchorPoint({ ...box, rotation: quarter }, { x: 50, y: 200 });
+    expect(anchor.x).toBeCloseTo(50);
+    expect(anchor.y).toBeCloseTo(60);
+  });
+});
+
 // ── Export Helpers ───────────────────────────────────────────────────────────
 
 describe('containsNonASCII', () => {
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  alignStrokes,
+  detachArrows,
+  distributeStrokes,
+  expandToGroups,
+  findHandleAtPosition,
+  findStrokesInRect,
+  getHandlePoints,
+  getSelectionBounds,
+  resizeBounds,
+  scaleStroke,
+  ROTATE_HANDLE_OFFSET,
+} from '../../src/services/canvas-selection';
+import type { Stroke } from '../../src/services/canvas-logic';
+
+function box(id: string, x: number, y: number, size = 50, groupId?: string): Stroke {
+  return { tool: 'rectangle', id, start: { x, y }, end: { x: x + size, y: y + size }, ...(groupId && { groupId }) };
+}
+
+describe('canvas-selection', () => {
+  describe('expandToGroups', () => {
+    it('adds every stroke grouped with a selected one, in drawing order', () => {
+      const strokes = [box('a', 0, 0, 50, 'g'), box('b', 100, 0), box('c', 200, 0, 50, 'g')];
+      expect(expandToGroups(strokes, ['c'])).toEqual(['a', 'c']);
+      expect(expandToGroups(strokes, ['b'])).toEqual(['b']);
+    });
+  });
+
+  describe('findStrokesInRect', () => {
+    it('finds strokes wholly inside, whichever way it was dragged', () => {
+      const strokes = [box('a', 0, 0), box('b', 40, 40)];
+      expect(findStrokesInRect(strokes, { x: 60, y: 60 }, { x: -10, y: -10 })).toEqual(['a']);
+    });
+
+    it('uses the bounds of rotated strokes as drawn', () => {
+      const turned: Stroke = { ...box('a', 0, 0), end: { x: 100, y: 20 }, rotation: Math.PI / 2 };
+      expect(findStrokesInRect([turned], { x: 0, y: 0 }, { x: 100, y: 20 })).toEqual([]);
+      expect(findStrokesInRect([turned], { x: 30, y: -50 }, { x: 70, y: 70 })).toEqual(['a']);
+    });
+  });
+
+  describe('getSelectionBounds', () => {
+    it('covers the selected strokes', () => {
+      const strokes = [box('a', 0, 0), box('b', 100, 100), box('c', 500, 500)];
+      expect(getSelectionBounds(strokes, ['a', 'b'])).toEqual({ minX: 0, minY: 0, maxX: 150, maxY: 150 });
+    });
+
+    it('is null without selected strokes on the canvas', () => {
+      expect(getSelectionBounds([box('a', 0, 0)], ['gone'])).toBeNull();
+    });
+  });
+
+  describe('handles', () => {
+    const bounds = { minX: 0, minY: 0, maxX: 100, maxY: 50 };
+
+    it('puts the rotation handle the same screen distance above the box at any zoom', () => {
+      expect(getHandlePoints(bounds).rotate).toEqual({ x: 50, y: -ROTATE_HANDLE_OFFSET });
+      expect(getHandlePoints(bounds, 2).rotate).toEqual({ x: 50, y: -ROTATE_HANDLE_OFFSET / 2 });
+    });
+
+    it('finds the handle under the pointer', () => {
+      expect(findHandleAtPosition(bounds, 102, 48)).toBe('se');
+      expect(findHandleAtPosition(bounds, 50, 25)).toBeNull();
+      expect(findHandleAtPosition(bounds, 50, -ROTATE_HANDLE_OFFSET)).toBe('rotate');
+    });
+  });
+
+  describe('resizeBounds', () => {
+    const bounds = { minX: 0, minY: 0, maxX: 100, maxY: 100 };
+
+    it('moves only the edges under the handle', () => {
+      expect(resizeBounds(bounds, 'e', { x: 150, y: 999 })).toEqual({ minX: 0, minY: 0, maxX: 150, maxY: 100 });
+      expect(resizeBounds(bounds, 'nw', { x: 20, y: 30 })).toEqual({ minX: 20, minY: 30, maxX: 100, maxY: 100 });
+    });
+
+    it('never lets an edge cross the opposite one', () => {
+      expect(resizeBounds(bounds, 'w', { x: 300, y: 0 }).minX).toBe(90);
+    });
+  });
+
+  describe('scaleStroke', () => {
+    it('stretches points with the box', () => {
+      const scaled = scaleStroke(box('a', 0, 0, 10), { minX: 0, minY: 0, maxX: 10, maxY: 10 }, { minX: 0, minY: 0, maxX: 20, maxY: 40 });
+      expect(scaled.start).toEqual({ x: 0, y: 0 });
+      expect(scaled.end).toEqual({ x: 20, y: 40 });
+    });
+
+    it('scales text by the narrower side', () => {
+      const text: Stroke = { tool: 'text', text: 'Hi', position: { x: 0, y: 0 }, fontSize: 16 };
+      const scaled = scaleStroke(text, { minX: 0, minY: 0, maxX: 10, maxY: 10 }, { minX: 0, minY: 0, maxX: 20, maxY: 40 });
+      expect(scaled.fontSize).toBe(32);
+    });
+  });
+
+  describe('detachArrows', () => {
+    it('unbinds arrow ends from shapes left out', () => {
+      const arrow: Stroke = { tool: 'arrow', id: 'x', start: { x: 0, y: 0 }, end: { x: 1, y: 1 }, from: 'a', to: 'b' };
+      const { to: _, ...kept } = arrow;
+      expect(detachArrows([box('a', 0, 0), arrow])[1]).toStrictEqual(kept);
+    });
+  });
+
+  describe('alignStrokes', () => {
+    it('lines strokes up on an edge of them all', () => {
+      const aligned = alignStrokes([box('a', 0, 0), box('b', 100, 30, 20)], 'bottom');
+      expect(aligned.map((s) => s.end!.y)).toEqual([50, 50]);
+      expect(aligned[1].start!.x).toBe(100);
+    });
+
+    it('moves groups as one', () => {
+      const aligned = alignStrokes([box('a', 0, 0, 50, 'g'), box('b', 0, 100, 50, 'g'), box('c', 100, 40)], 'top');
+      expect(aligned.map((s) => s.start!.y)).toEqual([0, 100, 0]);
+    });
+
+    it('leaves a lone stroke as it is', () => {
+      const strokes = [box('a', 0, 0)];
+      expect(alignStrokes(strokes, 'left')).toBe(strokes);
+    });
+  });
+
+  describe('distributeStrokes', () => {
+    it('evens the gaps, the outermost staying put', () => {
+      const spread = distributeStrokes([box('a', 0, 0), box('c', 300, 0), box('b', 60, 0)], 'horizontal');
+      expect(spread.map((s) => [s.id, s.start!.x])).toEqual([['a', 0], ['b', 150], ['c', 300]]);
+    });
+
+    it('needs at least three', () => {
+      const strokes = [box('a', 0, 0), box('b', 60, 0)];
+      expect(distributeStrokes(strokes, 'vertical')).toBe(strokes);
+    });
+  });
+});
@@ -193,7 +193,7 @@ describe('Canvas selection tool', () => {
   });
 
   describe('Store operations for selection/move', () => {
-    it('should update stroke position via updateStrokeAt after move', () => {
+    it('should update stroke position via updateStroke after move', () => {
       const store = useCanvasStore.getState();
 
       store.addStroke({
@@ -206,7 +206,7 @@ describe('Canvas selection tool', () => {
       // Simulate moving the rectangle by (50, 30)
       const stroke = useCanvasStore.getState().drawingStrokes[0];
       const moved = translateStroke(stroke, 50, 30);
-      useCanvasStore.getState().updateStrokeAt(0, moved);
+      useCanvasStore.getState().updateStroke(useCanvasStore.getState().drawingStrokes[0].id!, moved);
 
       const updated = useCanvasStore.getState().drawingStrokes[0];
       expect(updated.start).toEqual({ x: 150, y: 130 });
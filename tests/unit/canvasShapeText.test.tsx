@@ -10,7 +10,7 @@ import { getShapeCenter } from '../../src/services/canvas-logic';
  * Requirements:
  * - Double-click on rectangle/circle opens text overlay at shape center
  * - Existing shape text pre-fills the overlay (initialText prop)
- * - Committing updates the shape's text via updateStrokeAt
+ * - Committing updates the shape's text via updateStroke
  */
 
 describe('Canvas shape text', () => {
@@ -77,8 +77,8 @@ describe('Canvas shape text', () => {
     });
   });
 
-  describe('Store updateStrokeAt for shape text', () => {
-    it('should update rectangle text via updateStrokeAt', () => {
+  describe('Store updateStroke for shape text', () => {
+    it('should update rectangle text via updateStroke', () => {
       const store = useCanvasStore.getState();
 
       // Add a rectangle
@@ -90,14 +90,14 @@ describe('Canvas shape text', () => {
       });
 
       // Update its text (like double-click → commit does)
-      useCanvasStore.getState().updateStrokeAt(0, { text: 'Rectangle Label' });
+      useCanvasStore.getState().updateStroke(useCanvasStore.getState().drawingStrokes[0].id!, { text: 'Rectangle Label' });
 
       const updated = useCanvasStore.getState();
       expect(updated.drawingStrokes[0].text).toBe('Rectangle Label');
       expect(updated.drawingStrokes[0].tool).toBe('rectangle');
     });
 
-    it('should update circle text via updateStrokeAt', () => {
+    it('should update circle text via updateStroke', () => {
       const store = useCanvasStore.getState();
 
       store.addStroke({
@@ -107,7 +107,7 @@ describe('Canvas shape text', () => {
         end: { x: 350, y: 250 },
       });
 
-      useCanvasStore.getState().updateStrokeAt(0, { text: 'Circle Label' });
+      useCanvasStore.getState().updateStroke(useCanvasStore.getState().drawingStrokes[0].id!, { text: 'Circle Label' });
 
       const updated = useCanvasStore.getState();
       expect(updated.drawingStrokes[0].text).toBe('Circle Label');
@@ -124,7 +124,7 @@ describe('Canvas shape text', () => {
         text: 'Old Text',
       });
 
-      useCanvasStore.getState().updateStrokeAt(0, { text: 'Updated Text' });
+      useCanvasStore.getState().updateStroke(useCanvasStore.getState().drawingStrokes[0].id!, { text: 'Updated Text' });
 
       const updated = useCanvasStore.getState();
       expect(updated.drawingStrokes[0].text).toBe('Updated Text');
@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { useCanvasStore } from '../../src/stores/canvasStore';
+import { useCanvasStore, SITE_ID } from '../../src/stores/canvasStore';
+import { MAX_HISTORY_SIZE } from '../../src/services/canvas-logic';
+import { applyOps, createDocument } from '../../src/services/canvas-document';
+import type { CanvasOp } from '../../src/services/canvas-document';
 import type { Stroke } from '../../src/services/canvas-logic';
 
 describe('canvasStore', () => {
@@ -46,18 +49,18 @@ describe('canvasStore', () => {
     it('should add a stroke to drawingStrokes', () => {
       const stroke: Stroke = { tool: 'pen', color: '#fff', points: [{ x: 0, y: 0 }] };
       useCanvasStore.getState().addStroke(stroke);
-      expect(useCanvasStore.getState().drawingStrokes).toEqual([stroke]);
+      expect(useCanvasStore.getState().drawingStrokes).toMatchObject([stroke]);
     });
 
-    it('should push previous strokes to undoHistory', () => {
+    it('should push the op reverting it to undoHistory', () => {
       const stroke1: Stroke = { tool: 'pen', color: '#fff', points: [{ x: 0, y: 0 }] };
       const stroke2: Stroke = { tool: 'pen', color: '#fff', points: [{ x: 1, y: 1 }] };
       useCanvasStore.getState().addStroke(stroke1);
       useCanvasStore.getState().addStroke(stroke2);
-      const { undoHistory } = useCanvasStore.getState();
+      const { undoHistory, drawingStrokes } = useCanvasStore.getState();
       expect(undoHistory).toHaveLength(2);
-      expect(undoHistory[0]).toEqual([]);
-      expect(undoHistory[1]).toEqual([stroke1]);
+      expect(undoHistory[0]).toEqual([{ kind: 'delete', id: drawingStrokes[0].id, clock: 1, site: SITE_ID, prior: {} }]);
+      expect(undoHistory[1]).toEqual([{ kind: 'delete', id: drawingStrokes[1].id, clock: 2, site: SITE_ID, prior: {} }]);
     });
 
     it('should clear redoHistory on new stroke', () => {
@@ -71,11 +74,10 @@ describe('canvasStore', () => {
     });
 
     it('should cap undoHistory at MAX_HISTORY_SIZE', () => {
-      for (let i = 0; i < 15; i++) {
+      for (let i = 0; i < MAX_HISTORY_SIZE + 5; i++) {
         useCanvasStore.getState().addStroke({ tool: 'pen' } as Stroke);
       }
-      // MAX_HISTORY_SIZE is 10
-      expect(useCanvasStore.getState().undoHistory.length).toBeLessThanOrEqual(10);
+      expect(useCanvasStore.getState().undoHistory).toHaveLength(MAX_HISTORY_SIZE);
     });
   });
 
@@ -87,12 +89,12 @@ describe('canvasStore', () => {
       expect(useCanvasStore.getState().drawingStrokes).toEqual([]);
     });
 
-    it('should push current strokes to redoHistory', () => {
+    it('should push the op re-adding the stroke to redoHistory', () => {
       const stroke: Stroke = { tool: 'pen', points: [{ x: 0, y: 0 }] };
       useCanvasStore.getState().addStroke(stroke);
       useCanvasStore.getState().undo();
       expect(useCanvasStore.getState().redoHistory).toHaveLength(1);
-      expect(useCanvasStore.getState().redoHistory[0]).toEqual([stroke]);
+      expect(useCanvasStore.getState().redoHistory[0]).toMatchObject([{ kind: 'add', stroke }]);
     });
 
     it('should not change state when undoHistory is empty', () => {
@@ -108,7 +110,7 @@ describe('canvasStore', () => {
       useCanvasStore.getState().addStroke(stroke);
       useCanvasStore.getState().undo();
       useCanvasStore.getState().redo();
-      expect(useCanvasStore.getState().drawingStrokes).toEqual([stroke]);
+      expect(useCanvasStore.getState().drawingStrokes).toMatchObject([stroke]);
     });
 
     it('should push current strokes to undoHistory on redo', () => {
@@ -133,12 +135,267 @@ describe('canvasStore', () => {
       expect(useCanvasStore.getState().drawingStrokes).toEqual([]);
     });
 
-    it('should save current state to undoHistory before clearing', () => {
+    it('should make clearing undoable', () => {
       const stroke: Stroke = { tool: 'pen', points: [{ x: 0, y: 0 }] };
       useCanvasStore.getState().addStroke(stroke);
       useCanvasStore.getState().clear();
       const { undoHistory } = useCanvasStore.getState();
-      expect(undoHistory[undoHistory.length - 1]).toEqual([stroke]);
+      expect(undoHistory[undoHistory.length - 1]).toMatchObject([{ kind: 'add', stroke }]);
+
+      useCanvasStore.getState().undo();
+      expect(useCanvasStore.getState().drawingStrokes).toMatchObject([stroke]);
+    });
+  });
+
+  describe('stroke ids', () => {
+    it('gives each added stroke a unique id, author and Lamport time', () => {
+      useCanvasStore.getState().addStroke({ tool: 'pen' });
+      useCanvasStore.getState().addStroke({ tool: 'pen' });
+      const [a, b] = useCanvasStore.getState().drawingStrokes;
+      expect(a.id).not.toBe(b.id);
+      expect(a.author).toBe(SITE_ID);
+      expect([a.clock, b.clock]).toEqual([1, 2]);
+    });
+
+    it('records the op of each local change', () => {
+      useCanvasStore.getState().addStroke({ tool: 'pen' });
+      const { id } = useCanvasStore.getState().drawingStrokes[0];
+      useCanvasStore.getState().deleteStrokes([id!]);
+      expect(useCanvasStore.getState().lastLocalOps).toEqual([{ kind: 'delete', id, clock: 2, site: SITE_ID }]);
+    });
+
+    it('deletes strokes by id, undoably', () => {
+      useCanvasStore.getState().addStroke({ tool: 'pen', color: '#f00' });
+      useCanvasStore.getState().addStroke({ tool: 'pen', color: '#0f0' });
+      const [first] = useCanvasStore.getState().drawingStrokes;
+      useCanvasStore.getState().deleteStrokes([first.id!]);
+      expect(useCanvasStore.getState().drawingStrokes.map((s) => s.color)).toEqual(['#0f0']);
+
+      useCanvasStore.getState().undo();
+      expect(useCanvasStore.getState().drawingStrokes.map((s) => s.color)).toEqual(['#f00', '#0f0']);
+    });
+
+    it('ignores updates to strokes that are not on the canvas', () => {
+      const before = useCanvasStore.getState();
+      useCanvasStore.getState().updateStroke('missing', { text: 'x' });
+      expect(useCanvasStore.getState().drawingStrokes).toBe(before.drawingStrokes);
+      expect(useCanvasStore.getState().lastLocalOps).toEqual([]);
+    });
+
+    it('merges remote ops without recording them as local', () => {
+      useCanvasStore.getState().applyRemoteOps([
+        { kind: 'add', stroke: { tool: 'pen', id: 'p-3', author: 'p', clock: 3 }, clock: 3, site: 'p' },
+      ]);
+      expect(useCanvasStore.getState().drawingStrokes).toHaveLength(1);
+      expect(useCanvasStore.getState().lastLocalOps).toEqual([]);
+      expect(useCanvasStore.getState().document.clock).toBe(3);
+    });
+  });
+
+  describe('per-participant undo', () => {
+    const peerStroke = (clock: number): Stroke => ({ tool: 'pen', color: '#0ff', id: `peer-${clock}`, author: 'peer', clock });
+
+    it('leaves strokes peers drew since', () => {
+      useCanvasStore.getState().addStroke({ tool: 'pen', color: '#f00' });
+      useCanvasStore.getState().applyRemoteOps([{ kind: 'add', stroke: peerStroke(2), clock: 2, site: 'peer' }]);
+
+      useCanvasStore.getState().undo();
+      expect(useCanvasStore.getState().drawingStrokes.map((s) => s.id)).toEqual(['peer-2']);
+      expect(useCanvasStore.getState().lastLocalOps).toMatchObject([{ kind: 'delete', clock: 3, site: SITE_ID }]);
+
+      useCanvasStore.getState().redo();
+      expect(useCanvasStore.getState().drawingStrokes.map((s) => s.color)).toEqual(['#f00', '#0ff']);
+    });
+
+    it('undoes and redoes repeated moves of one stroke step by step', () => {
+      useCanvasStore.getState().addStroke({ tool: 'rectangle', start: { x: 0, y: 0 }, end: { x: 10, y: 10 } });
+      const id = useCanvasStore.getState().drawingStrokes[0].id!;
+      useCanvasStore.getState().updateStroke(id, { start: { x: 5, y: 5 } });
+      useCanvasStore.getState().updateStroke(id, { start: { x: 9, y: 9 } });
+      const start = () => useCanvasStore.getState().drawingStrokes[0]?.start;
+
+      useCanvasStore.getState().undo();
+      useCanvasStore.getState().undo();
+      expect(start()).toEqual({ x: 0, y: 0 });
+      useCanvasStore.getState().undo();
+      expect(useCanvasStore.getState().drawingStrokes).toEqual([]);
+
+      useCanvasStore.getState().redo();
+      useCanvasStore.getState().redo();
+      expect(start()).toEqual({ x: 5, y: 5 });
+      useCanvasStore.getState().redo();
+      expect(start()).toEqual({ x: 9, y: 9 });
+    });
+
+    it('reverts only its own edits to a stroke', () => {
+      useCanvasStore.getState().applyRemoteOps([{ kind: 'add', stroke: peerStroke(1), clock: 1, site: 'peer' }]);
+      useCanvasStore.getState().updateStroke('peer-1', { text: 'Mine' });
+      useCanvasStore.getState().updateStroke('peer-1', { color: '#f00' });
+      useCanvasStore.getState().applyRemoteOps([
+        { kind: 'update', id: 'peer-1', changes: { color: '#00f' }, clock: 4, site: 'peer' },
+      ]);
+
+      // The peer has since recoloured it, so undo moves on to the label
+      useCanvasStore.getState().undo();
+      expect(useCanvasStore.getState().drawingStrokes[0].color).toBe('#00f');
+      expect(useCanvasStore.getState().drawingStrokes[0].text).toBeUndefined();
+      expect(useCanvasStore.getState().undoHistory).toEqual([]);
+    });
+
+    it('skips changes a peer has deleted', () => {
+      useCanvasStore.getState().addStroke({ tool: 'pen', color: '#f00' });
+      const { id } = useCanvasStore.getState().drawingStrokes[0];
+      useCanvasStore.getState().applyRemoteOps([{ kind: 'delete', id: id!, clock: 2, site: 'peer' }]);
+
+      useCanvasStore.getState().undo();
+      expect(useCanvasStore.getState().drawingStrokes).toEqual([]);
+      expect(useCanvasStore.getState().undoHistory).toEqual([]);
+      expect(useCanvasStore.getState().redoHistory).toEqual([]);
+    });
+
+    it('forgets undo steps made against a canvas since replaced', () => {
+      useCanvasStore.getState().addStroke({ tool: 'pen', color: '#f00' });
+      useCanvasStore.getState().addStroke({ tool: 'pen', color: '#0f0' });
+      useCanvasStore.getState().undo();
+
+      useCanvasStore.getState().setStrokes([peerStroke(1)]);
+      expect(useCanvasStore.getState().undoHistory).toEqual([]);
+      expect(useCanvasStore.getState().redoHistory).toEqual([]);
+
+      useCanvasStore.getState().undo();
+      expect(useCanvasStore.getState().drawingStrokes.map((s) => s.id)).toEqual(['peer-1']);
+    });
+
+    it('undoes a composed drag in one step', () => {
+      useCanvasStore.getState().addStroke({ tool: 'rectangle', start: { x: 0, y: 0 }, end: { x: 10, y: 10 } });
+      const { id } = useCanvasStore.getState().drawingStrokes[0];
+      useCanvasStore.getState().updateStroke(id!, { start: { x: 5, y: 5 }, end: { x: 15, y: 15 } });
+      useCanvasStore.getState().updateStroke(id!, { start: { x: 9, y: 9 }, end: { x: 19, y: 19 } }, true);
+      expect(useCanvasStore.getState().undoHistory).toHaveLength(2);
+
+      useCanvasStore.getState().undo();
+      expect(useCanvasStore.getState().drawingStrokes[0]).toMatchObject({ start: { x: 0, y: 0 }, end: { x: 10, y: 10 } });
+    });
+  });
+
+  describe('connectors', () => {
+    const box = (id: string, x: number): Stroke => ({ id, tool: 'rectangle', start: { x, y: 0 }, end: { x: x + 100, y: 50 } });
+    const arrow: Stroke = { id: 'arrow', tool: 'arrow', start: { x: 100, y: 25 }, end: { x: 300, y: 25 }, from: 'a', to: 'b' };
+
+    it('re-routes arrows when a connected shape moves', () => {
+      useCanvasStore.getState().setStrokes([box('a', 0), box('b', 300), arrow]);
+      useCanvasStore.getState().updateStroke('b', { start: { x: 300, y: 200 }, end: { x: 400, y: 250 } });
+
+      const routed = useCanvasStore.getState().drawingStrokes.find((s) => s.id === 'arrow')!;
+      expect(routed.start).toEqual({ x: 50, y: 50 });
+      expect(routed.end).toEqual({ x: 350, y: 200 });
+      // Only the shape changed; peers route the arrow themselves
+      expect(useCanvasStore.getState().lastLocalOps).toHaveLength(1);
+    });
+
+    it('lets go of a deleted shape, keeping the end where it was', () => {
+      useCanvasStore.getState().setStrokes([box('a', 0), box('b', 300), arrow]);
+      useCanvasStore.getState().deleteStrokes(['b']);
+
+      const kept = useCanvasStore.getState().drawingStrokes.find((s) => s.id === 'arrow')!;
+      expect(kept.to).toBeUndefined();
+      expect(kept.end).toEqual({ x: 300, y: 25 });
+
+      useCanvasStore.getState().undo();
+      expect(useCanvasStore.getState().drawingStrokes.find((s) => s.id === 'arrow')!.to).toBe('b');
+    });
+  });
+
+  describe('selection commands', () => {
+    const box = (id: string, x: number, y = 0): Stroke => ({ id, tool: 'rectangle', start: { x, y }, end: { x: x + 50, y: y + 50 } });
+    const ids = () => useCanvasStore.getState().drawingStrokes.map((s) => s.id);
+    const stroke = (id: string) => useCanvasStore.getState().drawingStrokes.find((s) => s.id === id)!;
+
+    beforeEach(() => {
+      useCanvasStore.getState().setStrokes([box('a', 0), box('b', 100, 30), box('c', 300, 10)]);
+    });
+
+    it('changes several strokes as one undo step', () => {
+      useCanvasStore.getState().updateStrokes({ a: { text: 'A' }, b: { text: 'B' } });
+      expect(useCanvasStore.getState().undoHistory).toHaveLength(1);
+      expect(useCanvasStore.getState().lastLocalOps).toHaveLength(2);
+
+      useCanvasStore.getState().undo();
+      expect(stroke('a').text).toBeUndefined();
+      expect(stroke('b').text).toBeUndefined();
+    });
+
+    it('groups and ungroups the selection', () => {
+      useCanvasStore.getState().setSelection(['a', 'b']);
+      useCanvasStore.getState().groupSelection();
+      expect(stroke('a').groupId).toBeDefined();
+      expect(stroke('b').groupId).toBe(stroke('a').groupId);
+      expect(stroke('c').groupId).toBeUndefined();
+
+      useCanvasStore.getState().ungroupSelection();
+      expect(stroke('a').groupId).toBeUndefined();
+      useCanvasStore.getState().undo();
+      expect(stroke('b').groupId).toBe(stroke('a').groupId);
+    });
+
+    it('does not group a single stroke', () => {
+      useCanvasStore.getState().setSelection(['a']);
+      useCanvasStore.getState().groupSelection();
+      expect(useCanvasStore.getState().undoHistory).toEqual([]);
+    });
+
+    it('brings the selection to the front and sends it to the back', () => {
+      useCanvasStore.getState().setSelection(['a', 'b']);
+      useCanvasStore.getState().bringToFront();
+      expect(ids()).toEqual(['c', 'a', 'b']);
+
+      useCanvasStore.getState().setSelection(['c']);
+      useCanvasStore.getState().sendToBack();
+      expect(ids()).toEqual(['c', 'a', 'b']);
+
+      useCanvasStore.getState().setSelection(['b']);
+      useCanvasStore.getState().sendToBack();
+      expect(ids()).toEqual(['b', 'c', 'a']);
+
+      useCanvasStore.getState().undo();
+      expect(ids()).toEqual(['c', 'a', 'b']);
+    });
+
+    it('keeps strokes drawn later above those brought to front', () => {
+      useCanvasStore.getState().setSelection(['a']);
+      useCanvasStore.getState().bringToFront();
+      useCanvasStore.getState().addStroke({ tool: 'line', start: { x: 0, y: 0 }, end: { x: 5, y: 5 } });
+      expect(useCanvasStore.getState().drawingStrokes.map((s) => s.tool).slice(-2)).toEqual(['rectangle', 'line']);
+    });
+
+    it('aligns and distributes the selection, undoably', () => {
+      useCanvasStore.getState().setSelection(['a', 'b', 'c']);
+      useCanvasStore.getState().alignSelection('top');
+      expect([stroke('a'), stroke('b'), stroke('c')].map((s) => s.start!.y)).toEqual([0, 0, 0]);
+
+      useCanvasStore.getState().distributeSelection('horizontal');
+      // 350 wide with 150 of boxes: gaps of 100
+      expect(stroke('b').start!.x).toBe(150);
+
+      useCanvasStore.getState().undo();
+      expect(stroke('b').start!.x).toBe(100);
+      useCanvasStore.getState().undo();
+      expect(stroke('b').start!.y).toBe(30);
+    });
+
+    it('sends what the commands change to peers as ops', () => {
+      const peer = createDocument(useCanvasStore.getState().drawingStrokes);
+      const sent: CanvasOp[] = [];
+      const unsubscribe = useCanvasStore.subscribe((state, prev) => {
+        if (state.lastLocalOps !== prev.lastLocalOps) sent.push(...state.lastLocalOps);
+      });
+      useCanvasStore.getState().setSelection(['a', 'c']);
+      useCanvasStore.getState().groupSelection();
+      useCanvasStore.getState().alignSelection('bottom');
+      useCanvasStore.getState().bringToFront();
+      unsubscribe();
+
+      expect(applyOps(peer, sent).strokes).toEqual(useCanvasStore.getState().document.strokes);
     });
   });
 
@@ -2,16 +2,11 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { useCanvasStore } from '../../src/stores/canvasStore';
 
 /**
- * Tests for WebRTC sync of in-place stroke updates.
- *
- * Problem: useCanvasSync only detects array length changes.
- * updateStrokeAt creates a new array ref but same length — no sync.
- *
- * Fix: Add strokeVersion counter that increments on updateStrokeAt,
- * enabling useCanvasSync to detect in-place mutations.
+ * Tests for in-place stroke updates: strokeVersion counts them, so the
+ * session recorder can tell an edit from a new stroke.
  */
 
-describe('Canvas sync for updateStrokeAt', () => {
+describe('Canvas sync for updateStroke', () => {
   beforeEach(() => {
     useCanvasStore.getState().reset();
   });
@@ -21,7 +16,7 @@ describe('Canvas sync for updateStrokeAt', () => {
     expect(state.strokeVersion).toBe(0);
   });
 
-  it('should increment strokeVersion when updateStrokeAt is called', () => {
+  it('should increment strokeVersion when updateStroke is called', () => {
     const store = useCanvasStore.getState();
 
     store.addStroke({
@@ -32,7 +27,7 @@ describe('Canvas sync for updateStrokeAt', () => {
     });
 
     const before = useCanvasStore.getState().strokeVersion;
-    useCanvasStore.getState().updateStrokeAt(0, { text: 'Hello' });
+    useCanvasStore.getState().updateStroke(useCanvasStore.getState().drawingStrokes[0].id!, { text: 'Hello' });
     const after = useCanvasStore.getState().strokeVersion;
 
     expect(after).toBe(before + 1);
@@ -53,7 +48,7 @@ describe('Canvas sync for updateStrokeAt', () => {
     expect(after).toBe(before);
   });
 
-  it('should increment strokeVersion on each updateStrokeAt call', () => {
+  it('should increment strokeVersion on each updateStroke call', () => {
     const store = useCanvasStore.getState();
 
     store.addStroke({
@@ -64,14 +59,14 @@ describe('Canvas sync for updateStrokeAt', () => {
       fontSize: 16,
     });
 
-    useCanvasStore.getState().updateStrokeAt(0, { text: 'B' });
-    useCanvasStore.getState().updateStrokeAt(0, { text: 'C' });
-    useCanvasStore.getState().updateStrokeAt(0, { text: 'D' });
+    useCanvasStore.getState().updateStroke(useCanvasStore.getState().drawingStrokes[0].id!, { text: 'B' });
+    useCanvasStore.getState().updateStroke(useCanvasStore.getState().drawingStrokes[0].id!, { text: 'C' });
+    useCanvasStore.getState().updateStroke(useCanvasStore.getState().drawingStrokes[0].id!, { text: 'D' });
 
     expect(useCanvasStore.getState().strokeVersion).toBe(3);
   });
 
-  it('should keep same array length after updateStrokeAt', () => {
+  it('should keep same array length after updateStroke', () => {
     const store = useCanvasStore.getState();
 
     store.addStroke({
@@ -83,7 +78,7 @@ describe('Canvas sync for updateStrokeAt', () => {
     });
 
     const lengthBefore = useCanvasStore.getState().drawingStrokes.length;
-    useCanvasStore.getState().updateStrokeAt(0, { text: 'Updated' });
+    useCanvasStore.getState().updateStroke(useCanvasStore.getState().drawingStrokes[0].id!, { text: 'Updated' });
     const lengthAfter = useCanvasStore.getState().drawingStrokes.length;
 
     expect(lengthAfter).toBe(lengthBefore);
@@ -9,7 +9,7 @@ import { findTextAtPosition } from '../../src/services/canvas-logic';
  *
  * Requirements:
  * - Click on existing text stroke opens overlay with pre-filled text
- * - Editing and committing updates the stroke in-place via updateStrokeAt
+ * - Editing and committing updates the stroke in-place via updateStroke
  * - Click on empty canvas still creates new text
  * - findTextAtPosition correctly hit-tests text strokes
  */
@@ -88,7 +88,7 @@ describe('Canvas text edit (click to edit)', () => {
   });
 
   describe('Store update for text edits', () => {
-    it('should update text stroke in-place via updateStrokeAt', () => {
+    it('should update text stroke in-place via updateStroke', () => {
       const store = useCanvasStore.getState();
 
       store.addStroke({
@@ -99,7 +99,7 @@ describe('Canvas text edit (click to edit)', () => {
         fontSize: 16,
       });
 
-      useCanvasStore.getState().updateStrokeAt(0, { text: 'Edited' });
+      useCanvasStore.getState().updateStroke(useCanvasStore.getState().drawingStrokes[0].id!, { text: 'Edited' });
 
       const updated = useCanvasStore.getState();
       expect(updated.drawingStrokes[0].text).toBe('Edited');
@@ -117,7 +117,7 @@ describe('Canvas text edit (click to edit)', () => {
         fontSize: 16,
       });
 
-      useCanvasStore.getState().updateStrokeAt(0, { text: 'Line 1\nLine 2\nLine 3' });
+      useCanvasStore.getState().updateStroke(useCanvasStore.getState().drawingStrokes[0].id!, { text: 'Line 1\nLine 2\nLine 3' });
 
       const updated = useCanvasStore.getState();
       expect(updated.drawingStrokes[0].text).toBe('Line 1\nLine 2\nLine 3');
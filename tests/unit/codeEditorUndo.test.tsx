@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { useEditorStore } from '../../src/stores/editorStore';
+import { TextOperation } from '../../src/services/ot-engine';
+import CodeEditor from '../../src/components/CodeEditor/CodeEditor';
+
+/**
+ * Tests for Ctrl+Z / Ctrl+Shift+Z in the code editor.
+ *
+ * The native textarea undo stack is lost whenever a remote operation replaces
+ * the value, and would revert peers' typing anyway, so the editor routes the
+ * shortcuts to the per-participant undo registered by useCodeSync.
+ */
+
+describe('Code editor undo/redo shortcuts', () => {
+  const undo = vi.fn<() => TextOperation | null>();
+  const redo = vi.fn<() => TextOperation | null>();
+
+  beforeEach(() => {
+    undo.mockReset().mockReturnValue(null);
+    redo.mockReset().mockReturnValue(null);
+    useEditorStore.getState().setCode('');
+    useEditorStore.getState().setUndoCallbacks(undo, redo);
+  });
+
+  it('Ctrl+Z calls undo and prevents the native undo', () => {
+    render(<CodeEditor />);
+    const textarea = screen.getByLabelText('Code editor') as HTMLTextAreaElement;
+
+    const event = new KeyboardEvent('keydown', {
+      key: 'z',
+      ctrlKey: true,
+      bubbles: true,
+      cancelable: true,
+    });
+    const prevented = !textarea.dispatchEvent(event);
+
+    expect(prevented).toBe(true);
+    expect(undo).toHaveBeenCalledTimes(1);
+    expect(redo).not.toHaveBeenCalled();
+  });
+
+  it('Cmd+Z calls undo', () => {
+    render(<CodeEditor />);
+    const textarea = screen.getByLabelText('Code editor') as HTMLTextAreaElement;
+
+    fireEvent.keyDown(textarea, { key: 'z', metaKey: true });
+
+    expect(undo).toHaveBeenCalledTimes(1);
+  });
+
+  it('Ctrl+Shift+Z calls redo', () => {
+    render(<CodeEditor />);
+    const textarea = screen.getByLabelText('Code editor') as HTMLTextAreaElement;
+
+    fireEvent.keyDown(textarea, { key: 'Z', ctrlKey: true, shiftKey: true });
+
+    expect(redo).toHaveBeenCalledTimes(1);
+    expect(undo).not.toHaveBeenCalled();
+  });
+
+  it('Ctrl+Y calls redo', () => {
+    render(<CodeEditor />);
+    const textarea = screen.getByLabelText('Code editor') as HTMLTextAreaElement;
+
+    fireEvent.keyDown(textarea, { key: 'y', ctrlKey: true });
+
+    expect(redo).toHaveBeenCalledTimes(1);
+  });
+
+  it('moves the cursor to the reverted change', () => {
+    useEditorStore.getState().setCode('hello world');
+    undo.mockImplementation(() => {
+      const op = new TextOperation().retain(5).delete(6);
+      useEditorStore.getState().setCode(op.apply(useEditorStore.getState().code));
+      return op;
+    });
+
+    render(<CodeEditor />);
+    const textarea = screen.getByLabelText('Code editor') as HTMLTextAreaElement;
+
+    fireEvent.keyDown(textarea, { key: 'z', ctrlKey: true });
+
+    expect(useEditorStore.getState().code).toBe('hello');
+    expect(textarea.selectionStart).toBe(5);
+    expect(textarea.selectionEnd).toBe(5);
+  });
+
+  it('plain z still types normally', () => {
+    render(<CodeEditor />);
+    const textarea = screen.getByLabelText('Code editor') as HTMLTextAreaElement;
+
+    const event = new KeyboardEvent('keydown', { key: 'z', bubbles: true, cancelable: true });
+    const prevented = !textarea.dispatchEvent(event);
+
+    expect(prevented).toBe(false);
+    expect(undo).not.toHaveBeenCalled();
+  });
+});
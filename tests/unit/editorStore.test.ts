@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { useEditorStore } from '../../src/stores/editorStore';
+import { TextOperation } from '../../src/services/ot-engine';
 
 describe('editorStore', () => {
   beforeEach(() => {
@@ -48,6 +49,76 @@ describe('editorStore', () => {
     });
   });
 
+  describe('workspace files', () => {
+    it('starts with a single default file mirrored into code and language', () => {
+      const state = useEditorStore.getState();
+      expect(state.files).toEqual([{ id: 'main', name: 'main.js', language: 'javascript', code: '' }]);
+      expect(state.activeFileId).toBe('main');
+    });
+
+    it('writes setCode and setLanguage to the active file', () => {
+      useEditorStore.getState().setCode('x');
+      useEditorStore.getState().setLanguage('python');
+      expect(useEditorStore.getState().files[0]).toMatchObject({ code: 'x', language: 'python' });
+    });
+
+    it('creates a file, infers its language and activates it', () => {
+      const id = useEditorStore.getState().createFile('lib.rs');
+      const state = useEditorStore.getState();
+      expect(state.activeFileId).toBe(id);
+      expect(state.language).toBe('rust');
+      expect(state.code).toBe('');
+    });
+
+    it('falls back to the current language for unknown extensions', () => {
+      useEditorStore.getState().setLanguage('go');
+      useEditorStore.getState().createFile('README');
+      expect(useEditorStore.getState().language).toBe('go');
+    });
+
+    it('switches the mirrored code with the active file', () => {
+      useEditorStore.getState().setCode('first');
+      const id = useEditorStore.getState().createFile('b.js', undefined, 'second');
+      expect(useEditorStore.getState().code).toBe('second');
+      useEditorStore.getState().setActiveFile('main');
+      expect(useEditorStore.getState().code).toBe('first');
+      useEditorStore.getState().setActiveFile(id);
+      expect(useEditorStore.getState().code).toBe('second');
+    });
+
+    it('applies remote operations to inactive files without changing code', () => {
+      useEditorStore.getState().addFile({ id: 'f2', name: 'b.js', language: 'javascript', code: '' });
+      useEditorStore.getState().applyRemoteOperation('remote', 'f2');
+      const state = useEditorStore.getState();
+      expect(state.code).toBe('');
+      expect(state.files[1].code).toBe('remote');
+      expect(state.remoteOperationCount).toBe(1);
+    });
+
+    it('activates a neighbour when the active file is deleted', () => {
+      const id = useEditorStore.getState().createFile('b.js');
+      expect(useEditorStore.getState().deleteFile(id)).toBe(true);
+      expect(useEditorStore.getState().activeFileId).toBe('main');
+    });
+
+    it('never deletes the last file', () => {
+      expect(useEditorStore.getState().deleteFile('main')).toBe(false);
+      expect(useEditorStore.getState().files).toHaveLength(1);
+    });
+
+    it('setFiles keeps the active file when it still exists', () => {
+      useEditorStore.getState().setFiles([
+        { id: 'x', name: 'x.py', language: 'python', code: 'x' },
+        { id: 'main', name: 'main.js', language: 'javascript', code: 'm' },
+      ]);
+      expect(useEditorStore.getState().code).toBe('m');
+
+      useEditorStore.getState().setFiles([{ id: 'y', name: 'y.go', language: 'go', code: 'y' }]);
+      expect(useEditorStore.getState().activeFileId).toBe('y');
+      expect(useEditorStore.getState().language).toBe('go');
+    });
+  });
+
   describe('updateRemoteCursor', () => {
     it('should add a remote cursor', () => {
       useEditorStore.getState().updateRemoteCursor('peer1', {
@@ -86,6 +157,37 @@ describe('editorStore', () => {
     });
   });
 
+  describe('transformRemoteCursors', () => {
+    it('shifts carets and selections past an insert', () => {
+      useEditorStore.getState().updateRemoteCursor('peer1', {
+        position: 8,
+        selectionStart: 4,
+        selectionEnd: 8,
+        line: 0,
+        column: 8,
+        clientId: 'client-1',
+      });
+      useEditorStore.getState().transformRemoteCursors('main', new TextOperation().insert('ab').retain(10));
+      expect(useEditorStore.getState().remoteCursors.peer1).toMatchObject({
+        position: 10,
+        selectionStart: 6,
+        selectionEnd: 10,
+      });
+    });
+
+    it('leaves the author of the operation in place', () => {
+      useEditorStore.getState().updateRemoteCursor('peer1', { position: 3, line: 0, column: 3, clientId: 'client-1' });
+      useEditorStore.getState().transformRemoteCursors('main', new TextOperation().insert('ab').retain(10), 'client-1');
+      expect(useEditorStore.getState().remoteCursors.peer1.position).toBe(3);
+    });
+
+    it('ignores cursors in other files', () => {
+      useEditorStore.getState().updateRemoteCursor('peer1', { position: 3, line: 0, column: 3, fileId: 'other' });
+      useEditorStore.getState().transformRemoteCursors('main', new TextOperation().insert('ab').retain(10));
+      expect(useEditorStore.getState().remoteCursors.peer1.position).toBe(3);
+    });
+  });
+
   describe('removeRemoteCursor', () => {
     it('should remove a remote cursor', () => {
       useEditorStore.getState().updateRemoteCursor('peer1', {
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addRun,
+  diffLines,
+  mergeHistories,
+  EMPTY_HISTORY,
+  MAX_RUNS,
+  MAX_SAVED_OUTPUT,
+} from '../../src/services/execution-history';
+import type { NewRun } from '../../src/services/execution-history';
+
+const run = (timestamp: number, changes: Partial<NewRun> = {}): NewRun => ({
+  timestamp,
+  runBy: 'Alice',
+  language: 'python',
+  stdout: '',
+  stderr: '',
+  exitCode: 0,
+  duration: 5,
+  ...changes,
+});
+
+describe('execution-history', () => {
+  describe('addRun', () => {
+    it('stores each distinct code once, keyed by the runs', () => {
+      let history = addRun(EMPTY_HISTORY, run(1), 'print(1)');
+      history = addRun(history, run(2), 'print(1)');
+      history = addRun(history, run(3), 'print(2)');
+
+      const [first, second, third] = history.runs;
+      expect(first.codeHash).toBe(second.codeHash);
+      expect(third.codeHash).not.toBe(first.codeHash);
+      expect(Object.values(history.snapshots).sort()).toEqual(['print(1)', 'print(2)']);
+      expect(new Set(history.runs.map((r) => r.id)).size).toBe(3);
+    });
+
+    it('keeps the newest runs and drops code no run refers to', () => {
+      let history = addRun(EMPTY_HISTORY, run(0), 'oldest');
+      for (let i = 1; i <= MAX_RUNS; i++) history = addRun(history, run(i), 'newer');
+
+      expect(history.runs).toHaveLength(MAX_RUNS);
+      expect(history.runs[0].timestamp).toBe(1);
+      expect(Object.values(history.snapshots)).toEqual(['newer']);
+    });
+
+    it('cuts long output', () => {
+      const history = addRun(EMPTY_HISTORY, run(1, { stdout: 'x'.repeat(MAX_SAVED_OUTPUT + 10) }), '');
+
+      expect(history.runs[0].stdout).toBe(`${'x'.repeat(MAX_SAVED_OUTPUT)}\n[Output truncated]`);
+    });
+  });
+
+  describe('mergeHistories', () => {
+    it('combines runs in start order without duplicates', () => {
+      const saved = addRun(addRun(EMPTY_HISTORY, run(1), 'a'), run(3), 'c');
+      const current = addRun(saved, run(2), 'b');
+
+      const merged = mergeHistories(current, saved);
+
+      expect(merged.runs.map((r) => r.timestamp)).toEqual([1, 2, 3]);
+      expect(Object.values(merged.snapshots).sort()).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('diffLines', () => {
+    it('marks added and removed lines around unchanged ones', () => {
+      expect(diffLines('a\nb\nc', 'a\nx\nc\nd')).toEqual([
+        { type: 'same', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'added', text: 'x' },
+        { type: 'same', text: 'c' },
+        { type: 'added', text: 'd' },
+      ]);
+    });
+
+    it('matches moved-around lines by their longest common run', () => {
+      const lines = diffLines('1\n2\n3\n4', '2\n3\n1\n4');
+
+      expect(lines.filter((l) => l.type === 'same').map((l) => l.text)).toEqual(['2', '3', '4']);
+      expect(lines.filter((l) => l.type !== 'same')).toEqual([
+        { type: 'removed', text: '1' },
+        { type: 'added', text: '1' },
+      ]);
+    });
+
+    it('reports identical code as unchanged', () => {
+      expect(diffLines('x\ny', 'x\ny').every((l) => l.type === 'same')).toBe(true);
+    });
+  });
+});
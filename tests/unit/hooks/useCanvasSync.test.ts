@@ -2,15 +2,18 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useCanvasSync } from '../../../src/hooks/useCanvasSync.js';
 import { useCanvasStore } from '../../../src/stores/canvasStore.js';
+import { useSessionStore } from '../../../src/stores/sessionStore.js';
+import { createDocument } from '../../../src/services/canvas-document.js';
 import type { DataChannelMessage } from '../../../src/services/connection-manager.js';
 import type { Stroke } from '../../../src/services/canvas-logic.js';
 
 describe('useCanvasSync', () => {
-  let sendMessage: ReturnType<typeof vi.fn<(data: DataChannelMessage) => boolean>>;
+  let sendMessage: ReturnType<typeof vi.fn<(data: DataChannelMessage, toPeerId?: string) => boolean>>;
 
   beforeEach(() => {
     sendMessage = vi.fn(() => true);
     useCanvasStore.getState().reset();
+    useSessionStore.getState().reset();
   });
 
   it('returns handleMessage and action helpers', () => {
@@ -18,7 +21,6 @@ describe('useCanvasSync', () => {
     expect(typeof result.current.handleMessage).toBe('function');
     expect(typeof result.current.sendStroke).toBe('function');
     expect(typeof result.current.sendCanvasView).toBe('function');
-    expect(typeof result.current.sendCanvasClear).toBe('function');
   });
 
   describe('sendStroke', () => {
@@ -54,15 +56,20 @@ describe('useCanvasSync', () => {
     });
   });
 
-  describe('sendCanvasClear', () => {
-    it('sends a canvas-clear message', () => {
-      const { result } = renderHook(() => useCanvasSync({ sendMessage }));
+  describe('clearing', () => {
+    it('sends a clear as stamped delete ops', () => {
+      useCanvasStore.getState().addStroke({ tool: 'pen', points: [] });
+      const { id, clock } = useCanvasStore.getState().drawingStrokes[0];
+      renderHook(() => useCanvasSync({ sendMessage }));
 
       act(() => {
-        result.current.sendCanvasClear();
+        useCanvasStore.getState().clear();
       });
 
-      expect(sendMessage).toHaveBeenCalledWith({ type: 'canvas-clear' });
+      expect(sendMessage).toHaveBeenCalledWith({
+        type: 'canvas-ops',
+        ops: [expect.objectContaining({ kind: 'delete', id, clock: clock! + 1 })],
+      });
     });
   });
 
@@ -81,7 +88,8 @@ describe('useCanvasSync', () => {
 
       const strokes = useCanvasStore.getState().drawingStrokes;
       expect(strokes).toHaveLength(1);
-      expect(strokes[0]).toEqual(stroke);
+      expect(strokes[0]).toMatchObject(stroke);
+      expect(strokes[0].id).toBeDefined();
     });
 
     it('updates remote drawer data', () => {
@@ -119,20 +127,20 @@ describe('useCanvasSync', () => {
       expect(useCanvasStore.getState().zoom).toBe(3.0);
       expect(useCanvasStore.getState().panOffset).toEqual({ x: 50, y: 75 });
     });
-  });
-
-  describe('canvas-clear messages', () => {
-    it('clears the canvas', () => {
-      // Pre-populate some strokes
-      useCanvasStore.getState().addStroke({ tool: 'pen', points: [] });
 
+    it('leaves a peer\'s own view to follow mode', () => {
       const { result } = renderHook(() => useCanvasSync({ sendMessage }));
 
       act(() => {
-        result.current.handleMessage({ type: 'canvas-clear' });
+        result.current.handleMessage({
+          type: 'canvas-view',
+          peerId: 'peer-1',
+          zoom: 3.0,
+          panOffset: { x: 50, y: 75 },
+        });
       });
 
-      expect(useCanvasStore.getState().drawingStrokes).toHaveLength(0);
+      expect(useCanvasStore.getState().zoom).toBe(1);
     });
   });
 
@@ -154,14 +162,39 @@ describe('useCanvasSync', () => {
         });
       });
 
-      expect(useCanvasStore.getState().drawingStrokes).toEqual(strokes);
+      expect(useCanvasStore.getState().drawingStrokes).toMatchObject(strokes);
       expect(useCanvasStore.getState().zoom).toBe(1.5);
       expect(useCanvasStore.getState().panOffset).toEqual({ x: 10, y: 20 });
     });
+
+    it('merges the host\'s document, keeping what was drawn and deleted here', () => {
+      const host = createDocument([{ tool: 'pen', id: 'theirs', points: [{ x: 1, y: 1 }] }], 3);
+      const store = useCanvasStore.getState();
+      store.addStroke({ tool: 'pen', points: [] });
+      store.addStroke({ tool: 'pen', points: [] });
+      const [mine, gone] = useCanvasStore.getState().drawingStrokes.map((s) => s.id!);
+      // The host has seen the second stroke drawn but not yet deleted
+      const seen = useCanvasStore.getState().document.entries[gone];
+      store.deleteStrokes([gone]);
+      const { result } = renderHook(() => useCanvasSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'canvas-sync',
+          strokes: host.strokes,
+          entries: { ...host.entries, [gone]: seen },
+          clock: host.clock,
+        });
+      });
+
+      expect(useCanvasStore.getState().drawingStrokes.map((s) => s.id)).toEqual(['theirs', mine]);
+      act(() => useCanvasStore.getState().undo());
+      expect(useCanvasStore.getState().drawingStrokes.map((s) => s.id)).toContain(gone);
+    });
   });
 
   describe('state-request handling', () => {
-    it('sends full canvas state when requested', () => {
+    it('sends the full canvas state to the peer that asked', () => {
       // Set up some canvas state
       useCanvasStore.setState({
         drawingStrokes: [{ tool: 'pen', points: [{ x: 1, y: 1 }] }],
@@ -172,15 +205,70 @@ describe('useCanvasSync', () => {
       const { result } = renderHook(() => useCanvasSync({ sendMessage }));
 
       act(() => {
-        result.current.handleMessage({ type: 'state-request' });
+        result.current.handleMessage({ type: 'state-request' }, 'peer-1');
       });
 
       expect(sendMessage).toHaveBeenCalledWith({
         type: 'canvas-sync',
         strokes: [{ tool: 'pen', points: [{ x: 1, y: 1 }] }],
+        entries: {},
+        clock: 0,
         zoom: 2.0,
         panOffset: { x: 30, y: 40 },
+      }, 'peer-1');
+    });
+  });
+
+  describe('canvas-ops', () => {
+    it('sends the ops of local changes', () => {
+      renderHook(() => useCanvasSync({ sendMessage }));
+
+      act(() => {
+        useCanvasStore.getState().addStroke({ tool: 'rectangle', start: { x: 0, y: 0 }, end: { x: 10, y: 10 } });
+      });
+      const { id } = useCanvasStore.getState().drawingStrokes[0];
+      act(() => {
+        useCanvasStore.getState().updateStroke(id!, { text: 'API' });
+        useCanvasStore.getState().deleteStrokes([id!]);
       });
+
+      const sent = sendMessage.mock.calls.map(([message]) => message);
+      expect(sent.map((m) => m.type)).toEqual(['canvas-ops', 'canvas-ops', 'canvas-ops']);
+      expect(sent.flatMap((m) => (m.type === 'canvas-ops' ? m.ops : [])).map((op) => op.kind))
+        .toEqual(['add', 'update', 'delete']);
+    });
+
+    it('merges ops from peers without echoing them', () => {
+      const { result } = renderHook(() => useCanvasSync({ sendMessage }));
+      const stroke: Stroke = { tool: 'pen', points: [{ x: 1, y: 1 }], id: 'peer-1-1', author: 'peer-1', clock: 1 };
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'canvas-ops',
+          ops: [
+            { kind: 'add', stroke, clock: 1, site: 'peer-1' },
+            { kind: 'update', id: 'peer-1-1', changes: { color: '#f00' }, clock: 2, site: 'peer-1' },
+          ],
+        });
+      });
+
+      expect(useCanvasStore.getState().drawingStrokes).toEqual([{ ...stroke, color: '#f00' }]);
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('stamps local ops after the ops of peers', () => {
+      const { result } = renderHook(() => useCanvasSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'canvas-ops',
+          ops: [{ kind: 'add', stroke: { tool: 'pen', id: 'peer-1-7', author: 'peer-1', clock: 7 }, clock: 7, site: 'peer-1' }],
+        });
+        useCanvasStore.getState().addStroke({ tool: 'pen' });
+      });
+
+      const strokes = useCanvasStore.getState().drawingStrokes;
+      expect(strokes.map((s) => s.clock)).toEqual([7, 8]);
     });
   });
 
@@ -196,4 +284,33 @@ describe('useCanvasSync', () => {
       expect(useCanvasStore.getState().drawingStrokes).toHaveLength(0);
     });
   });
+
+  describe('roles', () => {
+    it('does not send drawing without draw permission', () => {
+      useSessionStore.getState().setRole('observer');
+      renderHook(() => useCanvasSync({ sendMessage }));
+
+      act(() => {
+        useCanvasStore.getState().addStroke({ tool: 'pen', points: [{ x: 1, y: 1 }] });
+        useCanvasStore.getState().clear();
+      });
+
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('drops strokes from peers whose role cannot draw on the host', () => {
+      useSessionStore.setState({ isHost: true });
+      useSessionStore.getState().updateParticipant('peer-1', { role: 'observer' });
+      const { result } = renderHook(() => useCanvasSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage(
+          { type: 'canvas', action: 'stroke', stroke: { tool: 'pen', points: [{ x: 1, y: 1 }] } },
+          'peer-1',
+        );
+      });
+
+      expect(useCanvasStore.getState().drawingStrokes).toHaveLength(0);
+    });
+  });
 });
@@ -1,7 +1,11 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, act } from '@testing-library/react';
 import { useCodeSync } from '../../../src/hooks/useCodeSync.js';
 import { useEditorStore } from '../../../src/stores/editorStore.js';
+import { useSessionStore } from '../../../src/stores/sessionStore.js';
+import { useToastStore } from '../../../src/stores/toastStore.js';
+import { useQuestionStore } from '../../../src/stores/questionStore.js';
+import { computeChecksum } from '../../../src/services/ot-protocol.js';
 import type { DataChannelMessage } from '../../../src/services/connection-manager.js';
 
 describe('useCodeSync', () => {
@@ -10,8 +14,16 @@ describe('useCodeSync', () => {
   beforeEach(() => {
     sendMessage = vi.fn(() => true);
     useEditorStore.getState().reset();
+    useSessionStore.getState().reset();
+    useToastStore.getState().reset();
   });
 
+  function sentOperations() {
+    return sendMessage.mock.calls
+      .map(([msg]) => msg)
+      .filter((msg): msg is Extract<DataChannelMessage, { type: 'code-operation' }> => msg.type === 'code-operation');
+  }
+
   it('returns a handleMessage callback', () => {
     const { result } = renderHook(() => useCodeSync({ sendMessage }));
     expect(typeof result.current.handleMessage).toBe('function');
@@ -27,7 +39,8 @@ describe('useCodeSync', () => {
         result.current.handleMessage({
           type: 'code-operation',
           operation: [5, ' world'], // retain 5, insert ' world'
-          operationCount: 1,
+          revision: 1,
+          clientId: 'peer-a',
         });
       });
 
@@ -43,7 +56,8 @@ describe('useCodeSync', () => {
         result.current.handleMessage({
           type: 'code-operation',
           operation: [5, -6], // retain 5, delete 6 (' world')
-          operationCount: 1,
+          revision: 1,
+          clientId: 'peer-a',
         });
       });
 
@@ -59,7 +73,8 @@ describe('useCodeSync', () => {
         result.current.handleMessage({
           type: 'code-operation',
           operation: [4, '!'], // retain 4, insert '!'
-          operationCount: 1,
+          revision: 1,
+          clientId: 'peer-a',
         });
       });
 
@@ -67,6 +82,353 @@ describe('useCodeSync', () => {
     });
   });
 
+  describe('revision protocol (peer side)', () => {
+    it('sends local edits tagged with the base revision and a client id', () => {
+      const { rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        useEditorStore.getState().setCode('a');
+      });
+      rerender();
+
+      const [sent] = sentOperations();
+      expect(sent.operation).toEqual(['a']);
+      expect(sent.revision).toBe(0);
+      expect(typeof sent.clientId).toBe('string');
+    });
+
+    it('holds later edits until the outstanding one is acknowledged', () => {
+      const { result, rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        useEditorStore.getState().setCode('a');
+      });
+      rerender();
+      act(() => {
+        useEditorStore.getState().setCode('ab');
+      });
+      rerender();
+
+      expect(sentOperations()).toHaveLength(1);
+      const [first] = sentOperations();
+
+      // Host echoes our operation back as revision 1 — that is the ack
+      act(() => {
+        result.current.handleMessage({ ...first, revision: 1 });
+      });
+
+      const ops = sentOperations();
+      expect(ops).toHaveLength(2);
+      expect(ops[1].operation).toEqual([1, 'b']);
+      expect(ops[1].revision).toBe(1);
+      expect(useEditorStore.getState().code).toBe('ab');
+    });
+
+    it('transforms remote operations against unacknowledged local edits', () => {
+      useEditorStore.getState().setCode('hello');
+      const { result, rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      // Local peer prepends while the host orders someone else's append
+      act(() => {
+        useEditorStore.getState().setCode('>hello');
+      });
+      rerender();
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'code-operation',
+          operation: [5, '!'],
+          revision: 1,
+          clientId: 'peer-b',
+        });
+      });
+
+      expect(useEditorStore.getState().code).toBe('>hello!');
+    });
+
+    it('requests a full resync when a revision is skipped', () => {
+      const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'code-operation',
+          operation: ['x'],
+          revision: 3,
+          clientId: 'peer-b',
+        });
+      });
+
+      expect(sendMessage).toHaveBeenCalledWith({ type: 'state-request' });
+      expect(useEditorStore.getState().code).toBe('');
+    });
+
+    it('adopts the revision carried by state-sync', () => {
+      const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'state-sync', code: 'abc', revision: 7 });
+      });
+      act(() => {
+        result.current.handleMessage({
+          type: 'code-operation',
+          operation: [3, 'd'],
+          revision: 8,
+          clientId: 'peer-b',
+        });
+      });
+
+      expect(useEditorStore.getState().code).toBe('abcd');
+      expect(sendMessage).not.toHaveBeenCalledWith({ type: 'state-request' });
+    });
+  });
+
+  describe('revision protocol (host side)', () => {
+    beforeEach(() => {
+      useSessionStore.setState({ isHost: true });
+    });
+
+    it('orders its own edits immediately', () => {
+      const { rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        useEditorStore.getState().setCode('a');
+      });
+      rerender();
+      act(() => {
+        useEditorStore.getState().setCode('ab');
+      });
+      rerender();
+
+      expect(sentOperations().map((op) => op.revision)).toEqual([1, 2]);
+    });
+
+    it('transforms a stale peer operation and broadcasts it under the sender id', () => {
+      useEditorStore.getState().setCode('hello');
+      const { result, rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        useEditorStore.getState().setCode('>hello');
+      });
+      rerender();
+
+      // Peer appended '!' without having seen the host's revision 1
+      act(() => {
+        result.current.handleMessage({
+          type: 'code-operation',
+          operation: [5, '!'],
+          revision: 0,
+          clientId: 'peer-b',
+        });
+      });
+
+      expect(useEditorStore.getState().code).toBe('>hello!');
+      const ops = sentOperations();
+      const last = ops[ops.length - 1];
+      expect(last).toEqual({
+        type: 'code-operation',
+        fileId: 'main',
+        operation: [6, '!'],
+        revision: 2,
+        clientId: 'peer-b',
+      });
+    });
+
+    it('answers state-request with its current revision', () => {
+      const { result, rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        useEditorStore.getState().setCode('x');
+      });
+      rerender();
+      act(() => {
+        result.current.handleMessage({ type: 'state-request' });
+      });
+
+      expect(sendMessage).toHaveBeenCalledWith({
+        type: 'state-sync',
+        files: [expect.objectContaining({ id: 'main', code: 'x', revision: 1 })],
+        question: null,
+      });
+    });
+  });
+
+  describe('undo/redo', () => {
+    it('registers undo and redo callbacks on the editor store', () => {
+      renderHook(() => useCodeSync({ sendMessage }));
+      expect(typeof useEditorStore.getState().undo).toBe('function');
+      expect(typeof useEditorStore.getState().redo).toBe('function');
+    });
+
+    it('undoes only the local edit after a remote operation', () => {
+      useEditorStore.getState().setCode('abc');
+      const { result, rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        useEditorStore.getState().setCode('abcX');
+      });
+      rerender();
+
+      // Ack our edit, then a peer prepends text
+      const [own] = sentOperations();
+      act(() => {
+        result.current.handleMessage({ ...own, revision: 1 });
+      });
+      act(() => {
+        result.current.handleMessage({
+          type: 'code-operation',
+          operation: ['>> ', 4],
+          revision: 2,
+          clientId: 'peer-b',
+        });
+      });
+      expect(useEditorStore.getState().code).toBe('>> abcX');
+
+      act(() => {
+        useEditorStore.getState().undo!();
+      });
+      expect(useEditorStore.getState().code).toBe('>> abc');
+
+      // The undo is synced like any other local edit
+      const ops = sentOperations();
+      expect(ops[ops.length - 1]).toMatchObject({ operation: [6, -1], revision: 2 });
+
+      act(() => {
+        useEditorStore.getState().redo!();
+      });
+      expect(useEditorStore.getState().code).toBe('>> abcX');
+    });
+
+    it('clears undo history on a full state-sync', () => {
+      const { result, rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        useEditorStore.getState().setCode('typed');
+      });
+      rerender();
+      act(() => {
+        result.current.handleMessage({ type: 'state-sync', code: 'replaced', revision: 4 });
+      });
+
+      let undone: unknown;
+      act(() => {
+        undone = useEditorStore.getState().undo!();
+      });
+      expect(undone).toBeNull();
+      expect(useEditorStore.getState().code).toBe('replaced');
+    });
+  });
+
+  describe('convergence checksums', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('periodically broadcasts a checksum of the code at its revision', () => {
+      vi.useFakeTimers();
+      useEditorStore.getState().setCode('abc');
+      renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        vi.advanceTimersByTime(5000);
+      });
+
+      expect(sendMessage).toHaveBeenCalledWith({
+        type: 'code-checksum',
+        fileId: 'main',
+        revision: 0,
+        checksum: computeChecksum('abc'),
+      });
+    });
+
+    it('skips the checksum while a local edit is unacknowledged', () => {
+      vi.useFakeTimers();
+      const { rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        useEditorStore.getState().setCode('typing');
+      });
+      rerender();
+      act(() => {
+        vi.advanceTimersByTime(5000);
+      });
+
+      expect(sendMessage).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'code-checksum' }));
+    });
+
+    it('peer requests a resync when the host checksum differs and toasts once repaired', () => {
+      useEditorStore.getState().setCode('drifted');
+      const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'code-checksum',
+          revision: 0,
+          checksum: computeChecksum('original'),
+        });
+      });
+      expect(sendMessage).toHaveBeenCalledWith({ type: 'state-request' });
+
+      act(() => {
+        result.current.handleMessage({ type: 'state-sync', code: 'original', revision: 0 });
+      });
+
+      expect(useEditorStore.getState().code).toBe('original');
+      const toasts = useToastStore.getState().toasts;
+      expect(toasts).toHaveLength(1);
+      expect(toasts[0].type).toBe('warning');
+    });
+
+    it('peer ignores a matching checksum', () => {
+      useEditorStore.getState().setCode('same');
+      const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'code-checksum', revision: 0, checksum: computeChecksum('same') });
+      });
+
+      expect(sendMessage).not.toHaveBeenCalledWith({ type: 'state-request' });
+    });
+
+    it('peer ignores a checksum for another revision', () => {
+      useEditorStore.getState().setCode('mine');
+      const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'code-checksum', revision: 3, checksum: computeChecksum('other') });
+      });
+
+      expect(sendMessage).not.toHaveBeenCalledWith({ type: 'state-request' });
+    });
+
+    it('host pushes a repairing state-sync when a peer checksum differs', () => {
+      useSessionStore.setState({ isHost: true });
+      useEditorStore.getState().setCode('truth');
+      const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'code-checksum', revision: 0, checksum: computeChecksum('tru') });
+      });
+
+      expect(sendMessage).toHaveBeenCalledWith({
+        type: 'state-sync',
+        files: [expect.objectContaining({ id: 'main', code: 'truth', revision: 0 })],
+        question: null,
+        repair: true,
+      });
+    });
+
+    it('does not toast when a repair state-sync matches our copy', () => {
+      useEditorStore.getState().setCode('fine');
+      const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'state-sync', code: 'fine', revision: 0, repair: true });
+      });
+
+      expect(useToastStore.getState().toasts).toHaveLength(0);
+    });
+  });
+
   describe('incoming full code sync messages', () => {
     it('replaces code on "code" message', () => {
       useEditorStore.getState().setCode('old code');
@@ -114,9 +476,76 @@ describe('useCodeSync', () => {
 
       expect(sendMessage).toHaveBeenCalledWith({
         type: 'state-sync',
-        code: 'my code',
-        language: 'typescript',
+        files: [{ id: 'main', name: 'main.js', language: 'typescript', code: 'my code', revision: 0 }],
+        question: null,
+      });
+    });
+  });
+
+  describe('question', () => {
+    const question = {
+      id: 'q1',
+      title: 'Reverse a string',
+      difficulty: 'easy' as const,
+      statement: 'Reverse it',
+      starterCode: { javascript: '// start' },
+    };
+
+    beforeEach(() => {
+      useQuestionStore.getState().reset();
+    });
+
+    it('sends the question with the workspace', () => {
+      useQuestionStore.getState().setQuestion(question);
+      const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'state-request' });
+      });
+
+      expect(sendMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'state-sync', question }));
+    });
+
+    it('host pushes the workspace when it picks a question', () => {
+      useSessionStore.getState().createSession('s1');
+      renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        useEditorStore.getState().setCode('// start');
+        useQuestionStore.getState().setQuestion(question);
+      });
+
+      expect(sendMessage).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'state-sync',
+        files: [expect.objectContaining({ code: '// start', revision: 1 })],
+        question,
+      }));
+    });
+
+    it('peers take the question from the host\'s state-sync', () => {
+      const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'state-sync',
+          files: [{ id: 'main', name: 'main.js', language: 'javascript', code: '// start', revision: 0 }],
+          question,
+        });
+      });
+
+      expect(useQuestionStore.getState().question).toEqual(question);
+      expect(useEditorStore.getState().code).toBe('// start');
+    });
+
+    it('keeps the question when an older peer\'s state-sync has none', () => {
+      useQuestionStore.getState().setQuestion(question);
+      const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'state-sync', code: 'x', revision: 0 });
       });
+
+      expect(useQuestionStore.getState().question).toEqual(question);
     });
   });
 
@@ -138,6 +567,101 @@ describe('useCodeSync', () => {
         name: 'Alice',
       });
     });
+    it('stores the remote selection range', () => {
+      const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'cursor',
+          peerId: 'peer1',
+          position: 9,
+          selectionStart: 4,
+          selectionEnd: 9,
+          name: 'Alice',
+          clientId: 'client-1',
+        });
+      });
+
+      expect(useEditorStore.getState().remoteCursors.peer1).toMatchObject({
+        position: 9,
+        selectionStart: 4,
+        selectionEnd: 9,
+        clientId: 'client-1',
+      });
+    });
+
+    it('moves peer selections through remote operations', () => {
+      useEditorStore.getState().setCode('hello world');
+
+      const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'cursor', peerId: 'peer1', position: 11, selectionStart: 6, selectionEnd: 11, name: 'Alice', clientId: 'client-1',
+        });
+        result.current.handleMessage({
+          type: 'cursor', peerId: 'peer2', position: 0, selectionStart: 0, selectionEnd: 0, name: 'Bob', clientId: 'client-2',
+        });
+        result.current.handleMessage({
+          type: 'code-operation',
+          operation: ['>> ', 11],
+          revision: 1,
+          clientId: 'client-2',
+        });
+      });
+
+      const { remoteCursors } = useEditorStore.getState();
+      expect(remoteCursors.peer1).toMatchObject({ selectionStart: 9, selectionEnd: 14 });
+      // The author reports its own caret after the edit
+      expect(remoteCursors.peer2).toMatchObject({ position: 0 });
+    });
+    it('moves peer cursors through local edits', () => {
+      useEditorStore.getState().setCode('hello world');
+      const { result, rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'cursor', peerId: 'peer1', position: 11, selectionStart: 6, selectionEnd: 11, name: 'Alice',
+        });
+      });
+      act(() => {
+        useEditorStore.getState().setCode('// hello world');
+      });
+      rerender();
+
+      expect(useEditorStore.getState().remoteCursors.peer1).toMatchObject({
+        position: 14,
+        selectionStart: 9,
+        selectionEnd: 14,
+      });
+
+      act(() => {
+        useEditorStore.getState().undo!();
+      });
+
+      expect(useEditorStore.getState().remoteCursors.peer1).toMatchObject({
+        position: 11,
+        selectionStart: 6,
+        selectionEnd: 11,
+      });
+    });
+
+    it('does not move cursors in other files through local edits', () => {
+      useEditorStore.getState().setCode('hello');
+      const { result, rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'cursor', peerId: 'peer1', position: 3, name: 'Alice', fileId: 'other',
+        });
+      });
+      act(() => {
+        useEditorStore.getState().setCode('>> hello');
+      });
+      rerender();
+
+      expect(useEditorStore.getState().remoteCursors.peer1.position).toBe(3);
+    });
   });
 
   describe('language change handling', () => {
@@ -155,6 +679,222 @@ describe('useCodeSync', () => {
     });
   });
 
+  describe('multi-file workspaces', () => {
+    it('announces a new file before sending its operations', () => {
+      const { rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      let id = '';
+      act(() => {
+        id = useEditorStore.getState().createFile('util.py');
+      });
+      rerender();
+      act(() => {
+        useEditorStore.getState().setCode('x = 1');
+      });
+      rerender();
+
+      const types = sendMessage.mock.calls.map(([msg]) => msg.type);
+      expect(types.indexOf('file-create')).toBeLessThan(types.indexOf('code-operation'));
+      expect(sendMessage).toHaveBeenCalledWith({
+        type: 'file-create',
+        file: { id, name: 'util.py', language: 'python', code: '' },
+      });
+      expect(sentOperations()[0]).toMatchObject({ fileId: id, operation: ['x = 1'], revision: 0 });
+    });
+
+    it('does not send operations when switching files', () => {
+      const { rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        useEditorStore.getState().addFile({ id: 'f2', name: 'b.js', language: 'javascript', code: 'b' });
+      });
+      rerender();
+      sendMessage.mockClear();
+
+      act(() => {
+        useEditorStore.getState().setActiveFile('f2');
+      });
+      rerender();
+
+      expect(sentOperations()).toHaveLength(0);
+    });
+
+    it('applies a remote operation to an inactive file', () => {
+      useEditorStore.getState().setCode('main code');
+      const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'file-create',
+          file: { id: 'f2', name: 'b.js', language: 'javascript', code: 'abc' },
+        });
+        result.current.handleMessage({
+          type: 'code-operation',
+          fileId: 'f2',
+          operation: [3, 'd'],
+          revision: 1,
+          clientId: 'peer-a',
+        });
+      });
+
+      const state = useEditorStore.getState();
+      expect(state.code).toBe('main code');
+      expect(state.files.find((f) => f.id === 'f2')?.code).toBe('abcd');
+    });
+
+    it('keeps a separate revision per file', () => {
+      useSessionStore.setState({ isHost: true });
+      const { rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        useEditorStore.getState().setCode('a');
+      });
+      rerender();
+      act(() => {
+        useEditorStore.getState().createFile('b.js');
+      });
+      rerender();
+      act(() => {
+        useEditorStore.getState().setCode('b');
+      });
+      rerender();
+
+      expect(sentOperations().map((op) => [op.fileId, op.revision])).toEqual([
+        ['main', 1],
+        [expect.any(String), 1],
+      ]);
+    });
+
+    it('applies remote file changes without echoing them', () => {
+      const { result, rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'file-create',
+          file: { id: 'f2', name: 'a.py', language: 'python', code: '' },
+        });
+      });
+      rerender();
+      act(() => {
+        result.current.handleMessage({ type: 'file-rename', fileId: 'f2', name: 'b.py' });
+        result.current.handleMessage({ type: 'language', fileId: 'f2', language: 'ruby' });
+      });
+      rerender();
+
+      expect(useEditorStore.getState().files[1]).toMatchObject({ name: 'b.py', language: 'ruby' });
+
+      act(() => {
+        result.current.handleMessage({ type: 'file-delete', fileId: 'f2' });
+      });
+      rerender();
+
+      expect(useEditorStore.getState().files).toHaveLength(1);
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('keeps syncing its last file when a peer deleted it meanwhile', () => {
+      const { result, rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'file-create',
+          file: { id: 'f2', name: 'a.py', language: 'python', code: '' },
+        });
+        result.current.handleMessage({ type: 'code-operation', fileId: 'f2', operation: ['x'], revision: 1, clientId: 'peer-a' });
+      });
+      rerender();
+      // We delete main while the peer deletes f2
+      act(() => {
+        useEditorStore.getState().deleteFile('main');
+      });
+      rerender();
+      act(() => {
+        result.current.handleMessage({ type: 'file-delete', fileId: 'f2' });
+      });
+      rerender();
+
+      expect(useEditorStore.getState().files.map((f) => f.id)).toEqual(['f2']);
+
+      act(() => {
+        result.current.handleMessage({ type: 'code-operation', fileId: 'f2', operation: [1, ' = 1'], revision: 2, clientId: 'peer-a' });
+      });
+
+      expect(useEditorStore.getState().files[0].code).toBe('x = 1');
+      expect(sendMessage).not.toHaveBeenCalledWith(expect.objectContaining({ type: 'state-request' }));
+    });
+
+    it('announces renames, language changes and deletions', () => {
+      const { rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      let id = '';
+      act(() => {
+        id = useEditorStore.getState().createFile('a.js');
+      });
+      rerender();
+      act(() => {
+        useEditorStore.getState().renameFile(id, 'b.ts');
+        useEditorStore.getState().setFileLanguage(id, 'typescript');
+      });
+      rerender();
+      act(() => {
+        useEditorStore.getState().deleteFile(id);
+      });
+      rerender();
+
+      expect(sendMessage).toHaveBeenCalledWith({ type: 'file-rename', fileId: id, name: 'b.ts' });
+      expect(sendMessage).toHaveBeenCalledWith({ type: 'language', fileId: id, language: 'typescript' });
+      expect(sendMessage).toHaveBeenCalledWith({ type: 'file-delete', fileId: id });
+    });
+
+    it('replaces the workspace on state-sync and continues from each file\'s revision', () => {
+      const { result, rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'state-sync',
+          files: [
+            { id: 'main', name: 'main.go', language: 'go', code: 'package main', revision: 4 },
+            { id: 'f2', name: 'q.sql', language: 'sql', code: 'SELECT 1;', revision: 9 },
+          ],
+        });
+      });
+      rerender();
+
+      const state = useEditorStore.getState();
+      expect(state.files.map((f) => f.name)).toEqual(['main.go', 'q.sql']);
+      expect(state.language).toBe('go');
+      expect(sendMessage).not.toHaveBeenCalled();
+
+      act(() => {
+        useEditorStore.getState().setActiveFile('f2');
+      });
+      rerender();
+      act(() => {
+        useEditorStore.getState().setCode('SELECT 2;');
+      });
+      rerender();
+
+      expect(sentOperations()[0]).toMatchObject({ fileId: 'f2', revision: 9 });
+    });
+
+    it('ignores operations for a file that no longer exists', () => {
+      const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'code-operation',
+          fileId: 'gone',
+          operation: ['x'],
+          revision: 1,
+          clientId: 'peer-a',
+        });
+      });
+
+      expect(useEditorStore.getState().files).toHaveLength(1);
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
   describe('unknown message types', () => {
     it('ignores unknown message types', () => {
       const { result } = renderHook(() => useCodeSync({ sendMessage }));
@@ -167,4 +907,115 @@ describe('useCodeSync', () => {
       expect(useEditorStore.getState().code).toBe(codeBefore);
     });
   });
+
+  describe('roles', () => {
+    it('reverts local edits instead of sending them without edit permission', () => {
+      useEditorStore.getState().setCode('hello');
+      useSessionStore.getState().setRole('observer');
+      const { rerender } = renderHook(() => useCodeSync({ sendMessage }));
+
+      act(() => {
+        useEditorStore.getState().setCode('hello!');
+      });
+      rerender();
+
+      expect(useEditorStore.getState().code).toBe('hello');
+      expect(sentOperations()).toHaveLength(0);
+    });
+
+    it('refuses undo without edit permission', () => {
+      const { rerender } = renderHook(() => useCodeSync({ sendMessage }));
+      act(() => {
+        useEditorStore.getState().setCode('typed');
+      });
+      rerender();
+
+      act(() => {
+        useSessionStore.getState().setRole('observer');
+      });
+      let undone: unknown;
+      act(() => {
+        undone = useEditorStore.getState().undo?.();
+      });
+
+      expect(undone).toBeNull();
+      expect(useEditorStore.getState().code).toBe('typed');
+    });
+
+    it('abandons unacknowledged edits and resyncs when demoted', () => {
+      const { rerender } = renderHook(() => useCodeSync({ sendMessage }));
+      act(() => {
+        useEditorStore.getState().setCode('draft');
+      });
+      rerender();
+      sendMessage.mockClear();
+
+      act(() => {
+        useSessionStore.getState().setRole('observer');
+      });
+
+      expect(sendMessage).toHaveBeenCalledWith({ type: 'state-request' });
+    });
+
+    describe('on the host', () => {
+      beforeEach(() => {
+        useSessionStore.setState({ isHost: true });
+        useSessionStore.getState().updateParticipant('peer-1', { name: 'Olive', role: 'observer' });
+        useSessionStore.getState().updateParticipant('peer-2', { name: 'Cara' });
+      });
+
+      it('drops operations from peers whose role cannot edit', () => {
+        useEditorStore.getState().setCode('hello');
+        const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+        act(() => {
+          result.current.handleMessage(
+            { type: 'code-operation', operation: [5, '!'], revision: 0, clientId: 'observer' },
+            'peer-1',
+          );
+        });
+
+        expect(useEditorStore.getState().code).toBe('hello');
+        expect(sentOperations()).toHaveLength(0);
+      });
+
+      it('drops file changes from peers whose role cannot edit', () => {
+        const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+        act(() => {
+          result.current.handleMessage({ type: 'file-rename', fileId: 'main', name: 'hacked.js' }, 'peer-1');
+        });
+
+        expect(useEditorStore.getState().files[0].name).not.toBe('hacked.js');
+      });
+
+      it('ignores state-sync from any peer', () => {
+        useEditorStore.getState().setCode('hello');
+        const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+        act(() => {
+          result.current.handleMessage({
+            type: 'state-sync',
+            files: [{ id: 'main', name: 'main.js', language: 'javascript', code: 'replaced', revision: 9 }],
+          }, 'peer-2');
+        });
+
+        expect(useEditorStore.getState().code).toBe('hello');
+      });
+
+      it('orders operations from candidates', () => {
+        useEditorStore.getState().setCode('hello');
+        const { result } = renderHook(() => useCodeSync({ sendMessage }));
+
+        act(() => {
+          result.current.handleMessage(
+            { type: 'code-operation', operation: [5, '!'], revision: 0, clientId: 'candidate' },
+            'peer-2',
+          );
+        });
+
+        expect(useEditorStore.getState().code).toBe('hello!');
+      });
+    });
+  });
 });
@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+
+vi.mock('../../../src/services/code-executor.js', () => ({
+  runCode: vi.fn(),
+  stopExecution: vi.fn(),
+  isExecutable: () => true,
+  isWasmLanguage: () => false,
+  preloadRuntime: vi.fn(),
+  getCapabilities: vi.fn(() => ({ stdin: true, tests: true, timeLimit: 10_000, memoryLimit: null })),
+}));
+
+import { useExecutionSync } from '../../../src/hooks/useExecutionSync.js';
+import { useExecutionStore } from '../../../src/stores/executionStore.js';
+import { useEditorStore } from '../../../src/stores/editorStore.js';
+import { useSessionStore } from '../../../src/stores/sessionStore.js';
+import { useQuestionStore } from '../../../src/stores/questionStore.js';
+import { useExecutionHistoryStore } from '../../../src/stores/executionHistoryStore.js';
+import { runCode, getCapabilities } from '../../../src/services/code-executor.js';
+import { getQuestion, toSharedQuestion } from '../../../src/services/question-bank.js';
+import type { DataChannelMessage } from '../../../src/services/connection-manager.js';
+
+const mockRunCode = vi.mocked(runCode);
+
+describe('useExecutionSync', () => {
+  let sendMessage: ReturnType<typeof vi.fn<(data: DataChannelMessage) => boolean>>;
+
+  beforeEach(() => {
+    sendMessage = vi.fn(() => true);
+    mockRunCode.mockReset();
+    mockRunCode.mockResolvedValue({ stdout: 'hi', stderr: '', exitCode: 0, duration: 2 });
+    useExecutionStore.getState().reset();
+    useEditorStore.getState().reset();
+    useSessionStore.getState().reset();
+    useQuestionStore.getState().reset();
+    useExecutionHistoryStore.getState().reset();
+    useEditorStore.getState().setCode('console.log(readline())');
+  });
+
+  describe('stdin', () => {
+    it('feeds the program its stdin and shares it with the run', async () => {
+      useExecutionStore.getState().setStdin('Ada\n');
+      renderHook(() => useExecutionSync({ sendMessage }));
+
+      await act(async () => {
+        await useExecutionStore.getState().runCode!();
+      });
+
+      expect(mockRunCode).toHaveBeenCalledWith(
+        'console.log(readline())',
+        'javascript',
+        expect.objectContaining({ stdin: 'Ada\n' }),
+      );
+      expect(sendMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'execution-start', stdin: 'Ada\n' }));
+      expect(useExecutionStore.getState().output!.stdout).toBe('hi');
+    });
+
+    it("adopts the stdin of a peer's run", () => {
+      const { result } = renderHook(() => useExecutionSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'execution-start', language: 'python', timestamp: 1, stdin: '42' });
+      });
+
+      expect(useExecutionStore.getState().stdin).toBe('42');
+      expect(useExecutionStore.getState().isRunning).toBe(true);
+    });
+
+    it('keeps its stdin when a peer sends none', () => {
+      useExecutionStore.getState().setStdin('mine');
+      const { result } = renderHook(() => useExecutionSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'execution-start', language: 'python', timestamp: 1 });
+      });
+
+      expect(useExecutionStore.getState().stdin).toBe('mine');
+    });
+  });
+
+  describe('streaming', () => {
+    it('shows and shares output as the program writes it', async () => {
+      let finish!: () => void;
+      mockRunCode.mockImplementation((_code, _language, options) => {
+        options!.onOutput!({ stream: 'stdout', text: 'tick' });
+        return new Promise((resolve) => {
+          finish = () => resolve({ stdout: 'tick\ntock', stderr: '', exitCode: 0, duration: 9 });
+        });
+      });
+      renderHook(() => useExecutionSync({ sendMessage }));
+
+      let run!: Promise<void>;
+      act(() => {
+        run = useExecutionStore.getState().runCode!() as unknown as Promise<void>;
+      });
+
+      expect(useExecutionStore.getState().output!.stdout).toBe('tick');
+      expect(useExecutionStore.getState().isRunning).toBe(true);
+      expect(sendMessage).toHaveBeenCalledWith({ type: 'execution-output', stream: 'stdout', text: 'tick' });
+
+      await act(async () => {
+        finish();
+        await run;
+      });
+      expect(useExecutionStore.getState().output!.stdout).toBe('tick\ntock');
+    });
+
+    it("appends a peer's streamed output while its run lasts", () => {
+      const { result } = renderHook(() => useExecutionSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'execution-start', language: 'python', timestamp: 1 });
+        result.current.handleMessage({ type: 'execution-output', stream: 'stdout', text: 'a' });
+        result.current.handleMessage({ type: 'execution-output', stream: 'stderr', text: 'oops' });
+        result.current.handleMessage({ type: 'execution-output', stream: 'stdout', text: '\nb' });
+      });
+
+      expect(useExecutionStore.getState().output).toMatchObject({ stdout: 'a\nb', stderr: 'oops' });
+
+      act(() => {
+        result.current.handleMessage({ type: 'execution-result', stdout: 'a\nb', stderr: 'oops', exitCode: 1, duration: 5 });
+        result.current.handleMessage({ type: 'execution-output', stream: 'stdout', text: 'late' });
+      });
+
+      expect(useExecutionStore.getState().output!.stdout).toBe('a\nb');
+    });
+  });
+
+  describe('history', () => {
+    it('records our runs with who ran them and their code', async () => {
+      useSessionStore.getState().setPeerName('Alice');
+      renderHook(() => useExecutionSync({ sendMessage }));
+
+      await act(async () => {
+        await useExecutionStore.getState().runCode!();
+      });
+
+      const { runs, snapshots } = useExecutionHistoryStore.getState();
+      expect(runs).toEqual([expect.objectContaining({ runBy: 'Alice', language: 'javascript', stdout: 'hi', exitCode: 0 })]);
+      expect(snapshots[runs[0].codeHash]).toBe('console.log(readline())');
+      expect(sendMessage).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'execution-start', runBy: 'Alice', code: 'console.log(readline())' }),
+      );
+    });
+
+    it("records a peer's run once its result arrives", () => {
+      const { result } = renderHook(() => useExecutionSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'execution-start', language: 'javascript', timestamp: 7, runBy: 'Bob' });
+      });
+      expect(useExecutionHistoryStore.getState().runs).toHaveLength(0);
+
+      act(() => {
+        result.current.handleMessage({ type: 'execution-result', stdout: '', stderr: 'boom', exitCode: 1, duration: 4 });
+      });
+
+      expect(useExecutionHistoryStore.getState().runs).toEqual([
+        expect.objectContaining({ timestamp: 7, runBy: 'Bob', stderr: 'boom', exitCode: 1, duration: 4 }),
+      ]);
+    });
+
+    it("records the code a peer's run sent, not ours", () => {
+      useEditorStore.getState().setCode('mine()');
+      const { result } = renderHook(() => useExecutionSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'execution-start', language: 'javascript', timestamp: 7, code: 'theirs()' });
+        result.current.handleMessage({ type: 'execution-result', stdout: '', stderr: '', exitCode: 0, duration: 1 });
+      });
+
+      const { runs, snapshots } = useExecutionHistoryStore.getState();
+      expect(snapshots[runs[0].codeHash]).toBe('theirs()');
+    });
+
+    it('keeps only the pass count of test runs', async () => {
+      const question = getQuestion('fizzbuzz')!;
+      useQuestionStore.getState().setQuestion(toSharedQuestion(question), question.tests);
+      useSessionStore.getState().setRole('interviewer');
+      renderHook(() => useExecutionSync({ sendMessage }));
+
+      await act(async () => {
+        await useExecutionStore.getState().runTests!();
+      });
+
+      const [run] = useExecutionHistoryStore.getState().runs;
+      expect(run.tests).toEqual({ passed: 0, total: question.tests.length });
+      expect(run.stdout).toBe('');
+    });
+  });
+
+  describe('hidden tests', () => {
+    const question = getQuestion('fizzbuzz')!;
+
+    beforeEach(() => {
+      useQuestionStore.getState().setQuestion(toSharedQuestion(question), question.tests);
+    });
+
+    it('needs the viewNotes permission', async () => {
+      renderHook(() => useExecutionSync({ sendMessage }));
+
+      await act(async () => {
+        await useExecutionStore.getState().runTests!();
+      });
+
+      expect(mockRunCode).not.toHaveBeenCalled();
+    });
+
+    it('runs every test and shares only pass/fail', async () => {
+      useSessionStore.getState().setRole('interviewer');
+      renderHook(() => useExecutionSync({ sendMessage }));
+
+      await act(async () => {
+        await useExecutionStore.getState().runTests!();
+      });
+
+      expect(mockRunCode).toHaveBeenCalledTimes(question.tests.length);
+      expect(mockRunCode).toHaveBeenCalledWith(expect.any(String), 'javascript', { stdin: question.tests[0].input });
+
+      const start = sendMessage.mock.calls.find(([m]) => m.type === 'execution-start')![0];
+      expect(start).not.toHaveProperty('stdin');
+
+      const result = sendMessage.mock.calls.find(([m]) => m.type === 'execution-result')![0];
+      expect(result.type === 'execution-result' && result.testResults).toEqual(
+        question.tests.map((t) => ({ id: t.id, passed: false, exitCode: 0, duration: 2 })),
+      );
+      expect(useExecutionStore.getState().output!.testResults![0].stdout).toBe('hi');
+    });
+
+    it('skips languages whose runtime cannot run tests', async () => {
+      useSessionStore.getState().setRole('interviewer');
+      vi.mocked(getCapabilities).mockReturnValueOnce({ stdin: true, tests: false, timeLimit: 10_000, memoryLimit: null });
+      renderHook(() => useExecutionSync({ sendMessage }));
+
+      await act(async () => {
+        await useExecutionStore.getState().runTests!();
+      });
+
+      expect(mockRunCode).not.toHaveBeenCalled();
+    });
+  });
+});
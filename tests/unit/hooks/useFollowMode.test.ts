@@ -0,0 +1,189 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useFollowMode } from '../../../src/hooks/useFollowMode.js';
+import { useUIStore } from '../../../src/stores/uiStore.js';
+import { useEditorStore } from '../../../src/stores/editorStore.js';
+import { useCanvasStore } from '../../../src/stores/canvasStore.js';
+import { useSessionStore } from '../../../src/stores/sessionStore.js';
+import type { DataChannelMessage } from '../../../src/services/connection-manager.js';
+
+describe('useFollowMode', () => {
+  let sendMessage: ReturnType<typeof vi.fn<(data: DataChannelMessage) => boolean>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sendMessage = vi.fn(() => true);
+    useUIStore.getState().reset();
+    useEditorStore.getState().reset();
+    useCanvasStore.getState().reset();
+    useSessionStore.getState().reset();
+    useSessionStore.getState().setLocalPeerId('me');
+    useSessionStore.getState().updateParticipant('peer-1', { name: 'Bob' });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('broadcasting the local view', () => {
+    it('sends tab switches immediately', () => {
+      renderHook(() => useFollowMode({ sendMessage }));
+
+      act(() => {
+        useUIStore.getState().switchTab('canvas');
+      });
+
+      expect(sendMessage).toHaveBeenCalledWith({ type: 'view-tab', peerId: 'me', tab: 'canvas' });
+    });
+
+    it('throttles editor scroll to the latest position', () => {
+      renderHook(() => useFollowMode({ sendMessage }));
+
+      act(() => {
+        useUIStore.getState().setEditorScroll(100, 0);
+        useUIStore.getState().setEditorScroll(250, 0);
+      });
+      expect(sendMessage).not.toHaveBeenCalled();
+
+      act(() => {
+        vi.advanceTimersByTime(100);
+      });
+
+      expect(sendMessage).toHaveBeenCalledTimes(1);
+      expect(sendMessage).toHaveBeenCalledWith({
+        type: 'view-scroll',
+        peerId: 'me',
+        fileId: 'main',
+        scrollTop: 250,
+        scrollLeft: 0,
+      });
+    });
+
+    it('tags canvas pan/zoom with the local peer id', () => {
+      renderHook(() => useFollowMode({ sendMessage }));
+
+      act(() => {
+        useCanvasStore.getState().setZoom(2);
+        useCanvasStore.getState().setPan({ x: 10, y: 20 });
+        vi.advanceTimersByTime(100);
+      });
+
+      expect(sendMessage).toHaveBeenCalledWith({
+        type: 'canvas-view',
+        peerId: 'me',
+        zoom: 2,
+        panOffset: { x: 10, y: 20 },
+      });
+    });
+
+    it('does not broadcast before the local peer id is known', () => {
+      useSessionStore.getState().setLocalPeerId(null);
+      renderHook(() => useFollowMode({ sendMessage }));
+
+      act(() => {
+        useUIStore.getState().switchTab('canvas');
+      });
+
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('answers a view-request for the local peer', () => {
+      const { result } = renderHook(() => useFollowMode({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'view-request', peerId: 'me' });
+      });
+
+      const types = sendMessage.mock.calls.map(([msg]) => msg.type);
+      expect(types).toEqual(['view-tab', 'view-scroll', 'canvas-view']);
+    });
+  });
+
+  describe('following a peer', () => {
+    it('mirrors the followed peer\'s tab, file, scroll and canvas view', () => {
+      const fileId = useEditorStore.getState().createFile('util.py');
+      useEditorStore.getState().setActiveFile('main');
+      const { result } = renderHook(() => useFollowMode({ sendMessage }));
+
+      act(() => {
+        useUIStore.getState().followPeer('peer-1');
+      });
+      act(() => {
+        result.current.handleMessage({ type: 'view-tab', peerId: 'peer-1', tab: 'canvas' });
+        result.current.handleMessage({
+          type: 'view-scroll', peerId: 'peer-1', fileId, scrollTop: 420, scrollLeft: 8,
+        });
+        result.current.handleMessage({
+          type: 'canvas-view', peerId: 'peer-1', zoom: 1.5, panOffset: { x: -40, y: 12 },
+        });
+      });
+
+      expect(useUIStore.getState().activeTab).toBe('canvas');
+      expect(useEditorStore.getState().activeFileId).toBe(fileId);
+      expect(useUIStore.getState().editorScroll).toEqual({ top: 420, left: 8 });
+      expect(useCanvasStore.getState().zoom).toBe(1.5);
+      expect(useCanvasStore.getState().panOffset).toEqual({ x: -40, y: 12 });
+    });
+
+    it('ignores views of peers that are not followed', () => {
+      const { result } = renderHook(() => useFollowMode({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'view-tab', peerId: 'peer-1', tab: 'canvas' });
+      });
+
+      expect(useUIStore.getState().activeTab).toBe('code');
+    });
+
+    it('jumps to the last known view and requests a fresh one', () => {
+      const { result } = renderHook(() => useFollowMode({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'view-tab', peerId: 'peer-1', tab: 'canvas' });
+      });
+      act(() => {
+        useUIStore.getState().followPeer('peer-1');
+      });
+
+      expect(useUIStore.getState().activeTab).toBe('canvas');
+      expect(sendMessage).toHaveBeenCalledWith({ type: 'view-request', peerId: 'peer-1' });
+    });
+
+    it('stops following on input in the editor or canvas area', () => {
+      const tabGroup = document.createElement('div');
+      tabGroup.id = 'tabGroup';
+      const editor = document.createElement('textarea');
+      tabGroup.appendChild(editor);
+      document.body.appendChild(tabGroup);
+      renderHook(() => useFollowMode({ sendMessage }));
+
+      act(() => {
+        useUIStore.getState().followPeer('peer-1');
+      });
+      act(() => {
+        document.body.dispatchEvent(new Event('pointerdown', { bubbles: true }));
+      });
+      expect(useUIStore.getState().followingPeerId).toBe('peer-1');
+
+      act(() => {
+        editor.dispatchEvent(new Event('wheel', { bubbles: true }));
+      });
+      expect(useUIStore.getState().followingPeerId).toBeNull();
+
+      tabGroup.remove();
+    });
+
+    it('stops following when the peer leaves', () => {
+      renderHook(() => useFollowMode({ sendMessage }));
+
+      act(() => {
+        useUIStore.getState().followPeer('peer-1');
+      });
+      act(() => {
+        useSessionStore.getState().removeParticipant('peer-1');
+      });
+
+      expect(useUIStore.getState().followingPeerId).toBeNull();
+    });
+  });
+});
@@ -25,7 +25,7 @@ describe('useMessageSync', () => {
     it('adds message to store and sends over data channel', () => {
       const { result } = renderHook(() => useMessageSync({ sendMessage }));
 
-      let messageId: string;
+      let messageId: string | null;
       act(() => {
         messageId = result.current.sendChatMessage('Hello!');
       });
@@ -52,7 +52,7 @@ describe('useMessageSync', () => {
     it('generates unique message IDs', () => {
       const { result } = renderHook(() => useMessageSync({ sendMessage }));
 
-      let id1: string, id2: string;
+      let id1: string | null, id2: string | null;
       act(() => {
         id1 = result.current.sendChatMessage('msg1');
         id2 = result.current.sendChatMessage('msg2');
@@ -152,7 +152,7 @@ describe('useMessageSync', () => {
     it('acknowledges a sent message', () => {
       const { result } = renderHook(() => useMessageSync({ sendMessage }));
 
-      let messageId: string;
+      let messageId: string | null;
       act(() => {
         messageId = result.current.sendChatMessage('Ack me');
       });
@@ -180,4 +180,49 @@ describe('useMessageSync', () => {
       expect(useMessagesStore.getState().messages).toHaveLength(0);
     });
   });
+
+  describe('roles', () => {
+    it('does not send chat without chat permission', () => {
+      useSessionStore.getState().setRole('observer');
+      const { result } = renderHook(() => useMessageSync({ sendMessage }));
+
+      let id: string | null = '';
+      act(() => {
+        id = result.current.sendChatMessage('psst');
+      });
+
+      expect(id).toBeNull();
+      expect(useMessagesStore.getState().messages).toHaveLength(0);
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('drops chat from peers whose role cannot chat on the host', () => {
+      useSessionStore.setState({ isHost: true });
+      useSessionStore.getState().updateParticipant('peer-1', { role: 'observer' });
+      const { result } = renderHook(() => useMessageSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage(
+          { type: 'message', id: 'm1', text: 'hi', sender: 'Olive', timestamp: 1 },
+          'peer-1',
+        );
+      });
+
+      expect(useMessagesStore.getState().messages).toHaveLength(0);
+    });
+
+    it('accepts chat relayed by the host as a peer', () => {
+      useSessionStore.getState().updateParticipant('host', { isHost: true });
+      const { result } = renderHook(() => useMessageSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage(
+          { type: 'message', id: 'm1', text: 'hi', sender: 'Olive', timestamp: 1 },
+          'host',
+        );
+      });
+
+      expect(useMessagesStore.getState().messages).toHaveLength(1);
+    });
+  });
 });
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useNotesSync } from '../../../src/hooks/useNotesSync.js';
+import { useNotesStore } from '../../../src/stores/notesStore.js';
+import { useSessionStore } from '../../../src/stores/sessionStore.js';
+import type { DataChannelMessage } from '../../../src/services/connection-manager.js';
+
+describe('useNotesSync', () => {
+  let sendMessage: ReturnType<typeof vi.fn<(data: DataChannelMessage) => boolean>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sendMessage = vi.fn(() => true);
+    useNotesStore.getState().reset();
+    useSessionStore.getState().reset();
+    useSessionStore.getState().setLocalPeerId('me');
+    useSessionStore.getState().createSession('s1');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('asks for the current notes when it may view them', () => {
+    renderHook(() => useNotesSync({ sendMessage }));
+    expect(sendMessage).toHaveBeenCalledWith({ type: 'notes-request' });
+  });
+
+  it('sends local edits once typing pauses', () => {
+    renderHook(() => useNotesSync({ sendMessage }));
+    sendMessage.mockClear();
+
+    act(() => {
+      useNotesStore.getState().setText('G', 'Alice');
+      useNotesStore.getState().setText('Good', 'Alice');
+    });
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    act(() => {
+      vi.advanceTimersByTime(300);
+    });
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(sendMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'notes', text: 'Good', updatedBy: 'Alice' }));
+  });
+
+  it('merges notes from peers without echoing them', () => {
+    const { result } = renderHook(() => useNotesSync({ sendMessage }));
+    sendMessage.mockClear();
+
+    act(() => {
+      result.current.handleMessage({ type: 'notes', text: 'From Bob', updatedAt: 5, updatedBy: 'Bob' });
+      vi.advanceTimersByTime(300);
+    });
+    expect(useNotesStore.getState().text).toBe('From Bob');
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('answers a notes request only when it has notes', () => {
+    const { result } = renderHook(() => useNotesSync({ sendMessage }));
+    sendMessage.mockClear();
+
+    result.current.handleMessage({ type: 'notes-request' });
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    useNotesStore.getState().mergeNotes({ text: 'Hire', updatedAt: 5, updatedBy: 'Bob' });
+    result.current.handleMessage({ type: 'notes-request' });
+    expect(sendMessage).toHaveBeenCalledWith({ type: 'notes', text: 'Hire', updatedAt: 5, updatedBy: 'Bob' });
+  });
+
+  it('ignores notes when the local role may not view them', () => {
+    useSessionStore.getState().setRole('candidate');
+    const { result } = renderHook(() => useNotesSync({ sendMessage }));
+
+    result.current.handleMessage({ type: 'notes', text: 'secret', updatedAt: 5, updatedBy: 'Bob' });
+    expect(useNotesStore.getState().text).toBe('');
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('drops notes the host receives from a candidate', () => {
+    useSessionStore.getState().updateParticipant('p1', { name: 'Cara' });
+    const { result } = renderHook(() => useNotesSync({ sendMessage }));
+
+    result.current.handleMessage({ type: 'notes', text: 'forged', updatedAt: 5, updatedBy: 'Cara' }, 'p1');
+    expect(useNotesStore.getState().text).toBe('');
+  });
+});
@@ -11,6 +11,8 @@ vi.spyOn(StorageManager, 'initIndexedDB').mockResolvedValue(true);
 vi.spyOn(StorageManager, 'cleanupExpiredSessions').mockImplementation(() => {});
 vi.spyOn(StorageManager, 'saveCode').mockImplementation(() => {});
 vi.spyOn(StorageManager, 'loadCode').mockReturnValue(null);
+vi.spyOn(StorageManager, 'saveFiles').mockImplementation(() => {});
+vi.spyOn(StorageManager, 'loadFiles').mockReturnValue(null);
 vi.spyOn(StorageManager, 'saveSession').mockImplementation(() => {});
 vi.spyOn(StorageManager, 'loadSession').mockReturnValue(null);
 vi.spyOn(StorageManager, 'saveMessages').mockImplementation(() => {});
@@ -23,11 +25,13 @@ describe('usePersistence', () => {
   const loadCodeMock = StorageManager.loadCode as ReturnType<typeof vi.fn>;
   const loadSessionMock = StorageManager.loadSession as ReturnType<typeof vi.fn>;
   const loadMessagesMock = StorageManager.loadMessages as ReturnType<typeof vi.fn>;
-  const saveCodeMock = StorageManager.saveCode as ReturnType<typeof vi.fn>;
+  const loadFilesMock = StorageManager.loadFiles as ReturnType<typeof vi.fn>;
+  const saveFilesMock = StorageManager.saveFiles as ReturnType<typeof vi.fn>;
   const saveMessagesMock = StorageManager.saveMessages as ReturnType<typeof vi.fn>;
 
   beforeEach(() => {
     vi.clearAllMocks();
+    loadFilesMock.mockReturnValue(null);
     useEditorStore.getState().reset();
     useMessagesStore.getState().reset();
     useSessionStore.getState().reset();
@@ -59,6 +63,27 @@ describe('usePersistence', () => {
     expect(useEditorStore.getState().language).toBe('python');
   });
 
+  it('restores workspace files and the active file', () => {
+    loadFilesMock.mockReturnValue({
+      files: [
+        { id: 'main', name: 'main.js', language: 'javascript', code: 'js code' },
+        { id: 'f2', name: 'util.py', language: 'python', code: 'py code' },
+      ],
+      activeFileId: 'f2',
+    });
+
+    useSessionStore.getState().createSession('test-session');
+
+    renderHook(() => usePersistence());
+
+    const state = useEditorStore.getState();
+    expect(state.files).toHaveLength(2);
+    expect(state.activeFileId).toBe('f2');
+    expect(state.code).toBe('py code');
+    expect(state.language).toBe('python');
+    expect(StorageManager.loadCode).not.toHaveBeenCalled();
+  });
+
   it('restores messages when session becomes active', () => {
     const savedMessages = [
       { id: '1', text: 'Hello', sender: 'Alice', timestamp: 1700000000000 },
@@ -85,7 +110,31 @@ describe('usePersistence', () => {
     });
 
     // The subscribe callback fires synchronously
-    expect(saveCodeMock).toHaveBeenCalledWith('test-session', 'new code');
+    expect(saveFilesMock).toHaveBeenCalledWith(
+      'test-session',
+      [expect.objectContaining({ id: 'main', code: 'new code' })],
+      'main',
+    );
+  });
+
+  it('persists created files to storage', () => {
+    useSessionStore.getState().createSession('test-session');
+
+    renderHook(() => usePersistence());
+
+    let id = '';
+    act(() => {
+      id = useEditorStore.getState().createFile('helper.py');
+    });
+
+    expect(saveFilesMock).toHaveBeenLastCalledWith(
+      'test-session',
+      [
+        expect.objectContaining({ id: 'main' }),
+        expect.objectContaining({ id, name: 'helper.py', language: 'python' }),
+      ],
+      id,
+    );
   });
 
   it('persists message additions to storage', () => {
@@ -126,11 +175,11 @@ describe('usePersistence', () => {
     unmount();
 
     // After unmount, store changes should not trigger saves
-    saveCodeMock.mockClear();
+    saveFilesMock.mockClear();
     act(() => {
       useEditorStore.getState().setCode('after unmount');
     });
 
-    expect(saveCodeMock).not.toHaveBeenCalled();
+    expect(saveFilesMock).not.toHaveBeenCalled();
   });
 });
@@ -0,0 +1,106 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useQuestionSync } from '../../../src/hooks/useQuestionSync.js';
+import { useQuestionStore } from '../../../src/stores/questionStore.js';
+import { useSessionStore } from '../../../src/stores/sessionStore.js';
+import { getQuestion, toSharedQuestion } from '../../../src/services/question-bank.js';
+import type { DataChannelMessage } from '../../../src/services/connection-manager.js';
+
+const question = getQuestion('two-sum')!;
+
+describe('useQuestionSync', () => {
+  let sendMessage: ReturnType<typeof vi.fn<(data: DataChannelMessage) => boolean>>;
+
+  beforeEach(() => {
+    sendMessage = vi.fn(() => true);
+    useQuestionStore.getState().reset();
+    useSessionStore.getState().reset();
+    useSessionStore.getState().setLocalPeerId('me');
+  });
+
+  describe('as host', () => {
+    beforeEach(() => {
+      useSessionStore.getState().createSession('s1');
+    });
+
+    it('sends the hidden tests when it picks a question', () => {
+      renderHook(() => useQuestionSync({ sendMessage }));
+
+      act(() => {
+        useQuestionStore.getState().setQuestion(toSharedQuestion(question), question.tests);
+      });
+
+      expect(sendMessage).toHaveBeenCalledWith({ type: 'question-tests', questionId: 'two-sum', tests: question.tests });
+    });
+
+    it('answers a state-request with the hidden tests', () => {
+      useQuestionStore.getState().setQuestion(toSharedQuestion(question), question.tests);
+      const { result } = renderHook(() => useQuestionSync({ sendMessage }));
+
+      result.current.handleMessage({ type: 'state-request' });
+      expect(sendMessage).toHaveBeenCalledWith({ type: 'question-tests', questionId: 'two-sum', tests: question.tests });
+    });
+
+    it('answers an interviewer\'s request for the hidden tests', () => {
+      useQuestionStore.getState().setQuestion(toSharedQuestion(question), question.tests);
+      useSessionStore.getState().updateParticipant('p1', { role: 'interviewer' });
+      useSessionStore.getState().updateParticipant('p2', { role: 'candidate' });
+      const { result } = renderHook(() => useQuestionSync({ sendMessage }));
+      sendMessage.mockClear();
+
+      result.current.handleMessage({ type: 'question-tests-request' }, 'p2');
+      expect(sendMessage).not.toHaveBeenCalled();
+
+      result.current.handleMessage({ type: 'question-tests-request' }, 'p1');
+      expect(sendMessage).toHaveBeenCalledWith({ type: 'question-tests', questionId: 'two-sum', tests: question.tests });
+    });
+
+    it('sends nothing for a question without tests', () => {
+      const { result } = renderHook(() => useQuestionSync({ sendMessage }));
+      act(() => {
+        useQuestionStore.getState().setQuestion(toSharedQuestion(getQuestion('url-shortener')!), []);
+      });
+      result.current.handleMessage({ type: 'state-request' });
+
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('as peer', () => {
+    it('keeps tests that arrive before their question', () => {
+      useSessionStore.getState().joinSession('s1');
+      useSessionStore.getState().setRole('interviewer');
+      const { result } = renderHook(() => useQuestionSync({ sendMessage }));
+
+      result.current.handleMessage({ type: 'question-tests', questionId: 'two-sum', tests: question.tests });
+      expect(useQuestionStore.getState().getTests()).toEqual([]);
+
+      useQuestionStore.getState().setQuestion(toSharedQuestion(question));
+      expect(useQuestionStore.getState().getTests()).toEqual(question.tests);
+    });
+
+    it('asks for the tests once promoted to interviewer, and keeps them', () => {
+      useSessionStore.getState().joinSession('s1');
+      useQuestionStore.getState().setQuestion(toSharedQuestion(question));
+      const { result } = renderHook(() => useQuestionSync({ sendMessage }));
+      expect(sendMessage).not.toHaveBeenCalled();
+
+      act(() => {
+        useSessionStore.getState().assignRole('me', 'interviewer');
+      });
+      expect(sendMessage).toHaveBeenCalledWith({ type: 'question-tests-request' });
+
+      result.current.handleMessage({ type: 'question-tests', questionId: 'two-sum', tests: question.tests });
+      expect(useQuestionStore.getState().getTests()).toEqual(question.tests);
+    });
+
+    it('ignores tests when its role may not see them', () => {
+      useSessionStore.getState().joinSession('s1');
+      useQuestionStore.getState().setQuestion(toSharedQuestion(question));
+      const { result } = renderHook(() => useQuestionSync({ sendMessage }));
+
+      result.current.handleMessage({ type: 'question-tests', questionId: 'two-sum', tests: question.tests });
+      expect(useQuestionStore.getState().getTests()).toEqual([]);
+    });
+  });
+});
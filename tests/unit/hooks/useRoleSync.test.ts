@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useRoleSync } from '../../../src/hooks/useRoleSync.js';
+import { useSessionStore } from '../../../src/stores/sessionStore.js';
+import type { DataChannelMessage } from '../../../src/services/connection-manager.js';
+
+describe('useRoleSync', () => {
+  let sendMessage: ReturnType<typeof vi.fn<(data: DataChannelMessage) => boolean>>;
+
+  beforeEach(() => {
+    sendMessage = vi.fn(() => true);
+    useSessionStore.getState().reset();
+    useSessionStore.getState().setLocalPeerId('me');
+  });
+
+  describe('as host', () => {
+    beforeEach(() => {
+      useSessionStore.getState().createSession('s1');
+      useSessionStore.getState().updateParticipant('p1', { name: 'Cara' });
+    });
+
+    it('broadcasts everyone\'s role, its own included', () => {
+      renderHook(() => useRoleSync({ sendMessage }));
+      expect(sendMessage).toHaveBeenLastCalledWith({
+        type: 'roles',
+        roles: { me: 'interviewer', p1: 'candidate' },
+      });
+    });
+
+    it('broadcasts again when a role is assigned or someone joins', () => {
+      renderHook(() => useRoleSync({ sendMessage }));
+      sendMessage.mockClear();
+
+      act(() => {
+        useSessionStore.getState().assignRole('p1', 'observer');
+      });
+      expect(sendMessage).toHaveBeenLastCalledWith({
+        type: 'roles',
+        roles: { me: 'interviewer', p1: 'observer' },
+      });
+
+      act(() => {
+        useSessionStore.getState().updateParticipant('p2', { name: 'Dee' });
+      });
+      expect(sendMessage).toHaveBeenLastCalledWith({
+        type: 'roles',
+        roles: { me: 'interviewer', p1: 'observer', p2: 'candidate' },
+      });
+    });
+
+    it('does not broadcast unrelated changes', () => {
+      renderHook(() => useRoleSync({ sendMessage }));
+      sendMessage.mockClear();
+
+      act(() => {
+        useSessionStore.getState().updateParticipant('p1', { name: 'Cara B.' });
+      });
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('answers state-request with the roles', () => {
+      const { result } = renderHook(() => useRoleSync({ sendMessage }));
+      sendMessage.mockClear();
+
+      act(() => {
+        result.current.handleMessage({ type: 'state-request' });
+      });
+      expect(sendMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'roles' }));
+    });
+
+    it('ignores roles sent by anyone else', () => {
+      const { result } = renderHook(() => useRoleSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({ type: 'roles', roles: { me: 'observer', p1: 'interviewer' } });
+      });
+      expect(useSessionStore.getState().role).toBe('interviewer');
+      expect(useSessionStore.getState().getPeerRole('p1')).toBe('candidate');
+    });
+  });
+
+  describe('as peer', () => {
+    beforeEach(() => {
+      useSessionStore.getState().joinSession('s1');
+      useSessionStore.getState().updateParticipant('host', { name: 'Ivy', isHost: true });
+    });
+
+    it('does not broadcast', () => {
+      renderHook(() => useRoleSync({ sendMessage }));
+      act(() => {
+        useSessionStore.getState().setRole('observer');
+      });
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('applies the host\'s roles to itself and known participants', () => {
+      const { result } = renderHook(() => useRoleSync({ sendMessage }));
+
+      act(() => {
+        result.current.handleMessage({
+          type: 'roles',
+          roles: { host: 'interviewer', me: 'observer', stranger: 'candidate' },
+        });
+      });
+
+      const state = useSessionStore.getState();
+      expect(state.role).toBe('observer');
+      expect(state.participants.host.role).toBe('interviewer');
+      expect(state.participants.stranger).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useScorecardSync } from '../../../src/hooks/useScorecardSync.js';
+import { useScorecardStore } from '../../../src/stores/scorecardStore.js';
+import { useSessionStore } from '../../../src/stores/sessionStore.js';
+import { createDefaultScorecard } from '../../../src/services/scorecard.js';
+import type { DataChannelMessage } from '../../../src/services/connection-manager.js';
+
+describe('useScorecardSync', () => {
+  let sendMessage: ReturnType<typeof vi.fn<(data: DataChannelMessage) => boolean>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sendMessage = vi.fn(() => true);
+    useScorecardStore.getState().reset();
+    useSessionStore.getState().reset();
+    useSessionStore.getState().setLocalPeerId('me');
+    useSessionStore.getState().createSession('s1');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('asks for the current scorecard when it may view it', () => {
+    renderHook(() => useScorecardSync({ sendMessage }));
+    expect(sendMessage).toHaveBeenCalledWith({ type: 'scorecard-request' });
+  });
+
+  it('sends local edits once they pause', () => {
+    renderHook(() => useScorecardSync({ sendMessage }));
+    sendMessage.mockClear();
+
+    act(() => {
+      useScorecardStore.getState().setRating('code-quality', 2, 'Alice');
+      useScorecardStore.getState().setComment('code-quality', 'Some duplication', 'Alice');
+      vi.advanceTimersByTime(300);
+    });
+
+    expect(sendMessage).toHaveBeenCalledTimes(1);
+    expect(sendMessage).toHaveBeenCalledWith({
+      type: 'scorecard',
+      competencies: useScorecardStore.getState().competencies,
+    });
+  });
+
+  it('merges scorecards from peers without echoing them', () => {
+    const { result } = renderHook(() => useScorecardSync({ sendMessage }));
+    sendMessage.mockClear();
+    const competencies = createDefaultScorecard().map((c) => ({ ...c, rating: 3 as const, updatedAt: 5, updatedBy: 'Bob' }));
+
+    act(() => {
+      result.current.handleMessage({ type: 'scorecard', competencies });
+      vi.advanceTimersByTime(300);
+    });
+    expect(useScorecardStore.getState().competencies.every((c) => c.rating === 3)).toBe(true);
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('answers a scorecard request only once something was scored', () => {
+    const { result } = renderHook(() => useScorecardSync({ sendMessage }));
+    sendMessage.mockClear();
+
+    result.current.handleMessage({ type: 'scorecard-request' });
+    expect(sendMessage).not.toHaveBeenCalled();
+
+    useScorecardStore.getState().setRating('communication', 4, 'Alice');
+    result.current.handleMessage({ type: 'scorecard-request' });
+    expect(sendMessage).toHaveBeenCalledWith(expect.objectContaining({ type: 'scorecard' }));
+  });
+
+  it('ignores scorecards when the local role may not view them', () => {
+    useSessionStore.getState().setRole('candidate');
+    const { result } = renderHook(() => useScorecardSync({ sendMessage }));
+    const competencies = createDefaultScorecard().map((c) => ({ ...c, rating: 1 as const, updatedAt: 5, updatedBy: 'Bob' }));
+
+    result.current.handleMessage({ type: 'scorecard', competencies });
+    expect(useScorecardStore.getState().competencies.every((c) => c.rating === null)).toBe(true);
+    expect(sendMessage).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { useSessionRecorder } from '../../../src/hooks/useSessionRecorder.js';
+import { useEditorStore } from '../../../src/stores/editorStore.js';
+import { useCanvasStore } from '../../../src/stores/canvasStore.js';
+import { useMessagesStore } from '../../../src/stores/messagesStore.js';
+import { useExecutionStore } from '../../../src/stores/executionStore.js';
+import { useSessionStore } from '../../../src/stores/sessionStore.js';
+import { StorageManager } from '../../../src/services/persistence';
+import type { ReplayEvent } from '../../../src/services/session-replay';
+
+describe('useSessionRecorder', () => {
+  const appendMock = vi.spyOn(StorageManager, 'appendReplayEvents').mockResolvedValue();
+
+  /** Flush the recorder's batch and return everything written so far. */
+  const recorded = (): ReplayEvent[] => {
+    act(() => {
+      vi.advanceTimersByTime(1000);
+    });
+    return appendMock.mock.calls.flatMap(([, events]) => events as ReplayEvent[]);
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    appendMock.mockClear();
+    useEditorStore.getState().reset();
+    useCanvasStore.getState().reset();
+    useMessagesStore.getState().reset();
+    useExecutionStore.getState().reset();
+    useSessionStore.getState().reset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('records nothing without a session', () => {
+    renderHook(() => useSessionRecorder());
+    expect(recorded()).toEqual([]);
+  });
+
+  it('starts with a snapshot of the current state', () => {
+    useSessionStore.getState().createSession('s1');
+    useEditorStore.getState().setCode('hello');
+
+    renderHook(() => useSessionRecorder());
+
+    const [first] = recorded();
+    expect(first).toMatchObject({ type: 'snapshot', files: [{ id: 'main', code: 'hello' }] });
+    expect(appendMock).toHaveBeenCalledWith('s1', expect.any(Array));
+  });
+
+  it('records code edits, strokes, messages and execution results', () => {
+    useSessionStore.getState().createSession('s1');
+    renderHook(() => useSessionRecorder());
+
+    act(() => {
+      useEditorStore.getState().setCode('x');
+      useCanvasStore.getState().addStroke({ tool: 'pen', points: [{ x: 1, y: 2 }] });
+      useMessagesStore.getState().addMessage({ id: 'm1', text: 'hi', sender: 'Bob', timestamp: 1 });
+      useExecutionStore.getState().setResult({ stdout: 'ok', stderr: '', exitCode: 0, duration: 2 });
+    });
+
+    const types = recorded().map((e) => e.type);
+    expect(types).toEqual(['snapshot', 'code-operation', 'canvas', 'message', 'execution-result']);
+  });
+
+  it('records a dragged shape as the fields that moved', () => {
+    useSessionStore.getState().createSession('s1');
+    useCanvasStore.getState().addStroke({ tool: 'rectangle', start: { x: 0, y: 0 }, end: { x: 10, y: 10 } });
+    const { id } = useCanvasStore.getState().drawingStrokes[0];
+    renderHook(() => useSessionRecorder());
+
+    act(() => {
+      useCanvasStore.getState().updateStroke(id!, { start: { x: 5, y: 5 }, end: { x: 15, y: 15 } });
+      useCanvasStore.getState().updateStroke(id!, { start: { x: 9, y: 9 }, end: { x: 19, y: 19 } }, true);
+    });
+
+    expect(recorded().filter((e) => e.type === 'canvas')).toEqual([
+      expect.objectContaining({ action: 'update', id, changes: { start: { x: 5, y: 5 }, end: { x: 15, y: 15 } } }),
+      expect.objectContaining({ action: 'update', id, changes: { start: { x: 9, y: 9 }, end: { x: 19, y: 19 } } }),
+    ]);
+  });
+
+  it('records nothing for canvas changes that leave the strokes alone', () => {
+    useSessionStore.getState().createSession('s1');
+    useCanvasStore.getState().addStroke({ tool: 'pen', points: [{ x: 1, y: 2 }] });
+    renderHook(() => useSessionRecorder());
+
+    act(() => {
+      useCanvasStore.getState().setZoom(2);
+      useCanvasStore.getState().setSelection([useCanvasStore.getState().drawingStrokes[0].id!]);
+    });
+
+    expect(recorded().map((e) => e.type)).toEqual(['snapshot']);
+  });
+
+  it('records a run once it finishes, not its streamed output', () => {
+    useSessionStore.getState().createSession('s1');
+    renderHook(() => useSessionRecorder());
+
+    act(() => {
+      useExecutionStore.getState().startExecution();
+      useExecutionStore.getState().appendOutput({ stream: 'stdout', text: 'o' });
+      useExecutionStore.getState().setResult({ stdout: 'ok', stderr: '', exitCode: 0, duration: 2 });
+    });
+
+    const results = recorded().filter((e) => e.type === 'execution-result');
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ stdout: 'ok' });
+  });
+
+  it('records participants joining and leaving', () => {
+    useSessionStore.getState().createSession('s1');
+    renderHook(() => useSessionRecorder());
+
+    act(() => {
+      useSessionStore.getState().updateParticipant('p1', { name: 'Bob' });
+      useSessionStore.getState().removeParticipant('p1');
+    });
+
+    const events = recorded().slice(1);
+    expect(events).toMatchObject([
+      { type: 'join', peerId: 'p1', name: 'Bob' },
+      { type: 'leave', peerId: 'p1' },
+    ]);
+  });
+
+  it('batches writes', () => {
+    useSessionStore.getState().createSession('s1');
+    renderHook(() => useSessionRecorder());
+
+    act(() => {
+      useEditorStore.getState().setCode('a');
+      useEditorStore.getState().setCode('ab');
+    });
+    expect(appendMock).not.toHaveBeenCalled();
+
+    recorded();
+    expect(appendMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not record the store resets of leaving a session', () => {
+    useSessionStore.getState().createSession('s1');
+    renderHook(() => useSessionRecorder());
+    recorded();
+    appendMock.mockClear();
+
+    act(() => {
+      useEditorStore.getState().setCode('draft');
+    });
+    act(() => {
+      useSessionStore.getState().reset();
+      useEditorStore.getState().reset();
+    });
+
+    const events = recorded();
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({ type: 'code-operation', operation: ['draft'] });
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Line Highlighter Unit Tests
+ *
+ * Edits should only re-tokenize the lines they touch, while block comments
+ * and multi-line strings still highlight correctly across lines.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { LineHighlighter } from '../../src/services/line-highlighter';
+import { getVisibleLineRange } from '../../src/services/code-editor-logic';
+
+function numberedLines(count: number): string {
+    return Array.from({ length: count }, (_, i) => `const v${i} = ${i};`).join('\n');
+}
+
+/** Strip tags to check the rendered text of a line. */
+function textOf(html: string): string {
+    return html.replace(/<[^>]+>/g, '').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+describe('LineHighlighter', () => {
+    it('returns one highlighted line per source line', () => {
+        const highlighter = new LineHighlighter();
+        const lines = highlighter.update('const a = 1;\nlet b = "x";', 'javascript');
+
+        expect(lines).toHaveLength(2);
+        expect(lines[0]).toContain('token keyword');
+        expect(textOf(lines[1])).toBe('let b = "x";');
+    });
+
+    it('escapes HTML for languages without a grammar', () => {
+        const highlighter = new LineHighlighter();
+        const lines = highlighter.update('a < b && c', 'plaintext');
+        expect(lines[0]).toBe('a &lt; b &amp;&amp; c');
+    });
+
+    it('re-tokenizes only the edited line', () => {
+        const highlighter = new LineHighlighter();
+        const code = numberedLines(5000);
+        highlighter.update(code, 'javascript');
+        expect(highlighter.lastTokenized).toBe(5000);
+
+        const edited = code.replace('const v2500 = 2500;', 'const v2500 = 42;');
+        const lines = highlighter.update(edited, 'javascript');
+
+        expect(highlighter.lastTokenized).toBe(1);
+        expect(textOf(lines[2500])).toBe('const v2500 = 42;');
+    });
+
+    it('re-tokenizes only inserted lines', () => {
+        const highlighter = new LineHighlighter();
+        const code = numberedLines(100);
+        highlighter.update(code, 'javascript');
+
+        const lines = code.split('\n');
+        lines.splice(50, 0, 'let inserted = 1;', 'let another = 2;');
+        const result = highlighter.update(lines.join('\n'), 'javascript');
+
+        expect(highlighter.lastTokenized).toBe(2);
+        expect(result).toHaveLength(102);
+        expect(textOf(result[51])).toBe('let another = 2;');
+        expect(textOf(result[52])).toBe('const v50 = 50;');
+    });
+
+    it('re-tokenizes everything when the language changes', () => {
+        const highlighter = new LineHighlighter();
+        highlighter.update(numberedLines(10), 'javascript');
+        highlighter.update(numberedLines(10), 'typescript');
+        expect(highlighter.lastTokenized).toBe(10);
+    });
+
+    it('highlights a block comment across lines', () => {
+        const highlighter = new LineHighlighter();
+        const lines = highlighter.update('a();\n/* start\nmiddle\nend */ b();', 'javascript');
+
+        expect(lines[1]).toContain('token comment');
+        expect(lines[2]).toBe('<span class="token comment">middle</span>');
+        expect(lines[3]).toContain('<span class="token comment">end */</span>');
+        expect(lines[3]).toContain('token function');
+    });
+
+    it('re-tokenizes following lines until the block state settles', () => {
+        const highlighter = new LineHighlighter();
+        const code = ['x();', 'y();', 'z();', 'w();', 'v();'].join('\n');
+        highlighter.update(code, 'javascript');
+
+        // Opening a comment on line 1 changes how lines 2+ start
+        const opened = highlighter.update(code.replace('y();', 'y(); /*'), 'javascript');
+        expect(highlighter.lastTokenized).toBe(4);
+        expect(opened[3]).toBe('<span class="token comment">w();</span>');
+
+        // Closing it again on line 3 lets line 4 be reused once its state matches
+        const closed = highlighter.update(code.replace('y();', 'y(); /*').replace('z();', 'z(); */'), 'javascript');
+        expect(highlighter.lastTokenized).toBe(3);
+        expect(closed[4]).not.toContain('token comment');
+    });
+
+    it('ignores block openers inside strings and line comments', () => {
+        const highlighter = new LineHighlighter();
+        const lines = highlighter.update('const s = "/*";\n// also /* not\nnext();', 'javascript');
+        expect(lines[2]).not.toContain('token comment');
+    });
+
+    it('tracks Python triple-quoted strings', () => {
+        const highlighter = new LineHighlighter();
+        const lines = highlighter.update('doc = """\ndef not_code():\n"""\nprint(1)', 'python');
+
+        expect(lines[1]).toBe('<span class="token string">def not_code():</span>');
+        expect(lines[3]).toContain('token number');
+    });
+});
+
+describe('getVisibleLineRange', () => {
+    it('covers the viewport plus overscan', () => {
+        expect(getVisibleLineRange(2100, 420, 21, 12, 5000, 5)).toEqual({ start: 94, end: 125 });
+    });
+
+    it('clamps to the document', () => {
+        expect(getVisibleLineRange(0, 600, 21, 12, 10, 20)).toEqual({ start: 0, end: 10 });
+    });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { parseInline, parseMarkdown } from '../../src/services/markdown';
+
+describe('markdown', () => {
+  it('parses inline code, bold and italics', () => {
+    expect(parseInline('Print `n` **twice**, *quickly*')).toEqual([
+      { type: 'text', text: 'Print ' },
+      { type: 'code', text: 'n' },
+      { type: 'text', text: ' ' },
+      { type: 'strong', text: 'twice' },
+      { type: 'text', text: ', ' },
+      { type: 'em', text: 'quickly' },
+    ]);
+  });
+
+  it('parses headings and joins paragraph lines', () => {
+    expect(parseMarkdown('# Title\n\nFirst line\nsecond line\n\nNext')).toEqual([
+      { type: 'heading', level: 1, content: [{ type: 'text', text: 'Title' }] },
+      { type: 'paragraph', content: [{ type: 'text', text: 'First line second line' }] },
+      { type: 'paragraph', content: [{ type: 'text', text: 'Next' }] },
+    ]);
+  });
+
+  it('groups list items', () => {
+    const blocks = parseMarkdown('- one\n- two\n\n1. first\n2. second');
+    expect(blocks).toHaveLength(2);
+    expect(blocks[0]).toMatchObject({ type: 'list', ordered: false, items: [[{ text: 'one' }], [{ text: 'two' }]] });
+    expect(blocks[1]).toMatchObject({ type: 'list', ordered: true });
+  });
+
+  it('keeps fenced code verbatim', () => {
+    expect(parseMarkdown('```js\nconst a = **b**;\n\n# not a heading\n```\nafter')).toEqual([
+      { type: 'code', language: 'js', text: 'const a = **b**;\n\n# not a heading' },
+      { type: 'paragraph', content: [{ type: 'text', text: 'after' }] },
+    ]);
+  });
+
+  it('runs an unclosed fence to the end', () => {
+    expect(parseMarkdown('```\nlast')).toEqual([{ type: 'code', language: '', text: 'last' }]);
+  });
+});
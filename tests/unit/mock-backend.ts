@@ -0,0 +1,92 @@
+/**
+ * mock-backend.ts — An in-memory RuntimeBackend for tests.
+ *
+ * Its workers speak the same protocol as the real ones (see
+ * runtime-backends.ts) without loading anything: they report ready on init
+ * and answer each run with whatever `run` returns, streamed as one output
+ * chunk per stream before the result.
+ */
+
+import type { ExecutionResult } from '../../src/stores/executionStore';
+import type { RuntimeBackend, RuntimeCapabilities, RuntimeWorker } from '../../src/services/runtime-backends';
+
+export interface MockRunRequest {
+  code: string;
+  language: string;
+  timeout: number;
+  stdin: string;
+  memoryLimit: number | null;
+}
+
+export interface MockBackendOptions {
+  languages: string[];
+  name?: string;
+  capabilities?: Partial<RuntimeCapabilities>;
+  /** Defaults to echoing stdin. Throwing fails the run with the message. */
+  run?: (request: MockRunRequest) => ExecutionResult | Promise<ExecutionResult>;
+}
+
+export interface MockBackend extends RuntimeBackend {
+  /** Every run request received, oldest first. */
+  requests: MockRunRequest[];
+}
+
+const DEFAULT_CAPABILITIES: RuntimeCapabilities = { stdin: true, tests: true, timeLimit: 10_000, memoryLimit: null };
+
+function echo({ stdin }: MockRunRequest): ExecutionResult {
+  return { stdout: stdin, stderr: '', exitCode: 0, duration: 0 };
+}
+
+class MockWorker implements RuntimeWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  private terminated = false;
+
+  constructor(private backend: MockBackend, private run: NonNullable<MockBackendOptions['run']>) {}
+
+  postMessage(message: unknown): void {
+    const data = message as { type: string } & MockRunRequest;
+    // Reply asynchronously, like a real worker
+    queueMicrotask(() => {
+      if (data.type === 'init') this.reply({ type: 'ready' });
+      if (data.type === 'run') void this.handleRun(data);
+    });
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  private async handleRun({ code, language, timeout, stdin, memoryLimit }: MockRunRequest) {
+    const request = { code, language, timeout, stdin, memoryLimit };
+    this.backend.requests.push(request);
+    try {
+      const result = await this.run(request);
+      if (result.stdout) this.reply({ type: 'output', stream: 'stdout', text: result.stdout });
+      if (result.stderr) this.reply({ type: 'output', stream: 'stderr', text: result.stderr });
+      this.reply({ type: 'result', ...result });
+    } catch (error: unknown) {
+      this.reply({ type: 'error', error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  private reply(data: unknown) {
+    if (!this.terminated) this.onmessage?.({ data } as MessageEvent);
+  }
+}
+
+export function createMockBackend({
+  languages,
+  name = 'Mock runner',
+  capabilities,
+  run = echo,
+}: MockBackendOptions): MockBackend {
+  const backend: MockBackend = {
+    name,
+    languages,
+    capabilities: { ...DEFAULT_CAPABILITIES, ...capabilities },
+    createWorker: () => new MockWorker(backend, run),
+    requests: [],
+  };
+  return backend;
+}
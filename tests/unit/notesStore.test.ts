@@ -0,0 +1,43 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useNotesStore } from '../../src/stores/notesStore';
+
+describe('notesStore', () => {
+  beforeEach(() => {
+    useNotesStore.getState().reset();
+  });
+
+  it('should start empty', () => {
+    const state = useNotesStore.getState();
+    expect(state.text).toBe('');
+    expect(state.updatedAt).toBe(0);
+    expect(state.updatedBy).toBe('');
+  });
+
+  it('should stamp local edits with the author', () => {
+    useNotesStore.getState().setText('Solid', 'Alice');
+    const state = useNotesStore.getState();
+    expect(state.text).toBe('Solid');
+    expect(state.updatedBy).toBe('Alice');
+    expect(state.updatedAt).toBeGreaterThan(0);
+  });
+
+  it('should stamp an edit after newer merged notes later still', () => {
+    const future = Date.now() + 60_000;
+    useNotesStore.getState().mergeNotes({ text: 'remote', updatedAt: future, updatedBy: 'Bob' });
+    useNotesStore.getState().setText('local', 'Alice');
+    expect(useNotesStore.getState().updatedAt).toBe(future + 1);
+  });
+
+  it('should merge newer notes and ignore older ones', () => {
+    expect(useNotesStore.getState().mergeNotes({ text: 'v2', updatedAt: 20, updatedBy: 'Bob' })).toBe(true);
+    expect(useNotesStore.getState().mergeNotes({ text: 'v1', updatedAt: 10, updatedBy: 'Alice' })).toBe(false);
+    expect(useNotesStore.getState().text).toBe('v2');
+  });
+
+  it('should break timestamp ties by author', () => {
+    useNotesStore.getState().mergeNotes({ text: 'from Bob', updatedAt: 10, updatedBy: 'Bob' });
+    expect(useNotesStore.getState().mergeNotes({ text: 'from Alice', updatedAt: 10, updatedBy: 'Alice' })).toBe(false);
+    expect(useNotesStore.getState().mergeNotes({ text: 'from Cara', updatedAt: 10, updatedBy: 'Cara' })).toBe(true);
+    expect(useNotesStore.getState().text).toBe('from Cara');
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * Operational Transformation Property Tests
+ *
+ * Randomised checks of the algebraic laws TextOperation must obey:
+ * length bookkeeping, compose, invert, equals and transform convergence.
+ * A seeded PRNG keeps every run reproducible.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TextOperation } from '../../src/services/ot-engine';
+
+const RUNS = 300;
+
+function mulberry32(seed: number) {
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+type Random = () => number;
+
+function randomInt(random: Random, max: number): number {
+  return Math.floor(random() * max);
+}
+
+function randomString(random: Random, maxLength: number): string {
+  const alphabet = 'abcXYZ \n{}();你🌍';
+  const chars = Array.from(alphabet);
+  let out = '';
+  const length = randomInt(random, maxLength + 1);
+  for (let i = 0; i < length; i++) {
+    out += chars[randomInt(random, chars.length)];
+  }
+  return out;
+}
+
+/** Random operation spanning the whole of `doc`. */
+function randomOperation(random: Random, doc: string): TextOperation {
+  const op = new TextOperation();
+  let remaining = doc.length;
+
+  while (remaining > 0) {
+    const span = 1 + randomInt(random, Math.min(remaining, 8));
+    const roll = random();
+    if (roll < 0.2) {
+      op.insert(randomString(random, 4));
+    } else if (roll < 0.5) {
+      op.delete(span);
+      remaining -= span;
+    } else {
+      op.retain(span);
+      remaining -= span;
+    }
+  }
+
+  if (random() < 0.3) op.insert(randomString(random, 4));
+  return op;
+}
+
+function forAll(property: (random: Random, doc: string) => void) {
+  for (let seed = 1; seed <= RUNS; seed++) {
+    const random = mulberry32(seed);
+    property(random, randomString(random, 40));
+  }
+}
+
+describe('TextOperation properties - lengths', () => {
+  it('baseLength matches the document a full operation spans', () => {
+    forAll((random, doc) => {
+      expect(randomOperation(random, doc).baseLength).toBe(doc.length);
+    });
+  });
+
+  it('targetLength matches the length of the result', () => {
+    forAll((random, doc) => {
+      const op = randomOperation(random, doc);
+      expect(op.apply(doc).length).toBe(op.targetLength);
+    });
+  });
+
+  it('apply rejects text shorter than baseLength', () => {
+    forAll((random, doc) => {
+      const op = randomOperation(random, doc);
+      if (op.baseLength === 0) return;
+      expect(() => op.apply(doc.slice(0, op.baseLength - 1))).toThrow(/base length/);
+    });
+  });
+
+  it('apply retains text past baseLength implicitly', () => {
+    forAll((random, doc) => {
+      const op = randomOperation(random, doc);
+      const suffix = randomString(random, 5);
+      expect(op.apply(doc + suffix)).toBe(op.apply(doc) + suffix);
+    });
+  });
+});
+
+describe('TextOperation properties - compose', () => {
+  it('compose(a, b) has the same effect as a then b', () => {
+    forAll((random, doc) => {
+      const a = randomOperation(random, doc);
+      const afterA = a.apply(doc);
+      const b = randomOperation(random, afterA);
+      expect(a.compose(b).apply(doc)).toBe(b.apply(afterA));
+    });
+  });
+
+  it('compose is associative', () => {
+    forAll((random, doc) => {
+      const a = randomOperation(random, doc);
+      const afterA = a.apply(doc);
+      const b = randomOperation(random, afterA);
+      const afterB = b.apply(afterA);
+      const c = randomOperation(random, afterB);
+
+      const left = a.compose(b).compose(c);
+      const right = a.compose(b.compose(c));
+      expect(left.apply(doc)).toBe(right.apply(doc));
+      expect(left.equals(right)).toBe(true);
+    });
+  });
+
+  it('composed lengths chain through', () => {
+    forAll((random, doc) => {
+      const a = randomOperation(random, doc);
+      const b = randomOperation(random, a.apply(doc));
+      const ab = a.compose(b);
+      expect(ab.baseLength).toBe(a.baseLength);
+      expect(ab.targetLength).toBe(b.targetLength);
+    });
+  });
+
+  it('composes partial operations with implicit trailing retains', () => {
+    forAll((random, doc) => {
+      const a = new TextOperation().retain(randomInt(random, doc.length + 1)).insert('!');
+      const afterA = a.apply(doc);
+      const b = new TextOperation().delete(randomInt(random, afterA.length + 1));
+      expect(a.compose(b).apply(doc)).toBe(b.apply(afterA));
+    });
+  });
+});
+
+describe('TextOperation properties - invert', () => {
+  it('invert undoes the operation', () => {
+    forAll((random, doc) => {
+      const op = randomOperation(random, doc);
+      expect(op.invert(doc).apply(op.apply(doc))).toBe(doc);
+    });
+  });
+
+  it('inverse swaps base and target lengths', () => {
+    forAll((random, doc) => {
+      const op = randomOperation(random, doc);
+      const inverse = op.invert(doc);
+      expect(inverse.baseLength).toBe(op.targetLength);
+      expect(inverse.targetLength).toBe(op.baseLength);
+    });
+  });
+
+  it('an operation composed with its inverse leaves the text unchanged', () => {
+    forAll((random, doc) => {
+      const op = randomOperation(random, doc);
+      expect(op.compose(op.invert(doc)).apply(doc)).toBe(doc);
+    });
+  });
+
+  it('an insert composed with its inverse cancels out', () => {
+    forAll((random, doc) => {
+      const op = new TextOperation().retain(randomInt(random, doc.length + 1)).insert('abc');
+      expect(op.compose(op.invert(doc)).isNoop()).toBe(true);
+    });
+  });
+
+  it('inverting twice gives back an equal operation', () => {
+    forAll((random, doc) => {
+      const op = randomOperation(random, doc);
+      expect(op.invert(doc).invert(op.apply(doc)).equals(op)).toBe(true);
+    });
+  });
+});
+
+describe('TextOperation properties - equals', () => {
+  it('is reflexive and survives a copy', () => {
+    forAll((random, doc) => {
+      const op = randomOperation(random, doc);
+      const copy = new TextOperation();
+      copy.ops = op.ops.slice();
+      expect(op.equals(op)).toBe(true);
+      expect(op.equals(copy)).toBe(true);
+    });
+  });
+
+  it('ignores a trailing retain', () => {
+    const a = new TextOperation().retain(2).insert('x');
+    const b = new TextOperation().retain(2).insert('x').retain(5);
+    expect(a.equals(b)).toBe(true);
+    expect(b.equals(a)).toBe(true);
+  });
+
+  it('distinguishes different operations', () => {
+    const a = new TextOperation().retain(2).insert('x');
+    const b = new TextOperation().retain(2).insert('y');
+    const c = new TextOperation().retain(3).insert('x');
+    expect(a.equals(b)).toBe(false);
+    expect(a.equals(c)).toBe(false);
+  });
+});
+
+describe('TextOperation properties - transform', () => {
+  it('satisfies TP1 for random concurrent operations', () => {
+    forAll((random, doc) => {
+      const a = randomOperation(random, doc);
+      const b = randomOperation(random, doc);
+      const [aPrime, bPrime] = TextOperation.transform(a, b);
+      expect(bPrime.apply(a.apply(doc))).toBe(aPrime.apply(b.apply(doc)));
+    });
+  });
+
+  it('transformed operations compose to the same result', () => {
+    forAll((random, doc) => {
+      const a = randomOperation(random, doc);
+      const b = randomOperation(random, doc);
+      const [aPrime, bPrime] = TextOperation.transform(a, b);
+      expect(a.compose(bPrime).apply(doc)).toBe(b.compose(aPrime).apply(doc));
+    });
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * OT Protocol Unit Tests
+ *
+ * Tests for the revision-numbered client/server protocol layered on
+ * TextOperation.transform: client state transitions, server ordering, and
+ * convergence of several peers editing concurrently through one host.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TextOperation, calculateTextOperation } from '../../src/services/ot-engine';
+import { OTClient, OTServer, computeChecksum } from '../../src/services/ot-protocol';
+
+function insertAt(doc: string, pos: number, text: string): TextOperation {
+  return calculateTextOperation(doc, doc.slice(0, pos) + text + doc.slice(pos));
+}
+
+function deleteAt(doc: string, pos: number, count: number): TextOperation {
+  return calculateTextOperation(doc, doc.slice(0, pos) + doc.slice(pos + count));
+}
+
+describe('OTClient', () => {
+  it('starts synchronized at the given revision', () => {
+    const client = new OTClient(4);
+    expect(client.state).toBe('synchronized');
+    expect(client.revision).toBe(4);
+  });
+
+  it('sends the first local operation and buffers the rest', () => {
+    const client = new OTClient();
+    const first = insertAt('', 0, 'a');
+    const second = insertAt('a', 1, 'b');
+
+    expect(client.applyClient(first)).toBe(first);
+    expect(client.state).toBe('awaiting-confirm');
+
+    expect(client.applyClient(second)).toBeNull();
+    expect(client.state).toBe('awaiting-with-buffer');
+  });
+
+  it('composes buffered operations into one', () => {
+    const client = new OTClient();
+    client.applyClient(insertAt('', 0, 'a'));
+    client.applyClient(insertAt('a', 1, 'b'));
+    client.applyClient(insertAt('ab', 2, 'c'));
+
+    expect(client.buffer!.apply('a')).toBe('abc');
+  });
+
+  it('sends the buffer when the outstanding operation is acknowledged', () => {
+    const client = new OTClient();
+    const first = insertAt('', 0, 'a');
+    const second = insertAt('a', 1, 'b');
+    client.applyClient(first);
+    client.applyClient(second);
+
+    expect(client.serverAck()!.equals(second)).toBe(true);
+    expect(client.revision).toBe(1);
+    expect(client.state).toBe('awaiting-confirm');
+
+    expect(client.serverAck()).toBeNull();
+    expect(client.revision).toBe(2);
+    expect(client.state).toBe('synchronized');
+  });
+
+  it('transforms server operations against outstanding and buffered ones', () => {
+    const client = new OTClient();
+    let doc = 'abc';
+    const local1 = insertAt(doc, 0, 'X');
+    doc = local1.apply(doc);
+    const local2 = insertAt(doc, 4, 'Y');
+    doc = local2.apply(doc);
+    client.applyClient(local1);
+    client.applyClient(local2);
+
+    // Server inserted at the middle of the original 'abc'
+    const remote = client.applyServer(insertAt('abc', 1, '-'));
+    doc = remote.apply(doc);
+
+    expect(doc).toBe('Xa-bcY');
+    expect(client.revision).toBe(1);
+    // The buffered op must now apply on top of the remote change
+    expect(client.buffer!.apply('Xa-bc')).toBe('Xa-bcY');
+  });
+
+  it('reset drops pending operations', () => {
+    const client = new OTClient();
+    client.applyClient(insertAt('', 0, 'a'));
+    client.reset(9);
+    expect(client.state).toBe('synchronized');
+    expect(client.revision).toBe(9);
+  });
+});
+
+describe('OTServer', () => {
+  it('appends operations at the current revision unchanged', () => {
+    const server = new OTServer();
+    const op = insertAt('', 0, 'hi');
+    expect(server.receiveOperation(0, op).ops).toEqual(op.ops);
+    expect(server.revision).toBe(1);
+  });
+
+  it('transforms stale operations against newer history', () => {
+    const server = new OTServer();
+    let doc = 'hello';
+    doc = server.receiveOperation(0, insertAt(doc, 0, '>')).apply(doc);
+    doc = server.receiveOperation(0, insertAt('hello', 5, '!')).apply(doc);
+    expect(doc).toBe('>hello!');
+    expect(server.revision).toBe(2);
+  });
+
+  it('continues numbering from a base revision', () => {
+    const server = new OTServer(10);
+    server.receiveOperation(10, insertAt('', 0, 'a'));
+    expect(server.revision).toBe(11);
+  });
+
+  it('rejects operations outside the known history', () => {
+    const server = new OTServer(5);
+    expect(() => server.receiveOperation(4, insertAt('', 0, 'a'))).toThrow();
+    expect(() => server.receiveOperation(6, insertAt('', 0, 'a'))).toThrow();
+  });
+});
+
+describe('Convergence through a host', () => {
+  interface Peer {
+    id: string;
+    doc: string;
+    client: OTClient;
+    inbox: Array<{ clientId: string; op: TextOperation }>;
+  }
+
+  // Deterministic PRNG so failures are reproducible
+  function mulberry32(seed: number) {
+    return () => {
+      seed |= 0;
+      seed = (seed + 0x6d2b79f5) | 0;
+      let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  function simulate(seed: number, peerCount: number, steps: number) {
+    const random = mulberry32(seed);
+    const server = new OTServer();
+    let serverDoc = 'shared';
+    const toServer: Array<{ peer: Peer; revision: number; op: TextOperation }> = [];
+    const peers: Peer[] = Array.from({ length: peerCount }, (_, i) => ({
+      id: `p${i}`,
+      doc: serverDoc,
+      client: new OTClient(),
+      inbox: [],
+    }));
+
+    const deliverToServer = () => {
+      const { peer, revision, op } = toServer.shift()!;
+      const ordered = server.receiveOperation(revision, op);
+      serverDoc = ordered.apply(serverDoc);
+      peers.forEach((p) => p.inbox.push({ clientId: peer.id, op: ordered }));
+    };
+
+    const deliverToPeer = (peer: Peer) => {
+      const { clientId, op } = peer.inbox.shift()!;
+      if (clientId === peer.id) {
+        const next = peer.client.serverAck();
+        if (next) toServer.push({ peer, revision: peer.client.revision, op: next });
+      } else {
+        peer.doc = peer.client.applyServer(op).apply(peer.doc);
+      }
+    };
+
+    for (let step = 0; step < steps; step++) {
+      const roll = random();
+      const peer = peers[Math.floor(random() * peers.length)];
+      if (roll < 0.4) {
+        const pos = Math.floor(random() * (peer.doc.length + 1));
+        const op = random() < 0.6 || peer.doc.length === 0
+          ? insertAt(peer.doc, pos, String.fromCharCode(97 + Math.floor(random() * 26)))
+          : deleteAt(peer.doc, Math.min(pos, peer.doc.length - 1), 1);
+        peer.doc = op.apply(peer.doc);
+        const toSend = peer.client.applyClient(op);
+        if (toSend) toServer.push({ peer, revision: peer.client.revision, op: toSend });
+      } else if (roll < 0.7 && toServer.length > 0) {
+        deliverToServer();
+      } else if (peer.inbox.length > 0) {
+        deliverToPeer(peer);
+      }
+    }
+
+    // Drain the network
+    while (toServer.length > 0 || peers.some((p) => p.inbox.length > 0)) {
+      if (toServer.length > 0) deliverToServer();
+      peers.forEach((p) => {
+        while (p.inbox.length > 0) deliverToPeer(p);
+      });
+    }
+
+    return { serverDoc, peers };
+  }
+
+  it('converges three peers typing concurrently', () => {
+    for (let seed = 1; seed <= 50; seed++) {
+      const { serverDoc, peers } = simulate(seed, 3, 200);
+      peers.forEach((p) => {
+        expect(p.doc).toBe(serverDoc);
+        expect(p.client.state).toBe('synchronized');
+        expect(p.client.revision).toBe(peers[0].client.revision);
+      });
+    }
+  });
+
+  it('converges five peers typing concurrently', () => {
+    for (let seed = 100; seed < 120; seed++) {
+      const { serverDoc, peers } = simulate(seed, 5, 300);
+      peers.forEach((p) => expect(p.doc).toBe(serverDoc));
+    }
+  });
+});
+
+describe('computeChecksum', () => {
+  it('is stable for the same text', () => {
+    expect(computeChecksum('hello world')).toBe(computeChecksum('hello world'));
+  });
+
+  it('differs for different text of the same length', () => {
+    expect(computeChecksum('abc')).not.toBe(computeChecksum('abd'));
+  });
+
+  it('handles the empty document', () => {
+    expect(computeChecksum('')).toMatch(/^0-[0-9a-f]+$/);
+  });
+});
@@ -665,3 +665,26 @@ describe('Real-world collaborative editing scenarios', () => {
     expect(op.apply(originalText)).toBe(newText);
   });
 });
+
+describe('TextOperation - transformIndex()', () => {
+  it('shifts an index after an insert', () => {
+    const op = new TextOperation().retain(2).insert('abc').retain(5);
+    expect(op.transformIndex(4)).toBe(7);
+  });
+
+  it('pushes an index forward when inserting exactly at it', () => {
+    const op = new TextOperation().retain(2).insert('abc').retain(5);
+    expect(op.transformIndex(2)).toBe(5);
+  });
+
+  it('leaves an index before the edit alone', () => {
+    const op = new TextOperation().retain(5).insert('abc').retain(2);
+    expect(op.transformIndex(3)).toBe(3);
+  });
+
+  it('moves an index inside deleted text to the start of the deletion', () => {
+    const op = new TextOperation().retain(2).delete(4).retain(3);
+    expect(op.transformIndex(4)).toBe(2);
+    expect(op.transformIndex(7)).toBe(3);
+  });
+});
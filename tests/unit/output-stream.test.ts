@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createOutputStream } from '../../src/services/output-stream';
+import type { OutputChunk } from '../../src/services/output-stream';
+
+describe('output-stream', () => {
+  let post: ReturnType<typeof vi.fn<(message: { type: 'output' } & OutputChunk) => void>>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    post = vi.fn();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function posted(stream: 'stdout' | 'stderr'): string {
+    return post.mock.calls
+      .map(([message]) => message)
+      .filter((message) => message.stream === stream)
+      .map((message) => message.text)
+      .join('');
+  }
+
+  it('joins lines with newlines, like the final result', () => {
+    const live = createOutputStream(post);
+    live.writeLine('stdout', '');
+    live.writeLine('stdout', 'a');
+    live.writeLine('stderr', 'oops');
+    live.writeLine('stdout', 'b');
+    live.flush();
+
+    expect(posted('stdout')).toBe(['', 'a', 'b'].join('\n'));
+    expect(posted('stderr')).toBe('oops');
+  });
+
+  it('batches writes until the flush interval passes', () => {
+    const live = createOutputStream(post);
+    live.write('stdout', 'a');
+    live.write('stdout', 'b');
+    expect(post).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(50);
+    expect(post).toHaveBeenCalledTimes(1);
+    expect(post).toHaveBeenCalledWith({ type: 'output', stream: 'stdout', text: 'ab' });
+  });
+
+  it('flushes large batches and stream switches right away', () => {
+    const live = createOutputStream(post);
+    live.write('stdout', 'x'.repeat(5000));
+    expect(post).toHaveBeenCalledTimes(1);
+
+    live.write('stdout', 'a');
+    live.write('stderr', 'b');
+    expect(post).toHaveBeenLastCalledWith({ type: 'output', stream: 'stdout', text: 'a' });
+  });
+});
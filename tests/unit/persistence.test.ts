@@ -225,6 +225,81 @@ describe('Code Storage', () => {
   });
 });
 
+describe('Files Storage', () => {
+  let storage: StorageManagerInstance;
+  const files = [
+    { id: 'main', name: 'main.js', language: 'javascript', code: 'console.log(1);' },
+    { id: 'f2', name: 'solution.py', language: 'python', code: 'print(2)' },
+  ];
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = createStorageManager();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should save and load files with the active file', () => {
+    storage.saveFiles('test123', files, 'f2');
+    vi.advanceTimersByTime(500);
+
+    expect(storage.loadFiles('test123')).toEqual({ files, activeFileId: 'f2' });
+  });
+
+  it('should return null when no files were saved', () => {
+    expect(storage.loadFiles('nonexistent')).toBeNull();
+  });
+
+  it('should be cleared with the session', () => {
+    storage.saveFiles('test123', files, 'main');
+    vi.advanceTimersByTime(500);
+
+    storage.clearSession('test123');
+    expect(storage.loadFiles('test123')).toBeNull();
+  });
+});
+
+describe('Replay Log Storage', () => {
+  let storage: StorageManagerInstance;
+
+  beforeEach(() => {
+    storage = createStorageManager();
+    localStorage.clear();
+  });
+
+  it('should append events in order and load them back', async () => {
+    await storage.appendReplayEvents('test123', [{ type: 'snapshot', t: 1 }]);
+    await storage.appendReplayEvents('test123', [{ type: 'message', t: 2 }, { type: 'leave', t: 3 }]);
+
+    expect(await storage.loadReplayEvents('test123')).toEqual([
+      { type: 'snapshot', t: 1 },
+      { type: 'message', t: 2 },
+      { type: 'leave', t: 3 },
+    ]);
+  });
+
+  it('should keep logs of different sessions apart', async () => {
+    await storage.appendReplayEvents('a', [{ t: 1 }]);
+    await storage.appendReplayEvents('b', [{ t: 2 }]);
+
+    expect(await storage.loadReplayEvents('a')).toEqual([{ t: 1 }]);
+  });
+
+  it('should return an empty log when nothing was recorded', async () => {
+    expect(await storage.loadReplayEvents('nonexistent')).toEqual([]);
+  });
+
+  it('should be cleared with the session', async () => {
+    await storage.appendReplayEvents('test123', [{ t: 1 }]);
+    storage.clearSession('test123');
+
+    expect(await storage.loadReplayEvents('test123')).toEqual([]);
+  });
+});
+
 describe('Messages Storage', () => {
   let storage: StorageManagerInstance;
 
@@ -289,6 +364,144 @@ describe('Messages Storage', () => {
   });
 });
 
+describe('Notes Storage', () => {
+  let storage: StorageManagerInstance;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = createStorageManager();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should save notes after debounce and load them back', () => {
+    const notes = { text: 'Good communicator', updatedAt: 42, updatedBy: 'Alice' };
+
+    storage.saveNotes('test123', notes);
+    expect(storage.loadNotes('test123')).toBeNull();
+
+    vi.advanceTimersByTime(300);
+    expect(storage.loadNotes('test123')).toEqual(notes);
+  });
+
+  it('should return null for missing notes', () => {
+    expect(storage.loadNotes('nonexistent')).toBeNull();
+  });
+
+  it('should be cleared with the session', () => {
+    storage.clearSession('test123');
+    expect(localStorage.removeItem).toHaveBeenCalledWith('duocode_notes_test123');
+  });
+});
+
+describe('Scorecard Storage', () => {
+  let storage: StorageManagerInstance;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = createStorageManager();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should save the scorecard after debounce and load it back', () => {
+    const competencies = [
+      { id: 'communication', name: 'Communication', rating: 3 as const, comment: 'Clear', createdAt: 0, updatedAt: 42, updatedBy: 'Alice' },
+    ];
+
+    storage.saveScorecard('test123', competencies);
+    vi.advanceTimersByTime(300);
+    expect(storage.loadScorecard('test123')).toEqual(competencies);
+  });
+
+  it('should return null for a missing scorecard', () => {
+    expect(storage.loadScorecard('nonexistent')).toBeNull();
+  });
+
+  it('should be cleared with the session', () => {
+    storage.clearSession('test123');
+    expect(localStorage.removeItem).toHaveBeenCalledWith('duocode_scorecard_test123');
+  });
+});
+
+describe('Question Storage', () => {
+  let storage: StorageManagerInstance;
+
+  beforeEach(() => {
+    storage = createStorageManager();
+    localStorage.clear();
+  });
+
+  it('should save the question with its tests and load it back', () => {
+    const saved = {
+      question: { id: 'q1', title: 'Q', difficulty: 'easy' as const, statement: 'Do it', starterCode: {} },
+      tests: [{ id: 't1', input: '1', expectedOutput: '2' }],
+    };
+
+    storage.saveQuestion('test123', saved);
+    expect(storage.loadQuestion('test123')).toEqual(saved);
+  });
+
+  it('should return null without a question', () => {
+    expect(storage.loadQuestion('nonexistent')).toBeNull();
+  });
+
+  it('should be cleared with the session', () => {
+    storage.clearSession('test123');
+    expect(localStorage.removeItem).toHaveBeenCalledWith('duocode_question_test123');
+  });
+});
+
+describe('Execution History Storage', () => {
+  let storage: StorageManagerInstance;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    storage = createStorageManager();
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should save the runs and their code after debounce and load them back', () => {
+    const history = {
+      runs: [{
+        id: 'r1',
+        timestamp: 1000,
+        runBy: 'Alice',
+        language: 'python',
+        codeHash: 'h1',
+        stdout: 'hi\n',
+        stderr: '',
+        exitCode: 0,
+        duration: 12,
+      }],
+      snapshots: { h1: 'print("hi")' },
+    };
+
+    storage.saveExecutionHistory('test123', history);
+    vi.advanceTimersByTime(500);
+    expect(storage.loadExecutionHistory('test123')).toEqual(history);
+  });
+
+  it('should return null without a history', () => {
+    expect(storage.loadExecutionHistory('nonexistent')).toBeNull();
+  });
+
+  it('should be cleared with the session', () => {
+    storage.clearSession('test123');
+    expect(localStorage.removeItem).toHaveBeenCalledWith('duocode_history_test123');
+  });
+});
+
 describe('OT State Storage', () => {
   let storage: StorageManagerInstance;
 
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import {
+  QUESTION_BANK,
+  getQuestion,
+  getStarterCode,
+  getStarterLanguages,
+  toSharedQuestion,
+} from '../../src/services/question-bank';
+import { codeTemplates } from '../../src/services/code-editor-logic';
+
+describe('question bank', () => {
+  it('has unique question and test ids', () => {
+    const ids = QUESTION_BANK.map((q) => q.id);
+    expect(new Set(ids).size).toBe(ids.length);
+    for (const question of QUESTION_BANK) {
+      const testIds = question.tests.map((t) => t.id);
+      expect(new Set(testIds).size).toBe(testIds.length);
+    }
+  });
+
+  it('only offers starter code in languages the editor knows', () => {
+    for (const question of QUESTION_BANK) {
+      for (const language of getStarterLanguages(question)) {
+        expect(codeTemplates).toHaveProperty(language);
+      }
+    }
+  });
+
+  it('looks questions up by id', () => {
+    expect(getQuestion('two-sum')?.title).toBe('Two Sum');
+    expect(getQuestion('missing')).toBeUndefined();
+  });
+
+  it('falls back to the language template without starter code', () => {
+    const design = getQuestion('url-shortener')!;
+    expect(getStarterCode(design, 'python')).toBe(codeTemplates.python);
+    expect(getStarterCode(getQuestion('fizzbuzz')!, 'python')).toContain('def fizz_buzz');
+  });
+
+  it('leaves the tests out of the shared question', () => {
+    const shared = toSharedQuestion(getQuestion('fizzbuzz')!);
+    expect(shared).not.toHaveProperty('tests');
+    expect(shared.statement).toContain('FizzBuzz');
+  });
+});
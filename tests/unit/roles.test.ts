@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDefaultRole,
+  getMessagePermission,
+  getRecipientPermission,
+  hasPermission,
+  isMessageAllowed,
+  isRole,
+} from '../../src/services/roles';
+
+describe('roles', () => {
+  it('defaults the host to interviewer and everyone else to candidate', () => {
+    expect(getDefaultRole(true)).toBe('interviewer');
+    expect(getDefaultRole(false)).toBe('candidate');
+  });
+
+  it('recognises roles', () => {
+    expect(isRole('observer')).toBe(true);
+    expect(isRole('admin')).toBe(false);
+    expect(isRole('')).toBe(false);
+    expect(isRole(undefined)).toBe(false);
+  });
+
+  it('grants permissions by role', () => {
+    expect(hasPermission('interviewer', 'viewNotes')).toBe(true);
+    expect(hasPermission('candidate', 'edit')).toBe(true);
+    expect(hasPermission('candidate', 'viewNotes')).toBe(false);
+    expect(hasPermission('observer', 'edit')).toBe(false);
+    expect(hasPermission('observer', 'draw')).toBe(false);
+  });
+
+  it('maps messages to the permission needed to send them', () => {
+    expect(getMessagePermission({ type: 'file-delete', fileId: 'main' })).toBe('edit');
+    expect(getMessagePermission({ type: 'canvas-ops', ops: [] })).toBe('draw');
+    expect(getMessagePermission({ type: 'message', id: '1', text: 'hi', sender: 'A', timestamp: 1 })).toBe('chat');
+    expect(getMessagePermission({ type: 'execution-start', language: 'python', timestamp: 1 })).toBe('run');
+    expect(getMessagePermission({ type: 'state-request' })).toBeNull();
+  });
+
+  it('only lets those who know the hidden tests report test results', () => {
+    const result = { type: 'execution-result', stdout: '', stderr: '', exitCode: 0, duration: 1 } as const;
+    expect(getMessagePermission(result)).toBe('run');
+    expect(getMessagePermission({ ...result, testResults: [] })).toBe('viewNotes');
+    expect(isMessageAllowed({ ...result, testResults: [] }, 'candidate')).toBe(false);
+  });
+
+  it('restricts who receives private notes', () => {
+    expect(getRecipientPermission({ type: 'notes', text: '', updatedAt: 1, updatedBy: 'A' })).toBe('viewNotes');
+    expect(getRecipientPermission({ type: 'notes-request' })).toBe('viewNotes');
+    expect(getRecipientPermission({ type: 'scorecard', competencies: [] })).toBe('viewNotes');
+    expect(getRecipientPermission({ type: 'question-tests', questionId: 'q', tests: [] })).toBe('viewNotes');
+    expect(getRecipientPermission({ type: 'question-tests-request' })).toBe('viewNotes');
+    expect(getRecipientPermission({ type: 'canvas-ops', ops: [] })).toBeNull();
+  });
+
+  it('lets anyone send messages that need no permission', () => {
+    const cursor = { type: 'cursor', peerId: 'A', name: 'A', position: 0 } as const;
+    expect(isMessageAllowed(cursor, 'observer')).toBe(true);
+    expect(isMessageAllowed({ type: 'canvas-ops', ops: [] }, 'observer')).toBe(false);
+    expect(isMessageAllowed({ type: 'canvas-ops', ops: [] }, 'candidate')).toBe(true);
+  });
+});
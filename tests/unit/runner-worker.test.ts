@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { executeWasm, preloadRuntime, registerBackend, resetBackends } from '../../src/services/wasm-runtime-manager';
+import { createRunnerBackend } from '../../src/services/runtime-backends';
+import { useRuntimeStore } from '../../src/stores/runtimeStore';
+
+/**
+ * Runs runner.worker.ts in this thread: messages posted to the worker go to
+ * the module's `self.onmessage`, and what it posts back to `onmessage`.
+ */
+class InProcessWorker {
+  static current: InProcessWorker | null = null;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  /** The worker's handling of the last message posted to it. */
+  busy: Promise<unknown> = Promise.resolve();
+
+  constructor() {
+    InProcessWorker.current = this;
+  }
+
+  postMessage(data: unknown) {
+    this.busy = Promise.resolve(self.onmessage?.call(self, { data } as MessageEvent));
+  }
+
+  terminate() {}
+}
+
+function reply(status: number, body: unknown = {}): Response {
+  return { ok: status >= 200 && status < 300, status, json: async () => body } as Response;
+}
+
+function runRequest(call: number) {
+  const [url, init] = fetchMock.mock.calls[call];
+  return { url, body: JSON.parse(String(init!.body)) };
+}
+
+const fetchMock = vi.fn<typeof fetch>();
+
+describe('runner.worker', () => {
+  beforeAll(async () => {
+    vi.spyOn(self, 'postMessage').mockImplementation(((data: unknown) => {
+      InProcessWorker.current?.onmessage?.({ data } as MessageEvent);
+    }) as typeof self.postMessage);
+    await import('../../src/services/runtimes/runner.worker');
+  });
+
+  beforeEach(() => {
+    fetchMock.mockReset();
+    vi.stubGlobal('fetch', fetchMock);
+    vi.stubGlobal('Worker', InProcessWorker);
+    // Vite rewrites worker script URLs into paths that only resolve in a browser
+    vi.stubGlobal('URL', class {
+      constructor(readonly href: string) {}
+    });
+    resetBackends();
+    useRuntimeStore.getState().reset();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  /** Routes Java to the runner and loads it, the runner answering /health with `health`. */
+  async function loadRunner(health: Response) {
+    fetchMock.mockResolvedValueOnce(health);
+    registerBackend(createRunnerBackend({ url: 'http://runner.local:3002/', languages: ['java'], timeLimit: 10_000 }));
+    preloadRuntime('java');
+    await InProcessWorker.current!.busy;
+  }
+
+  it('is ready once the runner answers its health check', async () => {
+    await loadRunner(reply(200, { status: 'ok', languages: ['java'] }));
+
+    expect(fetchMock).toHaveBeenCalledWith('http://runner.local:3002/health');
+    expect(useRuntimeStore.getState().getRuntime('java').status).toBe('ready');
+  });
+
+  it('reports a runner that fails its health check', async () => {
+    await loadRunner(reply(503));
+
+    expect(useRuntimeStore.getState().getRuntime('java')).toMatchObject({
+      status: 'error',
+      error: 'Code runner unavailable: HTTP 503',
+    });
+  });
+
+  it('posts the run with its stdin and limits, and streams the output', async () => {
+    await loadRunner(reply(200));
+    fetchMock.mockResolvedValueOnce(reply(200, { stdout: 'Ada\n', stderr: '', exitCode: 0, duration: 12 }));
+    const onOutput = vi.fn();
+
+    const result = await executeWasm('java', 'class Main {}', { stdin: 'Ada\n', onOutput });
+
+    expect(runRequest(1)).toEqual({
+      url: 'http://runner.local:3002/run',
+      body: { language: 'java', code: 'class Main {}', stdin: 'Ada\n', timeout: 10_000, memoryLimit: 256 },
+    });
+    expect(onOutput).toHaveBeenCalledWith({ stream: 'stdout', text: 'Ada\n' });
+    expect(result).toEqual({ stdout: 'Ada\n', stderr: '', exitCode: 0, duration: 12 });
+  });
+
+  it('fails the run on a non-2xx response', async () => {
+    await loadRunner(reply(200));
+    fetchMock.mockResolvedValueOnce(reply(503, { error: 'Runner busy, try again' }));
+
+    const result = await executeWasm('java', 'class Main {}');
+
+    expect(result).toMatchObject({ stdout: '', stderr: 'Code runner returned HTTP 503', exitCode: 1 });
+  });
+
+  it('fails the run when the runner cannot be reached', async () => {
+    await loadRunner(reply(200));
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+
+    const result = await executeWasm('java', 'class Main {}');
+
+    expect(result).toMatchObject({ stderr: 'Code runner error: Failed to fetch', exitCode: 1 });
+  });
+
+  it('gives up once the runner\'s compile time and the run\'s have both passed', async () => {
+    await loadRunner(reply(200, { compileTimeout: 20_000 }));
+    vi.useFakeTimers();
+    let aborted = false;
+    fetchMock.mockImplementationOnce((_url, init) => new Promise((_resolve, reject) => {
+      init!.signal!.addEventListener('abort', () => {
+        aborted = true;
+        reject(new DOMException('The operation was aborted.', 'AbortError'));
+      });
+    }));
+
+    const run = executeWasm('java', 'class Main {}');
+    await vi.advanceTimersByTimeAsync(20_000 + 10_000 + 4_999);
+    expect(aborted).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+
+    await expect(run).resolves.toMatchObject({ stderr: '[Execution timed out after 10s]', exitCode: 1 });
+  });
+});
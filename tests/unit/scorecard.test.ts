@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createDefaultScorecard,
+  getActiveCompetencies,
+  getAverageRating,
+  isRating,
+  mergeCompetencies,
+} from '../../src/services/scorecard';
+import type { Competency } from '../../src/services/scorecard';
+
+function competency(overrides: Partial<Competency> & { id: string }): Competency {
+  return { name: overrides.id, rating: null, comment: '', createdAt: 0, updatedAt: 0, updatedBy: '', ...overrides };
+}
+
+describe('scorecard', () => {
+  it('starts with the default competencies, unrated', () => {
+    const scorecard = createDefaultScorecard();
+    expect(scorecard.map((c) => c.name)).toEqual(['Problem solving', 'Code quality', 'Communication']);
+    expect(scorecard.every((c) => c.rating === null && c.updatedAt === 0)).toBe(true);
+  });
+
+  it('recognises ratings', () => {
+    expect(isRating(1)).toBe(true);
+    expect(isRating(4)).toBe(true);
+    expect(isRating(5)).toBe(false);
+    expect(isRating('3')).toBe(false);
+  });
+
+  describe('mergeCompetencies', () => {
+    it('keeps the newer copy of each competency', () => {
+      const local = [
+        competency({ id: 'a', rating: 2, updatedAt: 10, updatedBy: 'Alice' }),
+        competency({ id: 'b', rating: 3, updatedAt: 30, updatedBy: 'Alice' }),
+      ];
+      const remote = [
+        competency({ id: 'a', rating: 4, updatedAt: 20, updatedBy: 'Bob' }),
+        competency({ id: 'b', rating: 1, updatedAt: 25, updatedBy: 'Bob' }),
+      ];
+
+      const merged = mergeCompetencies(local, remote);
+      expect(merged.map((c) => c.rating)).toEqual([4, 3]);
+    });
+
+    it('breaks timestamp ties by author', () => {
+      const alice = competency({ id: 'a', rating: 2, updatedAt: 10, updatedBy: 'Alice' });
+      const bob = competency({ id: 'a', rating: 3, updatedAt: 10, updatedBy: 'Bob' });
+
+      expect(mergeCompetencies([alice], [bob])[0].rating).toBe(3);
+      expect(mergeCompetencies([bob], [alice])[0].rating).toBe(3);
+    });
+
+    it('adds unknown competencies in creation order', () => {
+      const local = [competency({ id: 'z', createdAt: 0 })];
+      const remote = [competency({ id: 'late', createdAt: 20 }), competency({ id: 'early', createdAt: 10 })];
+
+      expect(mergeCompetencies(local, remote).map((c) => c.id)).toEqual(['z', 'early', 'late']);
+    });
+
+    it('returns the local list when nothing changed', () => {
+      const local = createDefaultScorecard();
+      expect(mergeCompetencies(local, createDefaultScorecard())).toBe(local);
+    });
+  });
+
+  it('leaves removed competencies out', () => {
+    const scorecard = [competency({ id: 'a', rating: 4 }), competency({ id: 'b', rating: 1, removed: true })];
+    expect(getActiveCompetencies(scorecard).map((c) => c.id)).toEqual(['a']);
+    expect(getAverageRating(scorecard)).toBe(4);
+  });
+
+  it('averages the given ratings', () => {
+    expect(getAverageRating(createDefaultScorecard())).toBeNull();
+    expect(getAverageRating([competency({ id: 'a', rating: 2 }), competency({ id: 'b', rating: 3 }), competency({ id: 'c' })])).toBe(2.5);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useScorecardStore } from '../../src/stores/scorecardStore';
+
+describe('scorecardStore', () => {
+  beforeEach(() => {
+    useScorecardStore.getState().reset();
+  });
+
+  it('should start with the default rubric', () => {
+    expect(useScorecardStore.getState().competencies.map((c) => c.id)).toEqual([
+      'problem-solving',
+      'code-quality',
+      'communication',
+    ]);
+  });
+
+  it('should stamp ratings and comments with the author', () => {
+    useScorecardStore.getState().setRating('communication', 3, 'Alice');
+    useScorecardStore.getState().setComment('communication', 'Explains trade-offs', 'Alice');
+
+    const communication = useScorecardStore.getState().competencies.find((c) => c.id === 'communication')!;
+    expect(communication.rating).toBe(3);
+    expect(communication.comment).toBe('Explains trade-offs');
+    expect(communication.updatedBy).toBe('Alice');
+    expect(communication.updatedAt).toBeGreaterThan(0);
+  });
+
+  it('should add, rename and remove competencies', () => {
+    const id = useScorecardStore.getState().addCompetency('Testing', 'Alice');
+    useScorecardStore.getState().renameCompetency(id, 'Testing strategy', 'Alice');
+    const { competencies } = useScorecardStore.getState();
+    expect(competencies[competencies.length - 1].name).toBe('Testing strategy');
+
+    useScorecardStore.getState().removeCompetency(id, 'Alice');
+    // Kept as a tombstone for peers
+    expect(useScorecardStore.getState().competencies.find((c) => c.id === id)!.removed).toBe(true);
+  });
+
+  it('should merge newer competencies only', () => {
+    const [first] = useScorecardStore.getState().competencies;
+
+    expect(useScorecardStore.getState().mergeCompetencies([{ ...first, rating: 4, updatedAt: 5, updatedBy: 'Bob' }])).toBe(true);
+    expect(useScorecardStore.getState().mergeCompetencies([{ ...first, rating: 1, updatedAt: 4, updatedBy: 'Cara' }])).toBe(false);
+    expect(useScorecardStore.getState().competencies[0].rating).toBe(4);
+  });
+});
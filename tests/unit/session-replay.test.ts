@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffStrokes,
+  diffWorkspace,
+  formatReplayTime,
+  getReplayRange,
+  reconstructReplayState,
+} from '../../src/services/session-replay';
+import type { ReplayEvent, ReplayFile } from '../../src/services/session-replay';
+import type { Stroke } from '../../src/services/canvas-logic';
+
+const main = (code: string): ReplayFile => ({ id: 'main', name: 'main.js', language: 'javascript', code });
+
+const snapshot: ReplayEvent = {
+  type: 'snapshot',
+  t: 1000,
+  files: [main('')],
+  strokes: [],
+  messages: [],
+  participants: {},
+};
+
+describe('diffWorkspace', () => {
+  it('records an edit as a code-operation', () => {
+    const events = diffWorkspace([main('abc')], [main('abXc')], 5);
+    expect(events).toEqual([{ type: 'code-operation', t: 5, fileId: 'main', operation: [2, 'X', 1] }]);
+  });
+
+  it('announces new files before their code', () => {
+    const util = { id: 'u', name: 'util.py', language: 'python', code: 'x = 1' };
+    const events = diffWorkspace([main('')], [main(''), util], 5);
+    expect(events.map((e) => e.type)).toEqual(['files', 'code-operation']);
+    expect(events[0]).toMatchObject({
+      files: [{ id: 'main', name: 'main.js', language: 'javascript' }, { id: 'u', name: 'util.py', language: 'python' }],
+    });
+  });
+
+  it('records renames without code changes', () => {
+    const events = diffWorkspace([main('a')], [{ ...main('a'), name: 'index.js' }], 5);
+    expect(events).toEqual([{ type: 'files', t: 5, files: [{ id: 'main', name: 'index.js', language: 'javascript' }] }]);
+  });
+});
+
+describe('diffStrokes', () => {
+  const a: Stroke = { tool: 'line', start: { x: 0, y: 0 }, end: { x: 1, y: 1 } };
+  const b: Stroke = { tool: 'circle', start: { x: 5, y: 5 }, end: { x: 6, y: 6 } };
+
+  it('records appended strokes individually', () => {
+    expect(diffStrokes([a], [a, b], 5)).toEqual([{ type: 'canvas', t: 5, action: 'stroke', stroke: b }]);
+  });
+
+  it('falls back to a full sync for removals of strokes without ids', () => {
+    expect(diffStrokes([a, b], [a], 5)).toEqual([{ type: 'canvas', t: 5, action: 'sync', strokes: [a] }]);
+  });
+
+  describe('strokes with ids', () => {
+    const box = (id: string, x: number): Stroke => ({ tool: 'rectangle', id, start: { x, y: 0 }, end: { x: x + 10, y: 10 } });
+
+    it('records only the fields a move changed', () => {
+      const moved = { ...box('a', 0), start: { x: 5, y: 0 } };
+      expect(diffStrokes([box('a', 0), box('b', 50)], [moved, box('b', 50)], 5)).toEqual([
+        { type: 'canvas', t: 5, action: 'update', id: 'a', changes: { start: { x: 5, y: 0 } } },
+      ]);
+    });
+
+    it('records deletes and removed fields', () => {
+      const labelled = { ...box('a', 0), text: 'API' };
+      expect(diffStrokes([labelled, box('b', 50)], [box('a', 0)], 5)).toEqual([
+        { type: 'canvas', t: 5, action: 'delete', ids: ['b'] },
+        { type: 'canvas', t: 5, action: 'update', id: 'a', changes: { text: null } },
+      ]);
+    });
+
+    it('falls back to a full sync when the drawing order changed', () => {
+      const events = diffStrokes([box('a', 0), box('b', 50)], [box('b', 50), box('a', 0)], 5);
+      expect(events).toEqual([{ type: 'canvas', t: 5, action: 'sync', strokes: [box('b', 50), box('a', 0)] }]);
+    });
+
+    it('replays to the strokes it was made from', () => {
+      const prev = [{ ...box('a', 0), text: 'API' }, box('b', 50), box('c', 100)];
+      const next = [box('a', 0), { ...box('c', 100), color: '#f00' }, box('d', 150)];
+      const replayed = reconstructReplayState([{ ...snapshot, strokes: prev }, ...diffStrokes(prev, next, 2000)], 2000);
+      expect(replayed.strokes).toEqual(next);
+    });
+  });
+});
+
+describe('reconstructReplayState', () => {
+  const events: ReplayEvent[] = [
+    snapshot,
+    { type: 'code-operation', t: 2000, fileId: 'main', operation: ['let x;'] },
+    { type: 'join', t: 2500, peerId: 'p1', name: 'Bob' },
+    { type: 'canvas', t: 3000, action: 'stroke', stroke: { tool: 'pen', points: [{ x: 1, y: 1 }] } },
+    { type: 'message', t: 4000, message: { id: 'm1', text: 'hi', sender: 'Bob', timestamp: 4000 } },
+    { type: 'code-operation', t: 5000, fileId: 'main', operation: [6, ' x = 1;'] },
+    { type: 'execution-result', t: 6000, stdout: '1\n', stderr: '', exitCode: 0, duration: 3 },
+    { type: 'leave', t: 7000, peerId: 'p1' },
+  ];
+
+  it('rebuilds the session at a point in time', () => {
+    const state = reconstructReplayState(events, 4500);
+    expect(state.files[0].code).toBe('let x;');
+    expect(state.strokes).toHaveLength(1);
+    expect(state.messages.map((m) => m.text)).toEqual(['hi']);
+    expect(state.participants).toEqual({ p1: 'Bob' });
+    expect(state.output).toBeNull();
+  });
+
+  it('applies every event at the end', () => {
+    const state = reconstructReplayState(events, 7000);
+    expect(state.files[0].code).toBe('let x; x = 1;');
+    expect(state.output).toMatchObject({ stdout: '1\n', exitCode: 0 });
+    expect(state.participants).toEqual({});
+  });
+
+  it('is empty before the first event', () => {
+    expect(reconstructReplayState(events, 0).files).toEqual([]);
+  });
+
+  it('restarts from a later snapshot', () => {
+    const resumed = [...events, { ...snapshot, t: 8000, files: [main('reloaded')] } as ReplayEvent];
+    expect(reconstructReplayState(resumed, 8000).files[0].code).toBe('reloaded');
+  });
+
+  it('skips operations that do not fit the text', () => {
+    const broken: ReplayEvent[] = [snapshot, { type: 'code-operation', t: 2000, fileId: 'main', operation: [10, 'x'] }];
+    expect(reconstructReplayState(broken, 2000).files[0].code).toBe('');
+  });
+
+  it('keeps file contents across file list changes', () => {
+    const state = reconstructReplayState([
+      { ...snapshot, files: [main('a')] },
+      { type: 'files', t: 2000, files: [{ id: 'main', name: 'index.js', language: 'javascript' }, { id: 'u', name: 'u.py', language: 'python' }] },
+    ], 2000);
+    expect(state.files).toEqual([
+      { id: 'main', name: 'index.js', language: 'javascript', code: 'a' },
+      { id: 'u', name: 'u.py', language: 'python', code: '' },
+    ]);
+  });
+});
+
+describe('getReplayRange / formatReplayTime', () => {
+  it('spans the first to the last event', () => {
+    expect(getReplayRange([snapshot, { ...snapshot, t: 9000 }])).toEqual({ start: 1000, end: 9000 });
+    expect(getReplayRange([])).toBeNull();
+  });
+
+  it('formats offsets', () => {
+    expect(formatReplayTime(0)).toBe('0:00');
+    expect(formatReplayTime(75_000)).toBe('1:15');
+    expect(formatReplayTime(3_723_000)).toBe('1:02:03');
+  });
+});
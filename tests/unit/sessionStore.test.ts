@@ -130,4 +130,43 @@ describe('sessionStore', () => {
       expect(state.participants).toEqual({});
     });
   });
+
+  describe('roles', () => {
+    it('makes the creator an interviewer and joiners candidates', () => {
+      useSessionStore.getState().createSession('s1');
+      expect(useSessionStore.getState().role).toBe('interviewer');
+      useSessionStore.getState().joinSession('s2');
+      expect(useSessionStore.getState().role).toBe('candidate');
+    });
+
+    it('assigns our own role or a participant\'s', () => {
+      useSessionStore.getState().setLocalPeerId('me');
+      useSessionStore.getState().updateParticipant('peer1', { name: 'Bob' });
+
+      useSessionStore.getState().assignRole('me', 'observer');
+      useSessionStore.getState().assignRole('peer1', 'interviewer');
+
+      const state = useSessionStore.getState();
+      expect(state.role).toBe('observer');
+      expect(state.participants.peer1.role).toBe('interviewer');
+    });
+
+    it('falls back to the default role for unassigned participants', () => {
+      useSessionStore.getState().updateParticipant('host', { isHost: true });
+      useSessionStore.getState().updateParticipant('peer1', {});
+      expect(useSessionStore.getState().getPeerRole('host')).toBe('interviewer');
+      expect(useSessionStore.getState().getPeerRole('peer1')).toBe('candidate');
+    });
+
+    it('checks senders only on the host', () => {
+      const canvasOps = { type: 'canvas-ops' as const, ops: [] };
+      useSessionStore.getState().updateParticipant('peer1', { role: 'observer' });
+      expect(useSessionStore.getState().isAllowedFrom('peer1', canvasOps)).toBe(true);
+
+      useSessionStore.setState({ isHost: true });
+      expect(useSessionStore.getState().isAllowedFrom('peer1', canvasOps)).toBe(false);
+      expect(useSessionStore.getState().isAllowedFrom('peer1', { type: 'state-request' })).toBe(true);
+      expect(useSessionStore.getState().isAllowedFrom(undefined, canvasOps)).toBe(true);
+    });
+  });
 });
@@ -45,7 +45,7 @@ const indexedDBMock = {
       onupgradeneeded: null as ((ev: unknown) => void) | null,
       result: {
         objectStoreNames: { contains: () => false },
-        createObjectStore: vi.fn(),
+        createObjectStore: vi.fn(() => ({ createIndex: vi.fn() })),
         transaction: vi.fn(() => ({
           objectStore: vi.fn(() => ({
             put: vi.fn(() => ({ onsuccess: null, onerror: null })),
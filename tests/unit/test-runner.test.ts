@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest';
+import { outputMatches, runTests, toSharedTestResults } from '../../src/services/test-runner';
+import type { TestCase } from '../../src/services/question-bank';
+
+const tests: TestCase[] = [
+  { id: 'small', input: '2 3', expectedOutput: '5' },
+  { id: 'negative', input: '-2 1', expectedOutput: '-1' },
+];
+
+/** A fake runtime summing the two numbers on stdin, optionally off by one. */
+function sumRunner(offByOne = false) {
+  return vi.fn(async (_code: string, _language: string, stdin: string) => {
+    const sum = stdin.split(' ').map(Number).reduce((a, b) => a + b, 0);
+    return { stdout: `${sum + (offByOne && sum < 0 ? 1 : 0)}\n`, stderr: '', exitCode: 0, duration: 4 };
+  });
+}
+
+describe('test-runner', () => {
+  describe('outputMatches', () => {
+    it('ignores trailing whitespace and blank lines', () => {
+      expect(outputMatches('1 \n2\n\n', '1\n2')).toBe(true);
+      expect(outputMatches('1\r\n2', '1\n2')).toBe(true);
+    });
+
+    it('compares everything else exactly', () => {
+      expect(outputMatches('1\n 2', '1\n2')).toBe(false);
+      expect(outputMatches('1\n\n2', '1\n2')).toBe(false);
+    });
+  });
+
+  describe('runTests', () => {
+    it('runs each case with its input on stdin', async () => {
+      const run = sumRunner();
+      const result = await runTests('code', 'python', tests, run);
+
+      expect(run).toHaveBeenCalledTimes(2);
+      expect(run).toHaveBeenCalledWith('code', 'python', '-2 1');
+      expect(result.testResults!.map((t) => t.passed)).toEqual([true, true]);
+      expect(result.exitCode).toBe(0);
+      expect(result.duration).toBe(8);
+    });
+
+    it('fails cases with the wrong output or a non-zero exit code', async () => {
+      const result = await runTests('code', 'python', tests, sumRunner(true));
+      expect(result.testResults!.map((t) => t.passed)).toEqual([true, false]);
+      expect(result.testResults![1].stdout).toBe('0\n');
+      expect(result.exitCode).toBe(1);
+
+      const crashing = vi.fn(async () => ({ stdout: '5', stderr: 'boom', exitCode: 1, duration: 1 }));
+      const crashed = await runTests('code', 'python', tests.slice(0, 1), crashing);
+      expect(crashed.testResults![0].passed).toBe(false);
+    });
+
+    it('stops at the first run that rejects', async () => {
+      const run = vi.fn().mockRejectedValue('Execution stopped by user');
+      await expect(runTests('code', 'python', tests, run)).rejects.toBe('Execution stopped by user');
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  it('keeps the program output out of shared results', async () => {
+    const { testResults } = await runTests('code', 'python', tests, sumRunner());
+    expect(toSharedTestResults(testResults!)).toEqual([
+      { id: 'small', passed: true, exitCode: 0, duration: 4 },
+      { id: 'negative', passed: true, exitCode: 0, duration: 4 },
+    ]);
+  });
+});
@@ -83,4 +83,20 @@ describe('uiStore', () => {
       expect(state.isNewSessionModalOpen).toBe(false);
     });
   });
+
+  describe('follow mode', () => {
+    it('should set and clear the followed participant', () => {
+      useUIStore.getState().followPeer('peer-1');
+      expect(useUIStore.getState().followingPeerId).toBe('peer-1');
+      useUIStore.getState().stopFollowing();
+      expect(useUIStore.getState().followingPeerId).toBeNull();
+    });
+
+    it('should keep the editor scroll object when unchanged', () => {
+      useUIStore.getState().setEditorScroll(100, 0);
+      const scroll = useUIStore.getState().editorScroll;
+      useUIStore.getState().setEditorScroll(100, 0);
+      expect(useUIStore.getState().editorScroll).toBe(scroll);
+    });
+  });
 });
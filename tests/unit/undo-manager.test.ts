@@ -0,0 +1,160 @@
+/**
+ * Collaborative Undo Manager Unit Tests
+ *
+ * Undo must revert only the local participant's edits, even after remote
+ * operations have been applied on top of them.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { TextOperation, calculateTextOperation } from '../../src/services/ot-engine';
+import { UndoManager, getCursorAfterOperation } from '../../src/services/undo-manager';
+
+/** Apply a local edit, recording it in the manager. Returns the new text. */
+function localEdit(manager: UndoManager, text: string, next: string, compose = false): string {
+  manager.record(calculateTextOperation(text, next), text, compose);
+  return next;
+}
+
+/** Apply a remote edit, transforming the manager's stacks. Returns the new text. */
+function remoteEdit(manager: UndoManager, text: string, next: string): string {
+  const op = calculateTextOperation(text, next);
+  manager.transform(op);
+  return op.apply(text);
+}
+
+function undo(manager: UndoManager, text: string): string {
+  const op = manager.undo(text);
+  return op ? op.apply(text) : text;
+}
+
+function redo(manager: UndoManager, text: string): string {
+  const op = manager.redo(text);
+  return op ? op.apply(text) : text;
+}
+
+describe('UndoManager', () => {
+  it('starts empty', () => {
+    const manager = new UndoManager();
+    expect(manager.canUndo()).toBe(false);
+    expect(manager.canRedo()).toBe(false);
+    expect(manager.undo('abc')).toBeNull();
+    expect(manager.redo('abc')).toBeNull();
+  });
+
+  it('undoes and redoes a local edit', () => {
+    const manager = new UndoManager();
+    let text = localEdit(manager, 'hello', 'hello world');
+
+    text = undo(manager, text);
+    expect(text).toBe('hello');
+    expect(manager.canRedo()).toBe(true);
+
+    text = redo(manager, text);
+    expect(text).toBe('hello world');
+  });
+
+  it('undoes edits in reverse order', () => {
+    const manager = new UndoManager();
+    let text = localEdit(manager, '', 'a');
+    text = localEdit(manager, text, 'ab');
+    text = localEdit(manager, text, 'abc');
+
+    text = undo(manager, text);
+    expect(text).toBe('ab');
+    text = undo(manager, text);
+    expect(text).toBe('a');
+    text = undo(manager, text);
+    expect(text).toBe('');
+  });
+
+  it('composes grouped edits into one undo step', () => {
+    const manager = new UndoManager();
+    let text = localEdit(manager, '', 'a');
+    text = localEdit(manager, text, 'ab', true);
+    text = localEdit(manager, text, 'abc', true);
+
+    expect(manager.undoStack).toHaveLength(1);
+    expect(undo(manager, text)).toBe('');
+  });
+
+  it('a new edit clears the redo stack', () => {
+    const manager = new UndoManager();
+    let text = localEdit(manager, '', 'a');
+    text = undo(manager, text);
+    localEdit(manager, text, 'b');
+    expect(manager.canRedo()).toBe(false);
+  });
+
+  it('leaves a peer\'s edits in place when undoing', () => {
+    const manager = new UndoManager();
+    let text = localEdit(manager, 'function f() {}', 'function f() { return 1; }');
+    text = remoteEdit(manager, text, '// peer\nfunction f() { return 1; }');
+
+    text = undo(manager, text);
+    expect(text).toBe('// peer\nfunction f() {}');
+  });
+
+  it('redo reapplies at the transformed position', () => {
+    const manager = new UndoManager();
+    let text = localEdit(manager, 'abc', 'abcX');
+    text = undo(manager, text);
+    text = remoteEdit(manager, text, '123abc');
+
+    text = redo(manager, text);
+    expect(text).toBe('123abcX');
+  });
+
+  it('does not group across a remote edit', () => {
+    const manager = new UndoManager();
+    let text = localEdit(manager, '', 'a');
+    text = remoteEdit(manager, text, 'a-');
+    text = localEdit(manager, text, 'ab-', true);
+
+    expect(manager.undoStack).toHaveLength(2);
+    text = undo(manager, text);
+    expect(text).toBe('a-');
+  });
+
+  it('drops steps whose text a peer already deleted', () => {
+    const manager = new UndoManager();
+    let text = localEdit(manager, 'keep', 'keep gone');
+    text = remoteEdit(manager, text, 'keep');
+
+    expect(manager.canUndo()).toBe(false);
+    expect(text).toBe('keep');
+  });
+
+  it('caps the undo depth', () => {
+    const manager = new UndoManager(3);
+    let text = '';
+    for (const ch of 'abcde') {
+      text = localEdit(manager, text, text + ch);
+    }
+    expect(manager.undoStack).toHaveLength(3);
+  });
+
+  it('clear empties both stacks', () => {
+    const manager = new UndoManager();
+    let text = localEdit(manager, '', 'a');
+    text = localEdit(manager, text, 'ab');
+    undo(manager, text);
+    manager.clear();
+    expect(manager.canUndo()).toBe(false);
+    expect(manager.canRedo()).toBe(false);
+  });
+});
+
+describe('getCursorAfterOperation', () => {
+  it('places the cursor after an insert', () => {
+    expect(getCursorAfterOperation(new TextOperation().retain(3).insert('ab').retain(4))).toBe(5);
+  });
+
+  it('places the cursor at a deletion', () => {
+    expect(getCursorAfterOperation(new TextOperation().retain(3).delete(2).retain(4))).toBe(3);
+  });
+
+  it('uses the last change in the operation', () => {
+    const op = new TextOperation().insert('x').retain(5).delete(1).retain(2);
+    expect(getCursorAfterOperation(op)).toBe(6);
+  });
+});
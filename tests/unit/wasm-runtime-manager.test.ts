@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  executeWasm,
+  getCapabilities,
+  isWasmLanguage,
+  preloadRuntime,
+  registerBackend,
+  resetBackends,
+} from '../../src/services/wasm-runtime-manager';
+import { createRunnerBackend } from '../../src/services/runtime-backends';
+import { createMockBackend } from './mock-backend';
+import { useRuntimeStore } from '../../src/stores/runtimeStore';
+
+/** Records the script and messages of every worker created. */
+class FakeWorker {
+  static created: FakeWorker[] = [];
+  messages: unknown[] = [];
+  terminated = false;
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+
+  constructor(public url: { href: string }) {
+    FakeWorker.created.push(this);
+  }
+
+  postMessage(message: unknown) {
+    this.messages.push(message);
+  }
+
+  terminate() {
+    this.terminated = true;
+  }
+
+  reply(data: unknown) {
+    this.onmessage?.({ data } as MessageEvent);
+  }
+}
+
+describe('wasm-runtime-manager', () => {
+  beforeEach(() => {
+    FakeWorker.created = [];
+    vi.stubGlobal('Worker', FakeWorker);
+    // Vite rewrites worker script URLs into paths that only resolve in a browser
+    vi.stubGlobal('URL', class {
+      constructor(readonly href: string) {}
+    });
+    resetBackends();
+    useRuntimeStore.getState().reset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  /** Routes `languages` to a mock backend and waits for its worker. */
+  async function loadMock(options: Parameters<typeof createMockBackend>[0]) {
+    const backend = createMockBackend(options);
+    registerBackend(backend);
+    for (const lang of options.languages) preloadRuntime(lang);
+    await Promise.resolve();
+    return backend;
+  }
+
+  it('compiles C, C++ and Go with the public services by default', () => {
+    preloadRuntime('go');
+    preloadRuntime('c');
+
+    const scripts = FakeWorker.created.map((w) => w.url.href);
+    expect(scripts[0]).toMatch(/\/go\.worker\.ts/);
+    expect(scripts[1]).toMatch(/\/cpp\.worker\.ts/);
+  });
+
+  it('runs nothing for languages without a backend', () => {
+    expect(isWasmLanguage('java')).toBe(false);
+    expect(getCapabilities('java')).toBeNull();
+
+    preloadRuntime('java');
+    expect(FakeWorker.created).toHaveLength(0);
+  });
+
+  it('routes languages to the self-hosted runner', () => {
+    registerBackend(createRunnerBackend({ url: 'http://runner.local:3002', languages: ['go', 'java'] }));
+    preloadRuntime('java');
+    preloadRuntime('python');
+
+    const [java, python] = FakeWorker.created;
+    expect(isWasmLanguage('java')).toBe(true);
+    expect(java.url.href).toMatch(/\/runner\.worker\.ts/);
+    expect(java.messages).toEqual([{ type: 'init', url: 'http://runner.local:3002' }]);
+    expect(python.url.href).toMatch(/\/python\.worker\.ts/);
+    expect(getCapabilities('go')).toEqual({ stdin: true, tests: true, timeLimit: 30_000, memoryLimit: 256 });
+  });
+
+  it('drops loaded runtimes of the languages a backend takes over', () => {
+    preloadRuntime('cpp');
+    preloadRuntime('python');
+    const [cpp, python] = FakeWorker.created;
+
+    registerBackend(createRunnerBackend({ url: 'http://runner.local:3002', languages: ['c', 'cpp'] }));
+
+    expect(cpp.terminated).toBe(true);
+    expect(python.terminated).toBe(false);
+    expect(useRuntimeStore.getState().getRuntime('cpp').status).toBe('idle');
+  });
+
+  it('goes back to the built-in backends on reset', () => {
+    registerBackend(createMockBackend({ languages: ['python', 'rust'] }));
+    resetBackends();
+
+    expect(isWasmLanguage('rust')).toBe(false);
+    preloadRuntime('python');
+    expect(FakeWorker.created[0].url.href).toMatch(/\/python\.worker\.ts/);
+  });
+
+  it('passes stdin to the worker and streams its output', async () => {
+    preloadRuntime('python');
+    const [worker] = FakeWorker.created;
+    worker.reply({ type: 'ready' });
+
+    const onOutput = vi.fn();
+    const run = executeWasm('python', 'print(input())', { stdin: 'hi', onOutput });
+    expect(worker.messages[1]).toEqual({
+      type: 'run',
+      code: 'print(input())',
+      language: 'python',
+      timeout: 10_000,
+      stdin: 'hi',
+      memoryLimit: null,
+    });
+
+    worker.reply({ type: 'output', stream: 'stdout', text: 'hi' });
+    worker.reply({ type: 'result', stdout: 'hi', stderr: '', exitCode: 0, duration: 3 });
+
+    expect(onOutput).toHaveBeenCalledWith({ stream: 'stdout', text: 'hi' });
+    await expect(run).resolves.toEqual({ stdout: 'hi', stderr: '', exitCode: 0, duration: 3 });
+  });
+
+  describe('backend capabilities', () => {
+    it('caps the timeout at the time limit and sends the memory limit', async () => {
+      const backend = await loadMock({ languages: ['rust'], capabilities: { timeLimit: 5_000, memoryLimit: 128 } });
+
+      await executeWasm('rust', 'fn main() {}', { timeout: 60_000 });
+      await executeWasm('rust', 'fn main() {}', { timeout: 2_000 });
+
+      expect(backend.requests.map((r) => [r.timeout, r.memoryLimit])).toEqual([[5_000, 128], [2_000, 128]]);
+    });
+
+    it('fails runs with input on a backend without stdin', async () => {
+      const backend = await loadMock({ languages: ['php'], name: 'PHP sandbox', capabilities: { stdin: false } });
+
+      const result = await executeWasm('php', '<?php echo 1;', { stdin: '42' });
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain("PHP sandbox can't read stdin");
+      expect(backend.requests).toHaveLength(0);
+      await expect(executeWasm('php', '<?php echo 1;')).resolves.toMatchObject({ exitCode: 0 });
+    });
+
+    it('streams the mock runner\'s output before its result', async () => {
+      await loadMock({
+        languages: ['kotlin'],
+        run: ({ stdin }) => ({ stdout: stdin.toUpperCase(), stderr: 'warn', exitCode: 0, duration: 1 }),
+      });
+      const onOutput = vi.fn();
+
+      const result = await executeWasm('kotlin', 'fun main() {}', { stdin: 'abc', onOutput });
+
+      expect(onOutput.mock.calls.map(([chunk]) => chunk)).toEqual([
+        { stream: 'stdout', text: 'ABC' },
+        { stream: 'stderr', text: 'warn' },
+      ]);
+      expect(result).toEqual({ stdout: 'ABC', stderr: 'warn', exitCode: 0, duration: 1 });
+    });
+
+    it('rejects the run when the mock runner fails', async () => {
+      await loadMock({
+        languages: ['scala'],
+        run: () => {
+          throw new Error('runner down');
+        },
+      });
+
+      await expect(executeWasm('scala', 'object Main')).rejects.toBe('runner down');
+    });
+  });
+});